@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+// Local test client for the inbound SMTP listener. Sends an .eml file, or a
+// plain message built from the options, to SMTP_HOST:SMTP_PORT.
+//
+//   node scripts/send-mail.js message.eml
+//   node scripts/send-mail.js --from "Ana <ana@example.com>" --subject "Sem acesso" --text "Não consigo entrar"
+import fs from 'node:fs/promises'
+import net from 'node:net'
+import { parseArgs } from 'node:util'
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    host: { type: 'string', default: process.env.SMTP_HOST || '127.0.0.1' },
+    port: { type: 'string', default: process.env.SMTP_PORT || '2525' },
+    from: { type: 'string', default: 'Cliente <cliente@example.com>' },
+    to: { type: 'string', default: 'suporte@helpdesk.local' },
+    subject: { type: 'string', default: 'Mensagem de teste' },
+    text: { type: 'string', default: 'Olá, isto é um teste.' },
+    'in-reply-to': { type: 'string' },
+  },
+})
+
+/** @param {string} value */
+const encodeWord = (value) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?utf-8?B?${Buffer.from(value).toString('base64')}?=`
+
+const buildMessage = () =>
+  [
+    `From: ${values.from}`,
+    `To: ${values.to}`,
+    `Subject: ${encodeWord(values.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@send-mail.local>`,
+    ...(values['in-reply-to'] ? [`In-Reply-To: <${values['in-reply-to'].replace(/^<|>$/g, '')}>`] : []),
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    values.text,
+  ].join('\r\n')
+
+const raw = positionals[0] ? await fs.readFile(positionals[0], 'latin1') : Buffer.from(buildMessage()).toString('latin1')
+const sender = values.from.match(/<([^>]+)>/)?.[1] ?? values.from
+
+const socket = net.connect(Number(values.port), values.host)
+socket.setEncoding('utf-8')
+
+// Each step waits for the reply to the previous command
+const steps = [
+  ['220', 'EHLO localhost'],
+  ['250', `MAIL FROM:<${sender}>`],
+  ['250', `RCPT TO:<${values.to}>`],
+  ['250', 'DATA'],
+  ['354', `${raw.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')}\r\n.`],
+  ['250', 'QUIT'],
+  ['221', null],
+]
+let buffer = ''
+socket.on('data', (chunk) => {
+  buffer += chunk
+  // Multiline replies ("250-...") end with a line using a space after the code
+  const lines = buffer.split('\r\n')
+  const complete = lines.slice(0, -1).find((line) => /^\d{3} /.test(line))
+  if (!complete) return
+  buffer = ''
+  const [expected, command] = steps.shift()
+  console.log(`S: ${complete}`)
+  if (!complete.startsWith(expected)) {
+    console.error(`Unexpected reply, expected ${expected}`)
+    socket.end('QUIT\r\n')
+    process.exitCode = 1
+    return
+  }
+  if (command === null) return socket.end()
+  const shown = Buffer.from(command, 'latin1').toString()
+  console.log(`C: ${shown.length > 80 ? `${shown.slice(0, 80)}...` : shown}`)
+  socket.write(Buffer.from(`${command}\r\n`, 'latin1'))
+})
+socket.on('error', (error) => {
+  console.error(`Could not reach ${values.host}:${values.port}: ${error.message}`)
+  process.exitCode = 1
+})
@@ -1,12 +1,39 @@
 import fs from 'node:fs/promises'
+import path from 'node:path'
 import express from 'express'
 import { Transform } from 'node:stream'
+import { TicketsStore } from './server/tickets-store.js'
+import { createTicketsRouter } from './server/tickets-api.js'
+import { createDirectoryRouter } from './server/directory-api.js'
+import { createSlaRouter } from './server/sla-api.js'
+import { createWorkflowRouter } from './server/workflow-api.js'
+import { createViewsRouter } from './server/views-api.js'
+import { createTransferRouter } from './server/transfer-api.js'
+import { SessionsStore, UsersStore, authenticate, createAuthRouter } from './server/auth.js'
+import { MailThreadsStore, createMailIngest, watchMailDrop } from './server/inbound-mail.js'
+import { createSmtpServer } from './server/smtp-server.js'
+import { MailQueue } from './server/mail-queue.js'
+import { createTransportFromEnv } from './server/mail-transport.js'
+import { MailSettingsStore, createNotifier } from './server/notifications.js'
+import { createNotificationsRouter } from './server/notifications-api.js'
+import { TicketEvents } from './server/ticket-events.js'
+import { WebhooksStore, createWebhookListener } from './server/webhooks.js'
+import { createWebhooksRouter } from './server/webhooks-api.js'
+import { LiveUpdates, createLiveRouter } from './server/live-updates.js'
+import { AttachmentsStore } from './server/attachments.js'
+import { createAttachmentsRouter } from './server/attachments-api.js'
 
 // Constants
 const isProduction = process.env.NODE_ENV === 'production'
 const port = process.env.PORT || 5173
 const base = process.env.BASE || '/'
 const ABORT_DELAY = 10000
+const dataDir = process.env.DATA_DIR || './data'
+const mailDropDir = process.env.MAIL_DROP_DIR || path.join(dataDir, 'maildrop')
+const smtpPort = process.env.SMTP_PORT
+const smtpHost = process.env.SMTP_HOST || '127.0.0.1'
+const mailFrom = process.env.MAIL_FROM || 'HelpDesk <suporte@helpdesk.local>'
+const appUrl = process.env.APP_URL || `http://localhost:${port}${base}`
 
 // Cached production assets
 const templateHtml = isProduction
@@ -34,6 +61,132 @@ if (!isProduction) {
   app.use(base, sirv('./dist/client', { extensions: [] }))
 }
 
+// Shared app modules (model, validation) used by both the API and SSR
+/** @returns {Promise<typeof import('./src/entry-server.tsx')>} */
+async function loadServerEntry() {
+  return isProduction
+    ? await import('./dist/server/entry-server.js')
+    : await vite.ssrLoadModule('/src/entry-server.tsx')
+}
+
+/**
+ * Serializes state for a `<script type="application/json">` tag, escaping
+ * everything that could close the tag or break out of the JSON.
+ * @param {unknown} state
+ */
+function serializeState(state) {
+  return JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+}
+
+// Sessions and accounts
+const users = new UsersStore(path.join(dataDir, 'users.json'))
+const sessions = new SessionsStore(path.join(dataDir, 'sessions.json'))
+app.use(authenticate({ users, sessions }))
+app.use(`${base}api/auth`, createAuthRouter({ users, sessions }))
+
+// Tickets REST API
+const ticketsStore = new TicketsStore(path.join(dataDir, 'tickets.json'), {
+  loadEntry: loadServerEntry,
+})
+
+// Outgoing e-mail: ticket activity is rendered from templates into a durable queue
+const mailThreads = new MailThreadsStore(path.join(dataDir, 'mail-threads.json'))
+const mailSettings = new MailSettingsStore(path.join(dataDir, 'mail-settings.json'), { loadEntry: loadServerEntry })
+const mailQueue = new MailQueue(path.join(dataDir, 'mail-queue.json'), createTransportFromEnv(process.env, dataDir))
+mailQueue.start()
+
+// Webhooks: signed JSON deliveries to endpoints registered by admins
+const webhooks = new WebhooksStore(path.join(dataDir, 'webhooks.json'))
+webhooks.start()
+
+// Ticket activity fans out to e-mail notifications and webhooks
+const ticketEvents = new TicketEvents()
+ticketEvents.subscribe(createNotifier({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+  users,
+  threads: mailThreads,
+  settings: mailSettings,
+  queue: mailQueue,
+  from: mailFrom,
+  appUrl,
+}))
+ticketEvents.subscribe(createWebhookListener(webhooks))
+
+// Live updates: every open page hears about ticket changes as they are saved
+const live = new LiveUpdates({ loadEntry: loadServerEntry })
+ticketEvents.subscribe(live.listener())
+app.use(`${base}api/live`, createLiveRouter({ live }))
+
+// Attachments: files on local disk, removed along with their ticket
+const attachments = new AttachmentsStore(path.join(dataDir, 'attachments'), path.join(dataDir, 'attachments.json'))
+ticketEvents.subscribe(attachments.listener())
+app.use(`${base}api/attachments`, createAttachmentsRouter({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+  attachments,
+}))
+
+app.use(`${base}api/tickets`, createTicketsRouter({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+  events: ticketEvents,
+  attachments,
+}))
+app.use(`${base}api/directory`, createDirectoryRouter({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+  events: ticketEvents,
+}))
+app.use(`${base}api/sla-policies`, createSlaRouter({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+}))
+app.use(`${base}api/workflow`, createWorkflowRouter({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+}))
+app.use(`${base}api/views`, createViewsRouter({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+}))
+app.use(`${base}api/transfer`, createTransferRouter({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+  dataDir,
+  events: ticketEvents,
+}))
+app.use(`${base}api/notifications`, createNotificationsRouter({
+  loadEntry: loadServerEntry,
+  settings: mailSettings,
+  queue: mailQueue,
+}))
+app.use(`${base}api/webhooks`, createWebhooksRouter({
+  loadEntry: loadServerEntry,
+  webhooks,
+}))
+
+// Inbound mail: .eml files dropped in a directory, and optionally an SMTP listener
+const ingestMail = createMailIngest({
+  store: ticketsStore,
+  loadEntry: loadServerEntry,
+  users,
+  threads: mailThreads,
+  events: ticketEvents,
+  attachments,
+})
+watchMailDrop(mailDropDir, ingestMail)
+if (smtpPort) {
+  createSmtpServer({ onMessage: ingestMail }).listen(Number(smtpPort), smtpHost, () => {
+    console.log(`SMTP listener at ${smtpHost}:${smtpPort}`)
+  })
+}
+
 // Serve HTML
 app.use('*all', async (req, res) => {
   try {
@@ -47,25 +200,119 @@ app.use('*all', async (req, res) => {
       // Always read fresh template in development
       template = await fs.readFile('./index.html', 'utf-8')
       template = await vite.transformIndexHtml(url, template)
-      render = (await vite.ssrLoadModule('/src/entry-server.tsx')).render
     } else {
       template = templateHtml
-      render = (await import('./dist/server/entry-server.js')).render
+    }
+    const entry = await loadServerEntry()
+    render = entry.render
+
+    // Everything but the login page needs a session, and signed-in users skip the login page
+    const user = req.user
+    const route = entry.parseRoute(url)
+    if (!user && route.view !== 'login') {
+      res.redirect(302, `${base}login?next=${encodeURIComponent(req.originalUrl)}`)
+      return
+    }
+    if (user && route.view === 'login') {
+      res.redirect(302, base)
+      return
+    }
+
+    // Taken before reading the data, so the page replays anything saved in between
+    const liveEventId = live.lastEventId()
+    const model = await ticketsStore.model()
+    const audience = entry.audienceFor(user)
+    /** @param {import('./src/App.tsx').Ticket} ticket */
+    const visible = (ticket) => !!user && entry.canAccessTicket(user, ticket)
+
+    // Only what the page shows: the list's first page, the board's cells, the summary or the ticket opened
+    /** @type {import('./src/App.tsx').Ticket[]} */
+    let tickets = []
+    /** @type {import('./src/App.tsx').LoadedTicketList | undefined} */
+    let ticketList
+    /** @type {import('./src/App.tsx').LoadedBoard | undefined} */
+    let board
+    /** @type {import('./src/App.tsx').TicketSummary | undefined} */
+    let summary
+    if (user && entry.routeNeedsSummary(route)) {
+      summary = entry.redactTicketSummary(model.getSummary({ visible }), audience)
+    } else if (user && route.view === 'board') {
+      // The board opens without swimlanes
+      const { tickets: cards, ...cells } = model.getBoard('none', { visible })
+      tickets = cards
+      board = { ...cells, ticketIds: cards.map((ticket) => ticket.id) }
+    } else if (user && (route.view === 'tickets' || route.view === 'new')) {
+      // The new-ticket form opens over the unfiltered list
+      const { query, sort } = entry.effectiveTicketList(route.view === 'tickets' ? route : { query: '', sort: '' })
+      const page = model.queryTicketPage(query, {
+        audience,
+        sort: entry.parseTicketSort(sort) ?? undefined,
+        visible,
+        scope: user.id,
+      })
+      tickets = page.tickets
+      ticketList = { query, sort, ticketIds: page.tickets.map((ticket) => ticket.id), total: page.total, nextCursor: page.nextCursor }
+    }
+    const openedId = entry.getRouteTicketId(route)
+    const opened = openedId ? model.getTicketById(openedId) : null
+    if (opened && visible(opened) && !tickets.includes(opened)) tickets = [...tickets, opened]
+
+    /** @type {import('./src/App.tsx').InitialState} */
+    const initialState = {
+      data: {
+        tickets: tickets.map((ticket) => entry.redactTicket(ticket, audience)),
+        agents: user ? model.getAgents().map((agent) => entry.redactAgent(agent, audience)) : [],
+        teams: user ? model.getTeams() : [],
+        slaPolicies: user ? model.getSlaPolicies() : [],
+        workflow: model.getWorkflow(),
+        savedViews: user
+          ? model
+            .getSavedViews()
+            .filter((view) => entry.canSeeSavedView(user, view))
+            .map((view) => entry.redactSavedView(view, user))
+          : [],
+      },
+      ...(ticketList ? { ticketList } : {}),
+      ...(board ? { board } : {}),
+      ...(summary ? { summary } : {}),
+      currentUser: user,
+      liveEventId,
+    }
+
+    // Unknown paths and ticket IDs get a real 404 instead of a client-side empty state
+    let status = 200
+    const ticketId = entry.getRouteTicketId(route)
+    if (
+      route.view === 'not-found' ||
+      (route.view === 'directory' && !entry.can(user, 'manageDirectory')) ||
+      (route.view === 'sla' && !entry.can(user, 'manageSla')) ||
+      (route.view === 'workflow' && !entry.can(user, 'manageWorkflow')) ||
+      (route.view === 'import' && !entry.can(user, 'importTickets')) ||
+      (route.view === 'notifications' && !entry.can(user, 'manageNotifications')) ||
+      (route.view === 'webhooks' && !entry.can(user, 'manageWebhooks')) ||
+      (ticketId && !initialState.data.tickets.some((ticket) => ticket.id === ticketId))
+    ) {
+      status = 404
     }
 
     let didError = false
 
-    const { pipe, abort } = render(url, {
+    const { pipe, abort } = render(url, initialState, {
       onShellError() {
         res.status(500)
         res.set({ 'Content-Type': 'text/html' })
         res.send('<h1>Something went wrong</h1>')
       },
       onShellReady() {
-        res.status(didError ? 500 : 200)
+        res.status(didError ? 500 : status)
         res.set({ 'Content-Type': 'text/html' })
 
-        const [htmlStart, htmlEnd] = template.split(`<!--app-html-->`)
+        const [htmlStart, htmlEnd] = template
+          .replace(
+            `<!--app-state-->`,
+            () => `<script id="app-state" type="application/json">${serializeState(initialState)}</script>`,
+          )
+          .split(`<!--app-html-->`)
 
         const transformStream = new Transform({
           transform(chunk, encoding, callback) {
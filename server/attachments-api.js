@@ -0,0 +1,156 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+import { Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+import { ATTACHMENT_ID, SIGNATURE_LENGTH, matchesSignature } from './attachments.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+/** @typedef {import('../src/App.tsx').User} User */
+/** @typedef {import('./attachments.js').StoredAttachment} StoredAttachment */
+
+/**
+ * Upload and download of ticket attachments. Uploads are the raw file as the
+ * request body (`?name=` gives the file name); the file is then attached by
+ * naming its ID when creating a ticket or comment.
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ *   attachments: import('./attachments.js').AttachmentsStore,
+ * }} options
+ */
+export function createAttachmentsRouter({ store, loadEntry, attachments }) {
+  const router = express.Router()
+  router.use(requireUser)
+
+  /**
+   * Files follow the ticket's access rules, and files on internal notes are
+   * for agents only. Unlinked uploads are visible to their uploader alone.
+   * @param {ServerEntry} entry
+   * @param {User} user
+   * @param {StoredAttachment} attachment
+   */
+  const mayRead = async (entry, user, attachment) => {
+    if (!attachment.ticketId) return attachment.uploaderId === user.id
+    const model = await store.model()
+    const ticket = model.getTicketById(attachment.ticketId)
+    if (!ticket || !entry.canAccessTicket(user, ticket)) return false
+    if (!attachment.commentId) return true
+    const comment = ticket.comments.find((other) => other.id === attachment.commentId)
+    return !!comment && (!comment.isInternal || entry.audienceFor(user) === 'agent')
+  }
+
+  /**
+   * @param {import('express').Request} req
+   * @param {string} id
+   */
+  const findReadable = async (req, id) => {
+    const entry = await loadEntry()
+    const attachment = ATTACHMENT_ID.test(id) ? await attachments.find(id) : null
+    if (!attachment || !(await mayRead(entry, req.user, attachment))) {
+      throw new HttpError(404, 'Anexo não encontrado')
+    }
+    return attachment
+  }
+
+  /**
+   * The length is required up front so oversized files are turned away
+   * before they are read.
+   */
+  router.post('/', async (req, res) => {
+    const entry = await loadEntry()
+    const { name } = req.query
+    const declared = Number(req.get('Content-Length'))
+    if (typeof name !== 'string') throw new HttpError(400, 'Informe o nome do arquivo')
+    if (!Number.isInteger(declared)) throw new HttpError(411, 'Informe o tamanho do arquivo')
+    if (declared > entry.MAX_ATTACHMENT_BYTES) {
+      throw new HttpError(413, `O arquivo excede ${entry.formatFileSize(entry.MAX_ATTACHMENT_BYTES)}`)
+    }
+    const errors = entry.validateAttachmentFile(name, declared)
+    if (errors.length > 0) throw new HttpError(400, 'Arquivo inválido', errors)
+    const type = /** @type {string} */ (entry.attachmentTypeFor(name))
+
+    await attachments.sweep()
+    await fsp.mkdir(attachments.dir, { recursive: true })
+    const id = `attachment_${crypto.randomUUID()}`
+    const tempFile = `${attachments.contentPath(id)}.part`
+    const hash = crypto.createHash('sha256')
+    let size = 0
+    let head = Buffer.alloc(0)
+    const measure = new Transform({
+      transform(chunk, _encoding, callback) {
+        size += chunk.length
+        if (size > declared) {
+          callback(new HttpError(400, 'Arquivo inválido', ['O arquivo é maior que o tamanho informado']))
+          return
+        }
+        hash.update(chunk)
+        if (head.length < SIGNATURE_LENGTH) head = Buffer.concat([head, chunk]).subarray(0, SIGNATURE_LENGTH)
+        callback(null, chunk)
+      },
+    })
+    try {
+      await pipeline(req, measure, fs.createWriteStream(tempFile))
+      if (size === 0) throw new HttpError(400, 'Arquivo inválido', [`Arquivo vazio: ${name}`])
+      if (!matchesSignature(type, head)) {
+        throw new HttpError(400, 'Arquivo inválido', [`O conteúdo de ${name} não corresponde ao tipo do arquivo`])
+      }
+      /** @type {import('../src/App.tsx').Attachment} */
+      const attachment = {
+        id,
+        name,
+        type,
+        size,
+        checksum: hash.digest('hex'),
+        uploadedAt: Date.now(),
+        uploaderId: req.user.id,
+      }
+      res.status(201).json(await attachments.add(attachment, tempFile))
+    } catch (error) {
+      await fsp.rm(tempFile, { force: true })
+      throw error
+    }
+  })
+
+  /**
+   * Images are served inline for previews; everything else, and images with
+   * `?download`, as a download.
+   */
+  router.get('/:id', async (req, res) => {
+    const attachment = await findReadable(req, req.params.id)
+    const inline = attachment.type.startsWith('image/') && req.query.download === undefined
+    res.set({
+      'Content-Type': attachment.type,
+      'Content-Length': String(attachment.size),
+      'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      // Served as exactly the checked type, and never run as a page
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': "default-src 'none'; sandbox",
+      // Files never change once uploaded
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      ETag: `"${attachment.checksum}"`,
+    })
+    if (req.fresh) {
+      res.status(304).end()
+      return
+    }
+    await pipeline(fs.createReadStream(attachments.contentPath(attachment.id)), res)
+  })
+
+  router.delete('/:id', async (req, res) => {
+    const { id } = req.params
+    if (!ATTACHMENT_ID.test(id) || !(await attachments.discard(id, req.user.id))) {
+      throw new HttpError(404, 'Anexo não encontrado')
+    }
+    res.status(204).end()
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
@@ -0,0 +1,210 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { TaskQueue, readJsonFile, writeJsonFile } from './json-file.js'
+
+/** @typedef {import('../src/App.tsx').Attachment} Attachment */
+/**
+ * Where an upload ended up; neither is set until a ticket or comment claims it.
+ * @typedef {Attachment & { ticketId?: string, commentId?: string }} StoredAttachment
+ */
+
+export const ATTACHMENT_ID = /^attachment_[0-9a-f-]{36}$/
+// Uploads nobody attached to anything are removed after a day
+const UNLINKED_TTL = 24 * 60 * 60 * 1000
+
+/**
+ * How each binary type must start, so a renamed file can't pass for another
+ * type. Text types have no signature.
+ * @type {Record<string, (head: Buffer) => boolean>}
+ */
+const SIGNATURES = {
+  'image/png': (head) => head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/jpeg': (head) => head.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  'image/gif': (head) => ['GIF87a', 'GIF89a'].includes(head.subarray(0, 6).toString('latin1')),
+  'image/webp': (head) => head.subarray(0, 4).toString('latin1') === 'RIFF' && head.subarray(8, 12).toString('latin1') === 'WEBP',
+  'application/pdf': (head) => head.subarray(0, 5).toString('latin1') === '%PDF-',
+  'application/zip': (head) => head.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])),
+}
+// Office documents are zip archives
+SIGNATURES['application/vnd.openxmlformats-officedocument.wordprocessingml.document'] = SIGNATURES['application/zip']
+SIGNATURES['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'] = SIGNATURES['application/zip']
+
+/** Bytes `matchesSignature` needs to see */
+export const SIGNATURE_LENGTH = 12
+
+/**
+ * @param {string} type
+ * @param {Buffer} head the first SIGNATURE_LENGTH bytes of the file
+ */
+export function matchesSignature(type, head) {
+  return SIGNATURES[type]?.(head) ?? true
+}
+
+/**
+ * Uploaded files, stored as `<dir>/<id>` with their metadata in one JSON
+ * file. A file is uploaded on its own first and linked to a ticket or
+ * comment when that is saved; files never linked are swept after a day.
+ */
+export class AttachmentsStore {
+  /**
+   * @param {string} dir
+   * @param {string} filePath
+   */
+  constructor(dir, filePath) {
+    this.dir = dir
+    this.filePath = filePath
+    /** @type {{ attachments: StoredAttachment[] } | undefined} */
+    this.data = undefined
+    this.queue = new TaskQueue()
+    /** IDs claimed by a request that hasn't linked them yet */
+    this.reserved = new Set()
+  }
+
+  async read() {
+    if (!this.data) this.data = await readJsonFile(this.filePath, { attachments: [] })
+    return /** @type {NonNullable<AttachmentsStore['data']>} */ (this.data)
+  }
+
+  /**
+   * @template T
+   * @param {(data: NonNullable<AttachmentsStore['data']>) => T | Promise<T>} fn
+   * @returns {Promise<T>}
+   */
+  update(fn) {
+    return this.queue.run(async () => {
+      const data = await this.read()
+      const result = await fn(data)
+      await writeJsonFile(this.filePath, data)
+      return result
+    })
+  }
+
+  /** @param {string} id */
+  contentPath(id) {
+    if (!ATTACHMENT_ID.test(id)) throw new Error(`Invalid attachment ID: ${id}`)
+    return path.join(this.dir, id)
+  }
+
+  /**
+   * @param {string} id
+   * @returns {Promise<StoredAttachment | null>}
+   */
+  async find(id) {
+    return (await this.read()).attachments.find((attachment) => attachment.id === id) ?? null
+  }
+
+  /**
+   * Moves a fully written upload into place and records it, unlinked.
+   * @param {Attachment} attachment
+   * @param {string} tempFile
+   */
+  add(attachment, tempFile) {
+    return this.update(async (data) => {
+      await fs.rename(tempFile, this.contentPath(attachment.id))
+      data.attachments.push(attachment)
+      return attachment
+    })
+  }
+
+  /**
+   * Stores a file that arrived whole, such as an e-mail attachment, reserved
+   * for the caller to link as if it had been claimed.
+   * @param {Attachment} attachment
+   * @param {Buffer} content
+   */
+  async save(attachment, content) {
+    const tempFile = `${this.contentPath(attachment.id)}.part`
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.writeFile(tempFile, content)
+    this.reserved.add(attachment.id)
+    return this.add(attachment, tempFile)
+  }
+
+  /**
+   * Reserves the uploads in `ids` for the caller, all or none: they must be
+   * `uploaderId`'s and not linked or reserved yet. Reserved uploads can't be
+   * claimed again, discarded or swept until they are linked or released.
+   * @param {string[]} ids
+   * @param {string} uploaderId
+   * @returns {Promise<Attachment[] | null>} null if any of them can't be claimed
+   */
+  claim(ids, uploaderId) {
+    return this.queue.run(async () => {
+      const { attachments } = await this.read()
+      const claimed = ids.flatMap((id) => {
+        const found = attachments.find((attachment) => attachment.id === id)
+        if (!found || found.uploaderId !== uploaderId || found.ticketId || this.reserved.has(id)) return []
+        const { ticketId, commentId, ...attachment } = found
+        return [attachment]
+      })
+      if (claimed.length !== ids.length) return null
+      ids.forEach((id) => this.reserved.add(id))
+      return claimed
+    })
+  }
+
+  /**
+   * Gives back claimed uploads whose ticket or comment was never saved.
+   * @param {Attachment[]} attachments
+   */
+  release(attachments) {
+    attachments.forEach((attachment) => this.reserved.delete(attachment.id))
+  }
+
+  /**
+   * @param {Attachment[]} attachments
+   * @param {string} ticketId
+   * @param {string} [commentId]
+   */
+  link(attachments, ticketId, commentId) {
+    const ids = new Set(attachments.map((attachment) => attachment.id))
+    return this.update((data) => {
+      data.attachments = data.attachments.map((attachment) =>
+        ids.has(attachment.id) ? { ...attachment, ticketId, ...(commentId ? { commentId } : {}) } : attachment)
+      this.release(attachments)
+    })
+  }
+
+  /**
+   * Drops records matching `predicate` along with their files.
+   * @param {(attachment: StoredAttachment) => boolean} predicate
+   */
+  removeWhere(predicate) {
+    return this.update(async (data) => {
+      const removed = data.attachments.filter(predicate)
+      data.attachments = data.attachments.filter((attachment) => !predicate(attachment))
+      await Promise.all(removed.map((attachment) => fs.rm(this.contentPath(attachment.id), { force: true })))
+      return removed.length
+    })
+  }
+
+  /**
+   * An upload its uploader changed their mind about, before it was attached.
+   * @param {string} id
+   * @param {string} uploaderId
+   */
+  async discard(id, uploaderId) {
+    return (await this.removeWhere((attachment) =>
+      attachment.id === id && attachment.uploaderId === uploaderId && !attachment.ticketId && !this.reserved.has(id))) > 0
+  }
+
+  /** @param {string} ticketId */
+  removeTicket(ticketId) {
+    return this.removeWhere((attachment) => attachment.ticketId === ticketId)
+  }
+
+  sweep() {
+    return this.removeWhere((attachment) =>
+      !attachment.ticketId && !this.reserved.has(attachment.id) && Date.now() - attachment.uploadedAt > UNLINKED_TTL)
+  }
+
+  /**
+   * Deleting a ticket deletes its files.
+   * @returns {import('./ticket-events.js').TicketActivityListener}
+   */
+  listener() {
+    return async (activity) => {
+      if (activity.type === 'deleted') await this.removeTicket(activity.ticket.id)
+    }
+  }
+}
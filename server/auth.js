@@ -0,0 +1,241 @@
+import crypto from 'node:crypto'
+import { promisify } from 'node:util'
+import express from 'express'
+import { HttpError, handleApiError } from './http-error.js'
+import { TaskQueue, readJsonFile, writeJsonFile } from './json-file.js'
+
+const scrypt = /** @type {(password: string, salt: string, keylen: number) => Promise<Buffer>} */ (
+  promisify(crypto.scrypt)
+)
+
+const SESSION_COOKIE = 'hd_session'
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000
+
+/** @typedef {import('../src/App.tsx').User} User */
+/** @typedef {User & { passwordHash: string }} StoredUser */
+/** @typedef {{ tokenHash: string, userId: string, createdAt: number, expiresAt: number }} Session */
+
+// Demo accounts created the first time the server starts with an empty data directory
+const SEED_USERS = [
+  { id: 'user_admin', name: 'Administrador', email: 'admin@helpdesk.local', role: 'admin', password: 'admin123' },
+  { id: 'user_agent', name: 'Suporte Técnico', email: 'suporte@helpdesk.local', role: 'agent', password: 'suporte123' },
+  { id: 'user_joao', name: 'João Silva', email: 'joao@example.com', role: 'requester', password: 'cliente123' },
+]
+
+/** @param {string} password */
+export async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex')
+  const hash = await scrypt(password, salt, 64)
+  return `scrypt$${salt}$${hash.toString('hex')}`
+}
+
+/**
+ * @param {string} password
+ * @param {string} passwordHash
+ */
+export async function verifyPassword(password, passwordHash) {
+  const [scheme, salt, expected] = passwordHash.split('$')
+  if (scheme !== 'scrypt' || !salt || !expected) return false
+  const actual = await scrypt(password, salt, 64)
+  const expectedBuffer = Buffer.from(expected, 'hex')
+  return expectedBuffer.length === actual.length && crypto.timingSafeEqual(expectedBuffer, actual)
+}
+
+/**
+ * @param {StoredUser} user
+ * @returns {User}
+ */
+export function toPublicUser({ id, name, email, role }) {
+  return { id, name, email, role }
+}
+
+/** @param {string} token */
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex')
+
+/** @param {string | undefined} header */
+function parseCookies(header) {
+  /** @type {Record<string, string>} */
+  const cookies = {}
+  for (const part of (header ?? '').split(';')) {
+    const index = part.indexOf('=')
+    if (index === -1) continue
+    const name = part.slice(0, index).trim()
+    try {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim())
+    } catch {
+      // Ignore malformed cookies instead of rejecting the request
+    }
+  }
+  return cookies
+}
+
+export class UsersStore {
+  /** @param {string} filePath */
+  constructor(filePath) {
+    this.filePath = filePath
+    /** @type {StoredUser[] | undefined} */
+    this.users = undefined
+    this.queue = new TaskQueue()
+  }
+
+  /** @returns {Promise<StoredUser[]>} */
+  async list() {
+    if (!this.users) {
+      // Concurrent first calls wait in the queue, so the file is only read or seeded once
+      await this.queue.run(async () => {
+        if (this.users) return
+        const data = await readJsonFile(this.filePath, null)
+        if (data) {
+          this.users = data.users
+          return
+        }
+        this.users = await Promise.all(
+          SEED_USERS.map(async ({ password, ...user }) => ({
+            ...user,
+            passwordHash: await hashPassword(password),
+          })),
+        )
+        await writeJsonFile(this.filePath, { users: this.users })
+        console.log(`Seeded demo users in ${this.filePath}`)
+      })
+    }
+    return /** @type {StoredUser[]} */ (this.users)
+  }
+
+  /** @param {string} id */
+  async findById(id) {
+    return (await this.list()).find((user) => user.id === id) ?? null
+  }
+
+  /** @param {string} email */
+  async findByEmail(email) {
+    const normalized = email.trim().toLowerCase()
+    return (await this.list()).find((user) => user.email.toLowerCase() === normalized) ?? null
+  }
+}
+
+export class SessionsStore {
+  /** @param {string} filePath */
+  constructor(filePath) {
+    this.filePath = filePath
+    /** @type {Session[] | undefined} */
+    this.sessions = undefined
+    this.queue = new TaskQueue()
+  }
+
+  /** @returns {Promise<Session[]>} */
+  async load() {
+    if (!this.sessions) {
+      this.sessions = (await readJsonFile(this.filePath, { sessions: [] })).sessions
+    }
+    return /** @type {Session[]} */ (this.sessions)
+  }
+
+  /**
+   * @param {(sessions: Session[]) => Session[]} mutator
+   */
+  save(mutator) {
+    return this.queue.run(async () => {
+      const now = Date.now()
+      this.sessions = mutator(await this.load()).filter((session) => session.expiresAt > now)
+      await writeJsonFile(this.filePath, { sessions: this.sessions })
+    })
+  }
+
+  /**
+   * Opens a session and returns the raw token; only its hash is stored.
+   * @param {string} userId
+   */
+  async create(userId) {
+    const token = crypto.randomBytes(32).toString('hex')
+    const now = Date.now()
+    await this.save((sessions) => [
+      ...sessions,
+      { tokenHash: hashToken(token), userId, createdAt: now, expiresAt: now + SESSION_TTL },
+    ])
+    return token
+  }
+
+  /** @param {string} token */
+  async find(token) {
+    const tokenHash = hashToken(token)
+    const session = (await this.load()).find((s) => s.tokenHash === tokenHash)
+    return session && session.expiresAt > Date.now() ? session : null
+  }
+
+  /** @param {string} token */
+  async destroy(token) {
+    const tokenHash = hashToken(token)
+    await this.save((sessions) => sessions.filter((s) => s.tokenHash !== tokenHash))
+  }
+}
+
+/**
+ * Resolves the session cookie into `req.user`, leaving it `null` for anonymous requests.
+ * @param {{ users: UsersStore, sessions: SessionsStore }} stores
+ * @returns {import('express').RequestHandler}
+ */
+export function authenticate({ users, sessions }) {
+  return async (req, _res, next) => {
+    req.user = null
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE]
+    if (token) {
+      const session = await sessions.find(token)
+      const user = session && (await users.findById(session.userId))
+      if (user) req.user = toPublicUser(user)
+    }
+    next()
+  }
+}
+
+/** @type {import('express').RequestHandler} */
+export function requireUser(req, _res, next) {
+  if (!req.user) throw new HttpError(401, 'Faça login para continuar')
+  next()
+}
+
+/**
+ * Login, logout and current-user endpoints.
+ * @param {{ users: UsersStore, sessions: SessionsStore }} options
+ */
+export function createAuthRouter({ users, sessions }) {
+  const router = express.Router()
+  router.use(express.json())
+
+  router.post('/login', async (req, res) => {
+    const { email, password } = req.body ?? {}
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      throw new HttpError(400, 'Informe e-mail e senha')
+    }
+
+    const user = await users.findByEmail(email)
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new HttpError(401, 'E-mail ou senha inválidos')
+    }
+
+    const token = await sessions.create(user.id)
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      maxAge: SESSION_TTL,
+      path: '/',
+    })
+    res.json(toPublicUser(user))
+  })
+
+  router.post('/logout', async (req, res) => {
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE]
+    if (token) await sessions.destroy(token)
+    res.clearCookie(SESSION_COOKIE, { path: '/' })
+    res.status(204).end()
+  })
+
+  router.get('/me', requireUser, (req, res) => {
+    res.json(req.user)
+  })
+
+  router.use(handleApiError)
+
+  return router
+}
@@ -0,0 +1,31 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { UsersStore } from './auth.js'
+
+describe('UsersStore', () => {
+  /** @type {string} */
+  let dir
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-store-'))
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('seeds the demo users once when the first requests arrive together', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    const filePath = path.join(dir, 'users.json')
+    const store = new UsersStore(filePath)
+
+    const [first, second] = await Promise.all([store.list(), store.findByEmail('admin@helpdesk.local')])
+
+    expect(log).toHaveBeenCalledTimes(1)
+    expect(second).toBe(first.find((user) => user.email === 'admin@helpdesk.local'))
+    expect(JSON.parse(await fs.readFile(filePath, 'utf-8')).users).toEqual(first)
+  })
+})
@@ -0,0 +1,173 @@
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+/** @typedef {InstanceType<ServerEntry['TicketsModel']>} Model */
+
+/**
+ * Agents and teams tickets can be assigned to. Everyone signed in can read
+ * the directory so assignee names resolve, requesters without agents'
+ * contact details; only admins change it.
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ *   events: import('./ticket-events.js').TicketEvents,
+ * }} options
+ */
+export function createDirectoryRouter({ store, loadEntry, events }) {
+  const router = express.Router()
+  router.use(express.json({ limit: '1mb' }))
+  router.use(requireUser)
+
+  /** @param {Model} model */
+  const directoryOf = (model) => ({ agents: model.getAgents(), teams: model.getTeams() })
+
+  /**
+   * Same contract as the tickets router: build a model, run `fn`, persist.
+   * @template T
+   * @param {(model: Model, entry: ServerEntry) => T} fn
+   * @returns {Promise<T>}
+   */
+  const mutate = async (fn) => {
+    const entry = await loadEntry()
+    return store.update((data) => {
+      const model = new entry.TicketsModel(data ?? undefined)
+      const result = fn(model, entry)
+      return { data: model.getData(), result }
+    })
+  }
+
+  /** @type {import('express').RequestHandler} */
+  const requireAdmin = async (req, _res, next) => {
+    const entry = await loadEntry()
+    if (!entry.can(req.user, 'manageDirectory')) {
+      next(new HttpError(403, 'Somente administradores podem gerenciar equipes e agentes'))
+      return
+    }
+    next()
+  }
+
+  /** @param {Record<string, any>} body */
+  const pickTeam = (body) => ({
+    name: typeof body.name === 'string' ? body.name.trim() : body.name,
+    description: body.description ?? '',
+  })
+
+  /**
+   * @param {Record<string, any>} body
+   * @param {Model} model
+   */
+  const pickAgent = (body, model) => {
+    const agent = {
+      name: typeof body.name === 'string' ? body.name.trim() : body.name,
+      email: body.email ?? '',
+      teamIds: body.teamIds ?? [],
+    }
+    if (Array.isArray(agent.teamIds) && agent.teamIds.some((id) => !model.getTeams().some((t) => t.id === id))) {
+      throw new HttpError(400, 'Agente inválido', ['Equipe não encontrada'])
+    }
+    return agent
+  }
+
+  router.get('/', async (req, res) => {
+    const entry = await loadEntry()
+    const model = await store.model()
+    const { agents, teams } = directoryOf(model)
+    const audience = entry.audienceFor(req.user)
+    res.json({ agents: agents.map((agent) => entry.redactAgent(agent, audience)), teams })
+  })
+
+  router.post('/teams', requireAdmin, async (req, res) => {
+    const directory = await mutate((model, entry) => {
+      const input = pickTeam(req.body ?? {})
+      const errors = entry.validateTeamInput(input)
+      if (errors.length > 0) throw new HttpError(400, 'Equipe inválida', errors)
+      model.createTeam(input)
+      return directoryOf(model)
+    })
+    res.status(201).json(directory)
+  })
+
+  router.put('/teams/:id', requireAdmin, async (req, res) => {
+    const directory = await mutate((model, entry) => {
+      const input = pickTeam(req.body ?? {})
+      const errors = entry.validateTeamInput(input)
+      if (errors.length > 0) throw new HttpError(400, 'Equipe inválida', errors)
+      if (!model.updateTeam(req.params.id, input)) throw new HttpError(404, 'Equipe não encontrada')
+      return directoryOf(model)
+    })
+    res.json(directory)
+  })
+
+  router.delete('/teams/:id', requireAdmin, async (req, res) => {
+    const directory = await mutate((model) => {
+      if (!model.getTeams().some((team) => team.id === req.params.id)) {
+        throw new HttpError(404, 'Equipe não encontrada')
+      }
+      if (!model.deleteTeam(req.params.id)) {
+        throw new HttpError(409, 'A equipe ainda tem tickets atribuídos; reatribua-os antes de excluir')
+      }
+      return directoryOf(model)
+    })
+    res.json(directory)
+  })
+
+  router.post('/agents', requireAdmin, async (req, res) => {
+    const directory = await mutate((model, entry) => {
+      const input = pickAgent(req.body ?? {}, model)
+      const errors = entry.validateAgentInput(input)
+      if (errors.length > 0) throw new HttpError(400, 'Agente inválido', errors)
+      model.createAgent(input)
+      return directoryOf(model)
+    })
+    res.status(201).json(directory)
+  })
+
+  router.put('/agents/:id', requireAdmin, async (req, res) => {
+    const directory = await mutate((model, entry) => {
+      const input = pickAgent(req.body ?? {}, model)
+      const errors = entry.validateAgentInput(input)
+      if (errors.length > 0) throw new HttpError(400, 'Agente inválido', errors)
+      if (!model.updateAgent(req.params.id, input)) throw new HttpError(404, 'Agente não encontrado')
+      return directoryOf(model)
+    })
+    res.json(directory)
+  })
+
+  router.delete('/agents/:id', requireAdmin, async (req, res) => {
+    const directory = await mutate((model) => {
+      if (!model.getAgents().some((agent) => agent.id === req.params.id)) {
+        throw new HttpError(404, 'Agente não encontrado')
+      }
+      if (!model.deleteAgent(req.params.id)) {
+        throw new HttpError(409, 'O agente ainda tem tickets atribuídos; reatribua-os antes de excluir')
+      }
+      return directoryOf(model)
+    })
+    res.json(directory)
+  })
+
+  // Points every ticket whose free-text assignee matches `name` at a directory entry
+  router.post('/legacy-assignees', requireAdmin, async (req, res) => {
+    const user = req.user
+    const tickets = await mutate((model) => {
+      const { name, assigneeId } = req.body ?? {}
+      if (typeof name !== 'string' || !name.trim()) {
+        throw new HttpError(400, 'Nome do responsável é obrigatório')
+      }
+      if (typeof assigneeId !== 'string' || !model.getAssignee(assigneeId)) {
+        throw new HttpError(400, 'Responsável não encontrado')
+      }
+      return model.mapLegacyAssignee(name, assigneeId, user.name)
+    })
+    for (const ticket of tickets) await events.publish({ type: 'updated', ticket, changes: ['assigneeId'], actor: user })
+    res.json({ updated: tickets.length })
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
@@ -0,0 +1,32 @@
+export class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   * @param {string[]} [details]
+   * @param {Record<string, unknown>} [extra] more fields for the response body
+   */
+  constructor(status, message, details = [], extra = {}) {
+    super(message)
+    this.status = status
+    this.details = details
+    this.extra = extra
+  }
+}
+
+/**
+ * Error handler shared by the API routers: every failure is answered as
+ * `{ error, details }` JSON, plus whatever `extra` an HttpError carries.
+ * @type {import('express').ErrorRequestHandler}
+ */
+export function handleApiError(error, _req, res, _next) {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ ...error.extra, error: error.message, details: error.details })
+    return
+  }
+  if (error.type === 'entity.parse.failed') {
+    res.status(400).json({ error: 'JSON inválido', details: [] })
+    return
+  }
+  console.error(error)
+  res.status(500).json({ error: 'Erro interno do servidor', details: [] })
+}
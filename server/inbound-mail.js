@@ -0,0 +1,311 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { parseMessage } from './mime.js'
+import { TaskQueue, readJsonFile, writeJsonFile } from './json-file.js'
+import { SIGNATURE_LENGTH, matchesSignature } from './attachments.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+/** @typedef {import('./mime.js').MailMessage} MailMessage */
+/** @typedef {import('../src/App.tsx').Attachment} Attachment */
+
+// How often the drop directory is scanned, and how long a file must sit untouched first
+const DROP_POLL_INTERVAL = 5000
+const DROP_SETTLE_TIME = 1000
+
+/**
+ * Subject tag that threads replies back to a ticket, e.g. "[#ticket_1]".
+ * @param {string} ticketId
+ */
+export function ticketReference(ticketId) {
+  return `[#${ticketId}]`
+}
+
+/** @param {string} subject */
+function findTicketReference(subject) {
+  return subject.match(/\[#(ticket_[A-Za-z0-9_]+)\]/)?.[1] ?? null
+}
+
+/**
+ * Message-ID for mail the help desk sends about a ticket; replies quote it in
+ * `In-Reply-To`, which is enough to find the ticket again.
+ * @param {string} ticketId
+ * @param {string} domain
+ */
+export function ticketMessageId(ticketId, domain) {
+  return `${ticketId}.${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 10)}@${domain}`
+}
+
+/** @param {string} messageId */
+function parseTicketMessageId(messageId) {
+  return messageId.match(/^(ticket_[A-Za-z0-9_]+)\.[a-z0-9]+\.[a-z0-9]+@/)?.[1] ?? null
+}
+
+/**
+ * Drops the quoted history mail clients append under a reply.
+ * @param {string} text
+ */
+export function stripQuotedReply(text) {
+  const lines = text.split('\n')
+  const cut = lines.findIndex((line, index) =>
+    /^(On|Em) .+(wrote|escreveu):\s*$/.test(line.trim()) ||
+    /^-{2,}\s*(Original Message|Mensagem original)\s*-{2,}$/i.test(line.trim()) ||
+    (line.startsWith('>') && lines.slice(index).every((rest) => rest.startsWith('>') || rest.trim() === '')))
+  return (cut === -1 ? lines : lines.slice(0, cut)).join('\n').trim()
+}
+
+/**
+ * Which ticket each e-mail conversation belongs to: Message-IDs seen on
+ * inbound mail, and the address of requesters who wrote in without an account.
+ */
+export class MailThreadsStore {
+  /** @param {string} filePath */
+  constructor(filePath) {
+    this.filePath = filePath
+    /** @type {{ messages: Record<string, string>, requesters: Record<string, string> } | undefined} */
+    this.data = undefined
+    this.queue = new TaskQueue()
+  }
+
+  async read() {
+    if (!this.data) this.data = await readJsonFile(this.filePath, { messages: {}, requesters: {} })
+    return /** @type {NonNullable<MailThreadsStore['data']>} */ (this.data)
+  }
+
+  /** @param {string} messageId */
+  async findTicket(messageId) {
+    return (await this.read()).messages[messageId] ?? null
+  }
+
+  /** @param {string} ticketId */
+  async findRequester(ticketId) {
+    return (await this.read()).requesters[ticketId] ?? null
+  }
+
+  /**
+   * @param {string} ticketId
+   * @param {{ messageId?: string | null, requester?: string }} entry
+   */
+  record(ticketId, { messageId, requester }) {
+    return this.queue.run(async () => {
+      const data = await this.read()
+      if (messageId) data.messages[messageId] = ticketId
+      if (requester) data.requesters[ticketId] = requester
+      await writeJsonFile(this.filePath, data)
+    })
+  }
+}
+
+/**
+ * Turns raw inbound messages into tickets, or into comments when they answer
+ * an existing ticket (a "[#ticket_...]" subject tag, or `In-Reply-To` /
+ * `References` pointing at a message of that ticket's thread).
+ *
+ * The `From:` address proves nothing, so a reply is only ever taken as the
+ * requester's: it is threaded when it comes from the account that opened the
+ * ticket or the address that opened it by e-mail, and recorded in the
+ * requester's name. An agent's address gets no access this way, and a reply
+ * never counts as the first response. Anyone else starts a new ticket instead.
+ *
+ * Attachments are kept on the new ticket or comment when an upload of the
+ * same file would be accepted; the rest are listed by name in its text.
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ *   users: import('./auth.js').UsersStore,
+ *   threads: MailThreadsStore,
+ *   events: import('./ticket-events.js').TicketEvents,
+ *   attachments: import('./attachments.js').AttachmentsStore,
+ * }} options
+ */
+export function createMailIngest({ store, loadEntry, users, threads, events, attachments }) {
+  /**
+   * @param {MailMessage} message
+   * @returns {Promise<string | null>}
+   */
+  const findThread = async (message) => {
+    const fromSubject = findTicketReference(message.subject)
+    if (fromSubject) return fromSubject
+    for (const id of [message.inReplyTo, ...[...message.references].reverse()]) {
+      if (!id) continue
+      const ticketId = (await threads.findTicket(id)) ?? parseTicketMessageId(id)
+      if (ticketId) return ticketId
+    }
+    return null
+  }
+
+  /**
+   * Stores the attachments an upload would accept, up to the limit per
+   * ticket or comment, and describes the others.
+   * @param {ServerEntry} entry
+   * @param {MailMessage} message
+   * @param {string} uploaderId
+   */
+  const saveAttachments = async (entry, message, uploaderId) => {
+    /** @type {Attachment[]} */
+    const saved = []
+    /** @type {string[]} */
+    const rejected = []
+    for (const { filename, size, content } of message.attachments) {
+      const type = entry.attachmentTypeFor(filename)
+      const accepted = saved.length < entry.MAX_ATTACHMENTS && type &&
+        entry.validateAttachmentFile(filename, size).length === 0 &&
+        matchesSignature(type, content.subarray(0, SIGNATURE_LENGTH))
+      if (!accepted) {
+        rejected.push(`${filename} (${entry.formatFileSize(size)})`)
+        continue
+      }
+      saved.push(await attachments.save({
+        id: `attachment_${crypto.randomUUID()}`,
+        name: filename,
+        type,
+        size,
+        checksum: crypto.createHash('sha256').update(content).digest('hex'),
+        uploadedAt: Date.now(),
+        uploaderId,
+      }, content))
+    }
+    return { saved, rejected }
+  }
+
+  /**
+   * @param {Buffer | string} raw
+   * @returns {Promise<{ ticketId: string, action: 'created' | 'commented' }>}
+   */
+  return async function ingestMail(raw) {
+    const entry = await loadEntry()
+    const message = parseMessage(raw)
+    if (!message.from) throw new Error('Mensagem sem remetente')
+    const sender = message.from
+    const user = await users.findByEmail(sender.address)
+    const author = user?.name ?? (sender.name || sender.address)
+    const threadId = await findThread(message)
+    const requester = threadId ? await threads.findRequester(threadId) : null
+
+    // Senders without an account are known by their address
+    const files = await saveAttachments(entry, message, user?.id ?? sender.address)
+    const notSaved = files.rejected.length > 0
+      ? `\n\nAnexos recebidos por e-mail e não salvos: ${files.rejected.join(', ')}`
+      : ''
+    const withFiles = files.saved.length > 0 ? { attachments: files.saved } : {}
+
+    const { activity, ...result } = await store.update((data) => {
+      const model = new entry.TicketsModel(data ?? undefined)
+      const existing = threadId ? model.getTicketById(threadId) : null
+      const fromRequester = existing &&
+        ((user && user.id === existing.authorId) || requester === sender.address)
+
+      if (existing && fromRequester) {
+        const content = `${stripQuotedReply(message.text) || '(mensagem sem texto)'}${notSaved}`
+        const comment = model.addComment(existing.id, {
+          author: existing.author,
+          authorId: existing.authorId,
+          content,
+          isInternal: false,
+          ...withFiles,
+        })
+        const ticket = model.getTicketById(existing.id)
+        return {
+          data: model.getData(),
+          result: {
+            ticketId: existing.id,
+            commentId: comment?.id,
+            action: /** @type {const} */ ('commented'),
+            activity: ticket && comment ? { type: /** @type {const} */ ('commented'), ticket, comment } : null,
+          },
+        }
+      }
+
+      const ticket = model.createTicket({
+        title: message.subject.replace(/^((re|fw|fwd|enc|res)\s*:\s*)+/i, '').trim() || '(sem assunto)',
+        description: `${message.text || '(mensagem sem texto)'}${notSaved}`,
+        category: 'other',
+        priority: 'medium',
+        status: model.getWorkflow().initialStatus,
+        author,
+        authorId: user?.id,
+        ...withFiles,
+      }, author)
+      return {
+        data: model.getData(),
+        result: { ticketId: ticket.id, action: /** @type {const} */ ('created'), activity: { type: /** @type {const} */ ('created'), ticket } },
+      }
+    }).catch(async (error) => {
+      const ids = new Set(files.saved.map((attachment) => attachment.id))
+      await attachments.removeWhere((attachment) => ids.has(attachment.id))
+      attachments.release(files.saved)
+      throw error
+    })
+    if (files.saved.length > 0) await attachments.link(files.saved, result.ticketId, result.commentId)
+
+    await threads.record(result.ticketId, {
+      messageId: message.messageId,
+      requester: result.action === 'created' && !user ? sender.address : undefined,
+    })
+    console.log(`Inbound mail from ${sender.address} ${result.action} ${result.ticketId}`)
+    if (activity) {
+      await events.publish({ ...activity, actor: { name: author, email: sender.address }, autoSubmitted: message.autoSubmitted })
+    }
+    return { ticketId: result.ticketId, action: result.action }
+  }
+}
+
+/**
+ * Ingests `.eml` files dropped into `dir`. Handled files move to
+ * `processed/`; files that can't be ingested move to `failed/` next to a
+ * `.reason.txt`, the same way unreadable data is quarantined. Write files
+ * elsewhere and rename them in, or they may be picked up half-written.
+ *
+ * @param {string} dir
+ * @param {(raw: Buffer) => Promise<unknown>} ingest
+ * @returns {() => void} stops watching
+ */
+export function watchMailDrop(dir, ingest) {
+  /** @type {NodeJS.Timeout | undefined} */
+  let timer
+  let stopped = false
+
+  /**
+   * @param {string} name
+   * @param {'processed' | 'failed'} outcome
+   */
+  const moveTo = async (name, outcome) => {
+    const target = path.join(dir, outcome, `${Date.now()}-${name}`)
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    await fs.rename(path.join(dir, name), target)
+    return target
+  }
+
+  const scan = async () => {
+    await fs.mkdir(dir, { recursive: true })
+    for (const name of await fs.readdir(dir)) {
+      if (!name.toLowerCase().endsWith('.eml')) continue
+      const file = path.join(dir, name)
+      const stats = await fs.stat(file).catch(() => null)
+      if (!stats?.isFile() || Date.now() - stats.mtimeMs < DROP_SETTLE_TIME) continue
+      try {
+        await ingest(await fs.readFile(file))
+        await moveTo(name, 'processed')
+      } catch (error) {
+        console.error(`Could not ingest ${file}: ${error.message}`)
+        const target = await moveTo(name, 'failed')
+        await fs.writeFile(`${target}.reason.txt`, `${new Date().toISOString()} ${error.message}\n`)
+      }
+    }
+  }
+
+  const loop = () => {
+    scan()
+      .catch((error) => console.error(`Mail drop scan failed: ${error.message}`))
+      .finally(() => {
+        if (!stopped) timer = setTimeout(loop, DROP_POLL_INTERVAL).unref()
+      })
+  }
+  loop()
+
+  return () => {
+    stopped = true
+    clearTimeout(timer)
+  }
+}
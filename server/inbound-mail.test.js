@@ -0,0 +1,85 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AttachmentsStore } from './attachments.js'
+import { UsersStore } from './auth.js'
+import { MailThreadsStore, createMailIngest } from './inbound-mail.js'
+import { TicketEvents } from './ticket-events.js'
+import { TicketsStore } from './tickets-store.js'
+
+const loadEntry = () => import('../src/entry-server.tsx')
+
+const users = [
+  { id: 'user_joao', name: 'João', email: 'joao@example.com', role: 'requester', passwordHash: '' },
+  { id: 'user_ana', name: 'Ana', email: 'ana@helpdesk.local', role: 'agent', passwordHash: '' },
+]
+
+/**
+ * @param {string} from
+ * @param {string} subject
+ * @param {string} text
+ */
+const mail = (from, subject, text) =>
+  `From: ${from}\r\nTo: suporte@helpdesk.local\r\nSubject: ${subject}\r\nContent-Type: text/plain; charset=utf-8\r\n\r\n${text}\r\n`
+
+describe('createMailIngest', () => {
+  /** @type {string} */
+  let dir
+  /** @type {import('./tickets-store.js').TicketsStore} */
+  let store
+  /** @type {ReturnType<typeof createMailIngest>} */
+  let ingest
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'inbound-mail-'))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const { TicketsModel, toPersistedData } = await loadEntry()
+    const filePath = path.join(dir, 'tickets.json')
+    await fs.writeFile(filePath, JSON.stringify(toPersistedData({ ...new TicketsModel().getData(), tickets: [] })))
+    await fs.writeFile(path.join(dir, 'users.json'), JSON.stringify({ users }))
+    store = new TicketsStore(filePath, { loadEntry })
+    ingest = createMailIngest({
+      store,
+      loadEntry,
+      users: new UsersStore(path.join(dir, 'users.json')),
+      threads: new MailThreadsStore(path.join(dir, 'mail-threads.json')),
+      events: new TicketEvents(),
+      attachments: new AttachmentsStore(path.join(dir, 'attachments'), path.join(dir, 'attachments.json')),
+    })
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('threads a reply from the requester in their name, without a first response', async () => {
+    const { ticketId } = await ingest(mail('João <joao@example.com>', 'Sem acesso', 'Não consigo entrar'))
+
+    const reply = await ingest(mail('J. Silva <joao@example.com>', `Re: Sem acesso [#${ticketId}]`, 'Ainda sem acesso'))
+    const ticket = (await store.model()).getTicketById(ticketId)
+
+    expect(reply).toEqual({ ticketId, action: 'commented' })
+    expect(ticket?.comments).toEqual([expect.objectContaining({ author: 'João', authorId: 'user_joao', content: 'Ainda sem acesso' })])
+    expect(ticket?.firstResponseAt).toBeUndefined()
+  })
+
+  it('gives an agent address no access to the ticket', async () => {
+    const { ticketId } = await ingest(mail('João <joao@example.com>', 'Sem acesso', 'Não consigo entrar'))
+
+    const reply = await ingest(mail('Ana <ana@helpdesk.local>', `Re: Sem acesso [#${ticketId}]`, 'Resolvido'))
+    const model = await store.model()
+
+    expect(reply.action).toBe('created')
+    expect(model.getTicketById(ticketId)?.comments).toEqual([])
+    expect(model.getTicketById(ticketId)?.firstResponseAt).toBeUndefined()
+  })
+
+  it('threads a reply from the address that opened the ticket without an account', async () => {
+    const { ticketId } = await ingest(mail('Maria <maria@example.com>', 'Fatura', 'Cobrança em dobro'))
+
+    expect((await ingest(mail('maria@example.com', `Re: Fatura [#${ticketId}]`, 'Segue'))).action).toBe('commented')
+    expect((await ingest(mail('Maria <outra@example.com>', `Re: Fatura [#${ticketId}]`, 'Segue'))).action).toBe('created')
+  })
+})
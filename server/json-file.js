@@ -0,0 +1,51 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+/**
+ * Reads and parses a JSON file, returning `fallback` when it does not exist.
+ * @template T
+ * @param {string} filePath
+ * @param {T} fallback
+ * @returns {Promise<T>}
+ */
+export async function readJsonFile(filePath, fallback) {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+  } catch (error) {
+    if (error.code === 'ENOENT') return fallback
+    throw error
+  }
+}
+
+/**
+ * Writes JSON through a temporary file so readers never see a partial write.
+ * @param {string} filePath
+ * @param {unknown} data
+ */
+export async function writeJsonFile(filePath, data) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tmpPath = `${filePath}.tmp`
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2))
+  await fs.rename(tmpPath, filePath)
+}
+
+/**
+ * Serializes async tasks so read-modify-write cycles never interleave.
+ */
+export class TaskQueue {
+  constructor() {
+    /** @type {Promise<unknown>} */
+    this.tail = Promise.resolve()
+  }
+
+  /**
+   * @template T
+   * @param {() => Promise<T>} task
+   * @returns {Promise<T>}
+   */
+  run(task) {
+    const result = this.tail.then(task)
+    this.tail = result.catch(() => {})
+    return result
+  }
+}
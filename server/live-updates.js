@@ -0,0 +1,129 @@
+import crypto from 'node:crypto'
+import express from 'express'
+import { requireUser } from './auth.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+/** @typedef {import('../src/App.tsx').Ticket} Ticket */
+/** @typedef {import('../src/App.tsx').User} User */
+/**
+ * @typedef {{ seq: number, type: 'ticket' | 'ticket-deleted', ticket: Ticket }} LiveEvent
+ * @typedef {{ res: import('express').Response, user: User }} LiveClient
+ */
+
+// Events kept for clients that reconnect; anyone further behind reloads everything
+const HISTORY_SIZE = 1000
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL = 25 * 1000
+const RETRY_DELAY = 3000
+
+/**
+ * Pushes ticket changes to every connected browser over Server-Sent Events.
+ *
+ * Event IDs are `<boot>-<sequence>`. A client that reconnects with
+ * `Last-Event-ID` (or `?since=`, for the ID its page was rendered at) gets
+ * what it missed; when that is no longer known, because it fell too far
+ * behind or the server restarted, it is told to reload instead.
+ */
+export class LiveUpdates {
+  /** @param {{ loadEntry: () => Promise<ServerEntry> }} options */
+  constructor({ loadEntry }) {
+    this.loadEntry = loadEntry
+    this.bootId = crypto.randomBytes(4).toString('hex')
+    this.sequence = 0
+    /** @type {LiveEvent[]} */
+    this.history = []
+    /** @type {Set<LiveClient>} */
+    this.clients = new Set()
+  }
+
+  lastEventId() {
+    return `${this.bootId}-${this.sequence}`
+  }
+
+  /**
+   * Events after `eventId`, or null when they can't be replayed.
+   * @param {string} eventId
+   */
+  eventsSince(eventId) {
+    const [bootId, sequence] = eventId.split('-')
+    const seq = Number(sequence)
+    if (bootId !== this.bootId || !Number.isInteger(seq) || seq > this.sequence) return null
+    const oldest = this.history[0]?.seq ?? this.sequence + 1
+    if (seq < oldest - 1) return null
+    return this.history.filter((event) => event.seq > seq)
+  }
+
+  /**
+   * Sends `event` to `client` as that user may see it, if at all.
+   * @param {ServerEntry} entry
+   * @param {LiveClient} client
+   * @param {LiveEvent} event
+   */
+  send(entry, client, event) {
+    if (!entry.canAccessTicket(client.user, event.ticket)) return
+    const data = event.type === 'ticket'
+      ? { ticket: entry.redactTicket(event.ticket, entry.audienceFor(client.user)) }
+      : { id: event.ticket.id }
+    client.res.write(`id: ${this.bootId}-${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`)
+  }
+
+  /**
+   * @param {LiveEvent['type']} type
+   * @param {Ticket} ticket
+   */
+  async publish(type, ticket) {
+    const entry = await this.loadEntry()
+    /** @type {LiveEvent} */
+    const event = { seq: ++this.sequence, type, ticket }
+    this.history.push(event)
+    if (this.history.length > HISTORY_SIZE) this.history.shift()
+    this.clients.forEach((client) => this.send(entry, client, event))
+  }
+
+  /** @returns {import('./ticket-events.js').TicketActivityListener} */
+  listener() {
+    return (activity) => this.publish(activity.type === 'deleted' ? 'ticket-deleted' : 'ticket', activity.ticket)
+  }
+
+  /**
+   * @param {import('express').Request} req
+   * @param {import('express').Response} res
+   */
+  async connect(req, res) {
+    const entry = await this.loadEntry()
+    const since = req.get('Last-Event-ID') ?? (typeof req.query.since === 'string' ? req.query.since : undefined)
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      // no-transform also keeps the compression middleware from buffering the stream
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    })
+
+    /** @type {LiveClient} */
+    const client = { res, user: req.user }
+    res.write(`retry: ${RETRY_DELAY}\n\n`)
+    if (since) {
+      const missed = this.eventsSince(since)
+      if (missed) missed.forEach((event) => this.send(entry, client, event))
+      else res.write(`id: ${this.lastEventId()}\nevent: reset\ndata: {}\n\n`)
+    }
+    this.clients.add(client)
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL)
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      this.clients.delete(client)
+    })
+  }
+}
+
+/**
+ * @param {{ live: LiveUpdates }} options
+ */
+export function createLiveRouter({ live }) {
+  const router = express.Router()
+  router.use(requireUser)
+  router.get('/', (req, res) => live.connect(req, res))
+  return router
+}
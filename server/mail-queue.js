@@ -0,0 +1,113 @@
+import crypto from 'node:crypto'
+import { TaskQueue, readJsonFile, writeJsonFile } from './json-file.js'
+
+/** @typedef {import('./mail-transport.js').OutgoingMail} OutgoingMail */
+/** @typedef {import('./mail-transport.js').MailTransport} MailTransport */
+/**
+ * @typedef {{ id: string, mail: OutgoingMail, attempts: number, nextAttemptAt: number, lastError?: string }} QueuedMail
+ * @typedef {{ id: string, to: string, subject: string, attempts: number, error: string, failedAt: number }} FailedMail
+ */
+
+const POLL_INTERVAL = 2000
+const MAX_ATTEMPTS = 8
+// Retries wait 30s, 1min, 2min, ... capped at an hour, with some jitter so a backlog doesn't retry in lockstep
+const BASE_BACKOFF = 30 * 1000
+const MAX_BACKOFF = 60 * 60 * 1000
+// Messages that ran out of attempts, kept for the admin page
+const MAX_FAILED_KEPT = 50
+
+/** @param {number} attempts */
+const backoff = (attempts) => {
+  const delay = Math.min(BASE_BACKOFF * 2 ** (attempts - 1), MAX_BACKOFF)
+  return delay + Math.floor(Math.random() * delay * 0.2)
+}
+
+/**
+ * Durable outbox. Messages survive restarts in a JSON file and are sent one
+ * at a time; failures are retried with exponential backoff until
+ * MAX_ATTEMPTS, after which they are set aside as failed.
+ */
+export class MailQueue {
+  /**
+   * @param {string} filePath
+   * @param {MailTransport} transport
+   */
+  constructor(filePath, transport) {
+    this.filePath = filePath
+    this.transport = transport
+    /** @type {{ pending: QueuedMail[], failed: FailedMail[] } | undefined} */
+    this.data = undefined
+    this.queue = new TaskQueue()
+    /** @type {NodeJS.Timeout | undefined} */
+    this.timer = undefined
+  }
+
+  async read() {
+    if (!this.data) this.data = await readJsonFile(this.filePath, { pending: [], failed: [] })
+    return /** @type {NonNullable<MailQueue['data']>} */ (this.data)
+  }
+
+  /**
+   * @param {(data: NonNullable<MailQueue['data']>) => void} fn
+   */
+  update(fn) {
+    return this.queue.run(async () => {
+      const data = await this.read()
+      fn(data)
+      await writeJsonFile(this.filePath, data)
+    })
+  }
+
+  /** @param {OutgoingMail} mail */
+  enqueue(mail) {
+    return this.update((data) => {
+      data.pending.push({ id: crypto.randomUUID(), mail, attempts: 0, nextAttemptAt: Date.now() })
+    })
+  }
+
+  async status() {
+    const data = await this.read()
+    return { pending: data.pending.length, failed: [...data.failed].reverse() }
+  }
+
+  /**
+   * Sends whatever is due. Each message is settled (removed, rescheduled or
+   * failed) before the next one goes out.
+   */
+  async flush() {
+    const due = (await this.read()).pending.filter((item) => item.nextAttemptAt <= Date.now())
+    for (const item of due) {
+      try {
+        await this.transport.send(item.mail)
+        await this.update((data) => {
+          data.pending = data.pending.filter((other) => other.id !== item.id)
+        })
+      } catch (error) {
+        const attempts = item.attempts + 1
+        console.error(`Mail to ${item.mail.to} failed (attempt ${attempts}): ${error.message}`)
+        await this.update((data) => {
+          data.pending = data.pending.filter((other) => other.id !== item.id)
+          if (attempts < MAX_ATTEMPTS) {
+            data.pending.push({ ...item, attempts, nextAttemptAt: Date.now() + backoff(attempts), lastError: error.message })
+          } else {
+            data.failed = [
+              ...data.failed,
+              { id: item.id, to: item.mail.to, subject: item.mail.subject, attempts, error: error.message, failedAt: Date.now() },
+            ].slice(-MAX_FAILED_KEPT)
+          }
+        })
+      }
+    }
+  }
+
+  start() {
+    const loop = () => {
+      this.flush()
+        .catch((error) => console.error(`Mail queue failed: ${error.message}`))
+        .finally(() => {
+          this.timer = setTimeout(loop, POLL_INTERVAL).unref()
+        })
+    }
+    loop()
+  }
+}
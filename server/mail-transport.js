@@ -0,0 +1,204 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs/promises'
+import net from 'node:net'
+import path from 'node:path'
+import tls from 'node:tls'
+
+const SMTP_TIMEOUT = 30 * 1000
+
+/**
+ * @typedef {{
+ *   from: string,
+ *   to: string,
+ *   subject: string,
+ *   text: string,
+ *   messageId: string,
+ *   headers?: Record<string, string>,
+ * }} OutgoingMail
+ * @typedef {{ send: (mail: OutgoingMail) => Promise<void> }} MailTransport
+ */
+
+/**
+ * RFC 2047 encoded word for header text that isn't plain ASCII.
+ * @param {string} value
+ */
+const encodeHeader = (value) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?utf-8?B?${Buffer.from(value).toString('base64')}?=`
+
+/**
+ * `Name <address>` with the display name encoded when needed.
+ * @param {string} mailbox
+ */
+const encodeMailbox = (mailbox) => {
+  const match = mailbox.match(/^(.*?)\s*<([^>]+)>$/)
+  return match && match[1] ? `${encodeHeader(match[1].replace(/^"|"$/g, ''))} <${match[2]}>` : mailbox
+}
+
+/**
+ * @param {string} mailbox
+ */
+const addressOf = (mailbox) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim()
+
+/**
+ * The complete RFC 5322 message, with a UTF-8 body in base64 so no line is
+ * ever too long or starts with a dot.
+ * @param {OutgoingMail} mail
+ */
+export function buildMimeMessage(mail) {
+  const headers = {
+    From: encodeMailbox(mail.from),
+    To: encodeMailbox(mail.to),
+    Subject: encodeHeader(mail.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': `<${mail.messageId}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Content-Transfer-Encoding': 'base64',
+    // Tells autoresponders not to answer, which keeps mail loops from starting
+    'Auto-Submitted': 'auto-generated',
+    ...mail.headers,
+  }
+  const body = Buffer.from(mail.text.replace(/\r?\n/g, '\r\n')).toString('base64').replace(/.{76}/g, '$&\r\n')
+  return `${Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\r\n')}\r\n\r\n${body}\r\n`
+}
+
+/**
+ * Prints each message instead of sending it.
+ * @returns {MailTransport}
+ */
+export function createConsoleTransport() {
+  return {
+    async send(mail) {
+      console.log(`--- mail to ${mail.to} ---\nSubject: ${mail.subject}\n\n${mail.text}\n--- end of mail ---`)
+    },
+  }
+}
+
+/**
+ * Writes each message as an .eml file into `dir`.
+ * @param {string} dir
+ * @returns {MailTransport}
+ */
+export function createFileTransport(dir) {
+  return {
+    async send(mail) {
+      await fs.mkdir(dir, { recursive: true })
+      const name = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`
+      await fs.writeFile(path.join(dir, name), buildMimeMessage(mail))
+    },
+  }
+}
+
+/**
+ * Minimal SMTP submission client: implicit TLS (`secure`) or STARTTLS when
+ * the server offers it, and AUTH PLAIN when credentials are given. One
+ * connection per message.
+ *
+ * @param {{ host: string, port: number, secure?: boolean, user?: string, password?: string, hostname?: string }} options
+ * @returns {MailTransport}
+ */
+export function createSmtpTransport({ host, port, secure = false, user, password, hostname = 'helpdesk.local' }) {
+  return {
+    send(mail) {
+      return new Promise((resolve, reject) => {
+        /** @type {net.Socket} */
+        let socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port })
+        let buffer = ''
+        /** @type {((reply: { code: number, lines: string[] }) => void) | null} */
+        let waiting = null
+
+        /** @param {Error} error */
+        const fail = (error) => {
+          socket.destroy()
+          reject(error)
+        }
+
+        /** @param {Buffer | string} chunk */
+        const onData = (chunk) => {
+          buffer += chunk.toString()
+          const lines = buffer.split('\r\n')
+          const last = lines.slice(0, -1).findIndex((line) => /^\d{3}(?: |$)/.test(line))
+          if (last === -1) return
+          buffer = lines.slice(last + 1).join('\r\n')
+          const reply = { code: Number(lines[last].slice(0, 3)), lines: lines.slice(0, last + 1) }
+          const resolveReply = waiting
+          waiting = null
+          resolveReply?.(reply)
+        }
+
+        /**
+         * Sends `command` (or nothing, for the greeting) and resolves with the
+         * reply, failing unless its code is one of `expected`.
+         * @param {string | null} command
+         * @param {number[]} expected
+         */
+        const exchange = (command, expected) =>
+          new Promise((resolveReply, rejectReply) => {
+            waiting = (reply) => {
+              if (expected.includes(reply.code)) resolveReply(reply)
+              else rejectReply(new Error(`SMTP ${reply.code}: ${reply.lines.join(' ').slice(4)}`))
+            }
+            if (command !== null) socket.write(`${command}\r\n`)
+          })
+
+        const attach = () => {
+          socket.setTimeout(SMTP_TIMEOUT, () => fail(new Error('SMTP tempo esgotado')))
+          socket.on('data', onData)
+          socket.on('error', fail)
+        }
+        attach()
+
+        const run = async () => {
+          await exchange(null, [220])
+          let features = await exchange(`EHLO ${hostname}`, [250])
+          if (!secure && features.lines.some((line) => /^250[- ]STARTTLS/i.test(line))) {
+            await exchange('STARTTLS', [220])
+            socket.removeAllListeners('data')
+            socket.removeAllListeners('error')
+            socket.setTimeout(0)
+            socket = tls.connect({ socket, servername: host })
+            attach()
+            await new Promise((resolveTls) => socket.once('secureConnect', resolveTls))
+            features = await exchange(`EHLO ${hostname}`, [250])
+          }
+          if (user) {
+            const token = Buffer.from(`\0${user}\0${password ?? ''}`).toString('base64')
+            await exchange(`AUTH PLAIN ${token}`, [235])
+          }
+          await exchange(`MAIL FROM:<${addressOf(mail.from)}>`, [250])
+          await exchange(`RCPT TO:<${addressOf(mail.to)}>`, [250, 251])
+          await exchange('DATA', [354])
+          await exchange(`${buildMimeMessage(mail)}.`, [250])
+          await exchange('QUIT', [221]).catch(() => {})
+          socket.end()
+        }
+        run().then(resolve, fail)
+      })
+    },
+  }
+}
+
+/**
+ * Picks the transport from the environment: `MAIL_TRANSPORT=smtp|file|console`.
+ * @param {NodeJS.ProcessEnv} env
+ * @param {string} dataDir
+ * @returns {MailTransport}
+ */
+export function createTransportFromEnv(env, dataDir) {
+  switch (env.MAIL_TRANSPORT || 'file') {
+    case 'smtp':
+      return createSmtpTransport({
+        host: env.MAIL_SMTP_HOST || '127.0.0.1',
+        port: Number(env.MAIL_SMTP_PORT || 587),
+        secure: env.MAIL_SMTP_SECURE === 'true',
+        user: env.MAIL_SMTP_USER,
+        password: env.MAIL_SMTP_PASSWORD,
+      })
+    case 'console':
+      return createConsoleTransport()
+    case 'file':
+      return createFileTransport(env.MAIL_OUTBOX_DIR || path.join(dataDir, 'outbox'))
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${env.MAIL_TRANSPORT}`)
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Reader for inbound mail messages (RFC 5322 and the MIME RFCs 2045-2047,
+ * 2231): folded headers, encoded words, nested multipart bodies,
+ * quoted-printable and base64 bodies, and legacy charsets.
+ *
+ * The raw message is handled as a latin1 string so every byte maps to one
+ * character; byte-exact slices are turned back into Buffers before decoding.
+ */
+
+/**
+ * @typedef {{ name: string, address: string }} MailAddress
+ * @typedef {{ filename: string, contentType: string, size: number, content: Buffer }} MailAttachment
+ * @typedef {{
+ *   messageId: string | null,
+ *   inReplyTo: string | null,
+ *   references: string[],
+ *   subject: string,
+ *   from: MailAddress | null,
+ *   date: number | null,
+ *   autoSubmitted: boolean,
+ *   text: string,
+ *   attachments: MailAttachment[],
+ * }} MailMessage
+ */
+
+/**
+ * @param {Buffer} bytes
+ * @param {string} [charset]
+ */
+function decodeBytes(bytes, charset = 'utf-8') {
+  const label = charset.trim().toLowerCase().replace(/^"|"$/g, '')
+  try {
+    // Plenty of "us-ascii" and "iso-8859-1" mail is really Windows-1252
+    return new TextDecoder(label === 'us-ascii' ? 'windows-1252' : label).decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+/**
+ * Headers may carry raw UTF-8 (RFC 6532) as well as encoded words.
+ * @param {string} raw latin1 header value
+ */
+export function decodeHeaderValue(raw) {
+  const bytes = Buffer.from(raw, 'latin1')
+  let text
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    text = decodeBytes(bytes, 'windows-1252')
+  }
+  return text
+    // Whitespace between two encoded words is not part of the text
+    .replace(/(=\?[^?]+\?[bBqQ]\?[^?]*\?=)\s+(?==\?[^?]+\?[bBqQ]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g, (_match, charset, encoding, encoded) => {
+      const data = encoding.toUpperCase() === 'B'
+        ? Buffer.from(encoded, 'base64')
+        : Buffer.from(
+          encoded
+            .replace(/_/g, ' ')
+            .replace(/=([0-9A-Fa-f]{2})/g, (/** @type {string} */ _m, /** @type {string} */ hex) =>
+              String.fromCharCode(parseInt(hex, 16))),
+          'latin1',
+        )
+      // RFC 2231 allows a language suffix: "utf-8*pt"
+      return decodeBytes(data, charset.split('*')[0])
+    })
+}
+
+/**
+ * Splits a header block into lowercase names and unfolded (still encoded) values.
+ * The first occurrence of a header wins.
+ * @param {string} block
+ * @returns {Record<string, string>}
+ */
+function parseHeaders(block) {
+  /** @type {Record<string, string>} */
+  const headers = {}
+  const lines = block.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i]
+    while (i + 1 < lines.length && /^[ \t]/.test(lines[i + 1])) line += ` ${lines[++i].trim()}`
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    if (!(name in headers)) headers[name] = line.slice(colon + 1).trim()
+  }
+  return headers
+}
+
+/**
+ * `text/plain; charset="utf-8"` into its value and parameters, including
+ * RFC 2231 extended (`name*=utf-8''...`) and continued (`name*0=`) parameters.
+ * @param {string} header
+ */
+function parseStructuredHeader(header) {
+  const [value, ...rest] = header.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+  /** @type {Record<string, string>} */
+  const params = {}
+  /** @type {Record<string, { index: number, value: string, extended: boolean }[]>} */
+  const continued = {}
+  for (const part of rest) {
+    const eq = part.indexOf('=')
+    if (eq === -1) continue
+    const key = part.slice(0, eq).trim().toLowerCase()
+    let paramValue = part.slice(eq + 1).trim()
+    if (paramValue.startsWith('"')) paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1')
+    const match = key.match(/^([^*]+)\*(\d+)?(\*)?$/)
+    if (!match) {
+      params[key] = decodeHeaderValue(paramValue)
+    } else if (match[2] === undefined) {
+      params[match[1]] = decodeExtendedValue(paramValue)
+    } else {
+      continued[match[1]] ??= []
+      continued[match[1]].push({ index: Number(match[2]), value: paramValue, extended: !!match[3] })
+    }
+  }
+  for (const [key, pieces] of Object.entries(continued)) {
+    pieces.sort((a, b) => a.index - b.index)
+    const joined = pieces.map((piece) => piece.value).join('')
+    params[key] = pieces[0].extended ? decodeExtendedValue(joined) : decodeHeaderValue(joined)
+  }
+  return { value: value.trim().toLowerCase(), params }
+}
+
+/**
+ * `utf-8'pt'%C3%A1` (RFC 2231)
+ * @param {string} value
+ */
+function decodeExtendedValue(value) {
+  const match = value.match(/^([^']*)'[^']*'(.*)$/)
+  if (!match) return decodeHeaderValue(value)
+  const bytes = Buffer.from(
+    match[2].replace(/%([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1',
+  )
+  return decodeBytes(bytes, match[1] || 'utf-8')
+}
+
+/**
+ * The first mailbox of an address header.
+ * @param {string | undefined} header
+ * @returns {MailAddress | null}
+ */
+export function parseAddress(header) {
+  if (!header) return null
+  const decoded = decodeHeaderValue(header)
+  const angle = decoded.match(/^(.*?)<([^>]+)>/)
+  if (angle) {
+    return { name: angle[1].trim().replace(/^"|"$/g, '').trim(), address: angle[2].trim().toLowerCase() }
+  }
+  const bare = decoded.match(/[^\s<>(),;:"]+@[^\s<>(),;:"]+/)
+  if (!bare) return null
+  const comment = decoded.match(/\(([^)]*)\)/)
+  return { name: comment ? comment[1].trim() : '', address: bare[0].toLowerCase() }
+}
+
+/**
+ * Message IDs without their angle brackets, in header order.
+ * @param {string | undefined} header
+ */
+function parseMessageIds(header) {
+  return [...(header ?? '').matchAll(/<([^<>\s]+)>/g)].map((match) => match[1])
+}
+
+/**
+ * @param {string} body latin1
+ * @param {string | undefined} encoding
+ */
+function decodeTransferEncoding(body, encoding) {
+  switch ((encoding ?? '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64')
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/[ \t]+(?=\r?\n)/g, '')
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1',
+      )
+    default:
+      return Buffer.from(body, 'latin1')
+  }
+}
+
+/**
+ * Readable text from an HTML-only body.
+ * @param {string} html
+ */
+export function htmlToText(html) {
+  /** @type {Record<string, string>} */
+  const entities = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+  return html
+    .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1))
+        return code <= 0x10ffff ? String.fromCodePoint(code) : match
+      }
+      return entities[entity.toLowerCase()] ?? match
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * @param {string} raw latin1
+ */
+function splitHeaderBlock(raw) {
+  // A part may have no headers at all, just the blank line
+  const bare = raw.match(/^\r?\n/)
+  if (bare) return { headerBlock: '', body: raw.slice(bare[0].length) }
+  const match = raw.match(/\r?\n\r?\n/)
+  if (!match || match.index === undefined) return { headerBlock: raw, body: '' }
+  return { headerBlock: raw.slice(0, match.index), body: raw.slice(match.index + match[0].length) }
+}
+
+/**
+ * @param {string} value
+ */
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Walks one MIME entity, collecting body text and attachments into `out`.
+ * @param {string} raw latin1
+ * @param {{ texts: string[], htmls: string[], attachments: MailAttachment[] }} out
+ * @param {number} depth
+ */
+function collectPart(raw, out, depth) {
+  const { headerBlock, body } = splitHeaderBlock(raw)
+  const headers = parseHeaders(headerBlock)
+  const type = parseStructuredHeader(headers['content-type'] ?? 'text/plain; charset=us-ascii')
+  const disposition = parseStructuredHeader(headers['content-disposition'] ?? '')
+  const filename = disposition.params.filename ?? type.params.name ?? ''
+
+  if (type.value.startsWith('multipart/') && type.params.boundary && depth < 20) {
+    const delimiter = new RegExp(`(?:^|\\r?\\n)--${escapeRegExp(type.params.boundary)}(--)?[ \\t]*(?:\\r?\\n|$)`, 'g')
+    /** @type {string[]} */
+    const parts = []
+    let start = -1
+    for (const match of body.matchAll(delimiter)) {
+      if (start !== -1) parts.push(body.slice(start, match.index))
+      if (match[1]) {
+        start = -1
+        break
+      }
+      start = /** @type {number} */ (match.index) + match[0].length
+    }
+    // A missing closing delimiter still leaves a usable last part
+    if (start !== -1) parts.push(body.slice(start))
+    if (type.value === 'multipart/alternative') {
+      // Alternatives say the same thing: keep the plain one when there is one
+      const plain = parts.find((part) => /^text\/plain\b/i.test(
+        parseHeaders(splitHeaderBlock(part).headerBlock)['content-type'] ?? 'text/plain',
+      ))
+      collectPart(plain ?? parts[parts.length - 1] ?? '', out, depth + 1)
+    } else {
+      parts.forEach((part) => collectPart(part, out, depth + 1))
+    }
+    return
+  }
+
+  const content = decodeTransferEncoding(body, headers['content-transfer-encoding'])
+  const isText = type.value === 'text/plain' || type.value === 'text/html'
+  if (isText && disposition.value !== 'attachment' && !filename) {
+    const text = decodeBytes(content, type.params.charset)
+    if (type.value === 'text/html') out.htmls.push(text)
+    else out.texts.push(text)
+    return
+  }
+  out.attachments.push({
+    filename: filename || `anexo-${out.attachments.length + 1}${type.value === 'message/rfc822' ? '.eml' : ''}`,
+    contentType: type.value,
+    size: content.length,
+    content,
+  })
+}
+
+/**
+ * @param {Buffer | string} input the message as received, headers and all
+ * @returns {MailMessage}
+ */
+export function parseMessage(input) {
+  const raw = Buffer.isBuffer(input) ? input.toString('latin1') : Buffer.from(input, 'utf-8').toString('latin1')
+  const { headerBlock } = splitHeaderBlock(raw)
+  const headers = parseHeaders(headerBlock)
+  const out = { texts: /** @type {string[]} */ ([]), htmls: /** @type {string[]} */ ([]), attachments: [] }
+  collectPart(raw, out, 0)
+
+  const text = out.texts.length > 0
+    ? out.texts.join('\n\n')
+    : out.htmls.map(htmlToText).join('\n\n')
+  const date = headers.date ? Date.parse(headers.date) : NaN
+  return {
+    messageId: parseMessageIds(headers['message-id'])[0] ?? null,
+    inReplyTo: parseMessageIds(headers['in-reply-to'])[0] ?? null,
+    references: parseMessageIds(headers.references),
+    subject: decodeHeaderValue(headers.subject ?? '').trim(),
+    from: parseAddress(headers.from),
+    date: Number.isNaN(date) ? null : date,
+    // Autoresponders and other robots mark their mail this way (RFC 3834)
+    autoSubmitted: !!headers['auto-submitted'] && headers['auto-submitted'].trim().toLowerCase() !== 'no',
+    text: text.replace(/\r\n/g, '\n').trim(),
+    attachments: out.attachments,
+  }
+}
@@ -0,0 +1,57 @@
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+
+/**
+ * Admin settings for outgoing e-mail: the message templates, plus the state
+ * of the outbox so delivery problems are visible.
+ *
+ * @param {{
+ *   loadEntry: () => Promise<ServerEntry>,
+ *   settings: import('./notifications.js').MailSettingsStore,
+ *   queue: import('./mail-queue.js').MailQueue,
+ * }} options
+ */
+export function createNotificationsRouter({ loadEntry, settings, queue }) {
+  const router = express.Router()
+  router.use(express.json({ limit: '1mb' }))
+  router.use(requireUser)
+  router.use(async (req, _res, next) => {
+    const entry = await loadEntry()
+    if (!entry.can(req.user, 'manageNotifications')) {
+      throw new HttpError(403, 'Somente administradores podem configurar notificações')
+    }
+    next()
+  })
+
+  router.get('/', async (_req, res) => {
+    res.json({ settings: await settings.read(), queue: await queue.status() })
+  })
+
+  router.put('/', async (req, res) => {
+    const entry = await loadEntry()
+    const input = req.body ?? {}
+    const errors = entry.validateMailSettings(input)
+    if (errors.length > 0) throw new HttpError(400, 'Configuração de notificações inválida', errors)
+    /** @type {import('../src/App.tsx').MailSettings} */
+    const saved = {
+      locale: input.locale,
+      templates: Object.fromEntries(entry.MAIL_LOCALES.map(({ value: locale }) => [
+        locale,
+        Object.fromEntries(entry.NOTIFICATION_EVENTS.map(({ value: event }) => {
+          const { subject, body } = input.templates[locale][event]
+          return [event, { subject: subject.trim(), body }]
+        })),
+      ])),
+    }
+    await settings.write(saved)
+    res.json({ settings: saved, queue: await queue.status() })
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
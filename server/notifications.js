@@ -0,0 +1,122 @@
+import { ticketMessageId } from './inbound-mail.js'
+import { readJsonFile, writeJsonFile } from './json-file.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+/** @typedef {import('../src/App.tsx').Ticket} Ticket */
+/** @typedef {import('../src/App.tsx').MailSettings} MailSettings */
+/** @typedef {import('./ticket-events.js').TicketActivity} TicketActivity */
+
+/**
+ * Admin-edited notification templates; the built-in ones until first saved.
+ */
+export class MailSettingsStore {
+  /**
+   * @param {string} filePath
+   * @param {{ loadEntry: () => Promise<ServerEntry> }} options
+   */
+  constructor(filePath, { loadEntry }) {
+    this.filePath = filePath
+    this.loadEntry = loadEntry
+  }
+
+  /** @returns {Promise<MailSettings>} */
+  async read() {
+    const saved = await readJsonFile(this.filePath, null)
+    return saved ?? (await this.loadEntry()).DEFAULT_MAIL_SETTINGS
+  }
+
+  /** @param {MailSettings} settings */
+  async write(settings) {
+    await writeJsonFile(this.filePath, settings)
+  }
+}
+
+/**
+ * Turns ticket activity into queued e-mail. Requesters hear about their
+ * tickets; when the requester is the one replying, the assignee hears
+ * instead. Apart from the receipt for a new ticket nobody is told about
+ * their own change, and internal notes are never sent. Activity caused by an
+ * automated e-mail is never answered, or two robots could reply to each
+ * other forever.
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ *   users: import('./auth.js').UsersStore,
+ *   threads: import('./inbound-mail.js').MailThreadsStore,
+ *   settings: MailSettingsStore,
+ *   queue: import('./mail-queue.js').MailQueue,
+ *   from: string,
+ *   appUrl: string,
+ * }} options
+ */
+export function createNotifier({ store, loadEntry, users, threads, settings, queue, from, appUrl }) {
+  const domain = from.match(/@([^>\s]+)/)?.[1] ?? 'helpdesk.local'
+
+  /**
+   * @param {Ticket} ticket
+   * @returns {Promise<{ name: string, email: string } | null>}
+   */
+  const findRequester = async (ticket) => {
+    const user = ticket.authorId ? await users.findById(ticket.authorId) : null
+    const email = user?.email ?? (await threads.findRequester(ticket.id))
+    return email ? { name: user?.name ?? ticket.author, email } : null
+  }
+
+  /**
+   * Agents behind the ticket's assignee: the agent, or every member of the team.
+   * @param {ServerEntry} entry
+   * @param {Ticket} ticket
+   */
+  const findAssignees = async (entry, ticket) => {
+    if (!ticket.assigneeId) return []
+    const model = await store.model()
+    const assignee = model.getAssignee(ticket.assigneeId)
+    if (!assignee) return []
+    const agents = assignee.kind === 'agent'
+      ? [assignee.agent]
+      : model.getAgents().filter((agent) => agent.teamIds.includes(assignee.team.id))
+    return agents.map((agent) => ({ name: agent.name, email: agent.email }))
+  }
+
+  /** @param {TicketActivity} activity */
+  return async function notify(activity) {
+    if (activity.autoSubmitted) return
+    if (activity.type !== 'created' && activity.type !== 'commented' && activity.type !== 'status') return
+    if (activity.type === 'commented' && activity.comment.isInternal) return
+    const entry = await loadEntry()
+    const workflow = (await store.model()).getWorkflow()
+    const ticket = entry.redactTicket(activity.ticket, 'requester')
+
+    /** @type {import('../src/App.tsx').NotificationEvent} */
+    let event = activity.type
+    const kind = workflow.statuses.find((status) => status.id === ticket.status)?.kind
+    if (activity.type === 'status' && kind === 'resolved') event = 'resolved'
+
+    const fromRequester = activity.type === 'commented' && entry.isRequesterComment(ticket, activity.comment)
+    const requester = await findRequester(ticket)
+    const recipients = (fromRequester ? await findAssignees(entry, ticket) : requester ? [requester] : [])
+      .filter((recipient) => recipient.email)
+      .filter((recipient) => event === 'created' || recipient.email.toLowerCase() !== activity.actor.email?.toLowerCase())
+    if (recipients.length === 0) return
+
+    const { locale, templates } = await settings.read()
+    const template = templates[locale][event]
+    for (const recipient of recipients) {
+      const values = entry.getNotificationValues(ticket, workflow, {
+        recipient: recipient.name,
+        actor: activity.actor.name,
+        url: `${appUrl.replace(/\/$/, '')}/tickets/${encodeURIComponent(ticket.id)}`,
+        previousStatus: activity.type === 'status' ? activity.previousStatus : undefined,
+        comment: activity.type === 'commented' ? activity.comment.content : undefined,
+      })
+      await queue.enqueue({
+        from,
+        to: recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email,
+        subject: entry.renderMailTemplate(template.subject, values),
+        text: entry.renderMailTemplate(template.body, values),
+        messageId: ticketMessageId(ticket.id, domain),
+      })
+    }
+  }
+}
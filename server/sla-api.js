@@ -0,0 +1,69 @@
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+
+/**
+ * SLA policies are saved as a whole list so admins can rebalance targets in
+ * one go. Everyone signed in reads them, since deadlines show on every ticket.
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ * }} options
+ */
+export function createSlaRouter({ store, loadEntry }) {
+  const router = express.Router()
+  router.use(express.json({ limit: '1mb' }))
+  router.use(requireUser)
+
+  router.get('/', async (_req, res) => {
+    const model = await store.model()
+    res.json({ slaPolicies: model.getSlaPolicies() })
+  })
+
+  router.put('/', async (req, res) => {
+    const entry = await loadEntry()
+    if (!entry.can(req.user, 'manageSla')) {
+      throw new HttpError(403, 'Somente administradores podem alterar as políticas de SLA')
+    }
+
+    const { slaPolicies } = req.body ?? {}
+    if (!Array.isArray(slaPolicies)) throw new HttpError(400, 'Lista de políticas inválida')
+
+    const errors = []
+    const seen = new Set()
+    const policies = slaPolicies.map((input, index) => {
+      const policy = {
+        id: typeof input?.id === 'string' && input.id ? input.id : `sla_${Date.now()}_${index}`,
+        priority: input?.priority,
+        ...(input?.category ? { category: input.category } : {}),
+        ...(input?.calendarId ? { calendarId: input.calendarId } : {}),
+        firstResponseMinutes: input?.firstResponseMinutes,
+        resolutionMinutes: input?.resolutionMinutes,
+      }
+      const policyErrors = entry.validateSlaPolicyInput(policy)
+      const scope = `${policy.priority}/${policy.category ?? '*'}`
+      if (policyErrors.length === 0 && seen.has(scope)) {
+        policyErrors.push('Já existe uma política para esta prioridade e categoria')
+      }
+      seen.add(scope)
+      errors.push(...policyErrors.map((error) => `Política ${index + 1}: ${error}`))
+      return policy
+    })
+    if (errors.length > 0) throw new HttpError(400, 'Políticas de SLA inválidas', errors)
+
+    const saved = await store.update((data) => {
+      const model = new entry.TicketsModel(data ?? undefined)
+      model.replaceSlaPolicies(policies)
+      return { data: model.getData(), result: model.getSlaPolicies() }
+    })
+    res.json({ slaPolicies: saved })
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
@@ -0,0 +1,138 @@
+import net from 'node:net'
+
+const MAX_MESSAGE_BYTES = 25 * 1024 * 1024
+const IDLE_TIMEOUT = 5 * 60 * 1000
+const MAX_LINE_LENGTH = 1024 * 1024
+
+/**
+ * @typedef {{ from: string, to: string[] }} SmtpEnvelope
+ */
+
+/**
+ * A small receive-only SMTP server (RFC 5321): enough of the protocol for an
+ * MTA or a local client to hand over messages. There is no relaying, TLS or
+ * authentication, so bind it to a trusted interface only.
+ *
+ * Each message is passed to `onMessage` as raw bytes; the client is told it
+ * was accepted only once that promise resolves.
+ *
+ * @param {{
+ *   onMessage: (raw: Buffer, envelope: SmtpEnvelope) => Promise<unknown>,
+ *   hostname?: string,
+ * }} options
+ */
+export function createSmtpServer({ onMessage, hostname = 'helpdesk.local' }) {
+  return net.createServer((socket) => {
+    socket.setEncoding('latin1')
+    socket.setTimeout(IDLE_TIMEOUT, () => {
+      socket.end(`421 ${hostname} Tempo esgotado\r\n`)
+    })
+
+    /** @type {SmtpEnvelope | null} */
+    let envelope = null
+    let greeted = false
+    let inData = false
+    /** @type {string[]} */
+    let data = []
+    let dataSize = 0
+    let pending = ''
+    // Commands may be pipelined; they are answered strictly in order
+    let queue = Promise.resolve()
+
+    /** @param {string} reply */
+    const send = (reply) => {
+      if (!socket.destroyed) socket.write(`${reply}\r\n`)
+    }
+
+    /** @param {string} line */
+    const handleDataLine = async (line) => {
+      if (line !== '.') {
+        const unstuffed = line.startsWith('..') ? line.slice(1) : line
+        dataSize += unstuffed.length + 2
+        if (dataSize <= MAX_MESSAGE_BYTES) data.push(unstuffed)
+        return
+      }
+      inData = false
+      const current = /** @type {SmtpEnvelope} */ (envelope)
+      const lines = data
+      envelope = null
+      data = []
+      if (dataSize > MAX_MESSAGE_BYTES) {
+        send(`552 Mensagem maior que ${MAX_MESSAGE_BYTES} bytes`)
+        return
+      }
+      try {
+        await onMessage(Buffer.from(lines.join('\r\n'), 'latin1'), current)
+        send('250 Mensagem recebida')
+      } catch (error) {
+        console.error(`Inbound mail rejected: ${error.message}`)
+        send('554 Mensagem recusada')
+      }
+    }
+
+    /** @param {string} line */
+    const handleCommand = (line) => {
+      const [verb] = line.split(' ', 1)
+      const arg = line.slice(verb.length).trim()
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          greeted = true
+          envelope = null
+          send(`250-${hostname}\r\n250-SIZE ${MAX_MESSAGE_BYTES}\r\n250-8BITMIME\r\n250 PIPELINING`)
+          return
+        case 'HELO':
+          greeted = true
+          envelope = null
+          send(`250 ${hostname}`)
+          return
+        case 'MAIL': {
+          const match = arg.match(/^FROM:\s*<([^>]*)>/i)
+          if (!greeted) return send('503 Envie EHLO primeiro')
+          if (!match) return send('501 Sintaxe: MAIL FROM:<endereço>')
+          envelope = { from: match[1], to: [] }
+          return send('250 OK')
+        }
+        case 'RCPT': {
+          const match = arg.match(/^TO:\s*<([^>]+)>/i)
+          if (!envelope) return send('503 Envie MAIL primeiro')
+          if (!match) return send('501 Sintaxe: RCPT TO:<endereço>')
+          envelope.to.push(match[1])
+          return send('250 OK')
+        }
+        case 'DATA':
+          if (!envelope || envelope.to.length === 0) return send('503 Envie RCPT primeiro')
+          inData = true
+          dataSize = 0
+          return send('354 Termine com <CRLF>.<CRLF>')
+        case 'RSET':
+          envelope = null
+          return send('250 OK')
+        case 'NOOP':
+          return send('250 OK')
+        case 'VRFY':
+          return send('252 Não verificado')
+        case 'QUIT':
+          send(`221 ${hostname} Até logo`)
+          socket.end()
+          return
+        default:
+          return send('502 Comando não implementado')
+      }
+    }
+
+    socket.on('data', (chunk) => {
+      pending += chunk
+      let newline
+      while ((newline = pending.indexOf('\n')) !== -1) {
+        const line = pending.slice(0, newline).replace(/\r$/, '')
+        pending = pending.slice(newline + 1)
+        queue = queue.then(() => (inData ? handleDataLine(line) : handleCommand(line)))
+      }
+      // No sane client sends a line this long
+      if (pending.length > MAX_LINE_LENGTH) socket.destroy()
+    })
+    socket.on('error', () => socket.destroy())
+
+    send(`220 ${hostname} ESMTP HelpDesk`)
+  })
+}
@@ -0,0 +1,54 @@
+/** @typedef {import('../src/App.tsx').Ticket} Ticket */
+/** @typedef {import('../src/App.tsx').Comment} Comment */
+/**
+ * What happened to a ticket, as reported by the code that changed it once the
+ * change is saved. `autoSubmitted` marks activity caused by an automated
+ * e-mail, which must never be answered automatically.
+ * @typedef {{ name: string, email?: string }} Actor
+ * @typedef {(
+ *   | { type: 'created', ticket: Ticket, actor: Actor }
+ *   | { type: 'updated', ticket: Ticket, changes: string[], actor: Actor }
+ *   | { type: 'status', ticket: Ticket, previousStatus: string, actor: Actor }
+ *   | { type: 'commented', ticket: Ticket, comment: Comment, actor: Actor }
+ *   | { type: 'deleted', ticket: Ticket, actor: Actor }
+ * ) & { autoSubmitted?: boolean }} TicketActivity
+ * @typedef {(activity: TicketActivity) => Promise<void>} TicketActivityListener
+ */
+
+/**
+ * Editable fields that differ between two versions of a ticket. Status has
+ * its own event and is left out.
+ * @param {Ticket} before
+ * @param {Ticket} after
+ */
+export const changedFields = (before, after) =>
+  /** @type {const} */ (['title', 'description', 'category', 'priority', 'assigneeId'])
+    .filter((field) => (before[field] ?? '') !== (after[field] ?? ''))
+
+/**
+ * Hands ticket activity to everything that reacts to it: e-mail
+ * notifications, webhooks. A listener that fails is logged and never fails
+ * the change that was published.
+ */
+export class TicketEvents {
+  constructor() {
+    /** @type {TicketActivityListener[]} */
+    this.listeners = []
+  }
+
+  /** @param {TicketActivityListener} listener */
+  subscribe(listener) {
+    this.listeners.push(listener)
+  }
+
+  /** @param {TicketActivity} activity */
+  async publish(activity) {
+    for (const listener of this.listeners) {
+      try {
+        await listener(activity)
+      } catch (error) {
+        console.error(`Could not handle ${activity.type} activity on ${activity.ticket.id}: ${error.message}`)
+      }
+    }
+  }
+}
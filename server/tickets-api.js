@@ -0,0 +1,516 @@
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+import { changedFields } from './ticket-events.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+/** @typedef {InstanceType<ServerEntry['TicketsModel']>} Model */
+/** @typedef {import('../src/App.tsx').User} User */
+
+const MAX_BULK_TICKETS = 1000
+
+/**
+ * REST surface for tickets. The rules come from the same `TicketsModel`,
+ * validators and permissions the client bundles, loaded through the SSR entry.
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ *   events: import('./ticket-events.js').TicketEvents,
+ *   attachments: import('./attachments.js').AttachmentsStore,
+ * }} options
+ */
+export function createTicketsRouter({ store, loadEntry, events, attachments }) {
+  const router = express.Router()
+  router.use(express.json({ limit: '1mb' }))
+  router.use(requireUser)
+
+  /**
+   * Runs `fn` against a model built from the persisted data and saves the
+   * model afterwards.
+   * @template T
+   * @param {(model: Model, entry: ServerEntry) => T} fn
+   * @returns {Promise<T>}
+   */
+  const mutate = async (fn) => {
+    const entry = await loadEntry()
+    return store.update((data) => {
+      const model = new entry.TicketsModel(data ?? undefined)
+      try {
+        const result = fn(model, entry)
+        return { data: model.getData(), result }
+      } catch (error) {
+        // Moves the workflow forbids are a conflict with the ticket's current state
+        if (error instanceof entry.WorkflowTransitionError) throw new HttpError(409, error.message)
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Tickets the user may not access are reported as missing so their IDs don't leak.
+   * @param {ServerEntry} entry
+   * @param {Model} model
+   * @param {string} id
+   * @param {User} user
+   */
+  const findTicket = (entry, model, id, user) => {
+    const ticket = model.getTicketById(id)
+    if (!ticket || !entry.canAccessTicket(user, ticket)) {
+      throw new HttpError(404, 'Ticket não encontrado')
+    }
+    return ticket
+  }
+
+  /**
+   * @param {ServerEntry} entry
+   * @param {User} user
+   * @param {import('../src/App.tsx').Permission} permission
+   * @param {string} message
+   */
+  const assertCan = (entry, user, permission, message) => {
+    if (!entry.can(user, permission)) throw new HttpError(403, message)
+  }
+
+  /**
+   * Assignees must be directory entries; an empty value unassigns.
+   * @param {Model} model
+   * @param {string | undefined} assigneeId
+   */
+  const assertAssignee = (model, assigneeId) => {
+    if (assigneeId && !model.getAssignee(assigneeId)) {
+      throw new HttpError(400, 'Ticket inválido', ['Responsável não encontrado'])
+    }
+  }
+
+  /**
+   * Reserves the uploads named by `attachmentIds` in a request body. They must
+   * be the user's own and not attached to anything yet; see `saveWithAttachments`.
+   * @param {ServerEntry} entry
+   * @param {any} body
+   * @param {User} user
+   */
+  const claimAttachments = async (entry, body, user) => {
+    const { attachmentIds = [] } = body ?? {}
+    if (!Array.isArray(attachmentIds) || attachmentIds.some((id) => typeof id !== 'string')) {
+      throw new HttpError(400, 'Anexos inválidos')
+    }
+    const ids = [...new Set(attachmentIds)]
+    if (ids.length > entry.MAX_ATTACHMENTS) {
+      throw new HttpError(400, 'Anexos inválidos', [`No máximo ${entry.MAX_ATTACHMENTS} anexos de uma vez`])
+    }
+    const files = await attachments.claim(ids, user.id)
+    if (!files) throw new HttpError(400, 'Anexos inválidos', ['Anexo não encontrado ou já utilizado'])
+    return files
+  }
+
+  /**
+   * Runs `save` with claimed uploads, linking them to what it saved or
+   * releasing them if it failed.
+   * @template T
+   * @param {import('../src/App.tsx').Attachment[]} files
+   * @param {() => Promise<T>} save
+   * @param {(saved: T) => { ticketId: string, commentId?: string }} target
+   * @returns {Promise<T>}
+   */
+  const saveWithAttachments = async (files, save, target) => {
+    if (files.length === 0) return save()
+    let saved
+    try {
+      saved = await save()
+    } catch (error) {
+      attachments.release(files)
+      throw error
+    }
+    const { ticketId, commentId } = target(saved)
+    await attachments.link(files, ticketId, commentId)
+    return saved
+  }
+
+  /**
+   * Strips whatever the current user may not see from a response.
+   * @param {import('express').Request} req
+   * @param {import('../src/App.tsx').Ticket} ticket
+   */
+  const present = async (req, ticket) => {
+    const entry = await loadEntry()
+    return entry.redactTicket(ticket, entry.audienceFor(req.user))
+  }
+
+  /**
+   * `?q=` takes the same query language as the list's search box, `?sort=` a
+   * sort key ("-" for descending) and `?cursor=`/`?limit=` page through results.
+   */
+  router.get('/', async (req, res) => {
+    const entry = await loadEntry()
+    const model = await store.model()
+    const audience = entry.audienceFor(req.user)
+    const { q = '', sort = '', cursor, limit } = req.query
+    if (typeof q !== 'string' || typeof sort !== 'string' || (cursor !== undefined && typeof cursor !== 'string')) {
+      throw new HttpError(400, 'Parâmetros de consulta inválidos')
+    }
+    const parsedSort = entry.parseTicketSort(sort)
+    if (!parsedSort) throw new HttpError(400, 'Ordenação inválida', [`Chave de ordenação desconhecida: ${sort}`])
+    const pageSize = limit === undefined ? undefined : Number(limit)
+    if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1)) {
+      throw new HttpError(400, 'Limite de página inválido')
+    }
+
+    let page
+    try {
+      page = model.queryTicketPage(q, {
+        audience,
+        sort: parsedSort,
+        visible: (ticket) => entry.canAccessTicket(req.user, ticket),
+        scope: req.user.id,
+        cursor,
+        limit: pageSize,
+      })
+    } catch (error) {
+      if (error instanceof entry.QuerySyntaxError) throw new HttpError(400, 'Consulta inválida', [error.message])
+      if (error instanceof entry.InvalidCursorError) throw new HttpError(400, error.message)
+      throw error
+    }
+    res.json({ ...page, tickets: page.tickets.map((ticket) => entry.redactTicket(ticket, audience)) })
+  })
+
+  // What the dashboard, directory and workflow editor count, over the tickets the user can see
+  router.get('/summary', async (req, res) => {
+    const entry = await loadEntry()
+    const model = await store.model()
+    const summary = model.getSummary({ visible: (ticket) => entry.canAccessTicket(req.user, ticket) })
+    res.json(entry.redactTicketSummary(summary, entry.audienceFor(req.user)))
+  })
+
+  // Every cell's count and first cards; the board reloads this after any change
+  router.get('/board', async (req, res) => {
+    const entry = await loadEntry()
+    const model = await store.model()
+    const swimlane = entry.BOARD_SWIMLANES.find((option) => option === (req.query.swimlane ?? 'none'))
+    if (!swimlane) throw new HttpError(400, 'Raia inválida')
+    const audience = entry.audienceFor(req.user)
+    const board = model.getBoard(swimlane, {
+      visible: (ticket) => entry.canAccessTicket(req.user, ticket),
+    })
+    res.json({ ...board, tickets: board.tickets.map((ticket) => entry.redactTicket(ticket, audience)) })
+  })
+
+  router.get('/:id', async (req, res) => {
+    const entry = await loadEntry()
+    const model = await store.model()
+    res.json(await present(req, findTicket(entry, model, req.params.id, req.user)))
+  })
+
+  router.post('/', async (req, res) => {
+    const user = req.user
+    const files = await claimAttachments(await loadEntry(), req.body, user)
+    const ticket = await saveWithAttachments(files, () => mutate((model, entry) => {
+      const input = { ...entry.pickTicketFields(req.body ?? {}), author: user.name }
+      if (!entry.can(user, 'changeStatus') || input.status === undefined) {
+        input.status = model.getWorkflow().initialStatus
+      }
+      if (!entry.can(user, 'assignTickets')) delete input.assigneeId
+      const errors = entry.validateTicketInput(input, model.getWorkflow())
+      if (errors.length > 0) throw new HttpError(400, 'Ticket inválido', errors)
+      assertAssignee(model, input.assigneeId)
+      return model.createTicket(
+        {
+          .../** @type {import('../src/App.tsx').TicketInput} */ (input),
+          authorId: user.id,
+          ...(files.length > 0 ? { attachments: files } : {}),
+        },
+        user.name,
+      )
+    }), (created) => ({ ticketId: created.id }))
+    await events.publish({ type: 'created', ticket, actor: user })
+    res.status(201).json(await present(req, ticket))
+  })
+
+  /**
+   * `version` in a PATCH body makes it conditional: the edit only applies if
+   * nobody changed the ticket since that version. Stale edits get a 409 with
+   * the current ticket so the client can show what changed.
+   */
+  router.patch('/:id', async (req, res) => {
+    const user = req.user
+    const { version } = req.body ?? {}
+    if (version !== undefined && !Number.isInteger(version)) {
+      throw new HttpError(400, 'Ticket inválido', ['Versão inválida'])
+    }
+    /** @type {import('../src/App.tsx').Ticket | undefined} */
+    let before
+    const ticket = await mutate((model, entry) => {
+      const current = findTicket(entry, model, req.params.id, user)
+      if (version !== undefined && version !== current.version) {
+        throw new HttpError(409, 'O ticket foi alterado por outra pessoa', [], {
+          ticket: entry.redactTicket(current, entry.audienceFor(user)),
+        })
+      }
+      before = current
+      const updates = entry.pickTicketFields(req.body ?? {})
+      // The author is the identity that opened the ticket and never changes
+      delete updates.author
+      if (updates.status !== undefined && updates.status !== current.status) {
+        assertCan(entry, user, 'changeStatus', 'Somente agentes podem alterar o status')
+      }
+      if (updates.assigneeId !== undefined && (updates.assigneeId || null) !== (current.assigneeId || null)) {
+        assertCan(entry, user, 'assignTickets', 'Somente agentes podem alterar o responsável')
+      }
+      const errors = entry.validateTicketInput(updates, model.getWorkflow(), true)
+      if (errors.length > 0) throw new HttpError(400, 'Ticket inválido', errors)
+      assertAssignee(model, updates.assigneeId)
+      return model.updateTicket(req.params.id, updates, user.name)
+    })
+    if (ticket && before) {
+      const changes = changedFields(before, ticket)
+      if (changes.length > 0) await events.publish({ type: 'updated', ticket, changes, actor: user })
+      if (ticket.status !== before.status) {
+        await events.publish({ type: 'status', ticket, previousStatus: before.status, actor: user })
+      }
+    }
+    res.json(await present(req, ticket))
+  })
+
+  router.delete('/:id', async (req, res) => {
+    const user = req.user
+    const ticket = await mutate((model, entry) => {
+      const current = findTicket(entry, model, req.params.id, user)
+      assertCan(entry, user, 'deleteTickets', 'Somente administradores podem excluir tickets')
+      model.deleteTicket(req.params.id)
+      return current
+    })
+    await events.publish({ type: 'deleted', ticket, actor: user })
+    res.status(204).end()
+  })
+
+  router.post('/:id/comments', async (req, res) => {
+    const user = req.user
+    const files = await claimAttachments(await loadEntry(), req.body, user)
+    const { ticket, comment } = await saveWithAttachments(files, () => mutate((model, entry) => {
+      findTicket(entry, model, req.params.id, user)
+      const { content, isInternal = false } = req.body ?? {}
+      const errors = entry.validateCommentInput({ author: user.name, content, isInternal })
+      if (errors.length > 0) throw new HttpError(400, 'Comentário inválido', errors)
+      if (isInternal) {
+        assertCan(entry, user, 'writeInternalNotes', 'Somente agentes podem adicionar notas internas')
+      }
+      const comment = model.addComment(req.params.id, {
+        author: user.name,
+        authorId: user.id,
+        content: content.trim(),
+        isInternal,
+        ...(files.length > 0 ? { attachments: files } : {}),
+      })
+      return { ticket: model.getTicketById(req.params.id), comment }
+    }), (saved) => ({ ticketId: req.params.id, commentId: saved.comment?.id }))
+    if (ticket && comment) await events.publish({ type: 'commented', ticket, comment, actor: user })
+    res.status(201).json(await present(req, ticket))
+  })
+
+  // Adds files to the ticket itself, whoever may comment on it may do this too
+  router.post('/:id/attachments', async (req, res) => {
+    const user = req.user
+    const files = await claimAttachments(await loadEntry(), req.body, user)
+    if (files.length === 0) throw new HttpError(400, 'Anexos inválidos', ['Nenhum anexo informado'])
+    const ticket = await saveWithAttachments(files, () => mutate((model, entry) => {
+      const current = findTicket(entry, model, req.params.id, user)
+      if ((current.attachments?.length ?? 0) + files.length > entry.MAX_ATTACHMENTS) {
+        throw new HttpError(400, 'Anexos inválidos', [`No máximo ${entry.MAX_ATTACHMENTS} anexos por ticket`])
+      }
+      return model.addAttachments(req.params.id, files)
+    }), () => ({ ticketId: req.params.id }))
+    if (ticket) await events.publish({ type: 'updated', ticket, changes: ['attachments'], actor: user })
+    res.status(201).json(await present(req, ticket))
+  })
+
+  router.post('/:id/status', async (req, res) => {
+    const user = req.user
+    /** @type {string | undefined} */
+    let previousStatus
+    const ticket = await mutate((model, entry) => {
+      previousStatus = findTicket(entry, model, req.params.id, user).status
+      assertCan(entry, user, 'changeStatus', 'Somente agentes podem alterar o status')
+      const { status } = req.body ?? {}
+      const errors = entry.validateTicketInput({ status }, model.getWorkflow(), true)
+      if (status === undefined || errors.length > 0) {
+        throw new HttpError(400, 'Status inválido', errors)
+      }
+      if (!model.changeTicketStatus(req.params.id, status, user.name)) {
+        throw new HttpError(409, 'Não é possível mudar para este status diretamente')
+      }
+      return model.getTicketById(req.params.id)
+    })
+    if (ticket && previousStatus && ticket.status !== previousStatus) {
+      await events.publish({ type: 'status', ticket, previousStatus, actor: user })
+    }
+    res.json(await present(req, ticket))
+  })
+
+  /**
+   * Checks a bulk action once, before any ticket is touched, so a bad value or
+   * a missing permission fails the whole request rather than every ticket.
+   * @param {ServerEntry} entry
+   * @param {Model} model
+   * @param {User} user
+   * @param {any} action
+   * @returns {import('../src/App.tsx').BulkAction}
+   */
+  const checkBulkAction = (entry, model, user, action) => {
+    const workflow = model.getWorkflow()
+    /** @param {Record<string, unknown>} fields */
+    const validate = (fields) => {
+      const errors = entry.validateTicketInput(fields, workflow, true)
+      if (errors.length > 0) throw new HttpError(400, 'Ação em massa inválida', errors)
+    }
+    switch (action?.type) {
+      case 'status':
+        assertCan(entry, user, 'changeStatus', 'Somente agentes podem alterar o status')
+        if (typeof action.status !== 'string') throw new HttpError(400, 'Ação em massa inválida', ['Status é obrigatório'])
+        validate({ status: action.status })
+        return { type: 'status', status: action.status }
+      case 'priority':
+        validate({ priority: action.priority })
+        return { type: 'priority', priority: action.priority }
+      case 'category':
+        validate({ category: action.category })
+        return { type: 'category', category: action.category }
+      case 'assignee':
+        assertCan(entry, user, 'assignTickets', 'Somente agentes podem alterar o responsável')
+        validate({ assigneeId: action.assigneeId ?? '' })
+        assertAssignee(model, action.assigneeId)
+        return { type: 'assignee', assigneeId: action.assigneeId ?? '' }
+      case 'comment': {
+        const isInternal = action.isInternal === true
+        const errors = entry.validateCommentInput({ author: user.name, content: action.content, isInternal })
+        if (errors.length > 0) throw new HttpError(400, 'Comentário inválido', errors)
+        if (isInternal) {
+          assertCan(entry, user, 'writeInternalNotes', 'Somente agentes podem adicionar notas internas')
+        }
+        return { type: 'comment', content: action.content.trim(), isInternal }
+      }
+      case 'delete':
+        assertCan(entry, user, 'deleteTickets', 'Somente administradores podem excluir tickets')
+        return { type: 'delete' }
+      default:
+        throw new HttpError(400, 'Ação em massa desconhecida')
+    }
+  }
+
+  /**
+   * Applies `action` to one ticket. Problems specific to this ticket throw and
+   * end up as its result's `error`. Changes worth an e-mail are added to `activity`.
+   * @param {ServerEntry} entry
+   * @param {Model} model
+   * @param {User} user
+   * @param {string} id
+   * @param {import('../src/App.tsx').BulkAction} action
+   * @param {import('./ticket-events.js').TicketActivity[]} activity
+   */
+  const applyBulkAction = (entry, model, user, id, action, activity) => {
+    const ticket = findTicket(entry, model, id, user)
+    /** @param {import('../src/App.tsx').Ticket | null} updated */
+    const recordUpdate = (updated) => {
+      const changes = updated ? changedFields(ticket, updated) : []
+      if (updated && changes.length > 0) activity.push({ type: 'updated', ticket: updated, changes, actor: user })
+      return updated
+    }
+    switch (action.type) {
+      case 'status': {
+        if (ticket.status === action.status) throw new HttpError(409, 'O ticket já está neste status')
+        // Same rule as a single status change, so the workflow can't be bypassed in bulk
+        if (!model.changeTicketStatus(id, action.status, user.name)) {
+          const from = model.getStatus(ticket.status).label
+          const to = model.getStatus(action.status).label
+          throw new HttpError(409, `Transição de "${from}" para "${to}" não permitida`)
+        }
+        const updated = model.getTicketById(id)
+        activity.push({ type: 'status', ticket: updated, previousStatus: ticket.status, actor: user })
+        return updated
+      }
+      case 'priority':
+        return recordUpdate(model.updateTicket(id, { priority: action.priority }, user.name))
+      case 'category':
+        return recordUpdate(model.updateTicket(id, { category: action.category }, user.name))
+      case 'assignee':
+        return recordUpdate(model.updateTicket(id, { assigneeId: action.assigneeId }, user.name))
+      case 'comment': {
+        const comment = model.addComment(id, {
+          author: user.name,
+          authorId: user.id,
+          content: action.content,
+          isInternal: action.isInternal,
+        })
+        if (comment) activity.push({ type: 'commented', ticket: model.getTicketById(id), comment, actor: user })
+        return model.getTicketById(id)
+      }
+      case 'delete':
+        model.deleteTicket(id)
+        activity.push({ type: 'deleted', ticket, actor: user })
+        return null
+    }
+  }
+
+  /**
+   * Every ticket a list query matches for the user, including those on pages
+   * the list hasn't loaded.
+   * @param {ServerEntry} entry
+   * @param {Model} model
+   * @param {User} user
+   * @param {string} query
+   */
+  const findMatchingIds = (entry, model, user, query) => {
+    let tickets
+    try {
+      tickets = model.queryTickets(query, {
+        audience: entry.audienceFor(user),
+        visible: (ticket) => entry.canAccessTicket(user, ticket),
+      })
+    } catch (error) {
+      if (error instanceof entry.QuerySyntaxError) throw new HttpError(400, 'Consulta inválida', [error.message])
+      throw error
+    }
+    if (tickets.length > MAX_BULK_TICKETS) {
+      throw new HttpError(400, `No máximo ${MAX_BULK_TICKETS} tickets por ação em massa`)
+    }
+    return tickets.map((ticket) => ticket.id)
+  }
+
+  // One transaction for the batch; each ticket reports its own outcome.
+  // The tickets are either listed in `ids` or every match of the list's `query`.
+  router.post('/bulk', async (req, res) => {
+    const user = req.user
+    const { ids, query, action } = req.body ?? {}
+    const byQuery = typeof query === 'string'
+    if (!byQuery && (!Array.isArray(ids) || ids.length === 0 || ids.some((id) => typeof id !== 'string'))) {
+      throw new HttpError(400, 'Informe os tickets da ação em massa')
+    }
+    if (!byQuery && ids.length > MAX_BULK_TICKETS) {
+      throw new HttpError(400, `No máximo ${MAX_BULK_TICKETS} tickets por ação em massa`)
+    }
+    const audience = (await loadEntry()).audienceFor(user)
+    /** @type {import('./ticket-events.js').TicketActivity[]} */
+    const activity = []
+    const results = await mutate((model, entry) => {
+      const checked = checkBulkAction(entry, model, user, action)
+      const targets = byQuery ? findMatchingIds(entry, model, user, query) : [...new Set(ids)]
+      return targets.map((id) => {
+        try {
+          const ticket = applyBulkAction(entry, model, user, id, checked, activity)
+          return { id, ok: true, ...(ticket ? { ticket: entry.redactTicket(ticket, audience) } : {}) }
+        } catch (error) {
+          if (error instanceof HttpError || error instanceof entry.WorkflowTransitionError) {
+            return { id, ok: false, error: error.message }
+          }
+          throw error
+        }
+      })
+    })
+    for (const item of activity) await events.publish(item)
+    res.json({ results })
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
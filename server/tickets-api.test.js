@@ -0,0 +1,210 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import express from 'express'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { AttachmentsStore } from './attachments.js'
+import { TicketEvents } from './ticket-events.js'
+import { createTicketsRouter } from './tickets-api.js'
+import { TicketsStore } from './tickets-store.js'
+
+const loadEntry = () => import('../src/entry-server.tsx')
+
+/** @type {import('../src/App.tsx').User} */
+const admin = { id: 'user_admin', name: 'Administrador', email: 'admin@helpdesk.local', role: 'admin' }
+
+describe('tickets API', () => {
+  /** @type {string} */
+  let dir
+  /** @type {import('node:http').Server} */
+  let server
+  /** @type {string} */
+  let baseUrl
+
+  /**
+   * Serves the router over a data directory holding `count` open tickets and
+   * one closed ticket, signed in as an admin.
+   * @param {number} count
+   */
+  const start = async (count) => {
+    const { TicketsModel, toPersistedData } = await loadEntry()
+    const model = new TicketsModel({ ...new TicketsModel().getData(), tickets: [] })
+    for (let i = 0; i < count; i++) {
+      model.createTicket({
+        title: `Ticket ${i}`,
+        description: 'Criado para o teste',
+        category: 'technical',
+        priority: 'low',
+        status: 'open',
+        author: 'João',
+      })
+    }
+    const closed = model.createTicket({
+      title: 'Encerrado',
+      description: 'Fora da consulta',
+      category: 'technical',
+      priority: 'low',
+      status: 'closed',
+      author: 'João',
+    })
+    const filePath = path.join(dir, 'tickets.json')
+    await fs.writeFile(filePath, JSON.stringify(toPersistedData(model.getData())))
+
+    const app = express()
+    app.use((req, _res, next) => {
+      req.user = admin
+      next()
+    })
+    app.use('/api/tickets', createTicketsRouter({
+      store: new TicketsStore(filePath, { loadEntry }),
+      loadEntry,
+      events: new TicketEvents(),
+      attachments: new AttachmentsStore(path.join(dir, 'attachments'), path.join(dir, 'attachments.json')),
+    }))
+    await new Promise((resolve) => {
+      server = app.listen(0, () => resolve(undefined))
+    })
+    const address = server.address()
+    baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}/api/tickets`
+    return closed
+  }
+
+  /**
+   * @param {string} route
+   * @param {unknown} [body]
+   */
+  const request = async (route, body) => {
+    const response = await fetch(`${baseUrl}${route}`, body === undefined ? {} : {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    return { status: response.status, body: await response.json() }
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tickets-api-'))
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve))
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  describe('GET /summary', () => {
+    it('counts every ticket but sends only the first of each list', async () => {
+      await start(120)
+
+      const { body } = await request('/summary')
+
+      expect(body.statistics.business.total).toBe(121)
+      expect(body.statistics.business.byStatus.open).toBe(120)
+      expect(body.recent).toHaveLength(6)
+    })
+  })
+
+  describe('GET /', () => {
+    it('pages through every match once', async () => {
+      await start(120)
+
+      /** @type {string[]} */
+      const served = []
+      let cursor = ''
+      do {
+        const { body } = await request(`/?q=status:open${cursor && `&cursor=${encodeURIComponent(cursor)}`}`)
+        served.push(...body.tickets.map((/** @type {{ id: string }} */ ticket) => ticket.id))
+        cursor = body.nextCursor ?? ''
+      } while (cursor)
+
+      expect(served).toHaveLength(120)
+      expect(new Set(served).size).toBe(120)
+    })
+  })
+
+  describe('GET /board', () => {
+    it('counts every cell but sends only its first cards', async () => {
+      const closed = await start(120)
+
+      const { body } = await request('/board')
+
+      expect(body.lanes).toEqual(['all'])
+      expect(body.cells).toEqual(expect.arrayContaining([
+        { status: 'open', lane: 'all', total: 120 },
+        { status: 'closed', lane: 'all', total: 1 },
+      ]))
+      expect(body.tickets.filter((/** @type {{ status: string }} */ ticket) => ticket.status === 'open')).toHaveLength(50)
+      expect(body.tickets.map((/** @type {{ id: string }} */ ticket) => ticket.id)).toContain(closed.id)
+    })
+
+    it('splits the cells into swimlanes', async () => {
+      await start(3)
+
+      const { body } = await request('/board?swimlane=priority')
+
+      expect(body.lanes).toEqual(['urgent', 'high', 'medium', 'low'])
+      expect(body.cells).toEqual(expect.arrayContaining([{ status: 'open', lane: 'low', total: 3 }]))
+      expect((await request('/board?swimlane=status')).status).toBe(400)
+    })
+  })
+
+  describe('PATCH /:id', () => {
+    it('leaves the version alone when nothing changes', async () => {
+      const ticket = await start(0)
+      /** @param {Record<string, unknown>} body */
+      const patch = async (body) => {
+        const response = await fetch(`${baseUrl}/${ticket.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+        return response.json()
+      }
+
+      expect(await patch({ priority: 'low', version: ticket.version })).toMatchObject({ version: ticket.version })
+      expect(await patch({ priority: 'high', version: ticket.version })).toMatchObject({ version: ticket.version + 1 })
+    })
+  })
+
+  describe('POST /bulk', () => {
+    it('applies a query to every match, past the first page', async () => {
+      const count = 120
+      const closed = await start(count)
+
+      // More than the list loads at once
+      const page = await request('/?q=status:open')
+      expect(page.body.tickets.length).toBeLessThan(count)
+      expect(page.body.nextCursor).not.toBeNull()
+      expect(page.body.total).toBe(count)
+
+      const { status, body } = await request('/bulk', {
+        query: 'status:open',
+        action: { type: 'priority', priority: 'urgent' },
+      })
+      expect(status).toBe(200)
+      expect(body.results).toHaveLength(count)
+      expect(body.results.every((/** @type {{ ok: boolean }} */ result) => result.ok)).toBe(true)
+
+      const urgent = await request('/?q=priority:urgent&limit=500')
+      expect(urgent.body.total).toBe(count)
+      expect(urgent.body.tickets.map((/** @type {{ id: string }} */ ticket) => ticket.id)).not.toContain(closed.id)
+    })
+
+    it('still accepts the tickets picked by hand', async () => {
+      const closed = await start(2)
+
+      const { body } = await request('/bulk', { ids: [closed.id], action: { type: 'priority', priority: 'high' } })
+
+      expect(body.results).toEqual([expect.objectContaining({ id: closed.id, ok: true })])
+      expect((await request('/?q=priority:high')).body.total).toBe(1)
+    })
+
+    it('rejects a query that does not parse', async () => {
+      await start(1)
+
+      const { status, body } = await request('/bulk', { query: 'status:', action: { type: 'priority', priority: 'high' } })
+
+      expect(status).toBe(400)
+      expect(body.error).toBe('Consulta inválida')
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { TaskQueue, writeJsonFile } from './json-file.js'
+
+/** @typedef {import('../src/App.tsx').TicketsData} TicketsData */
+/** @typedef {import('../src/App.tsx').Ticket} Ticket */
+/** @typedef {InstanceType<typeof import('../src/entry-server.tsx')['TicketsModel']>} Model */
+
+/**
+ * Durable JSON file store for the tickets data.
+ *
+ * Reads are served from an in-memory copy, and from one shared model whose
+ * search index is kept up to date ticket by ticket as changes are saved;
+ * every mutation runs through a queue so concurrent requests never
+ * interleave their read-modify-write.
+ * Payloads are upgraded with the same schema migrations the browser stores
+ * use, and anything that cannot be migrated is moved to `quarantine/`.
+ */
+export class TicketsStore {
+  /**
+   * @param {string} filePath
+   * @param {{ loadEntry: () => Promise<typeof import('../src/entry-server.tsx')> }} options
+   */
+  constructor(filePath, { loadEntry }) {
+    this.filePath = filePath
+    this.loadEntry = loadEntry
+    /** @type {TicketsData | null | undefined} */
+    this.data = undefined
+    /** @type {Model | null} */
+    this.shared = null
+    this.queue = new TaskQueue()
+  }
+
+  /**
+   * A copy of the data, for changing and passing to `update`.
+   * @returns {Promise<TicketsData | null>}
+   */
+  async read() {
+    if (this.data === undefined) {
+      this.data = await this.load()
+    }
+    return this.data ? structuredClone(this.data) : null
+  }
+
+  /**
+   * The current data as a model, shared by every reader so lists and
+   * searches neither copy the data nor rebuild the search index. It must not
+   * be changed; changes go through `update`.
+   * @returns {Promise<Model>}
+   */
+  async model() {
+    if (!this.shared) {
+      const { TicketsModel } = await this.loadEntry()
+      this.shared = new TicketsModel((await this.read()) ?? undefined)
+    }
+    return this.shared
+  }
+
+  /** @returns {Promise<TicketsData | null>} */
+  async load() {
+    let text
+    try {
+      text = await fs.readFile(this.filePath, 'utf-8')
+    } catch (error) {
+      if (error.code === 'ENOENT') return null
+      throw error
+    }
+
+    const { migrateTicketsData, SCHEMA_VERSION } = await this.loadEntry()
+    let raw
+    try {
+      raw = JSON.parse(text)
+      const data = migrateTicketsData(raw)
+      if (raw.schemaVersion !== SCHEMA_VERSION) await this.write(data)
+      return data
+    } catch (error) {
+      console.error(`Quarantining unreadable tickets data: ${error.message}`)
+      await this.quarantine(text, error.message)
+      return null
+    }
+  }
+
+  /** @param {TicketsData} data */
+  async write(data) {
+    const { toPersistedData } = await this.loadEntry()
+    await writeJsonFile(this.filePath, toPersistedData(data))
+    const previous = this.data
+    this.data = structuredClone(data)
+    this.refreshModel(previous ?? null, this.data)
+  }
+
+  /**
+   * Brings the shared model up to `data`. Every change to a ticket bumps its
+   * version except an internal note, which only adds a comment, so only
+   * tickets with a new version or comment count are re-indexed.
+   * @param {TicketsData | null} previous
+   * @param {TicketsData} data
+   */
+  refreshModel(previous, data) {
+    const model = this.shared
+    if (!model) return
+    /** @param {Ticket} ticket */
+    const revision = (ticket) => `${ticket.version}:${ticket.comments.length}`
+    const revisions = new Map((previous?.tickets ?? []).map((ticket) => [ticket.id, revision(ticket)]))
+    for (const ticket of data.tickets) {
+      if (revisions.get(ticket.id) !== revision(ticket)) model.upsertTicket(ticket)
+      revisions.delete(ticket.id)
+    }
+    for (const id of revisions.keys()) model.deleteTicket(id)
+    model.replaceDirectory(data)
+    model.replaceSlaPolicies(data.slaPolicies)
+    model.replaceWorkflow(data.workflow)
+    model.replaceSavedViews(data.savedViews)
+  }
+
+  /**
+   * Moves the unreadable file aside, keeping its original bytes.
+   * @param {string} text
+   * @param {string} reason
+   */
+  async quarantine(text, reason) {
+    const dir = path.join(path.dirname(this.filePath), 'quarantine')
+    const name = `${path.basename(this.filePath, '.json')}-${Date.now()}`
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(path.join(dir, `${name}.json`), text)
+    await fs.writeFile(
+      path.join(dir, `${name}.reason.txt`),
+      `${new Date().toISOString()} ${reason}\n`,
+    )
+    await fs.rm(this.filePath, { force: true })
+  }
+
+  /**
+   * Runs `mutator` with the current data and persists whatever it returns.
+   * @template T
+   * @param {(data: TicketsData | null) => Promise<{ data?: TicketsData, result: T }> | { data?: TicketsData, result: T }} mutator
+   * @returns {Promise<T>}
+   */
+  update(mutator) {
+    return this.queue.run(async () => {
+      const { data, result } = await mutator(await this.read())
+      if (data) await this.write(data)
+      return result
+    })
+  }
+}
@@ -0,0 +1,75 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { TicketsStore } from './tickets-store.js'
+
+const loadEntry = () => import('../src/entry-server.tsx')
+
+describe('TicketsStore', () => {
+  /** @type {string} */
+  let dir
+  /** @type {string} */
+  let filePath
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tickets-store-'))
+    filePath = path.join(dir, 'tickets.json')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('starts with no data when the file is missing', async () => {
+    expect(await new TicketsStore(filePath, { loadEntry }).read()).toBeNull()
+  })
+
+  it('saves an upgraded payload back at the current schema version', async () => {
+    const { SCHEMA_VERSION } = await loadEntry()
+    await fs.writeFile(filePath, JSON.stringify({ tickets: [{ id: 'ticket_1', title: 'Antigo', author: 'João' }] }))
+
+    const data = await new TicketsStore(filePath, { loadEntry }).read()
+    const saved = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+
+    expect(data?.tickets[0]).toMatchObject({ id: 'ticket_1', comments: [], version: 1 })
+    expect(saved.schemaVersion).toBe(SCHEMA_VERSION)
+    expect(saved.tickets).toEqual(data?.tickets)
+  })
+
+  it('brings the shared model up to an internal note, which leaves the version alone', async () => {
+    const { TicketsModel, toPersistedData } = await loadEntry()
+    await fs.writeFile(filePath, JSON.stringify(toPersistedData(new TicketsModel().getData())))
+    const store = new TicketsStore(filePath, { loadEntry })
+    const [ticket] = (await store.model()).getAllTickets()
+
+    await store.update((data) => {
+      const model = new TicketsModel(data ?? undefined)
+      model.addComment(ticket.id, { author: 'Ana', content: 'Cliente já ligou duas vezes', isInternal: true })
+      return { data: model.getData(), result: undefined }
+    })
+    const shared = (await store.model()).getTicketById(ticket.id)
+
+    expect(shared).toMatchObject({ version: ticket.version, updatedAt: ticket.updatedAt })
+    expect(shared?.comments.at(-1)).toMatchObject({ content: 'Cliente já ligou duas vezes', isInternal: true })
+  })
+
+  it.each([
+    ['unparsable JSON', '{"tickets": [', /JSON/],
+    ['a payload from a newer release', JSON.stringify({ schemaVersion: 999, tickets: [] }), /newer than supported/],
+    ['a payload that fails to migrate', JSON.stringify({ tickets: 'none' }), /Migration to v1 failed/],
+  ])('quarantines %s and starts empty', async (_case, text, reason) => {
+    await fs.writeFile(filePath, text)
+
+    expect(await new TicketsStore(filePath, { loadEntry }).read()).toBeNull()
+
+    const quarantined = await fs.readdir(path.join(dir, 'quarantine'))
+    const original = quarantined.find((name) => name.endsWith('.json'))
+    const note = quarantined.find((name) => name.endsWith('.reason.txt'))
+    expect(await fs.readFile(path.join(dir, 'quarantine', String(original)), 'utf-8')).toBe(text)
+    expect(await fs.readFile(path.join(dir, 'quarantine', String(note)), 'utf-8')).toMatch(reason)
+    await expect(fs.access(filePath)).rejects.toThrow()
+  })
+})
@@ -0,0 +1,375 @@
+import crypto from 'node:crypto'
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { once } from 'node:events'
+import { Transform } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+import { changedFields } from './ticket-events.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+/** @typedef {InstanceType<ServerEntry['TicketsModel']>} Model */
+/** @typedef {import('../src/App.tsx').User} User */
+/** @typedef {import('../src/App.tsx').ImportOptions} ImportOptions */
+/** @typedef {import('../src/App.tsx').ImportReport} ImportReport */
+/** @typedef {import('./ticket-events.js').TicketActivity} TicketActivity */
+
+const MAX_IMPORT_BYTES = 512 * 1024 * 1024
+// JSON is parsed in one piece, so it gets a far smaller limit than streamed CSV
+const MAX_JSON_IMPORT_BYTES = 32 * 1024 * 1024
+// Uploads nobody confirmed or discarded are removed after a day
+const IMPORT_TTL = 24 * 60 * 60 * 1000
+const SAMPLE_ROWS = 5
+// Export output is buffered up to this many characters per write
+const EXPORT_CHUNK = 64 * 1024
+const UPLOAD_ID = /^(csv|json)-[0-9a-f-]{36}$/
+
+/**
+ * Bulk export and import of tickets. Exports stream straight to the response;
+ * imports are uploaded to disk first and then read back row by row, so files
+ * too large for the browser never have to be held in memory as a whole (JSON
+ * files, which can't be read incrementally, are the exception and are kept
+ * small).
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ *   dataDir: string,
+ *   events: import('./ticket-events.js').TicketEvents,
+ * }} options
+ */
+export function createTransferRouter({ store, loadEntry, dataDir, events }) {
+  const router = express.Router()
+  const importsDir = path.join(dataDir, 'imports')
+  const json = express.json({ limit: '1mb' })
+  router.use(requireUser)
+
+  /**
+   * @param {import('express').Response} res
+   * @param {string} text
+   */
+  const write = async (res, text) => {
+    if (!res.write(text)) await once(res, 'drain')
+  }
+
+  /**
+   * `?format=csv|json` picks the file type; `?q=` and `?sort=` narrow it to a
+   * list result set, the same way as `GET /api/tickets`.
+   */
+  router.get('/export', async (req, res) => {
+    const entry = await loadEntry()
+    const model = await store.model()
+    const audience = entry.audienceFor(req.user)
+    const { format = 'csv', q = '', sort = '' } = req.query
+    if ((format !== 'csv' && format !== 'json') || typeof q !== 'string' || typeof sort !== 'string') {
+      throw new HttpError(400, 'Parâmetros de exportação inválidos')
+    }
+    const parsedSort = entry.parseTicketSort(sort)
+    if (!parsedSort) throw new HttpError(400, 'Ordenação inválida', [`Chave de ordenação desconhecida: ${sort}`])
+
+    let tickets
+    try {
+      tickets = model.queryTickets(q, {
+        audience,
+        sort: parsedSort,
+        visible: (ticket) => entry.canAccessTicket(req.user, ticket),
+      })
+    } catch (error) {
+      if (error instanceof entry.QuerySyntaxError) throw new HttpError(400, 'Consulta inválida', [error.message])
+      throw error
+    }
+
+    const name = `tickets-${new Date().toISOString().slice(0, 10)}.${format}`
+    res.set({
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${name}"`,
+    })
+
+    let buffer = ''
+    /** @param {string} text */
+    const append = async (text) => {
+      buffer += text
+      if (buffer.length >= EXPORT_CHUNK) {
+        await write(res, buffer)
+        buffer = ''
+      }
+    }
+
+    if (format === 'csv') {
+      // The BOM makes spreadsheet apps read the file as UTF-8
+      await append(`\ufeff${entry.formatCsvRow([...entry.CSV_EXPORT_COLUMNS])}`)
+      for (const ticket of tickets) {
+        const visible = entry.redactTicket(ticket, audience)
+        await append(entry.formatCsvRow(entry.ticketToCsvRow(visible, (id) => model.getAssigneeName(id))))
+      }
+    } else {
+      await append(`{"schemaVersion":${entry.SCHEMA_VERSION},"exportedAt":${Date.now()},"tickets":[`)
+      for (const [index, ticket] of tickets.entries()) {
+        await append(`${index > 0 ? ',' : ''}\n${JSON.stringify(entry.redactTicket(ticket, audience))}`)
+      }
+      await append('\n]}\n')
+    }
+    res.end(buffer)
+  })
+
+  // Imports can overwrite any ticket, so they are limited to admins
+  router.use('/imports', async (req, _res, next) => {
+    const entry = await loadEntry()
+    if (!entry.can(req.user, 'importTickets')) {
+      throw new HttpError(403, 'Somente administradores podem importar tickets')
+    }
+    next()
+  })
+
+  /** @param {string} id */
+  const uploadPath = (id) => {
+    if (!UPLOAD_ID.test(id)) throw new HttpError(404, 'Importação não encontrada')
+    return path.join(importsDir, `${id}.${id.split('-')[0]}`)
+  }
+
+  /**
+   * Reads a CSV upload one row at a time.
+   * @param {ServerEntry} entry
+   * @param {string} file
+   * @returns {AsyncGenerator<string[]>}
+   */
+  async function* readCsvRows(entry, file) {
+    const parser = new entry.CsvParser()
+    const decoder = new TextDecoder()
+    for await (const chunk of fs.createReadStream(file)) {
+      yield* parser.push(decoder.decode(chunk, { stream: true }))
+    }
+    yield* parser.push(decoder.decode())
+    yield* parser.end()
+  }
+
+  /**
+   * @param {ServerEntry} entry
+   * @param {string} file
+   */
+  const readJsonTickets = async (entry, file) => {
+    let raw
+    try {
+      raw = JSON.parse(await fsp.readFile(file, 'utf-8'))
+    } catch {
+      throw new HttpError(400, 'Arquivo inválido', ['O arquivo não é um JSON válido'])
+    }
+    try {
+      return entry.parseTicketsExport(raw)
+    } catch (error) {
+      if (error instanceof entry.TicketImportError) throw new HttpError(400, 'Arquivo inválido', error.messages)
+      throw error
+    }
+  }
+
+  /**
+   * Column headers, the first rows and the row count of a CSV upload.
+   * @param {ServerEntry} entry
+   * @param {string} file
+   */
+  const summarizeCsv = async (entry, file) => {
+    /** @type {string[] | null} */
+    let columns = null
+    /** @type {string[][]} */
+    const sample = []
+    let rows = 0
+    try {
+      for await (const row of readCsvRows(entry, file)) {
+        if (!columns) columns = row.map((column) => column.trim())
+        else if (rows++ < SAMPLE_ROWS) sample.push(row)
+      }
+    } catch (error) {
+      if (error instanceof entry.TicketImportError) throw new HttpError(400, 'Arquivo inválido', error.messages)
+      throw error
+    }
+    if (!columns) throw new HttpError(400, 'Arquivo inválido', ['O arquivo está vazio'])
+    return { columns, sample, rows }
+  }
+
+  /**
+   * Feeds every record of an upload to `model.importTicket`. Used for both the
+   * preview (on a throwaway model) and the real import, so they always agree.
+   * The real import collects the activity to publish once it is saved.
+   * @param {ServerEntry} entry
+   * @param {Model} model
+   * @param {string} id
+   * @param {ImportOptions} options
+   * @param {User} user
+   * @param {TicketActivity[]} [activity]
+   * @returns {Promise<ImportReport>}
+   */
+  const runImport = async (entry, model, id, options, user, activity) => {
+    const file = uploadPath(id)
+    /** @type {ImportReport} */
+    const report = { total: 0, created: 0, updated: 0, failed: 0, errors: [] }
+    /**
+     * @param {number} row
+     * @param {() => import('../src/App.tsx').TicketImport} read
+     */
+    const importRecord = (row, read) => {
+      report.total++
+      try {
+        const { outcome, ticket, previous } = model.importTicket(read(), options.mode, user.name)
+        report[outcome]++
+        if (!activity) return
+        if (!previous) {
+          activity.push({ type: 'created', ticket, actor: user })
+          return
+        }
+        const changes = changedFields(previous, ticket)
+        if (changes.length > 0) activity.push({ type: 'updated', ticket, changes, actor: user })
+        if (ticket.status !== previous.status) {
+          activity.push({ type: 'status', ticket, previousStatus: previous.status, actor: user })
+        }
+      } catch (error) {
+        if (!(error instanceof entry.TicketImportError)) throw error
+        report.failed++
+        if (report.errors.length < entry.MAX_IMPORT_ERRORS) report.errors.push({ row, messages: error.messages })
+      }
+    }
+
+    const context = { workflow: model.getWorkflow(), agents: model.getAgents(), teams: model.getTeams() }
+    if (id.startsWith('json-')) {
+      const checked = entry.validateImportOptions(options, [])
+      if (checked.length > 0) throw new HttpError(400, 'Opções de importação inválidas', checked)
+      const records = await readJsonTickets(entry, file)
+      records.forEach((record, index) => importRecord(index + 1, () => record))
+      return report
+    }
+
+    /** @type {string[] | null} */
+    let columns = null
+    try {
+      for await (const row of readCsvRows(entry, file)) {
+        if (!columns) {
+          columns = row.map((column) => column.trim())
+          const checked = entry.validateImportOptions(options, columns)
+          if (checked.length > 0) throw new HttpError(400, 'Opções de importação inválidas', checked)
+          continue
+        }
+        importRecord(report.total + 1, () => entry.parseImportRow(row, columns, options.mapping, context))
+      }
+    } catch (error) {
+      // Only a malformed file gets here; row problems were counted above
+      if (error instanceof entry.TicketImportError) throw new HttpError(400, 'Arquivo inválido', error.messages)
+      throw error
+    }
+    return report
+  }
+
+  /**
+   * Old uploads are swept whenever a new one arrives.
+   */
+  const removeStaleUploads = async () => {
+    const names = await fsp.readdir(importsDir).catch(() => [])
+    await Promise.all(names.map(async (name) => {
+      const file = path.join(importsDir, name)
+      // Another request may have removed it meanwhile
+      const stats = await fsp.stat(file).catch(() => null)
+      if (stats && Date.now() - stats.mtimeMs > IMPORT_TTL) await fsp.rm(file, { force: true })
+    }))
+  }
+
+  /**
+   * The request body is the file itself (`?format=csv|json`). Answers with
+   * what the mapping step needs: headers, sample rows and a suggested mapping.
+   */
+  router.post('/imports', async (req, res) => {
+    const entry = await loadEntry()
+    const { format } = req.query
+    if (format !== 'csv' && format !== 'json') throw new HttpError(400, 'Formato de importação inválido')
+    await removeStaleUploads()
+    await fsp.mkdir(importsDir, { recursive: true })
+
+    const id = `${format}-${crypto.randomUUID()}`
+    const file = uploadPath(id)
+    const maxBytes = format === 'json' ? MAX_JSON_IMPORT_BYTES : MAX_IMPORT_BYTES
+    let size = 0
+    const limit = new Transform({
+      transform(chunk, _encoding, callback) {
+        size += chunk.length
+        if (size > maxBytes) {
+          callback(new HttpError(413, `O arquivo excede ${maxBytes / 1024 / 1024} MB`))
+        } else {
+          callback(null, chunk)
+        }
+      },
+    })
+    try {
+      await pipeline(req, limit, fs.createWriteStream(file))
+      if (format === 'json') {
+        const tickets = await readJsonTickets(entry, file)
+        res.status(201).json({ id, format, columns: [], sample: [], rows: tickets.length, mapping: {} })
+      } else {
+        const { columns, sample, rows } = await summarizeCsv(entry, file)
+        res.status(201).json({ id, format, columns, sample, rows, mapping: entry.suggestImportMapping(columns) })
+      }
+    } catch (error) {
+      await fsp.rm(file, { force: true })
+      throw error
+    }
+  })
+
+  /**
+   * @param {import('express').Request} req
+   * @returns {ImportOptions}
+   */
+  const readOptions = (req) => {
+    const { mapping = {}, mode } = req.body ?? {}
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+      throw new HttpError(400, 'Opções de importação inválidas', ['Mapeamento inválido'])
+    }
+    return { mapping, mode }
+  }
+
+  /**
+   * @param {string} id
+   */
+  const assertUploadExists = async (id) => {
+    try {
+      await fsp.access(uploadPath(id))
+    } catch (error) {
+      if (error instanceof HttpError) throw error
+      throw new HttpError(404, 'Importação não encontrada')
+    }
+  }
+
+  // Dry run: reports what the import would do without saving anything
+  router.post('/imports/:id/preview', json, async (req, res) => {
+    const entry = await loadEntry()
+    await assertUploadExists(req.params.id)
+    const model = new entry.TicketsModel((await store.read()) ?? undefined)
+    res.json(await runImport(entry, model, req.params.id, readOptions(req), req.user))
+  })
+
+  // The whole file is one transaction: rejected rows are skipped, the rest saved together
+  router.post('/imports/:id', json, async (req, res) => {
+    const entry = await loadEntry()
+    await assertUploadExists(req.params.id)
+    const options = readOptions(req)
+    /** @type {TicketActivity[]} */
+    const activity = []
+    const report = await store.update(async (data) => {
+      const model = new entry.TicketsModel(data ?? undefined)
+      const result = await runImport(entry, model, req.params.id, options, req.user, activity)
+      return { data: result.created + result.updated > 0 ? model.getData() : undefined, result }
+    })
+    await fsp.rm(uploadPath(req.params.id), { force: true })
+    // Each imported ticket notifies and fires webhooks like the same change made by hand
+    for (const item of activity) await events.publish(item)
+    res.json(report)
+  })
+
+  router.delete('/imports/:id', async (req, res) => {
+    await fsp.rm(uploadPath(req.params.id), { force: true })
+    res.status(204).end()
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
@@ -0,0 +1,142 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import express from 'express'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { TicketEvents } from './ticket-events.js'
+import { TicketsStore } from './tickets-store.js'
+import { createTransferRouter } from './transfer-api.js'
+
+const loadEntry = () => import('../src/entry-server.tsx')
+
+/** @type {import('../src/App.tsx').User} */
+const admin = { id: 'user_admin', name: 'Administrador', email: 'admin@helpdesk.local', role: 'admin' }
+
+describe('transfer API', () => {
+  /** @type {string} */
+  let dir
+  /** @type {import('node:http').Server} */
+  let server
+  /** @type {string} */
+  let baseUrl
+  /** @type {import('./ticket-events.js').TicketActivity[]} */
+  let published
+
+  /**
+   * Serves the router over a data directory holding one open ticket, signed
+   * in as an admin, and records the activity it publishes.
+   */
+  const start = async () => {
+    const { TicketsModel, toPersistedData } = await loadEntry()
+    const model = new TicketsModel({ ...new TicketsModel().getData(), tickets: [] })
+    const ticket = model.createTicket({
+      title: 'Sem acesso',
+      description: 'Não consigo entrar',
+      category: 'account',
+      priority: 'high',
+      status: 'open',
+      author: 'João',
+    })
+    const filePath = path.join(dir, 'tickets.json')
+    await fs.writeFile(filePath, JSON.stringify(toPersistedData(model.getData())))
+
+    const events = new TicketEvents()
+    published = []
+    events.subscribe(async (activity) => {
+      published.push(activity)
+    })
+    const app = express()
+    app.use((req, _res, next) => {
+      req.user = admin
+      next()
+    })
+    app.use('/api/transfer', createTransferRouter({
+      store: new TicketsStore(filePath, { loadEntry }),
+      loadEntry,
+      dataDir: dir,
+      events,
+    }))
+    await new Promise((resolve) => {
+      server = app.listen(0, () => resolve(undefined))
+    })
+    const address = server.address()
+    baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}/api/transfer`
+    return ticket
+  }
+
+  /**
+   * @param {string} route
+   * @param {string} body
+   * @param {string} [type]
+   */
+  const post = async (route, body, type = 'application/json') => {
+    const response = await fetch(`${baseUrl}${route}`, { method: 'POST', headers: { 'Content-Type': type }, body })
+    return { status: response.status, body: await response.json() }
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-api-'))
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve))
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  describe('POST /imports', () => {
+    it('refuses JSON well before the CSV limit', async () => {
+      await start()
+      const chunk = new TextEncoder().encode(' '.repeat(1024 * 1024))
+      let sent = 0
+      const body = new ReadableStream({
+        pull(controller) {
+          if (sent++ < 33) controller.enqueue(chunk)
+          else controller.close()
+        },
+      })
+
+      const response = await fetch(`${baseUrl}/imports?format=json`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        // Node's fetch needs this to stream a request body
+        duplex: 'half',
+      })
+
+      expect(response.status).toBe(413)
+      expect(await response.json()).toMatchObject({ error: 'O arquivo excede 32 MB' })
+      expect(await fs.readdir(path.join(dir, 'imports'))).toEqual([])
+    })
+  })
+
+  describe('POST /imports/:id', () => {
+    const mapping = { id: 'id', title: 'title', description: 'description', status: 'status' }
+
+    it('publishes each imported change like the same change made by hand', async () => {
+      const ticket = await start()
+      const csv = `id,title,description,status\n${ticket.id},,,in-progress\n,Novo,Criado pela importação,open\n`
+      const upload = await post('/imports?format=csv', csv, 'text/csv')
+
+      const { body } = await post(`/imports/${upload.body.id}`, JSON.stringify({ mode: 'upsert', mapping }))
+
+      expect(body).toMatchObject({ created: 1, updated: 1, failed: 0 })
+      expect(published).toEqual([
+        expect.objectContaining({ type: 'status', previousStatus: 'open', ticket: expect.objectContaining({ id: ticket.id }) }),
+        expect.objectContaining({ type: 'created', ticket: expect.objectContaining({ title: 'Novo' }), actor: admin }),
+      ])
+    })
+
+    it('publishes nothing for a preview or a rejected row', async () => {
+      const ticket = await start()
+      const upload = await post('/imports?format=csv', `id,status\n${ticket.id},resolved\n`, 'text/csv')
+      const options = JSON.stringify({ mode: 'upsert', mapping: { id: 'id', status: 'status' } })
+
+      expect((await post(`/imports/${upload.body.id}/preview`, options)).body).toMatchObject({ failed: 1 })
+      expect((await post(`/imports/${upload.body.id}`, options)).body).toMatchObject({
+        updated: 0,
+        errors: [{ row: 1, messages: ['Não é possível mudar para este status diretamente: "resolved"'] }],
+      })
+      expect(published).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+/** @typedef {InstanceType<ServerEntry['TicketsModel']>} Model */
+/** @typedef {import('../src/App.tsx').User} User */
+
+/**
+ * Saved ticket-list views. Each user manages their own; agents may publish a
+ * view to the rest of the team, and anyone who sees a view may pin it.
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ * }} options
+ */
+export function createViewsRouter({ store, loadEntry }) {
+  const router = express.Router()
+  router.use(express.json({ limit: '1mb' }))
+  router.use(requireUser)
+
+  /**
+   * Views as `user` may see them.
+   * @param {ServerEntry} entry
+   * @param {Model} model
+   * @param {User} user
+   */
+  const viewsFor = (entry, model, user) => ({
+    savedViews: model
+      .getSavedViews()
+      .filter((view) => entry.canSeeSavedView(user, view))
+      .map((view) => entry.redactSavedView(view, user)),
+  })
+
+  /**
+   * Same contract as the tickets router: build a model, run `fn`, persist, and
+   * answer with the views the user sees afterwards.
+   * @param {User} user
+   * @param {(model: Model, entry: ServerEntry) => void} fn
+   */
+  const mutate = async (user, fn) => {
+    const entry = await loadEntry()
+    return store.update((data) => {
+      const model = new entry.TicketsModel(data ?? undefined)
+      fn(model, entry)
+      return { data: model.getData(), result: viewsFor(entry, model, user) }
+    })
+  }
+
+  /**
+   * Views the user can't see are reported as missing so their IDs don't leak.
+   * @param {ServerEntry} entry
+   * @param {Model} model
+   * @param {string} id
+   * @param {User} user
+   * @param {{ owner?: boolean }} [options]
+   */
+  const findView = (entry, model, id, user, { owner = false } = {}) => {
+    const view = model.getSavedView(id)
+    if (!view || !entry.canSeeSavedView(user, view)) throw new HttpError(404, 'Visualização não encontrada')
+    if (owner && view.ownerId !== user.id) {
+      throw new HttpError(403, 'Somente quem criou a visualização pode alterá-la')
+    }
+    return view
+  }
+
+  /**
+   * @param {ServerEntry} entry
+   * @param {Record<string, any>} body
+   * @param {User} user
+   */
+  const pickView = (entry, body, user) => {
+    const input = { name: body.name, query: body.query ?? '', sort: body.sort ?? '', shared: body.shared ?? false }
+    const errors = entry.validateSavedViewInput(input)
+    if (errors.length > 0) throw new HttpError(400, 'Visualização inválida', errors)
+    if (input.shared && !entry.can(user, 'publishViews')) {
+      throw new HttpError(403, 'Você não pode publicar visualizações para a equipe')
+    }
+    return input
+  }
+
+  router.get('/', async (req, res) => {
+    const entry = await loadEntry()
+    const model = await store.model()
+    res.json(viewsFor(entry, model, req.user))
+  })
+
+  router.post('/', async (req, res) => {
+    const user = req.user
+    const views = await mutate(user, (model, entry) => {
+      model.createSavedView(pickView(entry, req.body ?? {}, user), user)
+    })
+    res.status(201).json(views)
+  })
+
+  router.put('/:id', async (req, res) => {
+    const user = req.user
+    const views = await mutate(user, (model, entry) => {
+      findView(entry, model, req.params.id, user, { owner: true })
+      model.updateSavedView(req.params.id, pickView(entry, req.body ?? {}, user))
+    })
+    res.json(views)
+  })
+
+  router.delete('/:id', async (req, res) => {
+    const user = req.user
+    const views = await mutate(user, (model, entry) => {
+      findView(entry, model, req.params.id, user, { owner: true })
+      model.deleteSavedView(req.params.id)
+    })
+    res.json(views)
+  })
+
+  // Pins are per user, so anyone who sees a view may pin it to their own header
+  router.put('/:id/pin', async (req, res) => {
+    const user = req.user
+    const { pinned } = req.body ?? {}
+    if (typeof pinned !== 'boolean') throw new HttpError(400, 'Informe se a visualização deve ficar fixada')
+    const views = await mutate(user, (model, entry) => {
+      findView(entry, model, req.params.id, user)
+      model.setSavedViewPinned(req.params.id, user.id, pinned)
+    })
+    res.json(views)
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
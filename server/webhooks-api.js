@@ -0,0 +1,82 @@
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+
+/**
+ * Admin management of webhook endpoints and their delivery logs.
+ *
+ * @param {{
+ *   loadEntry: () => Promise<ServerEntry>,
+ *   webhooks: import('./webhooks.js').WebhooksStore,
+ * }} options
+ */
+export function createWebhooksRouter({ loadEntry, webhooks }) {
+  const router = express.Router()
+  router.use(express.json({ limit: '1mb' }))
+  router.use(requireUser)
+  router.use(async (req, _res, next) => {
+    const entry = await loadEntry()
+    if (!entry.can(req.user, 'manageWebhooks')) {
+      throw new HttpError(403, 'Somente administradores podem gerenciar webhooks')
+    }
+    next()
+  })
+
+  /**
+   * @param {any} body
+   * @returns {Promise<import('../src/App.tsx').WebhookInput>}
+   */
+  const parseInput = async (body) => {
+    const entry = await loadEntry()
+    const { url, description = '', events, active = true } = body ?? {}
+    const input = { url, description, events, active }
+    const errors = entry.validateWebhookInput(input)
+    if (errors.length > 0) throw new HttpError(400, 'Webhook inválido', errors)
+    return { url: url.trim(), description: description.trim(), events: [...new Set(events)], active }
+  }
+
+  /** @param {import('../src/App.tsx').Webhook | null} webhook */
+  const found = (webhook) => {
+    if (!webhook) throw new HttpError(404, 'Webhook não encontrado')
+    return webhook
+  }
+
+  router.get('/', async (_req, res) => {
+    res.json({ webhooks: await webhooks.list() })
+  })
+
+  router.post('/', async (req, res) => {
+    res.status(201).json(await webhooks.create(await parseInput(req.body)))
+  })
+
+  router.put('/:id', async (req, res) => {
+    res.json(found(await webhooks.change(req.params.id, await parseInput(req.body))))
+  })
+
+  router.delete('/:id', async (req, res) => {
+    if (!(await webhooks.remove(req.params.id))) throw new HttpError(404, 'Webhook não encontrado')
+    res.status(204).end()
+  })
+
+  router.post('/:id/secret', async (req, res) => {
+    res.json(found(await webhooks.rotateSecret(req.params.id)))
+  })
+
+  router.get('/:id/deliveries', async (req, res) => {
+    found((await webhooks.list()).find((webhook) => webhook.id === req.params.id) ?? null)
+    res.json({ deliveries: await webhooks.deliveries(req.params.id) })
+  })
+
+  router.post('/:id/deliveries/:deliveryId/redeliver', async (req, res) => {
+    const delivery = await webhooks.redeliver(req.params.id, req.params.deliveryId)
+    if (!delivery) throw new HttpError(404, 'Entrega não encontrada')
+    res.status(201).json(delivery)
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
@@ -0,0 +1,295 @@
+import crypto from 'node:crypto'
+import { TaskQueue, readJsonFile, writeJsonFile } from './json-file.js'
+
+/** @typedef {import('../src/App.tsx').Webhook} Webhook */
+/** @typedef {import('../src/App.tsx').WebhookInput} WebhookInput */
+/** @typedef {import('../src/App.tsx').WebhookEvent} WebhookEvent */
+/** @typedef {import('../src/App.tsx').WebhookDelivery} WebhookDelivery */
+/** @typedef {import('./ticket-events.js').TicketActivity} TicketActivity */
+
+const POLL_INTERVAL = 2000
+const REQUEST_TIMEOUT = 10 * 1000
+const MAX_ATTEMPTS = 8
+// Retries wait 30s, 1min, 2min, ... capped at an hour, with some jitter
+const BASE_BACKOFF = 30 * 1000
+const MAX_BACKOFF = 60 * 60 * 1000
+// Finished deliveries kept in the log, per webhook
+const MAX_LOGGED_DELIVERIES = 100
+const MAX_RESPONSE_LOGGED = 1000
+
+/** @param {number} attempts */
+const backoff = (attempts) => {
+  const delay = Math.min(BASE_BACKOFF * 2 ** (attempts - 1), MAX_BACKOFF)
+  return delay + Math.floor(Math.random() * delay * 0.2)
+}
+
+const generateSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`
+
+/**
+ * `X-HelpDesk-Signature` value: the HMAC-SHA256 of `<timestamp>.<body>`,
+ * keyed with the webhook's secret. The timestamp lets receivers reject replays.
+ * @param {string} secret
+ * @param {string} body
+ * @param {number} timestamp seconds since the epoch
+ */
+export function signWebhookPayload(secret, body, timestamp) {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Registered endpoints and their deliveries, in one JSON file. Deliveries are
+ * durable: they are sent one at a time, retried with exponential backoff
+ * until MAX_ATTEMPTS, and kept in a log that admins can redeliver from.
+ */
+export class WebhooksStore {
+  /** @param {string} filePath */
+  constructor(filePath) {
+    this.filePath = filePath
+    /** @type {{ webhooks: Webhook[], deliveries: WebhookDelivery[] } | undefined} */
+    this.data = undefined
+    this.queue = new TaskQueue()
+    /** @type {NodeJS.Timeout | undefined} */
+    this.timer = undefined
+  }
+
+  async read() {
+    if (!this.data) this.data = await readJsonFile(this.filePath, { webhooks: [], deliveries: [] })
+    return /** @type {NonNullable<WebhooksStore['data']>} */ (this.data)
+  }
+
+  /**
+   * @template T
+   * @param {(data: NonNullable<WebhooksStore['data']>) => T} fn
+   * @returns {Promise<T>}
+   */
+  update(fn) {
+    return this.queue.run(async () => {
+      const data = await this.read()
+      const result = fn(data)
+      await writeJsonFile(this.filePath, data)
+      return result
+    })
+  }
+
+  async list() {
+    return (await this.read()).webhooks
+  }
+
+  /** @param {WebhookInput} input */
+  create(input) {
+    return this.update((data) => {
+      /** @type {Webhook} */
+      const webhook = { id: `webhook_${crypto.randomUUID()}`, ...input, secret: generateSecret(), createdAt: Date.now() }
+      data.webhooks.push(webhook)
+      return webhook
+    })
+  }
+
+  /**
+   * @param {string} id
+   * @param {Partial<WebhookInput> & { secret?: string }} changes
+   * @returns {Promise<Webhook | null>}
+   */
+  change(id, changes) {
+    return this.update((data) => {
+      const index = data.webhooks.findIndex((webhook) => webhook.id === id)
+      if (index === -1) return null
+      data.webhooks[index] = { ...data.webhooks[index], ...changes }
+      return data.webhooks[index]
+    })
+  }
+
+  /** @param {string} id */
+  rotateSecret(id) {
+    return this.change(id, { secret: generateSecret() })
+  }
+
+  /**
+   * Removes the webhook along with its log and anything still waiting to go out.
+   * @param {string} id
+   */
+  remove(id) {
+    return this.update((data) => {
+      const exists = data.webhooks.some((webhook) => webhook.id === id)
+      data.webhooks = data.webhooks.filter((webhook) => webhook.id !== id)
+      data.deliveries = data.deliveries.filter((delivery) => delivery.webhookId !== id)
+      return exists
+    })
+  }
+
+  /**
+   * Newest first.
+   * @param {string} webhookId
+   */
+  async deliveries(webhookId) {
+    return (await this.read()).deliveries.filter((delivery) => delivery.webhookId === webhookId).reverse()
+  }
+
+  /**
+   * Queues `payload` for every active webhook subscribed to `event`.
+   * @param {WebhookEvent} event
+   * @param {Record<string, unknown>} data
+   * @param {{ name: string, email?: string }} actor
+   */
+  enqueue(event, data, actor) {
+    return this.update((state) => {
+      const eventId = `evt_${crypto.randomUUID()}`
+      const createdAt = Date.now()
+      const payload = JSON.stringify({ id: eventId, event, createdAt, actor, data })
+      state.webhooks
+        .filter((webhook) => webhook.active && webhook.events.includes(event))
+        .forEach((webhook) => {
+          state.deliveries.push({
+            id: `delivery_${crypto.randomUUID()}`,
+            webhookId: webhook.id,
+            eventId,
+            event,
+            status: 'pending',
+            attempts: 0,
+            createdAt,
+            payload,
+            nextAttemptAt: createdAt,
+          })
+        })
+    })
+  }
+
+  /**
+   * Sends a logged delivery again as a new delivery with the same event and body.
+   * @param {string} webhookId
+   * @param {string} deliveryId
+   * @returns {Promise<WebhookDelivery | null>}
+   */
+  redeliver(webhookId, deliveryId) {
+    return this.update((data) => {
+      const original = data.deliveries.find((delivery) => delivery.id === deliveryId && delivery.webhookId === webhookId)
+      if (!original) return null
+      /** @type {WebhookDelivery} */
+      const delivery = {
+        id: `delivery_${crypto.randomUUID()}`,
+        webhookId,
+        eventId: original.eventId,
+        event: original.event,
+        status: 'pending',
+        attempts: 0,
+        createdAt: Date.now(),
+        payload: original.payload,
+        nextAttemptAt: Date.now(),
+        redeliveryOf: original.id,
+      }
+      data.deliveries.push(delivery)
+      return delivery
+    })
+  }
+
+  /**
+   * @param {Webhook} webhook
+   * @param {WebhookDelivery} delivery
+   * @returns {Promise<{ ok: boolean, responseStatus?: number, responseBody?: string, error?: string }>}
+   */
+  async send(webhook, delivery) {
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'HelpDesk-Webhooks',
+          'X-HelpDesk-Event': delivery.event,
+          'X-HelpDesk-Delivery': delivery.id,
+          'X-HelpDesk-Signature': signWebhookPayload(webhook.secret, delivery.payload, Math.floor(Date.now() / 1000)),
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      })
+      const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_LOGGED)
+      return response.ok
+        ? { ok: true, responseStatus: response.status, responseBody }
+        : { ok: false, responseStatus: response.status, responseBody, error: `HTTP ${response.status}` }
+    } catch (error) {
+      return { ok: false, error: error.name === 'TimeoutError' ? 'Tempo esgotado' : error.cause?.message ?? error.message }
+    }
+  }
+
+  /**
+   * Sends whatever is due, one delivery at a time.
+   */
+  async flush() {
+    const data = await this.read()
+    const due = data.deliveries.filter((delivery) => delivery.status === 'pending' && delivery.nextAttemptAt <= Date.now())
+    for (const delivery of due) {
+      const webhook = data.webhooks.find((other) => other.id === delivery.webhookId)
+      if (!webhook) continue
+      const outcome = await this.send(webhook, delivery)
+      const attempts = delivery.attempts + 1
+      if (!outcome.ok) console.error(`Webhook delivery ${delivery.id} to ${webhook.url} failed (attempt ${attempts}): ${outcome.error}`)
+      await this.update((state) => {
+        const index = state.deliveries.findIndex((other) => other.id === delivery.id)
+        if (index === -1) return
+        const { ok, ...result } = outcome
+        state.deliveries[index] = {
+          ...state.deliveries[index],
+          ...result,
+          ...(ok ? { error: undefined } : {}),
+          attempts,
+          lastAttemptAt: Date.now(),
+          status: ok ? 'succeeded' : attempts < MAX_ATTEMPTS ? 'pending' : 'failed',
+          nextAttemptAt: ok ? 0 : Date.now() + backoff(attempts),
+        }
+        // Trim the webhook's log, oldest finished deliveries first
+        const finished = state.deliveries.filter((other) => other.webhookId === delivery.webhookId && other.status !== 'pending')
+        const excess = new Set(finished.slice(0, Math.max(0, finished.length - MAX_LOGGED_DELIVERIES)).map((other) => other.id))
+        if (excess.size > 0) state.deliveries = state.deliveries.filter((other) => !excess.has(other.id))
+      })
+    }
+  }
+
+  start() {
+    const loop = () => {
+      this.flush()
+        .catch((error) => console.error(`Webhook delivery failed: ${error.message}`))
+        .finally(() => {
+          this.timer = setTimeout(loop, POLL_INTERVAL).unref()
+        })
+    }
+    loop()
+  }
+}
+
+/** @type {Record<TicketActivity['type'], WebhookEvent>} */
+const ACTIVITY_EVENTS = {
+  created: 'ticket.created',
+  updated: 'ticket.updated',
+  status: 'ticket.status_changed',
+  commented: 'comment.added',
+  deleted: 'ticket.deleted',
+}
+
+/**
+ * Ticket activity listener that queues a webhook event for it. Endpoints are
+ * trusted internal systems, so tickets go out whole, internal notes included.
+ *
+ * @param {WebhooksStore} webhooks
+ * @returns {import('./ticket-events.js').TicketActivityListener}
+ */
+export function createWebhookListener(webhooks) {
+  /** @param {TicketActivity} activity */
+  const details = (activity) => {
+    switch (activity.type) {
+      case 'updated':
+        return { ticket: activity.ticket, changes: activity.changes }
+      case 'status':
+        return { ticket: activity.ticket, previousStatus: activity.previousStatus }
+      case 'commented':
+        return { ticket: activity.ticket, comment: activity.comment }
+      default:
+        return { ticket: activity.ticket }
+    }
+  }
+
+  return async (activity) => {
+    const { name, email } = activity.actor
+    await webhooks.enqueue(ACTIVITY_EVENTS[activity.type], details(activity), { name, email })
+  }
+}
@@ -0,0 +1,73 @@
+import express from 'express'
+import { requireUser } from './auth.js'
+import { HttpError, handleApiError } from './http-error.js'
+
+/** @typedef {typeof import('../src/entry-server.tsx')} ServerEntry */
+
+/**
+ * The status workflow every ticket mutation is checked against. Admins
+ * replace it as a whole; statuses still used by tickets cannot be dropped.
+ *
+ * @param {{
+ *   store: import('./tickets-store.js').TicketsStore,
+ *   loadEntry: () => Promise<ServerEntry>,
+ * }} options
+ */
+export function createWorkflowRouter({ store, loadEntry }) {
+  const router = express.Router()
+  router.use(express.json({ limit: '1mb' }))
+  router.use(requireUser)
+
+  router.get('/', async (_req, res) => {
+    const model = await store.model()
+    res.json({ workflow: model.getWorkflow() })
+  })
+
+  router.put('/', async (req, res) => {
+    const entry = await loadEntry()
+    if (!entry.can(req.user, 'manageWorkflow')) {
+      throw new HttpError(403, 'Somente administradores podem alterar o fluxo de status')
+    }
+
+    const input = req.body?.workflow ?? {}
+    const errors = entry.validateWorkflow(input)
+    if (errors.length > 0) throw new HttpError(400, 'Fluxo inválido', errors)
+
+    /** @type {import('../src/App.tsx').Workflow} */
+    const workflow = {
+      initialStatus: input.initialStatus,
+      statuses: input.statuses.map(({ id, label, color, icon, kind, transitions, wipLimit }) => ({
+        id,
+        label: label.trim(),
+        color,
+        icon,
+        kind,
+        transitions,
+        ...(wipLimit !== undefined ? { wipLimit } : {}),
+      })),
+    }
+
+    const saved = await store.update((data) => {
+      const model = new entry.TicketsModel(data ?? undefined)
+      const removed = model
+        .getWorkflow()
+        .statuses.filter((status) => !workflow.statuses.some((s) => s.id === status.id))
+        .filter((status) => model.countTicketsWithStatus(status.id) > 0)
+      if (removed.length > 0) {
+        throw new HttpError(
+          409,
+          'Há tickets em status que seriam removidos',
+          removed.map((status) => `${status.label}: ${model.countTicketsWithStatus(status.id)} ticket(s)`),
+        )
+      }
+      model.replaceWorkflow(workflow)
+      return { data: model.getData(), result: model.getWorkflow() }
+    })
+    res.json({ workflow: saved })
+  })
+
+  router.use((_req, _res, next) => next(new HttpError(404, 'Rota não encontrada')))
+  router.use(handleApiError)
+
+  return router
+}
@@ -1,20 +1,62 @@
-import React, { useState, useEffect, useMemo, createContext, useContext } from 'react';
+import React, { useState, useEffect, createContext, useContext, useRef } from 'react';
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-type TicketStatus = 'open' | 'in-progress' | 'waiting' | 'resolved' | 'closed';
+/** ID of a status in the configured workflow */
+type TicketStatus = string;
 type TicketPriority = 'low' | 'medium' | 'high' | 'urgent';
 type TicketCategory = 'technical' | 'billing' | 'account' | 'feature' | 'bug' | 'other';
 
+type UserRole = 'requester' | 'agent' | 'admin';
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+// Metadata of an uploaded file; the content stays on the server's disk
+interface Attachment {
+  id: string;
+  name: string;
+  /** MIME type, decided by the server from the file name */
+  type: string;
+  size: number;
+  /** SHA-256 of the content, hex */
+  checksum: string;
+  uploadedAt: number;
+  uploaderId: string;
+}
+
 interface Comment {
   id: string;
   ticketId: string;
   author: string;
+  authorId?: string;
   content: string;
   isInternal: boolean;
   timestamp: number;
+  attachments?: Attachment[];
+}
+
+type AuditedField = 'title' | 'description' | 'priority' | 'category' | 'assigneeId' | 'status';
+
+interface TicketFieldChange {
+  field: AuditedField;
+  from: string | null;
+  to: string | null;
+}
+
+interface TicketEvent {
+  id: string;
+  ticketId: string;
+  type: 'created' | 'updated' | 'imported';
+  actor: string;
+  timestamp: number;
+  changes: TicketFieldChange[];
 }
 
 interface Ticket {
@@ -25,16 +67,183 @@ interface Ticket {
   priority: TicketPriority;
   status: TicketStatus;
   author: string;
-  assignedTo?: string;
+  authorId?: string;
+  /** ID of the directory agent or team the ticket is assigned to */
+  assigneeId?: string;
+  /** Free-text assignee from before the directory existed, kept until an admin maps it */
+  legacyAssignee?: string;
   createdAt: number;
   updatedAt: number;
   resolvedAt?: number;
+  /** When someone other than the requester first replied publicly; stops the first-response SLA clock */
+  firstResponseAt?: number;
+  /** Files attached to the ticket itself; files sent with a comment are on the comment */
+  attachments?: Attachment[];
   comments: Comment[];
+  events: TicketEvent[];
+  /** Bumped on every change; edits may name the version they started from to avoid overwriting newer ones */
+  version: number;
+}
+
+interface Team {
+  id: string;
+  name: string;
+  description: string;
+}
+
+interface Agent {
+  id: string;
+  name: string;
+  email: string;
+  teamIds: string[];
+}
+
+// What a status means for reporting and SLAs, whatever it is called
+type StatusKind = 'active' | 'resolved' | 'closed';
+
+interface WorkflowStatus {
+  id: TicketStatus;
+  label: string;
+  color: string;
+  icon: string;
+  kind: StatusKind;
+  /** Statuses a ticket may move to from this one */
+  transitions: TicketStatus[];
+  /** Most tickets the board column accepts by drag-and-drop; unset means unlimited */
+  wipLimit?: number;
+}
+
+interface Workflow {
+  initialStatus: TicketStatus;
+  statuses: WorkflowStatus[];
+}
+
+interface BusinessCalendar {
+  id: string;
+  name: string;
+  /** IANA zone the schedule and holidays are written in */
+  timeZone: string;
+  /** Skips the schedule entirely: every moment counts */
+  alwaysOpen?: boolean;
+  /** Opening hours per weekday (0 = Sunday) as "HH:MM" ranges; missing days are closed */
+  schedule: Partial<Record<number, { start: string; end: string }[]>>;
+  /** "MM-DD" repeats every year, "YYYY-MM-DD" is a single date */
+  holidays: { date: string; name: string }[];
+  /** Movable holidays as a day offset from Easter Sunday */
+  easterHolidays?: { offset: number; name: string }[];
+}
+
+type TimeMode = 'business' | 'calendar';
+
+// Response targets for a priority, optionally narrowed to one category
+interface SlaPolicy {
+  id: string;
+  priority: TicketPriority;
+  category?: TicketCategory;
+  /** Calendar the targets are counted in; defaults to DEFAULT_CALENDAR_ID */
+  calendarId?: string;
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+}
+
+type SlaState = 'on-track' | 'at-risk' | 'breached' | 'met';
+type SlaTargetKind = 'firstResponse' | 'resolution';
+
+interface SlaTarget {
+  dueAt: number;
+  completedAt?: number;
+  state: SlaState;
+}
+
+interface TicketSla {
+  policy: SlaPolicy;
+  firstResponse: SlaTarget;
+  resolution: SlaTarget;
+}
+
+// A named ticket-list query; private to its owner unless published to the team
+interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+  /** Sort as written in the list URL; missing means the default order */
+  sort?: string;
+  ownerId: string;
+  ownerName: string;
+  shared: boolean;
+  /** Users who pinned the view to their header */
+  pinnedBy: string[];
+  createdAt: number;
 }
 
 interface TicketsData {
   tickets: Ticket[];
-}
+  agents: Agent[];
+  teams: Team[];
+  slaPolicies: SlaPolicy[];
+  workflow: Workflow;
+  savedViews: SavedView[];
+}
+
+type TicketInput = Omit<
+  Ticket,
+  'id' | 'createdAt' | 'updatedAt' | 'resolvedAt' | 'firstResponseAt' | 'comments' | 'events' | 'legacyAssignee' | 'version'
+>;
+type TeamInput = Omit<Team, 'id'>;
+type AgentInput = Omit<Agent, 'id'>;
+type SavedViewInput = Pick<SavedView, 'name' | 'query' | 'sort' | 'shared'>;
+
+// One change applied to many tickets at once from the list
+type BulkAction =
+  | { type: 'status'; status: TicketStatus }
+  | { type: 'priority'; priority: TicketPriority }
+  | { type: 'category'; category: TicketCategory }
+  | { type: 'assignee'; assigneeId: string }
+  | { type: 'comment'; content: string; isInternal: boolean }
+  | { type: 'delete' };
+
+// The tickets a bulk action reaches: those picked by hand, or every match of a list query
+type BulkTarget = { ids: string[] } | { query: string };
+
+// Per-ticket outcome; `ticket` is the updated ticket, absent once deleted or when skipped
+interface BulkResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+  ticket?: Ticket;
+}
+
+interface TicketStatistics {
+  total: number;
+  byStatus: Record<TicketStatus, number>;
+  byPriority: Record<TicketPriority, number>;
+  byCategory: Record<TicketCategory, number>;
+  averageResolutionTime: number;
+  averageFirstResponseTime: number;
+  byAssignee: { id: string; name: string; open: number }[];
+}
+
+interface LegacyAssignee {
+  name: string;
+  variants: string[];
+  count: number;
+}
+
+// What the dashboard, directory and workflow editor sum up, counted by the server over every ticket the user may see
+interface TicketSummary {
+  statistics: Record<TimeMode, TicketStatistics>;
+  /** The first of each list; the totals count them all */
+  urgent: Ticket[];
+  urgentTotal: number;
+  atRisk: Ticket[];
+  atRiskTotal: number;
+  recent: Ticket[];
+  /** Tickets per agent or team ID, closed ones included */
+  assigned: Record<string, number>;
+  legacyAssignees: LegacyAssignee[];
+}
+type SlaPolicyInput = Omit<SlaPolicy, 'id'>;
+type CommentInput = Omit<Comment, 'id' | 'ticketId' | 'timestamp'>;
 
 // ============================================================================
 // CONSTANTS
@@ -58,14 +267,121 @@ const PRIORITIES: { value: TicketPriority; label: string; color: string }[] = [
   { value: 'urgent', label: 'Urgente', color: '#ef4444' },
 ];
 
-const STATUS_CONFIG: Record<TicketStatus, { label: string; color: string; icon: string }> = {
-  open: { label: 'Aberto', color: '#3b82f6', icon: '🆕' },
-  'in-progress': { label: 'Em Andamento', color: '#f59e0b', icon: '⚙️' },
-  waiting: { label: 'Aguardando', color: '#8b5cf6', icon: '⏳' },
-  resolved: { label: 'Resolvido', color: '#10b981', icon: '✅' },
-  closed: { label: 'Fechado', color: '#64748b', icon: '🔒' },
+const ROLE_LABELS: Record<UserRole, string> = {
+  requester: 'Solicitante',
+  agent: 'Agente',
+  admin: 'Administrador',
+};
+
+const DEFAULT_WORKFLOW: Workflow = {
+  initialStatus: 'open',
+  statuses: [
+    { id: 'open', label: 'Aberto', color: '#3b82f6', icon: '🆕', kind: 'active', transitions: ['in-progress', 'closed'] },
+    {
+      id: 'in-progress',
+      label: 'Em Andamento',
+      color: '#f59e0b',
+      icon: '⚙️',
+      kind: 'active',
+      transitions: ['waiting', 'resolved', 'closed'],
+    },
+    { id: 'waiting', label: 'Aguardando', color: '#8b5cf6', icon: '⏳', kind: 'active', transitions: ['in-progress', 'closed'] },
+    { id: 'resolved', label: 'Resolvido', color: '#10b981', icon: '✅', kind: 'resolved', transitions: ['closed', 'open'] },
+    { id: 'closed', label: 'Fechado', color: '#64748b', icon: '🔒', kind: 'closed', transitions: ['open'] },
+  ],
+};
+
+const STATUS_KIND_LABELS: Record<StatusKind, string> = {
+  active: 'Em atendimento',
+  resolved: 'Resolvido',
+  closed: 'Fechado',
+};
+
+const SLA_STATE_LABELS: Record<SlaState, string> = {
+  'on-track': 'no prazo',
+  'at-risk': 'em risco',
+  breached: 'violado',
+  met: 'cumprido',
+};
+
+const SLA_TARGET_LABELS: Record<SlaTargetKind, string> = {
+  firstResponse: '1ª resposta',
+  resolution: 'Resolução',
 };
 
+const WEEKDAY_HOURS = [{ start: '09:00', end: '18:00' }];
+
+const BUSINESS_CALENDARS: Readonly<Record<string, BusinessCalendar>> = Object.freeze({
+  'comercial-br': {
+    id: 'comercial-br',
+    name: 'Horário comercial (Brasília)',
+    timeZone: 'America/Sao_Paulo',
+    schedule: { 1: WEEKDAY_HOURS, 2: WEEKDAY_HOURS, 3: WEEKDAY_HOURS, 4: WEEKDAY_HOURS, 5: WEEKDAY_HOURS },
+    holidays: [
+      { date: '01-01', name: 'Confraternização Universal' },
+      { date: '04-21', name: 'Tiradentes' },
+      { date: '05-01', name: 'Dia do Trabalho' },
+      { date: '09-07', name: 'Independência do Brasil' },
+      { date: '10-12', name: 'Nossa Senhora Aparecida' },
+      { date: '11-02', name: 'Finados' },
+      { date: '11-15', name: 'Proclamação da República' },
+      { date: '11-20', name: 'Dia Nacional de Zumbi e da Consciência Negra' },
+      { date: '12-25', name: 'Natal' },
+    ],
+    // Carnaval and Corpus Christi are optional days off, so only Good Friday is listed
+    easterHolidays: [{ offset: -2, name: 'Sexta-feira Santa' }],
+  },
+  '24x7': {
+    id: '24x7',
+    name: '24 horas, 7 dias',
+    timeZone: 'America/Sao_Paulo',
+    alwaysOpen: true,
+    schedule: {},
+    holidays: [],
+  },
+});
+
+const DEFAULT_CALENDAR_ID = 'comercial-br';
+
+// A pending target is at risk once less than this share of its window remains
+const SLA_AT_RISK_RATIO = 0.25;
+
+const DEFAULT_SLA_POLICIES: SlaPolicy[] = [
+  { id: 'sla_urgent', priority: 'urgent', calendarId: '24x7', firstResponseMinutes: 60, resolutionMinutes: 8 * 60 },
+  {
+    id: 'sla_urgent_billing',
+    priority: 'urgent',
+    category: 'billing',
+    calendarId: '24x7',
+    firstResponseMinutes: 30,
+    resolutionMinutes: 4 * 60,
+  },
+  { id: 'sla_high', priority: 'high', firstResponseMinutes: 4 * 60, resolutionMinutes: 24 * 60 },
+  { id: 'sla_medium', priority: 'medium', firstResponseMinutes: 8 * 60, resolutionMinutes: 72 * 60 },
+  { id: 'sla_low', priority: 'low', firstResponseMinutes: 24 * 60, resolutionMinutes: 120 * 60 },
+];
+
+const AUDITED_FIELDS: { field: AuditedField; label: string }[] = [
+  { field: 'title', label: 'título' },
+  { field: 'description', label: 'descrição' },
+  { field: 'priority', label: 'prioridade' },
+  { field: 'category', label: 'categoria' },
+  { field: 'assigneeId', label: 'responsável' },
+  { field: 'status', label: 'status' },
+];
+
+const DEFAULT_TEAMS: Team[] = [
+  { id: 'team_support', name: 'Suporte Técnico', description: 'Primeiro atendimento e problemas de acesso' },
+  { id: 'team_billing', name: 'Financeiro', description: 'Cobranças, reembolsos e notas fiscais' },
+  { id: 'team_product', name: 'Equipe de Produto', description: 'Sugestões e novas funcionalidades' },
+];
+
+const DEFAULT_AGENTS: Agent[] = [
+  { id: 'agent_ana', name: 'Ana Souza', email: 'ana@helpdesk.local', teamIds: ['team_support'] },
+  { id: 'agent_carlos', name: 'Carlos Lima', email: 'carlos@helpdesk.local', teamIds: ['team_billing'] },
+  { id: 'agent_beatriz', name: 'Beatriz Rocha', email: 'beatriz@helpdesk.local', teamIds: ['team_product', 'team_support'] },
+];
+
 const DEFAULT_TICKETS: Ticket[] = [
   {
     id: 'ticket_1',
@@ -75,9 +391,12 @@ const DEFAULT_TICKETS: Ticket[] = [
     priority: 'high',
     status: 'in-progress',
     author: 'João Silva',
-    assignedTo: 'Suporte Técnico',
+    authorId: 'user_joao',
+    assigneeId: 'team_support',
     createdAt: Date.now() - 2 * 60 * 60 * 1000,
     updatedAt: Date.now() - 30 * 60 * 1000,
+    firstResponseAt: Date.now() - 30 * 60 * 1000,
+    version: 4,
     comments: [
       {
         id: 'comment_1',
@@ -87,6 +406,35 @@ const DEFAULT_TICKETS: Ticket[] = [
         isInternal: false,
         timestamp: Date.now() - 30 * 60 * 1000,
       },
+      {
+        id: 'comment_3',
+        ticketId: 'ticket_1',
+        author: 'Suporte Técnico',
+        content: 'Conta do cliente aparece bloqueada após 5 tentativas. Verificar com a equipe de segurança antes de desbloquear.',
+        isInternal: true,
+        timestamp: Date.now() - 20 * 60 * 1000,
+      },
+    ],
+    events: [
+      {
+        id: 'event_1',
+        ticketId: 'ticket_1',
+        type: 'created',
+        actor: 'João Silva',
+        timestamp: Date.now() - 2 * 60 * 60 * 1000,
+        changes: [],
+      },
+      {
+        id: 'event_2',
+        ticketId: 'ticket_1',
+        type: 'updated',
+        actor: 'Suporte Técnico',
+        timestamp: Date.now() - 30 * 60 * 1000,
+        changes: [
+          { field: 'status', from: 'open', to: 'in-progress' },
+          { field: 'assigneeId', from: null, to: 'team_support' },
+        ],
+      },
     ],
   },
   {
@@ -99,7 +447,18 @@ const DEFAULT_TICKETS: Ticket[] = [
     author: 'Maria Santos',
     createdAt: Date.now() - 24 * 60 * 60 * 1000,
     updatedAt: Date.now() - 24 * 60 * 60 * 1000,
+    version: 1,
     comments: [],
+    events: [
+      {
+        id: 'event_3',
+        ticketId: 'ticket_2',
+        type: 'created',
+        actor: 'Maria Santos',
+        timestamp: Date.now() - 24 * 60 * 60 * 1000,
+        changes: [],
+      },
+    ],
   },
   {
     id: 'ticket_3',
@@ -109,10 +468,12 @@ const DEFAULT_TICKETS: Ticket[] = [
     priority: 'low',
     status: 'resolved',
     author: 'Pedro Costa',
-    assignedTo: 'Equipe de Produto',
+    assigneeId: 'team_product',
     createdAt: Date.now() - 7 * 24 * 60 * 60 * 1000,
     updatedAt: Date.now() - 1 * 24 * 60 * 60 * 1000,
     resolvedAt: Date.now() - 1 * 24 * 60 * 60 * 1000,
+    firstResponseAt: Date.now() - 1 * 24 * 60 * 60 * 1000,
+    version: 3,
     comments: [
       {
         id: 'comment_2',
@@ -123,1687 +484,8717 @@ const DEFAULT_TICKETS: Ticket[] = [
         timestamp: Date.now() - 1 * 24 * 60 * 60 * 1000,
       },
     ],
+    events: [
+      {
+        id: 'event_4',
+        ticketId: 'ticket_3',
+        type: 'created',
+        actor: 'Pedro Costa',
+        timestamp: Date.now() - 7 * 24 * 60 * 60 * 1000,
+        changes: [],
+      },
+      {
+        id: 'event_5',
+        ticketId: 'ticket_3',
+        type: 'updated',
+        actor: 'Equipe de Produto',
+        timestamp: Date.now() - 1 * 24 * 60 * 60 * 1000,
+        changes: [
+          { field: 'status', from: 'in-progress', to: 'resolved' },
+          { field: 'assigneeId', from: null, to: 'team_product' },
+        ],
+      },
+    ],
   },
 ];
 
 // ============================================================================
-// STORAGE SERVICE
+// VALIDATION
 // ============================================================================
 
-class StorageService {
-  private static readonly STORAGE_KEYS = Object.freeze({
-    DARK_MODE: 'tickets_darkMode',
-    TICKETS_DATA: 'tickets_data',
+const TICKET_EDITABLE_FIELDS = Object.freeze([
+  'title',
+  'description',
+  'category',
+  'priority',
+  'status',
+  'author',
+  'assigneeId',
+] as const);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Every editable field is a string; values of any other type are dropped like unknown fields
+const pickTicketFields = (input: Record<string, unknown>): Partial<TicketInput> => {
+  const picked: Partial<Record<(typeof TICKET_EDITABLE_FIELDS)[number], string>> = {};
+  TICKET_EDITABLE_FIELDS.forEach(field => {
+    const value = input[field];
+    if (typeof value === 'string') picked[field] = value;
   });
+  return picked as Partial<TicketInput>;
+};
 
-  static saveToStorage(key: string, value: any): void {
-    if (!isClient) return;
-    try {
-      sessionStorage.setItem(key, JSON.stringify(value));
-    } catch (error) {
-      console.error(`Error saving ${key} to storage:`, error);
-    }
+const validateTicketInput = (input: Partial<TicketInput>, workflow: Workflow, partial = false): string[] => {
+  const errors: string[] = [];
+  const has = (field: keyof TicketInput) => !partial || input[field] !== undefined;
+
+  if (has('title') && !isNonEmptyString(input.title)) errors.push('Título é obrigatório');
+  if (has('description') && !isNonEmptyString(input.description)) errors.push('Descrição é obrigatória');
+  if (has('author') && !isNonEmptyString(input.author)) errors.push('Autor é obrigatório');
+  if (has('category') && !CATEGORIES.some(c => c.value === input.category)) {
+    errors.push('Categoria inválida');
+  }
+  if (has('priority') && !PRIORITIES.some(p => p.value === input.priority)) {
+    errors.push('Prioridade inválida');
+  }
+  if (has('status') && !workflow.statuses.some(status => status.id === input.status)) {
+    errors.push('Status inválido');
+  }
+  if (input.assigneeId !== undefined && typeof input.assigneeId !== 'string') {
+    errors.push('Responsável inválido');
   }
 
-  static loadFromStorage<T>(key: string, defaultValue: T): T {
-    if (!isClient) return defaultValue;
-    try {
-      const saved = sessionStorage.getItem(key);
-      return saved ? JSON.parse(saved) : defaultValue;
-    } catch (error) {
-      console.error(`Error loading ${key} from storage:`, error);
-      return defaultValue;
-    }
+  return errors;
+};
+
+const validateTeamInput = (input: Partial<TeamInput>): string[] => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.name)) errors.push('Nome da equipe é obrigatório');
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    errors.push('Descrição inválida');
   }
+  return errors;
+};
 
-  static clearStorage(): void {
-    if (!isClient) return;
+const validateSavedViewInput = (input: Partial<SavedViewInput>): string[] => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.name)) errors.push('Nome da visualização é obrigatório');
+  else if (input.name.trim().length > 60) errors.push('Nome da visualização deve ter no máximo 60 caracteres');
+  if (typeof input.query !== 'string') {
+    errors.push('Consulta inválida');
+  } else {
     try {
-      sessionStorage.removeItem(this.STORAGE_KEYS.DARK_MODE);
-      sessionStorage.removeItem(this.STORAGE_KEYS.TICKETS_DATA);
+      parseTicketQuery(input.query);
     } catch (error) {
-      console.error('Error clearing storage:', error);
+      if (!(error instanceof QuerySyntaxError)) throw error;
+      errors.push(error.message);
     }
   }
-
-  static getKeys() {
-    return this.STORAGE_KEYS;
+  if (input.sort !== undefined && (typeof input.sort !== 'string' || !parseTicketSort(input.sort))) {
+    errors.push('Ordenação inválida');
   }
-}
-
-// ============================================================================
-// MODEL LAYER
-// ============================================================================
-
-class TicketsModel {
-  private tickets: Ticket[];
+  if (input.shared !== undefined && typeof input.shared !== 'boolean') errors.push('Compartilhamento inválido');
+  return errors;
+};
 
-  constructor(initialData?: TicketsData) {
-    this.tickets = initialData?.tickets || [...DEFAULT_TICKETS];
+const validateAgentInput = (input: Partial<AgentInput>): string[] => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.name)) errors.push('Nome do agente é obrigatório');
+  if (input.email !== undefined && typeof input.email !== 'string') errors.push('E-mail inválido');
+  if (!Array.isArray(input.teamIds) || input.teamIds.some(id => typeof id !== 'string')) {
+    errors.push('Equipes inválidas');
   }
+  return errors;
+};
 
-  getAllTickets(): Ticket[] {
-    return [...this.tickets].sort((a, b) => b.updatedAt - a.updatedAt);
+const validateSlaPolicyInput = (input: Partial<SlaPolicyInput>): string[] => {
+  const errors: string[] = [];
+  const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+  if (!PRIORITIES.some(p => p.value === input.priority)) errors.push('Prioridade inválida');
+  if (input.category !== undefined && !CATEGORIES.some(c => c.value === input.category)) {
+    errors.push('Categoria inválida');
   }
-
-  getTicketById(id: string): Ticket | null {
-    return this.tickets.find(t => t.id === id) || null;
+  if (input.calendarId !== undefined && !Object.hasOwn(BUSINESS_CALENDARS, input.calendarId)) {
+    errors.push('Calendário inválido');
   }
-
-  createTicket(ticket: Omit<Ticket, 'id' | 'createdAt' | 'updatedAt' | 'comments'>): Ticket {
-    const newTicket: Ticket = {
-      ...ticket,
-      id: `ticket_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-      comments: [],
-    };
-    this.tickets.push(newTicket);
-    return newTicket;
+  if (!isPositiveInteger(input.firstResponseMinutes)) errors.push('Prazo de 1ª resposta inválido');
+  if (!isPositiveInteger(input.resolutionMinutes)) errors.push('Prazo de resolução inválido');
+  if (
+    isPositiveInteger(input.firstResponseMinutes) &&
+    isPositiveInteger(input.resolutionMinutes) &&
+    input.resolutionMinutes! < input.firstResponseMinutes!
+  ) {
+    errors.push('O prazo de resolução não pode ser menor que o de 1ª resposta');
   }
+  return errors;
+};
 
-  updateTicket(id: string, updates: Partial<Ticket>): Ticket | null {
-    const index = this.tickets.findIndex(t => t.id === id);
-    if (index === -1) return null;
-
-    this.tickets[index] = {
-      ...this.tickets[index],
-      ...updates,
-      updatedAt: Date.now(),
-    };
-
-    if (updates.status === 'resolved' && !this.tickets[index].resolvedAt) {
-      this.tickets[index].resolvedAt = Date.now();
+const validateWorkflow = (input: Partial<Workflow>): string[] => {
+  const errors: string[] = [];
+  if (!Array.isArray(input.statuses) || input.statuses.length === 0) return ['O fluxo precisa de ao menos um status'];
+
+  const ids = input.statuses.map(status => status?.id);
+  input.statuses.forEach((status, index) => {
+    const name = status?.label || `#${index + 1}`;
+    if (typeof status?.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(status.id)) {
+      errors.push(`Status ${name}: identificador inválido`);
+    } else if (ids.indexOf(status.id) !== index) {
+      errors.push(`Status ${name}: identificador repetido`);
+    }
+    if (!isNonEmptyString(status?.label)) errors.push(`Status ${name}: nome é obrigatório`);
+    if (typeof status?.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(status.color)) {
+      errors.push(`Status ${name}: cor inválida`);
+    }
+    if (typeof status?.icon !== 'string') errors.push(`Status ${name}: ícone inválido`);
+    if (status?.wipLimit !== undefined && !(Number.isInteger(status.wipLimit) && status.wipLimit > 0)) {
+      errors.push(`Status ${name}: limite WIP deve ser um número inteiro positivo`);
     }
+    if (!status || !Object.hasOwn(STATUS_KIND_LABELS, status.kind)) errors.push(`Status ${name}: tipo inválido`);
+    if (
+      !Array.isArray(status?.transitions) ||
+      status.transitions.some(id => id === status.id || !ids.includes(id))
+    ) {
+      errors.push(`Status ${name}: transições inválidas`);
+    }
+  });
 
-    return this.tickets[index];
-  }
+  const initial = input.statuses.find(status => status?.id === input.initialStatus);
+  if (!initial) errors.push('Status inicial inválido');
+  else if (initial.kind !== 'active') errors.push('O status inicial precisa ser do tipo "em atendimento"');
 
-  deleteTicket(id: string): boolean {
-    const initialLength = this.tickets.length;
-    this.tickets = this.tickets.filter(t => t.id !== id);
-    return this.tickets.length < initialLength;
-  }
+  return errors;
+};
 
-  searchTickets(term: string): Ticket[] {
-    const lowerTerm = term.toLowerCase();
-    return this.tickets.filter(t =>
-      t.title.toLowerCase().includes(lowerTerm) ||
-      t.description.toLowerCase().includes(lowerTerm) ||
-      t.id.toLowerCase().includes(lowerTerm)
-    );
-  }
+// Case-, accent- and spacing-insensitive form used to match names typed by hand
+const normalizeName = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
 
-  filterByCategory(category: TicketCategory): Ticket[] {
-    return this.tickets.filter(t => t.category === category);
+const validateCommentInput = (input: Partial<CommentInput>): string[] => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.author)) errors.push('Autor é obrigatório');
+  if (!isNonEmptyString(input.content)) errors.push('Comentário não pode ser vazio');
+  if (input.isInternal !== undefined && typeof input.isInternal !== 'boolean') {
+    errors.push('Visibilidade do comentário inválida');
   }
+  return errors;
+};
 
-  filterByPriority(priority: TicketPriority): Ticket[] {
-    return this.tickets.filter(t => t.priority === priority);
-  }
+// ============================================================================
+// EDIT CONFLICTS
+// ============================================================================
 
-  filterByStatus(status: TicketStatus): Ticket[] {
-    return this.tickets.filter(t => t.status === status);
+// A conditional edit lost to a newer version of the ticket, which it carries
+class TicketConflictError extends Error {
+  constructor(readonly current: Ticket) {
+    super('Este ticket foi alterado por outra pessoa enquanto você editava');
+    this.name = 'TicketConflictError';
   }
+}
 
-  addComment(ticketId: string, comment: Omit<Comment, 'id' | 'ticketId' | 'timestamp'>): Comment | null {
-    const ticket = this.getTicketById(ticketId);
-    if (!ticket) return null;
+// What the API answers a conditional edit with when the ticket moved on
+const isConflictBody = (body: unknown): body is { ticket: Ticket } =>
+  isRawRecord(body) &&
+  isRawRecord(body.ticket) &&
+  isNonEmptyString(body.ticket.id) &&
+  typeof body.ticket.version === 'number';
 
-    const newComment: Comment = {
-      ...comment,
-      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      ticketId,
-      timestamp: Date.now(),
-    };
+// An audited field where the user's edit and the current ticket disagree
+interface TicketFieldDiff {
+  field: AuditedField;
+  /** As it was when the user started editing */
+  base: string | null;
+  mine: string | null;
+  theirs: string | null;
+}
 
-    ticket.comments.push(newComment);
-    ticket.updatedAt = Date.now();
+const auditedValue = (source: Partial<TicketInput>, field: AuditedField): string | null => source[field] || null;
 
-    return newComment;
-  }
+// What an edit changed relative to the ticket it started from; only this is sent
+const diffTicketFields = (base: Partial<TicketInput>, edited: Partial<TicketInput>): Partial<TicketInput> => {
+  const changes: Record<string, string> = {};
+  AUDITED_FIELDS.forEach(({ field }) => {
+    if (auditedValue(edited, field) !== auditedValue(base, field)) changes[field] = edited[field] ?? '';
+  });
+  return changes as Partial<TicketInput>;
+};
 
-  getTicketComments(ticketId: string): Comment[] {
-    const ticket = this.getTicketById(ticketId);
-    return ticket ? [...ticket.comments].sort((a, b) => a.timestamp - b.timestamp) : [];
-  }
+const diffTicketVersions = (base: Ticket, changes: Partial<TicketInput>, theirs: Ticket): TicketFieldDiff[] =>
+  AUDITED_FIELDS.map(({ field }) => ({
+    field,
+    base: auditedValue(base, field),
+    mine: changes[field] !== undefined ? auditedValue(changes, field) : auditedValue(base, field),
+    theirs: auditedValue(theirs, field),
+  })).filter(diff => diff.mine !== diff.theirs);
+
+// Both sides changed it, so the user has to pick
+const isConflictingDiff = (diff: TicketFieldDiff): boolean => diff.mine !== diff.base && diff.theirs !== diff.base;
+
+// The user's changes that survive the merge: all of them except conflicts resolved in favour of theirs
+const mergeTicketEdits = (diffs: TicketFieldDiff[], keepTheirs: ReadonlySet<AuditedField>): Partial<TicketInput> => {
+  const changes: Record<string, string> = {};
+  diffs.forEach(diff => {
+    if (diff.mine !== diff.base && !keepTheirs.has(diff.field)) changes[diff.field] = diff.mine ?? '';
+  });
+  return changes as Partial<TicketInput>;
+};
 
-  getStatistics(): {
-    total: number;
-    open: number;
-    inProgress: number;
-    waiting: number;
-    resolved: number;
-    closed: number;
-    byPriority: Record<TicketPriority, number>;
-    byCategory: Record<TicketCategory, number>;
-    averageResolutionTime: number;
-  } {
-    const total = this.tickets.length;
-    const open = this.tickets.filter(t => t.status === 'open').length;
-    const inProgress = this.tickets.filter(t => t.status === 'in-progress').length;
-    const waiting = this.tickets.filter(t => t.status === 'waiting').length;
-    const resolved = this.tickets.filter(t => t.status === 'resolved').length;
-    const closed = this.tickets.filter(t => t.status === 'closed').length;
+// ============================================================================
+// WORKFLOW
+// ============================================================================
 
-    const byPriority: Record<TicketPriority, number> = {
-      low: this.tickets.filter(t => t.priority === 'low').length,
-      medium: this.tickets.filter(t => t.priority === 'medium').length,
-      high: this.tickets.filter(t => t.priority === 'high').length,
-      urgent: this.tickets.filter(t => t.priority === 'urgent').length,
-    };
+class WorkflowTransitionError extends Error {
+  constructor(readonly from: TicketStatus | null, readonly to: TicketStatus) {
+    super('Não é possível mudar para este status diretamente');
+    this.name = 'WorkflowTransitionError';
+  }
+}
 
-    const byCategory: Record<TicketCategory, number> = {
-      technical: this.tickets.filter(t => t.category === 'technical').length,
-      billing: this.tickets.filter(t => t.category === 'billing').length,
-      account: this.tickets.filter(t => t.category === 'account').length,
-      feature: this.tickets.filter(t => t.category === 'feature').length,
-      bug: this.tickets.filter(t => t.category === 'bug').length,
-      other: this.tickets.filter(t => t.category === 'other').length,
-    };
+// Tickets may still carry a status an admin has since removed
+const findWorkflowStatus = (workflow: Workflow, id: TicketStatus): WorkflowStatus =>
+  workflow.statuses.find(status => status.id === id) ?? {
+    id,
+    label: id,
+    color: '#64748b',
+    icon: '❔',
+    kind: 'active',
+    transitions: [],
+  };
 
-    const resolvedTickets = this.tickets.filter(t => t.resolvedAt);
-    const averageResolutionTime = resolvedTickets.length > 0
-      ? resolvedTickets.reduce((sum, t) => sum + (t.resolvedAt! - t.createdAt), 0) / resolvedTickets.length
-      : 0;
+const isTransitionAllowed = (workflow: Workflow, from: TicketStatus, to: TicketStatus): boolean =>
+  from === to ||
+  (workflow.statuses.some(status => status.id === to) && findWorkflowStatus(workflow, from).transitions.includes(to));
 
-    return {
-      total,
-      open,
-      inProgress,
-      waiting,
-      resolved,
-      closed,
-      byPriority,
-      byCategory,
-      averageResolutionTime,
-    };
-  }
+// New tickets start in the initial status or one step from it
+const getCreatableStatuses = (workflow: Workflow): TicketStatus[] => [
+  workflow.initialStatus,
+  ...findWorkflowStatus(workflow, workflow.initialStatus).transitions,
+];
 
-  getUrgentTickets(): Ticket[] {
-    return this.tickets
-      .filter(t => t.priority === 'urgent' && (t.status === 'open' || t.status === 'in-progress'))
-      .sort((a, b) => a.createdAt - b.createdAt);
-  }
+const isStatusDone = (workflow: Workflow, id: TicketStatus): boolean =>
+  findWorkflowStatus(workflow, id).kind !== 'active';
 
-  changeTicketStatus(ticketId: string, newStatus: TicketStatus): boolean {
-    const ticket = this.getTicketById(ticketId);
-    if (!ticket) return false;
+// ============================================================================
+// ACCESS CONTROL
+// ============================================================================
 
-    const validTransitions: Record<TicketStatus, TicketStatus[]> = {
-      open: ['in-progress', 'closed'],
-      'in-progress': ['waiting', 'resolved', 'closed'],
-      waiting: ['in-progress', 'closed'],
-      resolved: ['closed', 'open'],
-      closed: ['open'],
-    };
+type Permission =
+  | 'viewAllTickets'
+  | 'changeStatus'
+  | 'assignTickets'
+  | 'writeInternalNotes'
+  | 'deleteTickets'
+  | 'manageDirectory'
+  | 'manageSla'
+  | 'manageWorkflow'
+  | 'publishViews'
+  | 'importTickets'
+  | 'manageNotifications'
+  | 'manageWebhooks';
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = Object.freeze({
+  requester: [],
+  agent: ['viewAllTickets', 'changeStatus', 'assignTickets', 'writeInternalNotes', 'publishViews'],
+  admin: [
+    'viewAllTickets',
+    'changeStatus',
+    'assignTickets',
+    'writeInternalNotes',
+    'deleteTickets',
+    'manageDirectory',
+    'manageSla',
+    'manageWorkflow',
+    'publishViews',
+    'importTickets',
+    'manageNotifications',
+    'manageWebhooks',
+  ],
+});
 
-    if (!validTransitions[ticket.status].includes(newStatus)) {
-      return false;
-    }
+const can = (user: User | null, permission: Permission): boolean =>
+  !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+
+// Who is looking at a ticket: agents see everything, requesters never see internal notes
+type Audience = 'agent' | 'requester';
+
+const audienceFor = (user: User | null): Audience =>
+  can(user, 'writeInternalNotes') ? 'agent' : 'requester';
+
+// Requesters only reach the tickets they opened themselves
+const canAccessTicket = (user: User | null, ticket: Ticket): boolean =>
+  can(user, 'viewAllTickets') || (!!user && ticket.authorId === user.id);
+
+// Serialized by the server next to the rendered markup so the client hydrates from the same data
+interface InitialState {
+  /** `tickets` holds only those the page shows */
+  data: TicketsData;
+  /** The list's first page, when the page shows the list */
+  ticketList?: LoadedTicketList;
+  /** The board without swimlanes, when the page shows the board */
+  board?: LoadedBoard;
+  /** The counts the dashboard, directory and workflow editor show */
+  summary?: TicketSummary;
+  currentUser: User | null;
+  /** Live update the data was read at; the page's event stream resumes from there */
+  liveEventId?: string;
+}
+
+const redactTicket = (ticket: Ticket, audience: Audience): Ticket =>
+  audience === 'agent'
+    ? ticket
+    : { ...ticket, comments: ticket.comments.filter(comment => !comment.isInternal) };
+
+const redactTicketSummary = (summary: TicketSummary, audience: Audience): TicketSummary => ({
+  ...summary,
+  urgent: summary.urgent.map(ticket => redactTicket(ticket, audience)),
+  atRisk: summary.atRisk.map(ticket => redactTicket(ticket, audience)),
+  recent: summary.recent.map(ticket => redactTicket(ticket, audience)),
+});
 
-    this.updateTicket(ticketId, { status: newStatus });
-    return true;
-  }
+// Requesters only need agents' names to show who a ticket is assigned to
+const redactAgent = (agent: Agent, audience: Audience): Agent =>
+  audience === 'agent' ? agent : { id: agent.id, name: agent.name, email: '', teamIds: [] };
 
-  syncToStorage(): void {
-    StorageService.saveToStorage(StorageService.getKeys().TICKETS_DATA, {
-      tickets: this.tickets,
-    });
-  }
+// Published views reach everyone who could have published them, i.e. the support team
+const canSeeSavedView = (user: User | null, view: SavedView): boolean =>
+  !!user && (view.ownerId === user.id || (view.shared && can(user, 'publishViews')));
 
-  static loadFromStorage(): TicketsModel {
-    const data = StorageService.loadFromStorage<TicketsData | null>(
-      StorageService.getKeys().TICKETS_DATA,
-      null
-    );
-    return new TicketsModel(data || undefined);
-  }
-}
+// Other users' pins are nobody else's business
+const redactSavedView = (view: SavedView, user: User): SavedView => ({
+  ...view,
+  pinnedBy: view.pinnedBy.filter(id => id === user.id),
+});
 
 // ============================================================================
-// CONTROLLER LAYER
+// BUSINESS CALENDARS
 // ============================================================================
 
-class TicketsController {
-  private model: TicketsModel;
-  private listeners: Set<() => void>;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-  constructor(model: TicketsModel) {
-    this.model = model;
-    this.listeners = new Set();
-  }
+// Upper bound on days walked, so a calendar with no open hours cannot loop forever
+const MAX_CALENDAR_DAYS = 3660;
 
-  subscribe(listener: () => void): () => void {
-    this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
-  }
-
-  private notify(): void {
-    this.model.syncToStorage();
-    this.listeners.forEach(listener => listener());
-  }
+const getBusinessCalendar = (id?: string): BusinessCalendar =>
+  id !== undefined && Object.hasOwn(BUSINESS_CALENDARS, id) ? BUSINESS_CALENDARS[id] : BUSINESS_CALENDARS[DEFAULT_CALENDAR_ID];
 
-  getAllTickets = () => this.model.getAllTickets();
-  getTicketById = (id: string) => this.model.getTicketById(id);
-  searchTickets = (term: string) => this.model.searchTickets(term);
-  filterByCategory = (category: TicketCategory) => this.model.filterByCategory(category);
-  filterByPriority = (priority: TicketPriority) => this.model.filterByPriority(priority);
-  filterByStatus = (status: TicketStatus) => this.model.filterByStatus(status);
-  getUrgentTickets = () => this.model.getUrgentTickets();
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
 
-  createTicket(ticket: Omit<Ticket, 'id' | 'createdAt' | 'updatedAt' | 'comments'>): void {
-    this.model.createTicket(ticket);
-    this.notify();
+const getZonedParts = (timestamp: number, timeZone: string) => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zonedFormatters.set(timeZone, formatter);
   }
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(timestamp).forEach(part => {
+    parts[part.type] = Number(part.value);
+  });
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+};
 
-  updateTicket(id: string, updates: Partial<Ticket>): void {
-    this.model.updateTicket(id, updates);
-    this.notify();
-  }
+// Midnight UTC of the date `timestamp` falls on in `timeZone`; used as a plain day cursor
+const getLocalDay = (timestamp: number, timeZone: string): number => {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return Date.UTC(year, month - 1, day);
+};
 
-  deleteTicket(id: string): void {
-    this.model.deleteTicket(id);
-    this.notify();
-  }
+const getZoneOffset = (timestamp: number, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(timestamp, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(timestamp / 1000) * 1000;
+};
 
-  changeTicketStatus(ticketId: string, newStatus: TicketStatus): boolean {
-    const success = this.model.changeTicketStatus(ticketId, newStatus);
-    if (success) this.notify();
-    return success;
-  }
+// Two passes settle the offset even when the wall-clock time sits next to a DST change
+const zonedTimeToUtc = (localDay: number, minutes: number, timeZone: string): number => {
+  const wallClock = localDay + minutes * 60000;
+  const estimate = wallClock - getZoneOffset(wallClock, timeZone);
+  return wallClock - getZoneOffset(estimate, timeZone);
+};
 
-  addComment(ticketId: string, comment: Omit<Comment, 'id' | 'ticketId' | 'timestamp'>): void {
-    this.model.addComment(ticketId, comment);
-    this.notify();
-  }
+// Anonymous Gregorian algorithm
+const getEasterSunday = (year: number): number => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return Date.UTC(year, month - 1, day);
+};
 
-  getTicketComments = (ticketId: string) => this.model.getTicketComments(ticketId);
-  getStatistics = () => this.model.getStatistics();
-}
+const isHoliday = (calendar: BusinessCalendar, localDay: number): boolean => {
+  const date = new Date(localDay);
+  const year = date.getUTCFullYear();
+  const monthDay = date.toISOString().slice(5, 10);
+  if (calendar.holidays.some(h => h.date === monthDay || h.date === `${year}-${monthDay}`)) return true;
+  const easter = getEasterSunday(year);
+  return (calendar.easterHolidays ?? []).some(h => easter + h.offset * DAY_MS === localDay);
+};
 
-// ============================================================================
-// CONTEXT
-// ============================================================================
+const parseClock = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
 
-interface TicketsContextType {
-  controller: TicketsController;
-  forceUpdate: () => void;
-}
+// Open intervals of one local day as [start, end) timestamps
+const getBusinessWindows = (calendar: BusinessCalendar, localDay: number): [number, number][] => {
+  if (isHoliday(calendar, localDay)) return [];
+  return (calendar.schedule[new Date(localDay).getUTCDay()] ?? []).map(({ start, end }) => [
+    zonedTimeToUtc(localDay, parseClock(start), calendar.timeZone),
+    zonedTimeToUtc(localDay, parseClock(end), calendar.timeZone),
+  ]);
+};
 
-const TicketsContext = createContext<TicketsContextType | null>(null);
+const businessTimeBetween = (calendar: BusinessCalendar, start: number, end: number): number => {
+  if (end <= start) return 0;
+  if (calendar.alwaysOpen) return end - start;
 
-const useTickets = () => {
-  const context = useContext(TicketsContext);
-  if (!context) throw new Error('useTickets must be used within TicketsProvider');
-  return context;
+  let total = 0;
+  const lastDay = getLocalDay(end, calendar.timeZone);
+  let day = getLocalDay(start, calendar.timeZone);
+  for (let walked = 0; day <= lastDay && walked < MAX_CALENDAR_DAYS; day += DAY_MS, walked++) {
+    getBusinessWindows(calendar, day).forEach(([open, close]) => {
+      total += Math.max(0, Math.min(close, end) - Math.max(open, start));
+    });
+  }
+  return total;
 };
 
-// ============================================================================
-// DEFAULT FORM DATA
-// ============================================================================
+// The moment `duration` of open time has passed since `start`
+const addBusinessTime = (calendar: BusinessCalendar, start: number, duration: number): number => {
+  if (calendar.alwaysOpen) return start + duration;
+
+  let remaining = duration;
+  let day = getLocalDay(start, calendar.timeZone);
+  for (let walked = 0; walked < MAX_CALENDAR_DAYS; day += DAY_MS, walked++) {
+    for (const [open, close] of getBusinessWindows(calendar, day)) {
+      const from = Math.max(open, start);
+      if (close <= from) continue;
+      if (close - from >= remaining) return from + remaining;
+      remaining -= close - from;
+    }
+  }
+  return start + duration;
+};
 
-const getDefaultFormData = () => ({
-  title: '',
-  description: '',
-  category: 'technical' as TicketCategory,
-  priority: 'medium' as TicketPriority,
-  status: 'open' as TicketStatus,
-  author: '',
-  assignedTo: '',
-});
+const elapsedTime = (calendar: BusinessCalendar, start: number, end: number, mode: TimeMode): number =>
+  mode === 'business' ? businessTimeBetween(calendar, start, end) : Math.max(0, end - start);
 
 // ============================================================================
-// VIEW COMPONENTS
+// SLA
 // ============================================================================
 
-const Header: React.FC<{
-  darkMode: boolean;
-  toggleTheme: () => void;
-  onNavigate: (view: string) => void;
-  currentView: string;
-}> = ({ darkMode, toggleTheme, onNavigate, currentView }) => {
-  const { controller } = useTickets();
-  const urgentTickets = controller.getUrgentTickets();
+// A category-specific policy wins over the one covering the whole priority
+const findSlaPolicy = (
+  policies: SlaPolicy[],
+  ticket: Pick<Ticket, 'priority' | 'category'>
+): SlaPolicy | null =>
+  policies.find(p => p.priority === ticket.priority && p.category === ticket.category) ??
+  policies.find(p => p.priority === ticket.priority && !p.category) ??
+  null;
+
+const describeSlaPolicy = (policy: SlaPolicyInput): string => {
+  const priority = PRIORITIES.find(p => p.value === policy.priority)?.label ?? policy.priority;
+  const category = policy.category && CATEGORIES.find(c => c.value === policy.category)?.label;
+  return category ? `${priority} · ${category}` : priority;
+};
 
-  return (
-    <header className="header">
-      <div className="header-content">
-        <div className="header-brand" onClick={() => onNavigate('dashboard')}>
-          <svg className="header-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 5v2m0 4v2m0 4v2M5 5a2 2 0 00-2 2v3a2 2 0 110 4v3a2 2 0 002 2h14a2 2 0 002-2v-3a2 2 0 110-4V7a2 2 0 00-2-2H5z" />
-          </svg>
-          <h1>HelpDesk</h1>
-        </div>
+// Tickets opened without an account only carry the requester's name
+const isRequesterComment = (ticket: Ticket, comment: Comment): boolean =>
+  comment.authorId && ticket.authorId ? comment.authorId === ticket.authorId : comment.author === ticket.author;
+
+// Deadlines and the at-risk margin are both measured in the policy's open hours
+const evaluateSlaTarget = (
+  calendar: BusinessCalendar,
+  startedAt: number,
+  minutes: number,
+  completedAt: number | undefined,
+  now: number
+): SlaTarget => {
+  const windowMs = minutes * 60000;
+  const dueAt = addBusinessTime(calendar, startedAt, windowMs);
+  if (completedAt !== undefined) {
+    return { dueAt, completedAt, state: completedAt <= dueAt ? 'met' : 'breached' };
+  }
+  if (now > dueAt) return { dueAt, state: 'breached' };
+  const remaining = businessTimeBetween(calendar, now, dueAt);
+  return { dueAt, state: remaining < windowMs * SLA_AT_RISK_RATIO ? 'at-risk' : 'on-track' };
+};
 
-        <nav className="header-nav">
-          <button
-            onClick={() => onNavigate('dashboard')}
-            className={currentView === 'dashboard' ? 'active' : ''}
-          >
-            Dashboard
-          </button>
-          <button
-            onClick={() => onNavigate('tickets')}
-            className={currentView === 'tickets' ? 'active' : ''}
-          >
-            Tickets
-          </button>
-        </nav>
+const computeTicketSla = (
+  ticket: Ticket,
+  policies: SlaPolicy[],
+  workflow: Workflow,
+  now = Date.now()
+): TicketSla | null => {
+  const policy = findSlaPolicy(policies, ticket);
+  if (!policy) return null;
+
+  const calendar = getBusinessCalendar(policy.calendarId);
+  const isDone = isStatusDone(workflow, ticket.status);
+  const resolvedAt = isDone ? ticket.resolvedAt ?? ticket.updatedAt : undefined;
+  return {
+    policy,
+    // Closing a ticket nobody answered also stops its first-response clock
+    firstResponse: evaluateSlaTarget(
+      calendar,
+      ticket.createdAt,
+      policy.firstResponseMinutes,
+      ticket.firstResponseAt ?? resolvedAt,
+      now
+    ),
+    resolution: evaluateSlaTarget(calendar, ticket.createdAt, policy.resolutionMinutes, resolvedAt, now),
+  };
+};
 
-        <div className="header-actions">
-          {urgentTickets.length > 0 && (
-            <div className="urgent-badge">
-              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-              </svg>
-              <span className="badge">{urgentTickets.length}</span>
-            </div>
-          )}
-          <button onClick={toggleTheme} className="theme-toggle">
-            {darkMode ? (
-              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
-              </svg>
-            ) : (
-              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
-              </svg>
-            )}
-          </button>
-        </div>
-      </div>
-    </header>
-  );
+// The target worth showing on its own: first response until it is done, then resolution
+const nextSlaTarget = (sla: TicketSla): SlaTargetKind =>
+  sla.firstResponse.completedAt === undefined ? 'firstResponse' : 'resolution';
+
+// Business durations stay in hours: "1d" would read as 24 open hours
+const formatDuration = (ms: number, mode: TimeMode = 'calendar'): string => {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24 || mode === 'business') return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
 };
 
-const TicketCard: React.FC<{ ticket: Ticket; onClick: () => void }> = ({ ticket, onClick }) => {
-  const category = CATEGORIES.find(c => c.value === ticket.category);
-  const priority = PRIORITIES.find(p => p.value === ticket.priority);
-  const status = STATUS_CONFIG[ticket.status];
+// ============================================================================
+// FULL-TEXT SEARCH
+// ============================================================================
 
-  const timeAgo = (timestamp: number) => {
-    const diff = Date.now() - timestamp;
-    const minutes = Math.floor(diff / 60000);
-    const hours = Math.floor(diff / 3600000);
-    const days = Math.floor(diff / 86400000);
+interface SearchToken {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Weights per field; internal notes are counted apart so requesters never match on them
+const SEARCH_FIELD_WEIGHTS = { id: 3, title: 3, description: 1, comment: 1 };
+const SEARCH_PREFIX_WEIGHT = 0.5;
+const SEARCH_STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'ao', 'aos', 'de', 'da', 'do', 'das', 'dos', 'e', 'em', 'no', 'na', 'nos', 'nas',
+  'um', 'uma', 'uns', 'umas', 'para', 'pra', 'por', 'com', 'que', 'se', 'me', 'meu', 'minha', 'eu',
+]);
+// Longest first; a suffix only comes off if at least three letters remain
+const STEM_SUFFIXES = [
+  'amentos', 'imentos', 'amento', 'imento', 'idades', 'mente', 'acoes', 'icoes', 'idade', 'istas', 'aveis',
+  'iveis', 'acao', 'icao', 'ismo', 'ista', 'avel', 'ivel', 'ando', 'endo', 'indo', 'ados', 'idos', 'adas',
+  'idas', 'ado', 'ido', 'ada', 'ida', 'ar', 'er', 'ir', 'ou', 'eu', 'iu', 'am', 'em', 'a', 'e', 'o',
+];
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const foldText = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Offsets point into the original text so matches can be highlighted in place
+const tokenizeText = (text: string): SearchToken[] =>
+  Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    word: foldText(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+// Light Portuguese stemmer: folds plurals, then drops one derivational or verb suffix
+const stemWord = (word: string): string => {
+  let stem = word;
+  if (/[oa]es$/.test(stem) && stem.length > 4) stem = `${stem.slice(0, -3)}ao`;
+  else if (stem.endsWith('ns') && stem.length > 4) stem = `${stem.slice(0, -2)}m`;
+  else if (stem.endsWith('s') && stem.length > 3) stem = stem.slice(0, -1);
+  const suffix = STEM_SUFFIXES.find(s => stem.endsWith(s) && stem.length - s.length >= 3);
+  return suffix ? stem.slice(0, -suffix.length) : stem;
+};
 
-    if (minutes < 60) return `${minutes}m atrás`;
-    if (hours < 24) return `${hours}h atrás`;
-    return `${days}d atrás`;
-  };
+const getSearchWords = (text: string): string[] =>
+  tokenizeText(text).map(t => t.word).filter(word => !SEARCH_STOPWORDS.has(word));
+
+interface Posting {
+  public: number;
+  internal: number;
+}
+
+/**
+ * Inverted index over ticket text, ranked with BM25. Tickets are reindexed
+ * one at a time as they change, so keeping it current costs a single ticket.
+ */
+class SearchIndex {
+  private postings = new Map<string, Map<string, Posting>>();
+  private docTerms = new Map<string, string[]>();
+  private docLengths = new Map<string, number>();
+  private totalLength = 0;
+  // Folded word -> stem, kept sorted on demand for prefix lookups
+  private words = new Map<string, string>();
+  private sortedWords: string[] | null = null;
+
+  constructor(tickets: Ticket[] = []) {
+    tickets.forEach(ticket => this.indexTicket(ticket));
+  }
 
-  return (
-    <div className="ticket-card" onClick={onClick}>
-      <div className="ticket-card-header">
-        <div className="ticket-id">#{ticket.id.slice(-8)}</div>
-        <div className="ticket-badges">
-          <span className="badge-priority" style={{ backgroundColor: priority?.color }}>
-            {priority?.label}
-          </span>
-          <span className="badge-status" style={{ backgroundColor: status.color }}>
-            {status.icon} {status.label}
-          </span>
-        </div>
-      </div>
+  indexTicket(ticket: Ticket): void {
+    this.removeTicket(ticket.id);
+
+    const counts = new Map<string, Posting>();
+    let length = 0;
+    const add = (text: string, weight: number, internal = false) => {
+      getSearchWords(text).forEach(word => {
+        if (!this.words.has(word)) {
+          this.words.set(word, stemWord(word));
+          this.sortedWords = null;
+        }
+        const stem = this.words.get(word)!;
+        const posting = counts.get(stem) ?? { public: 0, internal: 0 };
+        posting[internal ? 'internal' : 'public'] += weight;
+        counts.set(stem, posting);
+        length += weight;
+      });
+    };
+    add(ticket.id, SEARCH_FIELD_WEIGHTS.id);
+    add(ticket.title, SEARCH_FIELD_WEIGHTS.title);
+    add(ticket.description, SEARCH_FIELD_WEIGHTS.description);
+    ticket.comments.forEach(comment => add(comment.content, SEARCH_FIELD_WEIGHTS.comment, comment.isInternal));
+
+    counts.forEach((posting, stem) => {
+      if (!this.postings.has(stem)) this.postings.set(stem, new Map());
+      this.postings.get(stem)!.set(ticket.id, posting);
+    });
+    this.docTerms.set(ticket.id, [...counts.keys()]);
+    this.docLengths.set(ticket.id, length);
+    this.totalLength += length;
+  }
 
-      <h3 className="ticket-title">{ticket.title}</h3>
-      <p className="ticket-description">{ticket.description}</p>
+  removeTicket(id: string): void {
+    const stems = this.docTerms.get(id);
+    if (!stems) return;
+    stems.forEach(stem => {
+      const docs = this.postings.get(stem);
+      docs?.delete(id);
+      if (docs?.size === 0) this.postings.delete(stem);
+    });
+    this.totalLength -= this.docLengths.get(id) ?? 0;
+    this.docTerms.delete(id);
+    this.docLengths.delete(id);
+  }
 
-      <div className="ticket-footer">
-        <div className="ticket-meta">
-          <span className="ticket-category" style={{ color: category?.color }}>
-            {category?.icon} {category?.label}
-          </span>
-          <span className="ticket-author">👤 {ticket.author}</span>
-        </div>
-        <div className="ticket-time">{timeAgo(ticket.updatedAt)}</div>
-      </div>
+  /**
+   * Scores every ticket containing all words of `text`; the last word also
+   * matches as a prefix so results follow the user while typing. Returns null
+   * when `text` has nothing searchable (only stopwords or punctuation).
+   */
+  search(text: string, audience: Audience = 'agent'): Map<string, number> | null {
+    const words = getSearchWords(text);
+    if (words.length === 0) return null;
+
+    const docCount = this.docLengths.size;
+    const averageLength = docCount > 0 ? this.totalLength / docCount : 0;
+    let scores: Map<string, number> | null = null;
+
+    words.forEach((word, index) => {
+      const stems = new Map([[stemWord(word), 1]]);
+      if (index === words.length - 1) {
+        this.expandPrefix(word).forEach(stem => {
+          if (!stems.has(stem)) stems.set(stem, SEARCH_PREFIX_WEIGHT);
+        });
+      }
 
-      {ticket.comments.length > 0 && (
-        <div className="ticket-comments-count">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-          </svg>
-          {ticket.comments.length}
-        </div>
-      )}
-    </div>
-  );
-};
+      const wordScores = new Map<string, number>();
+      stems.forEach((weight, stem) => {
+        const docs = this.postings.get(stem);
+        if (!docs) return;
+        const idf = Math.log(1 + (docCount - docs.size + 0.5) / (docs.size + 0.5));
+        docs.forEach((posting, id) => {
+          const frequency = posting.public + (audience === 'agent' ? posting.internal : 0);
+          if (frequency === 0) return;
+          const lengthRatio = (this.docLengths.get(id) ?? 0) / (averageLength || 1);
+          const score =
+            (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio));
+          wordScores.set(id, Math.max(wordScores.get(id) ?? 0, score * weight));
+        });
+      });
+
+      const previous: Map<string, number> | null = scores;
+      scores = new Map();
+      wordScores.forEach((score, id) => {
+        if (!previous) scores!.set(id, score);
+        else if (previous.has(id)) scores!.set(id, previous.get(id)! + score);
+      });
+    });
 
-const DashboardView: React.FC<{ onTicketClick: (id: string) => void }> = ({ onTicketClick }) => {
-  const { controller } = useTickets();
-  const stats = controller.getStatistics();
-  const urgentTickets = controller.getUrgentTickets();
-  const recentTickets = controller.getAllTickets().slice(0, 6);
-
-  const formatTime = (ms: number) => {
-    const hours = Math.floor(ms / 3600000);
-    if (hours < 24) return `${hours}h`;
-    const days = Math.floor(hours / 24);
-    return `${days}d`;
-  };
+    return scores;
+  }
 
-  return (
-    <div className="dashboard-view">
-      <div className="dashboard-header">
-        <h2>Dashboard</h2>
-        <p className="dashboard-subtitle">Visão geral do sistema de tickets</p>
-      </div>
+  private expandPrefix(prefix: string): string[] {
+    if (!this.sortedWords) this.sortedWords = [...this.words.keys()].sort();
+    const words = this.sortedWords;
+    let low = 0;
+    let high = words.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (words[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+    const stems: string[] = [];
+    for (let i = low; i < words.length && words[i].startsWith(prefix); i++) stems.push(this.words.get(words[i])!);
+    return stems;
+  }
+}
 
-      <div className="stats-grid">
-        <div className="stat-card total">
-          <div className="stat-icon">📊</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.total}</div>
-            <div className="stat-label">Total de Tickets</div>
-          </div>
-        </div>
+// Splits `text` into plain and matching runs for the words of `query`, using the same folding and stemming as the index
+const highlightText = (text: string, query: string): TextSegment[] => {
+  const words = getSearchWords(query);
+  if (words.length === 0) return [{ text, match: false }];
+  const stems = new Set(words.map(stemWord));
+  const prefix = words[words.length - 1];
+
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  tokenizeText(text).forEach(token => {
+    if (!stems.has(stemWord(token.word)) && !token.word.startsWith(prefix)) return;
+    if (token.start > cursor) segments.push({ text: text.slice(cursor, token.start), match: false });
+    segments.push({ text: text.slice(token.start, token.end), match: true });
+    cursor = token.end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
 
-        <div className="stat-card open">
-          <div className="stat-icon">🆕</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.open}</div>
-            <div className="stat-label">Abertos</div>
-          </div>
-        </div>
+// A window of roughly `length` characters around the first match, or null when nothing matches
+const getSearchSnippet = (text: string, query: string, length = 160): TextSegment[] | null => {
+  const segments = highlightText(text, query);
+  if (!segments.some(segment => segment.match)) return null;
+  if (text.length <= length) return segments;
 
-        <div className="stat-card progress">
-          <div className="stat-icon">⚙️</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.inProgress}</div>
-            <div className="stat-label">Em Andamento</div>
-          </div>
-        </div>
+  let offset = 0;
+  for (const segment of segments) {
+    if (segment.match) break;
+    offset += segment.text.length;
+  }
+  const start = Math.max(0, Math.min(offset - Math.floor(length / 3), text.length - length));
+  const end = start + length;
+  const clipped = highlightText(text.slice(start, end), query);
+  if (start > 0) clipped.unshift({ text: '…', match: false });
+  if (end < text.length) clipped.push({ text: '…', match: false });
+  return clipped;
+};
 
-        <div className="stat-card resolved">
-          <div className="stat-icon">✅</div>
-          <div className="stat-content">
-            <div className="stat-value">{stats.resolved}</div>
-            <div className="stat-label">Resolvidos</div>
-          </div>
-        </div>
-      </div>
+// ============================================================================
+// QUERY LANGUAGE
+// ============================================================================
 
-      <div className="stats-row">
-        <div className="stats-section">
-          <h3>Por Prioridade</h3>
-          <div className="priority-stats">
-            {PRIORITIES.map(p => (
-              <div key={p.value} className="priority-item">
-                <span className="priority-label" style={{ color: p.color }}>
-                  {p.label}
-                </span>
-                <span className="priority-count">{stats.byPriority[p.value]}</span>
-              </div>
-            ))}
-          </div>
-        </div>
+// status:open,waiting priority:>=high assignee:"Ana" updated:<7d -author:bot free text
+type QueryField = 'status' | 'priority' | 'category' | 'assignee' | 'author' | 'id' | 'created' | 'updated' | 'sla';
+type QueryComparator = '=' | '>' | '>=' | '<' | '<=';
+
+interface QueryClause {
+  field: QueryField;
+  negated: boolean;
+  comparator: QueryComparator;
+  values: string[];
+}
+
+interface ParsedQuery {
+  clauses: QueryClause[];
+  terms: { text: string; negated: boolean }[];
+}
+
+// What a query needs from the model to resolve names and compute derived fields
+interface QueryContext {
+  workflow: Workflow;
+  agents: Agent[];
+  teams: Team[];
+  now: number;
+  getSla: (ticket: Ticket) => TicketSla | null;
+  /** Relevance per matching ticket id; null when the text has nothing searchable */
+  search: (text: string) => Map<string, number> | null;
+}
+
+interface QuerySuggestion {
+  label: string;
+  detail?: string;
+  /** Replaces the input between `from` and `to` */
+  insert: string;
+}
+
+const QUERY_FIELDS: Record<QueryField, { description: string; comparable: boolean }> = {
+  status: { description: 'Status do fluxo', comparable: false },
+  priority: { description: 'Prioridade; aceita >, >=, <, <=', comparable: true },
+  category: { description: 'Categoria', comparable: false },
+  assignee: { description: 'Agente ou equipe responsável ("none" para sem responsável)', comparable: false },
+  author: { description: 'Quem abriu o ticket', comparable: false },
+  id: { description: 'Identificador do ticket', comparable: false },
+  created: { description: 'Criado há (7d, 24h) ou em uma data (AAAA-MM-DD)', comparable: true },
+  updated: { description: 'Atualizado há (7d, 24h) ou em uma data (AAAA-MM-DD)', comparable: true },
+  sla: { description: 'Situação do próximo prazo de SLA', comparable: false },
+};
 
-        <div className="stats-section">
-          <h3>Tempo Médio de Resolução</h3>
-          <div className="resolution-time">
-            {stats.averageResolutionTime > 0 ? formatTime(stats.averageResolutionTime) : 'N/A'}
-          </div>
-        </div>
-      </div>
+const QUERY_DATE_UNITS: Record<string, number> = { m: 60000, h: 3600000, d: DAY_MS, w: 7 * DAY_MS };
+const QUERY_UNASSIGNED = ['none', 'nenhum'];
 
-      {urgentTickets.length > 0 && (
-        <div className="urgent-section">
-          <h3>⚠️ Tickets Urgentes</h3>
-          <div className="urgent-list">
-            {urgentTickets.map(ticket => (
-              <div
-                key={ticket.id}
-                className="urgent-item"
-                onClick={() => onTicketClick(ticket.id)}
-              >
-                <div className="urgent-info">
-                  <h4>{ticket.title}</h4>
-                  <span className="urgent-author">Por {ticket.author}</span>
-                </div>
-                <span className="urgent-category">{CATEGORIES.find(c => c.value === ticket.category)?.icon}</span>
-              </div>
-            ))}
-          </div>
-        </div>
-      )}
+class QuerySyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
 
-      <div className="recent-tickets">
-        <h3>Tickets Recentes</h3>
-        <div className="tickets-grid">
-          {recentTickets.map(ticket => (
-            <TicketCard key={ticket.id} ticket={ticket} onClick={() => onTicketClick(ticket.id)} />
-          ))}
-        </div>
-      </div>
-    </div>
-  );
-};
+const isQueryField = (value: string): value is QueryField => Object.hasOwn(QUERY_FIELDS, value);
 
-const TicketsListView: React.FC<{
-  onTicketClick: (id: string) => void;
-  onNewTicket: () => void;
-}> = ({ onTicketClick, onNewTicket }) => {
-  const { controller } = useTickets();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<TicketCategory | null>(null);
-  const [selectedPriority, setSelectedPriority] = useState<TicketPriority | null>(null);
-  const [selectedStatus, setSelectedStatus] = useState<TicketStatus | null>(null);
-  const [renderKey, setRenderKey] = useState(0);
+const parseTicketQuery = (input: string): ParsedQuery => {
+  const query: ParsedQuery = { clauses: [], terms: [] };
+  let index = 0;
 
-  useEffect(() => {
-    setRenderKey(prev => prev + 1);
-  }, [controller]);
+  const readValue = (): string => {
+    if (input[index] === '"') {
+      const close = input.indexOf('"', index + 1);
+      if (close === -1) throw new QuerySyntaxError(`Aspas não fechadas na posição ${index + 1}`, index);
+      const value = input.slice(index + 1, close);
+      index = close + 1;
+      return value;
+    }
+    const start = index;
+    while (index < input.length && !/[\s,]/.test(input[index])) index++;
+    return input.slice(start, index);
+  };
 
-  const allTickets = controller.getAllTickets();
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
 
-  const filteredTickets = useMemo(() => {
-    let tickets = [...allTickets];
+    const start = index;
+    const negated = input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1]);
+    if (negated) index++;
 
-    if (searchTerm) {
-      const searchResults = controller.searchTickets(searchTerm);
-      tickets = tickets.filter(t => searchResults.some(sr => sr.id === t.id));
+    const fieldMatch = /^([a-zA-Z]+):/.exec(input.slice(index));
+    if (!fieldMatch) {
+      const text = readValue();
+      if (text) query.terms.push({ text, negated });
+      continue;
     }
 
-    if (selectedCategory) {
-      tickets = tickets.filter(t => t.category === selectedCategory);
+    const field = fieldMatch[1].toLowerCase();
+    if (!isQueryField(field)) {
+      throw new QuerySyntaxError(
+        `Campo desconhecido "${fieldMatch[1]}" na posição ${start + 1}. Campos: ${Object.keys(QUERY_FIELDS).join(', ')}`,
+        start
+      );
     }
+    index += fieldMatch[0].length;
 
-    if (selectedPriority) {
-      tickets = tickets.filter(t => t.priority === selectedPriority);
+    const comparator = (/^(>=|<=|>|<|=)/.exec(input.slice(index))?.[0] ?? '=') as QueryComparator;
+    if (comparator !== '=' || input[index] === '=') index += comparator.length;
+    if (comparator !== '=' && !QUERY_FIELDS[field].comparable) {
+      throw new QuerySyntaxError(`O operador "${comparator}" não vale para "${field}"`, start);
     }
 
-    if (selectedStatus) {
-      tickets = tickets.filter(t => t.status === selectedStatus);
+    const values = [readValue()];
+    while (input[index] === ',') {
+      index++;
+      values.push(readValue());
+    }
+    if (values.some(value => !value.trim())) {
+      throw new QuerySyntaxError(`Valor vazio para "${field}" na posição ${start + 1}`, start);
+    }
+    if (comparator !== '=' && values.length > 1) {
+      throw new QuerySyntaxError(`Use apenas um valor com "${comparator}" em "${field}"`, start);
     }
 
-    return tickets;
-  }, [allTickets, searchTerm, selectedCategory, selectedPriority, selectedStatus, renderKey]);
+    query.clauses.push({ field, negated, comparator, values });
+  }
 
-  return (
-    <div className="tickets-list-view">
-      <div className="list-header">
-        <h2>Todos os Tickets</h2>
-        <button onClick={onNewTicket} className="btn-primary">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Novo Ticket
-        </button>
-      </div>
+  return query;
+};
 
-      <div className="filters-section">
-        <div className="search-box">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-          </svg>
-          <input
-            type="text"
-            placeholder="Buscar tickets..."
-            value={searchTerm}
-            onChange={e => setSearchTerm(e.target.value)}
-          />
-        </div>
+const compareWith = (comparator: QueryComparator, a: number, b: number): boolean => {
+  switch (comparator) {
+    case '>': return a > b;
+    case '>=': return a >= b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    default: return a === b;
+  }
+};
 
-        <div className="filter-groups">
-          <div className="filter-group">
-            <span className="filter-label">Categoria:</span>
-            <button
-              onClick={() => setSelectedCategory(null)}
-              className={`filter-btn ${!selectedCategory ? 'active' : ''}`}
-            >
-              Todas
-            </button>
-            {CATEGORIES.map(cat => (
-              <button
-                key={cat.value}
-                onClick={() => setSelectedCategory(cat.value)}
-                className={`filter-btn ${selectedCategory === cat.value ? 'active' : ''}`}
-              >
-                {cat.icon} {cat.label}
-              </button>
-            ))}
-          </div>
+// Relative values read as age ("<7d" = less than a week old); dates are whole days in the default calendar's zone
+const compileDateClause = (clause: QueryClause, now: number): ((timestamp: number) => boolean) => {
+  const value = clause.values[0].trim();
+  const relative = /^(\d+)([mhdw])$/.exec(value);
+  if (relative) {
+    const limit = Number(relative[1]) * QUERY_DATE_UNITS[relative[2]];
+    const comparator = clause.comparator === '=' ? '<=' : clause.comparator;
+    return timestamp => compareWith(comparator, now - timestamp, limit);
+  }
 
-          <div className="filter-group">
-            <span className="filter-label">Prioridade:</span>
-            <button
-              onClick={() => setSelectedPriority(null)}
-              className={`filter-btn ${!selectedPriority ? 'active' : ''}`}
-            >
-              Todas
-            </button>
-            {PRIORITIES.map(p => (
-              <button
-                key={p.value}
-                onClick={() => setSelectedPriority(p.value)}
-                className={`filter-btn ${selectedPriority === p.value ? 'active' : ''}`}
-              >
-                {p.label}
-              </button>
-            ))}
-          </div>
+  const absolute = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const day = absolute ? Date.UTC(Number(absolute[1]), Number(absolute[2]) - 1, Number(absolute[3])) : NaN;
+  if (!absolute || Number.isNaN(day) || new Date(day).toISOString().slice(0, 10) !== value) {
+    throw new QuerySyntaxError(`Data inválida "${value}" em "${clause.field}": use 7d, 24h ou AAAA-MM-DD`, 0);
+  }
+  const timeZone = getBusinessCalendar().timeZone;
+  const dayStart = zonedTimeToUtc(day, 0, timeZone);
+  const dayEnd = zonedTimeToUtc(day + DAY_MS, 0, timeZone);
+  switch (clause.comparator) {
+    case '>': return timestamp => timestamp >= dayEnd;
+    case '>=': return timestamp => timestamp >= dayStart;
+    case '<': return timestamp => timestamp < dayStart;
+    case '<=': return timestamp => timestamp < dayEnd;
+    default: return timestamp => timestamp >= dayStart && timestamp < dayEnd;
+  }
+};
 
-          <div className="filter-group">
-            <span className="filter-label">Status:</span>
-            <button
-              onClick={() => setSelectedStatus(null)}
-              className={`filter-btn ${!selectedStatus ? 'active' : ''}`}
-            >
-              Todos
-            </button>
-            {Object.entries(STATUS_CONFIG).map(([key, config]) => (
-              <button
-                key={key}
-                onClick={() => setSelectedStatus(key as TicketStatus)}
-                className={`filter-btn ${selectedStatus === key ? 'active' : ''}`}
-              >
-                {config.icon} {config.label}
-              </button>
-            ))}
-          </div>
-        </div>
-      </div>
+const findByValueOrLabel = <T extends { value: string; label: string }>(options: T[], value: string) =>
+  options.find(option => option.value === value || normalizeName(option.label) === normalizeName(value));
+
+const compileClause = (clause: QueryClause, context: QueryContext): ((ticket: Ticket) => boolean) => {
+  const { field, values } = clause;
+  switch (field) {
+    case 'status': {
+      const ids = values.map(value => {
+        const status = context.workflow.statuses.find(
+          s => s.id === value || normalizeName(s.label) === normalizeName(value)
+        );
+        if (!status) throw new QuerySyntaxError(`Status desconhecido "${value}"`, 0);
+        return status.id;
+      });
+      return ticket => ids.includes(ticket.status);
+    }
+    case 'priority': {
+      const ranks = values.map(value => {
+        const priority = findByValueOrLabel(PRIORITIES, value);
+        if (!priority) throw new QuerySyntaxError(`Prioridade desconhecida "${value}"`, 0);
+        return PRIORITIES.indexOf(priority);
+      });
+      const rankOf = (ticket: Ticket) => PRIORITIES.findIndex(p => p.value === ticket.priority);
+      return ticket => ranks.some(rank => compareWith(clause.comparator, rankOf(ticket), rank));
+    }
+    case 'category': {
+      const categories = values.map(value => {
+        const category = findByValueOrLabel(CATEGORIES, value);
+        if (!category) throw new QuerySyntaxError(`Categoria desconhecida "${value}"`, 0);
+        return category.value;
+      });
+      return ticket => categories.includes(ticket.category);
+    }
+    case 'assignee': {
+      const unassigned = values.some(value => QUERY_UNASSIGNED.includes(normalizeName(value)));
+      const entries = [...context.agents, ...context.teams];
+      const ids = values
+        .filter(value => !QUERY_UNASSIGNED.includes(normalizeName(value)))
+        .flatMap(value => {
+          const matches = entries.filter(
+            entry => entry.id === value || normalizeName(entry.name).includes(normalizeName(value))
+          );
+          if (matches.length === 0) throw new QuerySyntaxError(`Nenhum agente ou equipe corresponde a "${value}"`, 0);
+          return matches.map(entry => entry.id);
+        });
+      return ticket => (ticket.assigneeId ? ids.includes(ticket.assigneeId) : unassigned);
+    }
+    case 'author':
+      return ticket => values.some(value => normalizeName(ticket.author).includes(normalizeName(value)));
+    case 'id':
+      return ticket => values.some(value => ticket.id.toLowerCase().includes(value.toLowerCase()));
+    case 'created':
+    case 'updated': {
+      const matches = compileDateClause(clause, context.now);
+      return ticket => matches(field === 'created' ? ticket.createdAt : ticket.updatedAt);
+    }
+    case 'sla': {
+      const states = values.map(value => {
+        const state = (Object.keys(SLA_STATE_LABELS) as SlaState[]).find(
+          s => s === value || normalizeName(SLA_STATE_LABELS[s]) === normalizeName(value)
+        );
+        if (!state) throw new QuerySyntaxError(`Situação de SLA desconhecida "${value}"`, 0);
+        return state;
+      });
+      return ticket => {
+        const sla = context.getSla(ticket);
+        return !!sla && states.includes(sla[nextSlaTarget(sla)].state);
+      };
+    }
+  }
+};
 
-      <div className="tickets-count">
-        {filteredTickets.length} {filteredTickets.length === 1 ? 'ticket encontrado' : 'tickets encontrados'}
-      </div>
+// Clauses on different fields are ANDed; comma-separated values inside one clause are ORed
+const compileTicketQuery = (query: ParsedQuery, context: QueryContext): ((ticket: Ticket) => boolean) => {
+  const predicates = query.clauses.map(clause => {
+    const matches = compileClause(clause, context);
+    return clause.negated ? (ticket: Ticket) => !matches(ticket) : matches;
+  });
+  query.terms.forEach(term => {
+    const scores = context.search(term.text);
+    if (scores) predicates.push(ticket => scores.has(ticket.id) !== term.negated);
+  });
+  return ticket => predicates.every(matches => matches(ticket));
+};
 
-      {filteredTickets.length === 0 ? (
-        <div className="empty-state">
-          <p>Nenhum ticket encontrado</p>
-          <button onClick={onNewTicket} className="btn-primary">Criar Primeiro Ticket</button>
-        </div>
-      ) : (
-        <div className="tickets-grid">
-          {filteredTickets.map(ticket => (
-            <TicketCard key={ticket.id} ticket={ticket} onClick={() => onTicketClick(ticket.id)} />
-          ))}
-        </div>
-      )}
-    </div>
-  );
+const getQueryValueOptions = (field: QueryField, context: Omit<QueryContext, 'now' | 'getSla' | 'search'>) => {
+  const quote = (value: string) => (/[\s,"]/.test(value) ? `"${value}"` : value);
+  switch (field) {
+    case 'status':
+      return context.workflow.statuses.map(s => ({ label: `${s.icon} ${s.label}`, insert: s.id }));
+    case 'priority':
+      return PRIORITIES.map(p => ({ label: p.label, insert: p.value }));
+    case 'category':
+      return CATEGORIES.map(c => ({ label: `${c.icon} ${c.label}`, insert: c.value }));
+    case 'assignee':
+      return [
+        { label: 'Sem responsável', insert: 'none' },
+        ...context.teams.map(t => ({ label: `👥 ${t.name}`, insert: quote(t.name) })),
+        ...context.agents.map(a => ({ label: `👤 ${a.name}`, insert: quote(a.name) })),
+      ];
+    case 'created':
+    case 'updated':
+      return [
+        { label: 'Últimas 24 horas', insert: '<24h' },
+        { label: 'Últimos 7 dias', insert: '<7d' },
+        { label: 'Últimos 30 dias', insert: '<30d' },
+        { label: 'Há mais de 30 dias', insert: '>30d' },
+      ];
+    case 'sla':
+      return (Object.keys(SLA_STATE_LABELS) as SlaState[]).map(s => ({ label: SLA_STATE_LABELS[s], insert: s }));
+    default:
+      return [];
+  }
 };
 
-const TicketDetailView: React.FC<{
-  ticketId: string;
-  onBack: () => void;
-  onEdit: () => void;
-}> = ({ ticketId, onBack, onEdit }) => {
-  const { controller } = useTickets();
-  const ticket = controller.getTicketById(ticketId);
-  const [newComment, setNewComment] = useState('');
-  const [commentAuthor, setCommentAuthor] = useState('Suporte');
+// Suggestions for the token under the cursor: field names first, then values once "field:" is typed
+const getQuerySuggestions = (
+  input: string,
+  cursor: number,
+  context: Omit<QueryContext, 'now' | 'getSla' | 'search'>
+): { from: number; to: number; suggestions: QuerySuggestion[] } => {
+  let from = cursor;
+  let inQuotes = (input.slice(0, cursor).match(/"/g)?.length ?? 0) % 2 === 1;
+  while (from > 0 && (inQuotes || !/\s/.test(input[from - 1]))) {
+    from--;
+    if (input[from] === '"') inQuotes = !inQuotes;
+  }
+  const token = input.slice(from, cursor);
+  const offset = token.startsWith('-') ? 1 : 0;
+  const colon = token.indexOf(':');
 
-  if (!ticket) {
-    return (
-      <div className="ticket-detail-view">
-        <div className="empty-state">
-          <p>Ticket não encontrado</p>
-          <button onClick={onBack} className="btn-primary">Voltar</button>
-        </div>
-      </div>
-    );
+  if (colon === -1) {
+    const prefix = token.slice(offset).toLowerCase();
+    return {
+      from: from + offset,
+      to: cursor,
+      suggestions: (Object.keys(QUERY_FIELDS) as QueryField[])
+        .filter(field => field.startsWith(prefix))
+        .map(field => ({ label: `${field}:`, detail: QUERY_FIELDS[field].description, insert: `${field}:` })),
+    };
   }
 
-  const category = CATEGORIES.find(c => c.value === ticket.category);
-  const priority = PRIORITIES.find(p => p.value === ticket.priority);
-  const status = STATUS_CONFIG[ticket.status];
+  const field = token.slice(offset, colon).toLowerCase();
+  if (!isQueryField(field)) return { from: cursor, to: cursor, suggestions: [] };
+  const lastComma = token.lastIndexOf(',');
+  const valueStart = Math.max(colon, lastComma) + 1;
+  const prefix = normalizeName(token.slice(valueStart).replace(/^(>=|<=|>|<|=)/, '').replace(/"/g, ''));
+  return {
+    from: from + valueStart,
+    to: cursor,
+    suggestions: getQueryValueOptions(field, context).filter(
+      option => !prefix || normalizeName(option.insert.replace(/"/g, '')).startsWith(prefix) ||
+        normalizeName(option.label).includes(prefix)
+    ),
+  };
+};
 
-  const handleAddComment = () => {
-    if (!newComment.trim()) return;
+// Replaces every plain (non-negated, single-comparator) clause on `field`, used by the filter shortcuts
+const setQueryField = (query: string, field: QueryField, value: string | null): string => {
+  const pattern = new RegExp(`(^|\\s)${field}:("[^"]*"|\\S)*`, 'g');
+  const rest = query.replace(pattern, ' ').replace(/\s+/g, ' ').trim();
+  return value ? `${rest} ${field}:${value}`.trim() : rest;
+};
 
-    controller.addComment(ticketId, {
-      author: commentAuthor,
-      content: newComment.trim(),
-      isInternal: false,
-    });
-    setNewComment('');
-  };
+// ============================================================================
+// SORTING & PAGINATION
+// ============================================================================
 
-  const handleStatusChange = (newStatus: TicketStatus) => {
-    const success = controller.changeTicketStatus(ticketId, newStatus);
-    if (!success) {
-      alert('Não é possível mudar para este status diretamente');
-    }
-  };
+type TicketSortKey = 'relevance' | 'updated' | 'created' | 'priority' | 'sla' | 'status';
 
-  const handleDelete = () => {
-    if (confirm('Deseja realmente excluir este ticket?')) {
-      controller.deleteTicket(ticketId);
-      onBack();
-    }
-  };
+interface TicketSort {
+  key: TicketSortKey;
+  descending: boolean;
+}
 
-  const formatDateTime = (timestamp: number) => {
-    const date = new Date(timestamp);
-    return date.toLocaleString('pt-BR');
-  };
+// Comparable tuple: primary key, most recent update, id. Negated numbers make every position ascending
+type TicketSortTuple = [number, number, string];
 
-  return (
-    <div className="ticket-detail-view">
-      <div className="detail-header">
-        <button onClick={onBack} className="btn-back">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
-          </svg>
-          Voltar
-        </button>
-        <div className="detail-actions">
-          <button onClick={onEdit} className="btn-secondary">Editar</button>
-          <button onClick={handleDelete} className="btn-danger">Excluir</button>
-        </div>
-      </div>
+interface RankedTicket {
+  ticket: Ticket;
+  key: TicketSortTuple;
+}
 
-      <div className="detail-content">
-        <div className="detail-hero">
-          <div className="hero-header">
-            <div className="hero-title">
-              <h1>{ticket.title}</h1>
-              <span className="ticket-id-detail">#{ticket.id.slice(-8)}</span>
-            </div>
-            <div className="hero-badges">
-              <span className="badge-lg" style={{ backgroundColor: category?.color }}>
-                {category?.icon} {category?.label}
-              </span>
-              <span className="badge-lg" style={{ backgroundColor: priority?.color }}>
-                {priority?.label}
-              </span>
-            </div>
-          </div>
+interface TicketQueryOptions {
+  audience?: Audience;
+  now?: number;
+  sort?: TicketSort;
+  /** Narrows the candidates before counting and paging, e.g. to the tickets a user may access */
+  visible?: (ticket: Ticket) => boolean;
+}
 
-          <p className="ticket-description-detail">{ticket.description}</p>
+interface TicketPage {
+  tickets: Ticket[];
+  /** Matches across all pages */
+  total: number;
+  nextCursor: string | null;
+}
 
-          <div className="ticket-meta-grid">
-            <div className="meta-item">
-              <span className="meta-label">Autor:</span>
-              <span className="meta-value">{ticket.author}</span>
-            </div>
-            <div className="meta-item">
-              <span className="meta-label">Criado em:</span>
-              <span className="meta-value">{formatDateTime(ticket.createdAt)}</span>
-            </div>
-            {ticket.assignedTo && (
-              <div className="meta-item">
-                <span className="meta-label">Atribuído a:</span>
-                <span className="meta-value">{ticket.assignedTo}</span>
-              </div>
-            )}
-            <div className="meta-item">
-              <span className="meta-label">Última atualização:</span>
-              <span className="meta-value">{formatDateTime(ticket.updatedAt)}</span>
-            </div>
-          </div>
-        </div>
+// The pages of a list query loaded so far, in order; the tickets themselves are kept by the model
+interface LoadedTicketList extends TicketListState {
+  ticketIds: string[];
+  total: number;
+  nextCursor: string | null;
+}
 
-        <div className="status-workflow">
-          <h3>Status do Ticket</h3>
-          <div className="status-buttons">
-            {Object.entries(STATUS_CONFIG).map(([key, config]) => (
-              <button
-                key={key}
-                onClick={() => handleStatusChange(key as TicketStatus)}
-                className={`status-btn ${ticket.status === key ? 'active' : ''}`}
-                style={{
-                  borderColor: config.color,
-                  backgroundColor: ticket.status === key ? config.color : 'transparent',
-                  color: ticket.status === key ? '#fff' : 'currentColor',
-                }}
-              >
-                {config.icon} {config.label}
-              </button>
-            ))}
-          </div>
-        </div>
+const TICKET_SORT_KEYS: { value: TicketSortKey; label: string; descending: boolean }[] = [
+  { value: 'relevance', label: 'Relevância', descending: true },
+  { value: 'updated', label: 'Atualização', descending: true },
+  { value: 'created', label: 'Criação', descending: true },
+  { value: 'priority', label: 'Prioridade', descending: true },
+  { value: 'sla', label: 'Prazo de SLA', descending: false },
+  { value: 'status', label: 'Status', descending: false },
+];
 
-        <div className="comments-section">
-          <h3>Histórico e Comentários ({ticket.comments.length})</h3>
+const DEFAULT_TICKET_SORT: TicketSort = { key: 'relevance', descending: true };
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+const MAX_CACHED_RANKINGS = 20;
+
+// Tickets the dashboard lists per section; the summary's totals count the rest
+const SUMMARY_LIST_LIMIT = 10;
+const RECENT_TICKETS_LIMIT = 6;
+
+// "priority" sorts ascending, "-priority" descending; empty means the default order
+const parseTicketSort = (value: string): TicketSort | null => {
+  if (!value) return DEFAULT_TICKET_SORT;
+  const descending = value.startsWith('-');
+  const key = descending ? value.slice(1) : value;
+  return TICKET_SORT_KEYS.some(k => k.value === key) ? { key: key as TicketSortKey, descending } : null;
+};
 
-          <div className="add-comment">
-            <div className="comment-form">
-              <div className="form-row">
-                <input
-                  type="text"
-                  placeholder="Seu nome"
-                  value={commentAuthor}
-                  onChange={e => setCommentAuthor(e.target.value)}
-                  className="comment-author-input"
-                />
-              </div>
-              <textarea
-                placeholder="Adicionar comentário..."
-                value={newComment}
-                onChange={e => setNewComment(e.target.value)}
-                rows={4}
-              />
-              <button onClick={handleAddComment} className="btn-primary">
-                Enviar Comentário
-              </button>
-            </div>
-          </div>
+const formatTicketSort = (sort: TicketSort): string =>
+  sort.key === DEFAULT_TICKET_SORT.key && sort.descending === DEFAULT_TICKET_SORT.descending
+    ? ''
+    : `${sort.descending ? '-' : ''}${sort.key}`;
+
+// What the list asks the server for: a query that does not parse is dropped (the list explains why)
+// and the sort is normalized, so the server render and the browser agree on the page
+const effectiveTicketList = (list: TicketListState): TicketListState & { error: string | null } => {
+  const sort = formatTicketSort(parseTicketSort(list.sort) ?? DEFAULT_TICKET_SORT);
+  try {
+    parseTicketQuery(list.query);
+    return { query: list.query, sort, error: null };
+  } catch (error) {
+    if (!(error instanceof QuerySyntaxError)) throw error;
+    return { query: '', sort, error: error.message };
+  }
+};
 
-          <div className="comments-list">
-            {ticket.comments.map(comment => (
-              <div key={comment.id} className="comment-item">
-                <div className="comment-header">
-                  <span className="comment-author">{comment.author}</span>
-                  <span className="comment-time">{formatDateTime(comment.timestamp)}</span>
-                </div>
-                <p className="comment-content">{comment.content}</p>
-              </div>
-            ))}
-            {ticket.comments.length === 0 && (
-              <p className="empty-message">Nenhum comentário ainda</p>
-            )}
-          </div>
-        </div>
-      </div>
-    </div>
-  );
+const compareSortTuples = (a: TicketSortTuple, b: TicketSortTuple): number =>
+  a[0] - b[0] || a[1] - b[1] || (a[2] < b[2] ? -1 : a[2] > b[2] ? 1 : 0);
+
+const encodeCursor = (tuple: TicketSortTuple): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(tuple))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const decodeCursor = (cursor: string): TicketSortTuple | null => {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const tuple = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+    const valid =
+      Array.isArray(tuple) &&
+      tuple.length === 3 &&
+      typeof tuple[0] === 'number' &&
+      typeof tuple[1] === 'number' &&
+      typeof tuple[2] === 'string';
+    return valid ? (tuple as TicketSortTuple) : null;
+  } catch {
+    return null;
+  }
 };
 
-const TicketFormModal: React.FC<{
-  isOpen: boolean;
-  ticketId: string | null;
-  onClose: () => void;
-}> = ({ isOpen, ticketId, onClose }) => {
-  const { controller } = useTickets();
-  const existingTicket = ticketId ? controller.getTicketById(ticketId) : null;
+class InvalidCursorError extends Error {
+  constructor() {
+    super('Cursor de paginação inválido');
+    this.name = 'InvalidCursorError';
+  }
+}
 
-  const [formData, setFormData] = useState<any>(getDefaultFormData());
+// ============================================================================
+// BOARD
+// ============================================================================
 
-  useEffect(() => {
-    if (isOpen) {
-      if (existingTicket) {
-        setFormData(existingTicket);
-      } else {
-        setFormData(getDefaultFormData());
-      }
-    }
-  }, [isOpen, ticketId, existingTicket]);
+type BoardSwimlane = 'none' | 'priority' | 'assignee';
 
-  if (!isOpen) return null;
+const BOARD_SWIMLANES: BoardSwimlane[] = ['none', 'priority', 'assignee'];
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+// Cards mounted per board cell; the rest are reachable through the filtered list
+const BOARD_CELL_LIMIT = 50;
 
-    if (ticketId) {
-      controller.updateTicket(ticketId, formData);
-    } else {
-      controller.createTicket(formData);
-    }
-    onClose();
-  };
+// How many of the user's tickets are in a status within one lane
+interface BoardCell {
+  status: TicketStatus;
+  lane: string;
+  total: number;
+}
 
-  return (
-    <div className="modal-overlay" onClick={onClose}>
-      <div className="modal ticket-form-modal" onClick={e => e.stopPropagation()}>
-        <div className="modal-header">
-          <h2>{ticketId ? 'Editar Ticket' : 'Novo Ticket'}</h2>
-          <button onClick={onClose} className="modal-close">×</button>
-        </div>
+// What the server sends for the board: every cell's count, and the first tickets of each cell
+interface TicketBoard {
+  swimlane: BoardSwimlane;
+  lanes: string[];
+  cells: BoardCell[];
+  tickets: Ticket[];
+}
 
-        <form onSubmit={handleSubmit} className="ticket-form">
-          <div className="form-group">
-            <label>Título *</label>
-            <input
-              type="text"
-              value={formData.title}
-              onChange={e => setFormData({ ...formData, title: e.target.value })}
-              required
-            />
-          </div>
+// The board as last loaded; the tickets themselves are kept by the model
+interface LoadedBoard extends Omit<TicketBoard, 'tickets'> {
+  ticketIds: string[];
+}
 
-          <div className="form-group">
-            <label>Descrição *</label>
-            <textarea
-              value={formData.description}
-              onChange={e => setFormData({ ...formData, description: e.target.value })}
-              rows={5}
-              required
-            />
-          </div>
+const getBoardLane = (swimlane: BoardSwimlane, ticket: Ticket): string => {
+  switch (swimlane) {
+    case 'priority':
+      return ticket.priority;
+    case 'assignee':
+      return ticket.assigneeId ?? '';
+    default:
+      return 'all';
+  }
+};
 
-          <div className="form-row">
-            <div className="form-group">
-              <label>Categoria</label>
-              <select
-                value={formData.category}
-                onChange={e => setFormData({ ...formData, category: e.target.value })}
-              >
-                {CATEGORIES.map(cat => (
-                  <option key={cat.value} value={cat.value}>
-                    {cat.icon} {cat.label}
-                  </option>
-                ))}
-              </select>
-            </div>
+// ============================================================================
+// IMPORT & EXPORT
+// ============================================================================
 
-            <div className="form-group">
-              <label>Prioridade</label>
-              <select
-                value={formData.priority}
-                onChange={e => setFormData({ ...formData, priority: e.target.value })}
-              >
-                {PRIORITIES.map(p => (
-                  <option key={p.value} value={p.value}>{p.label}</option>
-                ))}
-              </select>
-            </div>
-          </div>
+type ExportFormat = 'csv' | 'json';
 
-          <div className="form-row">
-            <div className="form-group">
-              <label>Seu Nome *</label>
-              <input
-                type="text"
-                value={formData.author}
-                onChange={e => setFormData({ ...formData, author: e.target.value })}
-                required
-              />
-            </div>
+// "upsert" updates tickets whose ID already exists; "create" always adds new ones
+type ImportMode = 'upsert' | 'create';
 
-            <div className="form-group">
-              <label>Atribuir a (opcional)</label>
-              <input
-                type="text"
-                value={formData.assignedTo}
-                onChange={e => setFormData({ ...formData, assignedTo: e.target.value })}
-              />
-            </div>
-          </div>
+// Ticket fields a CSV column can feed; `assignee` takes an agent/team ID, name or e-mail
+type ImportField = 'id' | 'title' | 'description' | 'category' | 'priority' | 'status' | 'author' | 'assignee' | 'createdAt';
 
-          {ticketId && (
-            <div className="form-group">
-              <label>Status</label>
-              <select
-                value={formData.status}
-                onChange={e => setFormData({ ...formData, status: e.target.value })}
-              >
-                {Object.entries(STATUS_CONFIG).map(([key, config]) => (
-                  <option key={key} value={key}>
-                    {config.icon} {config.label}
-                  </option>
-                ))}
-              </select>
-            </div>
-          )}
+// CSV header chosen for each field; unmapped fields keep their defaults (or, on update, their current value)
+type ImportMapping = Partial<Record<ImportField, string>>;
 
-          <div className="modal-actions">
-            <button type="button" onClick={onClose} className="btn-secondary">
-              Cancelar
-            </button>
-            <button type="submit" className="btn-primary">
-              {ticketId ? 'Salvar' : 'Criar Ticket'}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
+interface ImportOptions {
+  mapping: ImportMapping;
+  mode: ImportMode;
+}
+
+// One ticket as read from an import file, before defaults are filled in
+type TicketImport = Partial<TicketInput> &
+  Partial<Pick<Ticket, 'id' | 'authorId' | 'createdAt' | 'updatedAt' | 'resolvedAt' | 'firstResponseAt' | 'comments' | 'events'>>;
+
+// What importing one record did; `previous` is the ticket it updated, if any
+interface ImportedTicket {
+  outcome: 'created' | 'updated';
+  ticket: Ticket;
+  previous: Ticket | null;
+}
+
+interface ImportUpload {
+  id: string;
+  format: ExportFormat;
+  /** CSV header row; empty for JSON, which needs no mapping */
+  columns: string[];
+  sample: string[][];
+  rows: number;
+  mapping: ImportMapping;
+}
+
+interface ImportReport {
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  /** The first MAX_IMPORT_ERRORS rejected rows, numbered from the first data row */
+  errors: { row: number; messages: string[] }[];
+}
+
+const IMPORT_FIELDS: { value: ImportField; label: string; aliases: string[] }[] = [
+  { value: 'id', label: 'ID', aliases: ['id', 'codigo'] },
+  { value: 'title', label: 'Título', aliases: ['title', 'titulo', 'assunto', 'subject'] },
+  { value: 'description', label: 'Descrição', aliases: ['description', 'descricao', 'body'] },
+  { value: 'category', label: 'Categoria', aliases: ['category', 'categoria'] },
+  { value: 'priority', label: 'Prioridade', aliases: ['priority', 'prioridade'] },
+  { value: 'status', label: 'Status', aliases: ['status', 'situacao'] },
+  { value: 'author', label: 'Autor', aliases: ['author', 'autor', 'solicitante', 'requester'] },
+  { value: 'assignee', label: 'Responsável', aliases: ['assignee', 'assigneeid', 'responsavel'] },
+  { value: 'createdAt', label: 'Criado em', aliases: ['createdat', 'criadoem', 'created', 'data'] },
+];
+
+// Columns of a CSV export, in order; the first nine round-trip through the import
+const CSV_EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'category',
+  'priority',
+  'status',
+  'author',
+  'assignee',
+  'createdAt',
+  'updatedAt',
+  'resolvedAt',
+  'comments',
+] as const;
+
+const MAX_IMPORT_ERRORS = 200;
+
+class TicketImportError extends Error {
+  constructor(readonly messages: string[]) {
+    super(messages.join('; '));
+    this.name = 'TicketImportError';
+  }
+}
+
+const formatCsvValue = (value: string): string =>
+  /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const formatCsvRow = (values: string[]): string => `${values.map(formatCsvValue).join(',')}\r\n`;
+
+const formatTimestamp = (timestamp?: number): string => (timestamp ? new Date(timestamp).toISOString() : '');
+
+const ticketToCsvRow = (ticket: Ticket, getAssigneeName: (id: string) => string | null): string[] => [
+  ticket.id,
+  ticket.title,
+  ticket.description,
+  ticket.category,
+  ticket.priority,
+  ticket.status,
+  ticket.author,
+  ticket.assigneeId ? getAssigneeName(ticket.assigneeId) ?? ticket.assigneeId : '',
+  formatTimestamp(ticket.createdAt),
+  formatTimestamp(ticket.updatedAt),
+  formatTimestamp(ticket.resolvedAt),
+  String(ticket.comments.length),
+];
+
+// RFC 4180 parser fed in chunks, so a file never has to fit in one string
+class CsvParser {
+  private row: string[] = [];
+  private field = '';
+  private quoted = false;
+  // A quote just closed: the next quote is an escaped one, anything else ends the quoted part
+  private quoteClosed = false;
+  private started = false;
+
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+    let start = 0;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) start = 1;
+    }
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (this.quoted) {
+        if (char === '"') {
+          this.quoted = false;
+          this.quoteClosed = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+      if (char === '"') {
+        if (this.quoteClosed) this.field += '"';
+        this.quoted = true;
+        this.quoteClosed = false;
+        continue;
+      }
+      this.quoteClosed = false;
+      if (char === ',') {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n') {
+        this.endRow(rows);
+      } else if (char !== '\r') {
+        this.field += char;
+      }
+    }
+    return rows;
+  }
+
+  end(): string[][] {
+    const rows: string[][] = [];
+    if (this.quoted) throw new TicketImportError(['Aspas não fechadas no fim do arquivo']);
+    this.endRow(rows);
+    return rows;
+  }
+
+  private endRow(rows: string[][]): void {
+    this.row.push(this.field);
+    // Blank lines carry no data
+    if (this.row.length > 1 || this.row[0] !== '') rows.push(this.row);
+    this.row = [];
+    this.field = '';
+  }
+}
+
+const normalizeHeader = (value: string): string => foldText(value).replace(/[^a-z0-9]/g, '');
+
+const suggestImportMapping = (columns: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const names = [...field.aliases, normalizeHeader(field.label)];
+    const column = columns.find(column => names.includes(normalizeHeader(column)));
+    if (column !== undefined) mapping[field.value] = column;
+  });
+  return mapping;
+};
+
+const validateImportOptions = (options: Partial<ImportOptions>, columns: string[]): string[] => {
+  const errors: string[] = [];
+  if (options.mode !== 'upsert' && options.mode !== 'create') errors.push('Modo de importação inválido');
+  const mapping = options.mapping ?? {};
+  Object.entries(mapping).forEach(([field, column]) => {
+    if (!IMPORT_FIELDS.some(f => f.value === field)) errors.push(`Campo desconhecido: ${field}`);
+    else if (typeof column !== 'string' || !columns.includes(column)) errors.push(`Coluna não encontrada: ${column}`);
+  });
+  // JSON imports carry whole tickets and need no mapping
+  if (columns.length > 0 && options.mode === 'create') {
+    if (!mapping.title) errors.push('Escolha a coluna do título');
+    if (!mapping.description) errors.push('Escolha a coluna da descrição');
+  }
+  return errors;
+};
+
+interface ImportContext {
+  workflow: Workflow;
+  agents: Agent[];
+  teams: Team[];
+}
+
+// Accepts either the stored value or its label, ignoring case and accents
+const matchImportValue = <T extends string>(value: string, options: { value: T; label: string }[]): T | null => {
+  const folded = foldText(value);
+  return options.find(option => foldText(option.value) === folded || foldText(option.label) === folded)?.value ?? null;
+};
+
+const parseImportRow = (
+  row: string[],
+  columns: string[],
+  mapping: ImportMapping,
+  context: ImportContext
+): TicketImport => {
+  const cell = (field: ImportField): string => {
+    const column = mapping[field];
+    return column === undefined ? '' : (row[columns.indexOf(column)] ?? '').trim();
+  };
+  const record: TicketImport = {};
+  const errors: string[] = [];
+
+  (['id', 'title', 'description', 'author'] as const).forEach(field => {
+    if (cell(field)) record[field] = cell(field);
+  });
+  if (cell('category')) {
+    const category = matchImportValue(cell('category'), CATEGORIES);
+    if (category) record.category = category;
+    else errors.push(`Categoria desconhecida: "${cell('category')}"`);
+  }
+  if (cell('priority')) {
+    const priority = matchImportValue(cell('priority'), PRIORITIES);
+    if (priority) record.priority = priority;
+    else errors.push(`Prioridade desconhecida: "${cell('priority')}"`);
+  }
+  if (cell('status')) {
+    const status = matchImportValue(cell('status'), context.workflow.statuses.map(s => ({ value: s.id, label: s.label })));
+    if (status) record.status = status;
+    else errors.push(`Status desconhecido: "${cell('status')}"`);
+  }
+  if (cell('assignee')) {
+    const value = foldText(cell('assignee'));
+    const assignee =
+      context.agents.find(a => a.id === cell('assignee') || foldText(a.name) === value || foldText(a.email) === value) ??
+      context.teams.find(t => t.id === cell('assignee') || foldText(t.name) === value);
+    if (assignee) record.assigneeId = assignee.id;
+    else errors.push(`Responsável desconhecido: "${cell('assignee')}"`);
+  }
+  if (cell('createdAt')) {
+    const createdAt = Date.parse(cell('createdAt'));
+    if (Number.isNaN(createdAt)) errors.push(`Data de criação inválida: "${cell('createdAt')}"`);
+    else record.createdAt = createdAt;
+  }
+
+  if (errors.length > 0) throw new TicketImportError(errors);
+  return record;
+};
+
+// Exports carry their schema version, so files from older releases are upgraded like stored data
+const parseTicketsExport = (raw: unknown): TicketImport[] => {
+  const tickets = Array.isArray(raw) ? raw : isRawRecord(raw) ? raw.tickets : undefined;
+  if (!Array.isArray(tickets)) throw new TicketImportError(['O arquivo não contém uma lista de tickets']);
+  try {
+    return migrateTicketsData({
+      schemaVersion: isRawRecord(raw) ? raw.schemaVersion ?? SCHEMA_VERSION : SCHEMA_VERSION,
+      tickets,
+      agents: [],
+      teams: [],
+      slaPolicies: [],
+      workflow: DEFAULT_WORKFLOW,
+      savedViews: [],
+    }).tickets;
+  } catch (error) {
+    throw new TicketImportError([(error as Error).message]);
+  }
 };
 
 // ============================================================================
-// MAIN APP COMPONENT
+// NOTIFICATIONS
+// ============================================================================
+
+type NotificationEvent = 'created' | 'commented' | 'status' | 'resolved';
+type MailLocale = 'pt-BR' | 'en';
+
+interface MailTemplate {
+  subject: string;
+  body: string;
+}
+
+interface MailSettings {
+  /** Language of every outgoing message */
+  locale: MailLocale;
+  templates: Record<MailLocale, Record<NotificationEvent, MailTemplate>>;
+}
+
+// Outbox state shown to admins next to the templates
+interface MailQueueStatus {
+  pending: number;
+  failed: { id: string; to: string; subject: string; attempts: number; error: string; failedAt: number }[];
+}
+
+interface NotificationsState {
+  settings: MailSettings;
+  queue: MailQueueStatus;
+}
+
+const NOTIFICATION_EVENTS: { value: NotificationEvent; label: string }[] = [
+  { value: 'created', label: 'Ticket criado' },
+  { value: 'commented', label: 'Nova resposta pública' },
+  { value: 'status', label: 'Status alterado' },
+  { value: 'resolved', label: 'Ticket resolvido' },
+];
+
+const MAIL_LOCALES: { value: MailLocale; label: string }[] = [
+  { value: 'pt-BR', label: 'Português' },
+  { value: 'en', label: 'English' },
+];
+
+const NOTIFICATION_PLACEHOLDERS: Record<string, string> = {
+  'recipient.name': 'Nome de quem recebe',
+  'ticket.id': 'ID do ticket',
+  'ticket.reference': 'Marcador que encadeia respostas, ex.: [#ticket_1]',
+  'ticket.title': 'Título',
+  'ticket.status': 'Status atual',
+  'ticket.priority': 'Prioridade',
+  'ticket.category': 'Categoria',
+  'ticket.url': 'Link para o ticket',
+  'previousStatus': 'Status anterior',
+  'actor.name': 'Quem fez a alteração',
+  'comment.content': 'Texto da resposta',
+};
+
+const DEFAULT_MAIL_SETTINGS: MailSettings = {
+  locale: 'pt-BR',
+  templates: {
+    'pt-BR': {
+      created: {
+        subject: '{{ticket.reference}} Recebemos seu chamado: {{ticket.title}}',
+        body: 'Olá, {{recipient.name}}.\n\nSeu chamado "{{ticket.title}}" foi registrado com prioridade {{ticket.priority}}. Responda a este e-mail para acrescentar informações.\n\nAcompanhe em {{ticket.url}}',
+      },
+      commented: {
+        subject: '{{ticket.reference}} Nova resposta: {{ticket.title}}',
+        body: 'Olá, {{recipient.name}}.\n\n{{actor.name}} respondeu:\n\n{{comment.content}}\n\nResponda a este e-mail ou acesse {{ticket.url}}',
+      },
+      status: {
+        subject: '{{ticket.reference}} Status atualizado: {{ticket.status}}',
+        body: 'Olá, {{recipient.name}}.\n\nO chamado "{{ticket.title}}" passou de {{previousStatus}} para {{ticket.status}}.\n\n{{ticket.url}}',
+      },
+      resolved: {
+        subject: '{{ticket.reference}} Chamado resolvido: {{ticket.title}}',
+        body: 'Olá, {{recipient.name}}.\n\nO chamado "{{ticket.title}}" foi marcado como resolvido. Se o problema continuar, basta responder a este e-mail.\n\n{{ticket.url}}',
+      },
+    },
+    en: {
+      created: {
+        subject: '{{ticket.reference}} We received your request: {{ticket.title}}',
+        body: 'Hello {{recipient.name}},\n\nYour request "{{ticket.title}}" was logged with {{ticket.priority}} priority. Reply to this e-mail to add details.\n\nFollow it at {{ticket.url}}',
+      },
+      commented: {
+        subject: '{{ticket.reference}} New reply: {{ticket.title}}',
+        body: 'Hello {{recipient.name}},\n\n{{actor.name}} replied:\n\n{{comment.content}}\n\nReply to this e-mail or visit {{ticket.url}}',
+      },
+      status: {
+        subject: '{{ticket.reference}} Status updated: {{ticket.status}}',
+        body: 'Hello {{recipient.name}},\n\nYour request "{{ticket.title}}" moved from {{previousStatus}} to {{ticket.status}}.\n\n{{ticket.url}}',
+      },
+      resolved: {
+        subject: '{{ticket.reference}} Request resolved: {{ticket.title}}',
+        body: 'Hello {{recipient.name}},\n\nYour request "{{ticket.title}}" was marked as resolved. If the problem persists, just reply to this e-mail.\n\n{{ticket.url}}',
+      },
+    },
+  },
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Unknown placeholders are left as written, so a typo shows up in the message rather than vanishing
+const renderMailTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER_PATTERN, (match, name: string) => (Object.hasOwn(values, name) ? values[name] : match));
+
+const validateMailSettings = (input: Partial<MailSettings>): string[] => {
+  const errors: string[] = [];
+  if (!MAIL_LOCALES.some(locale => locale.value === input.locale)) errors.push('Idioma inválido');
+  MAIL_LOCALES.forEach(locale => {
+    NOTIFICATION_EVENTS.forEach(event => {
+      const template = input.templates?.[locale.value]?.[event.value];
+      const where = `${event.label} (${locale.label})`;
+      if (!isNonEmptyString(template?.subject)) errors.push(`${where}: assunto é obrigatório`);
+      if (!isNonEmptyString(template?.body)) errors.push(`${where}: mensagem é obrigatória`);
+      [template?.subject ?? '', template?.body ?? ''].forEach(text => {
+        for (const [, name] of String(text).matchAll(PLACEHOLDER_PATTERN)) {
+          if (!Object.hasOwn(NOTIFICATION_PLACEHOLDERS, name)) errors.push(`${where}: campo desconhecido {{${name}}}`);
+        }
+      });
+    });
+  });
+  return errors;
+};
+
+// Placeholder values for a message about `ticket`, which must already be redacted for its recipient
+const getNotificationValues = (
+  ticket: Ticket,
+  workflow: Workflow,
+  extra: { recipient: string; actor: string; url: string; previousStatus?: TicketStatus; comment?: string }
+): Record<string, string> => ({
+  'recipient.name': extra.recipient,
+  'ticket.id': ticket.id,
+  'ticket.reference': `[#${ticket.id}]`,
+  'ticket.title': ticket.title,
+  'ticket.status': findWorkflowStatus(workflow, ticket.status).label,
+  'ticket.priority': PRIORITIES.find(p => p.value === ticket.priority)?.label ?? ticket.priority,
+  'ticket.category': CATEGORIES.find(c => c.value === ticket.category)?.label ?? ticket.category,
+  'ticket.url': extra.url,
+  'previousStatus': extra.previousStatus ? findWorkflowStatus(workflow, extra.previousStatus).label : '',
+  'actor.name': extra.actor,
+  'comment.content': extra.comment ?? '',
+});
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+type WebhookEvent = 'ticket.created' | 'ticket.updated' | 'ticket.status_changed' | 'comment.added' | 'ticket.deleted';
+
+interface Webhook {
+  id: string;
+  url: string;
+  description: string;
+  events: WebhookEvent[];
+  active: boolean;
+  /** Key for the HMAC-SHA256 signature on every delivery */
+  secret: string;
+  createdAt: number;
+}
+
+type WebhookInput = Pick<Webhook, 'url' | 'description' | 'events' | 'active'>;
+
+type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  /** Shared by redeliveries of the same event, so receivers can deduplicate */
+  eventId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  /** The exact body that was signed; redeliveries send the same bytes */
+  payload: string;
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt?: number;
+  /** When a pending delivery is tried next */
+  nextAttemptAt: number;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  redeliveryOf?: string;
+}
+
+const WEBHOOK_EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: 'ticket.created', label: 'Ticket criado' },
+  { value: 'ticket.updated', label: 'Ticket editado' },
+  { value: 'ticket.status_changed', label: 'Status alterado' },
+  { value: 'comment.added', label: 'Comentário adicionado' },
+  { value: 'ticket.deleted', label: 'Ticket excluído' },
+];
+
+const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: 'Pendente',
+  succeeded: 'Entregue',
+  failed: 'Falhou',
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const validateWebhookInput = (input: Partial<WebhookInput>): string[] => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(input.url)) errors.push('URL é obrigatória');
+  else if (!isHttpUrl(input.url.trim())) errors.push('URL deve começar com http:// ou https://');
+  if (input.description !== undefined && typeof input.description !== 'string') errors.push('Descrição inválida');
+  if (
+    !Array.isArray(input.events) ||
+    input.events.length === 0 ||
+    input.events.some(event => !WEBHOOK_EVENTS.some(known => known.value === event))
+  ) {
+    errors.push('Escolha ao menos um evento válido');
+  }
+  if (typeof input.active !== 'boolean') errors.push('Situação inválida');
+  return errors;
+};
+
+// ============================================================================
+// ATTACHMENTS
+// ============================================================================
+
+// Only types that are safe to hand back to a browser; the type comes from the extension
+const ATTACHMENT_TYPES: readonly { type: string; extensions: string[] }[] = Object.freeze([
+  { type: 'image/png', extensions: ['png'] },
+  { type: 'image/jpeg', extensions: ['jpg', 'jpeg'] },
+  { type: 'image/gif', extensions: ['gif'] },
+  { type: 'image/webp', extensions: ['webp'] },
+  { type: 'application/pdf', extensions: ['pdf'] },
+  { type: 'text/plain', extensions: ['txt', 'log'] },
+  { type: 'text/csv', extensions: ['csv'] },
+  { type: 'application/zip', extensions: ['zip'] },
+  { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extensions: ['docx'] },
+  { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extensions: ['xlsx'] },
+]);
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Per ticket and per comment
+const MAX_ATTACHMENTS = 10;
+
+const fileExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+};
+
+const attachmentTypeFor = (name: string): string | null =>
+  ATTACHMENT_TYPES.find(entry => entry.extensions.includes(fileExtension(name)))?.type ?? null;
+
+const isImageAttachment = (attachment: Attachment): boolean => attachment.type.startsWith('image/');
+
+const formatFileSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${Number((bytes / 1024 / 1024).toFixed(1))} MB`;
+
+// Checked by the browser before uploading and again by the server
+const validateAttachmentFile = (name: string, size: number): string[] => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(name) || name.length > 255 || /[\\/\u0000-\u001f]/.test(name)) {
+    errors.push('Nome de arquivo inválido');
+  } else if (!attachmentTypeFor(name)) {
+    errors.push(`Tipo de arquivo não permitido: ${name}`);
+  }
+  if (size === 0) errors.push(`Arquivo vazio: ${name}`);
+  if (size > MAX_ATTACHMENT_BYTES) {
+    errors.push(`${name} excede o limite de ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+  }
+  return errors;
+};
+
 // ============================================================================
+// API SERVICE
+// ============================================================================
+
+// Keeps the status and body of a failed request for callers that handle specific errors
+class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly body: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
 
-const App: React.FC = () => {
-  const [darkMode, setDarkMode] = useState(() => {
-    return StorageService.loadFromStorage(StorageService.getKeys().DARK_MODE, false);
+const requestJson = async <T,>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
   });
 
-  const [controller] = useState(() => {
-    const model = TicketsModel.loadFromStorage();
-    return new TicketsController(model);
-  });
+  if (response.status === 401 && isClient && !url.startsWith(AuthApiService.BASE_URL)) {
+    // The session expired mid-use: send the user back to the login page
+    window.location.assign(`${import.meta.env.BASE_URL}login?next=${encodeURIComponent(window.location.pathname)}`);
+  }
+
+  if (!response.ok) {
+    const body: unknown = await response.json().catch(() => null);
+    const error =
+      isRawRecord(body) && isNonEmptyString(body.error) ? body.error : `Request failed with status ${response.status}`;
+    const details = isRawRecord(body) && Array.isArray(body.details) ? body.details.filter(isNonEmptyString) : [];
+    throw new ApiError(
+      [error, ...details].join('\n'),
+      response.status,
+      body
+    );
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+class AuthApiService {
+  static readonly BASE_URL = '/api/auth';
+
+  static login(email: string, password: string): Promise<User> {
+    return requestJson<User>(`${this.BASE_URL}/login`, {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+  }
+
+  static logout(): Promise<void> {
+    return requestJson<void>(`${this.BASE_URL}/logout`, { method: 'POST' });
+  }
+
+  static fetchCurrentUser(): Promise<User> {
+    return requestJson<User>(`${this.BASE_URL}/me`);
+  }
+}
+
+type Directory = Pick<TicketsData, 'agents' | 'teams'>;
+
+class DirectoryApiService {
+  private static readonly BASE_URL = '/api/directory';
+
+  static fetchDirectory(): Promise<Directory> {
+    return requestJson<Directory>(this.BASE_URL);
+  }
+
+  static saveTeam(id: string | null, team: TeamInput): Promise<Directory> {
+    return requestJson<Directory>(`${this.BASE_URL}/teams${id ? `/${encodeURIComponent(id)}` : ''}`, {
+      method: id ? 'PUT' : 'POST',
+      body: JSON.stringify(team),
+    });
+  }
+
+  static deleteTeam(id: string): Promise<Directory> {
+    return requestJson<Directory>(`${this.BASE_URL}/teams/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  static saveAgent(id: string | null, agent: AgentInput): Promise<Directory> {
+    return requestJson<Directory>(`${this.BASE_URL}/agents${id ? `/${encodeURIComponent(id)}` : ''}`, {
+      method: id ? 'PUT' : 'POST',
+      body: JSON.stringify(agent),
+    });
+  }
+
+  static deleteAgent(id: string): Promise<Directory> {
+    return requestJson<Directory>(`${this.BASE_URL}/agents/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  static mapLegacyAssignee(name: string, assigneeId: string): Promise<{ updated: number }> {
+    return requestJson<{ updated: number }>(`${this.BASE_URL}/legacy-assignees`, {
+      method: 'POST',
+      body: JSON.stringify({ name, assigneeId }),
+    });
+  }
+}
+
+class SlaApiService {
+  private static readonly BASE_URL = '/api/sla-policies';
+
+  static fetchPolicies(): Promise<{ slaPolicies: SlaPolicy[] }> {
+    return requestJson<{ slaPolicies: SlaPolicy[] }>(this.BASE_URL);
+  }
+
+  static savePolicies(policies: (SlaPolicyInput & { id?: string })[]): Promise<{ slaPolicies: SlaPolicy[] }> {
+    return requestJson<{ slaPolicies: SlaPolicy[] }>(this.BASE_URL, {
+      method: 'PUT',
+      body: JSON.stringify({ slaPolicies: policies }),
+    });
+  }
+}
+
+class WorkflowApiService {
+  private static readonly BASE_URL = '/api/workflow';
+
+  static fetchWorkflow(): Promise<{ workflow: Workflow }> {
+    return requestJson<{ workflow: Workflow }>(this.BASE_URL);
+  }
+
+  static saveWorkflow(workflow: Workflow): Promise<{ workflow: Workflow }> {
+    return requestJson<{ workflow: Workflow }>(this.BASE_URL, {
+      method: 'PUT',
+      body: JSON.stringify({ workflow }),
+    });
+  }
+}
+
+class SavedViewsApiService {
+  private static readonly BASE_URL = '/api/views';
+
+  static fetchViews(): Promise<{ savedViews: SavedView[] }> {
+    return requestJson<{ savedViews: SavedView[] }>(this.BASE_URL);
+  }
+
+  static saveView(id: string | null, view: SavedViewInput): Promise<{ savedViews: SavedView[] }> {
+    return requestJson<{ savedViews: SavedView[] }>(`${this.BASE_URL}${id ? `/${encodeURIComponent(id)}` : ''}`, {
+      method: id ? 'PUT' : 'POST',
+      body: JSON.stringify(view),
+    });
+  }
+
+  static deleteView(id: string): Promise<{ savedViews: SavedView[] }> {
+    return requestJson<{ savedViews: SavedView[] }>(`${this.BASE_URL}/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  static pinView(id: string, pinned: boolean): Promise<{ savedViews: SavedView[] }> {
+    return requestJson<{ savedViews: SavedView[] }>(`${this.BASE_URL}/${encodeURIComponent(id)}/pin`, {
+      method: 'PUT',
+      body: JSON.stringify({ pinned }),
+    });
+  }
+}
+
+class TransferApiService {
+  private static readonly BASE_URL = '/api/transfer';
+
+  // A plain link, so the browser streams the download to disk itself
+  static exportUrl(format: ExportFormat, query = '', sort = ''): string {
+    const search = new URLSearchParams({ format });
+    if (query) search.set('q', query);
+    if (sort) search.set('sort', sort);
+    return `${this.BASE_URL}/export?${search}`;
+  }
+
+  // The file goes up as the request body, unread, so its size doesn't matter to the browser
+  static uploadImport(file: File, format: ExportFormat): Promise<ImportUpload> {
+    return requestJson<ImportUpload>(`${this.BASE_URL}/imports?format=${format}`, {
+      method: 'POST',
+      headers: { 'Content-Type': format === 'csv' ? 'text/csv' : 'application/json' },
+      body: file,
+    });
+  }
+
+  static previewImport(id: string, options: ImportOptions): Promise<ImportReport> {
+    return requestJson<ImportReport>(`${this.BASE_URL}/imports/${encodeURIComponent(id)}/preview`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  static commitImport(id: string, options: ImportOptions): Promise<ImportReport> {
+    return requestJson<ImportReport>(`${this.BASE_URL}/imports/${encodeURIComponent(id)}`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    });
+  }
+
+  static discardImport(id: string): Promise<void> {
+    return requestJson<void>(`${this.BASE_URL}/imports/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+}
+
+class NotificationsApiService {
+  private static readonly BASE_URL = '/api/notifications';
+
+  static fetchSettings(): Promise<NotificationsState> {
+    return requestJson<NotificationsState>(this.BASE_URL);
+  }
+
+  static saveSettings(settings: MailSettings): Promise<NotificationsState> {
+    return requestJson<NotificationsState>(this.BASE_URL, {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  }
+}
+
+class WebhooksApiService {
+  private static readonly BASE_URL = '/api/webhooks';
+
+  static async fetchWebhooks(): Promise<Webhook[]> {
+    return (await requestJson<{ webhooks: Webhook[] }>(this.BASE_URL)).webhooks;
+  }
+
+  static saveWebhook(id: string | null, input: WebhookInput): Promise<Webhook> {
+    return requestJson<Webhook>(`${this.BASE_URL}${id ? `/${encodeURIComponent(id)}` : ''}`, {
+      method: id ? 'PUT' : 'POST',
+      body: JSON.stringify(input),
+    });
+  }
+
+  static deleteWebhook(id: string): Promise<void> {
+    return requestJson<void>(`${this.BASE_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  static rotateSecret(id: string): Promise<Webhook> {
+    return requestJson<Webhook>(`${this.BASE_URL}/${encodeURIComponent(id)}/secret`, { method: 'POST' });
+  }
+
+  static async fetchDeliveries(id: string): Promise<WebhookDelivery[]> {
+    return (
+      await requestJson<{ deliveries: WebhookDelivery[] }>(`${this.BASE_URL}/${encodeURIComponent(id)}/deliveries`)
+    ).deliveries;
+  }
+
+  static redeliver(id: string, deliveryId: string): Promise<WebhookDelivery> {
+    return requestJson<WebhookDelivery>(
+      `${this.BASE_URL}/${encodeURIComponent(id)}/deliveries/${encodeURIComponent(deliveryId)}/redeliver`,
+      { method: 'POST' }
+    );
+  }
+}
+
+class AttachmentsApiService {
+  private static readonly BASE_URL = '/api/attachments';
+
+  static upload(file: File): Promise<Attachment> {
+    return requestJson<Attachment>(`${this.BASE_URL}?name=${encodeURIComponent(file.name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: file,
+    });
+  }
+
+  static discard(id: string): Promise<void> {
+    return requestJson<void>(`${this.BASE_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  static url(id: string, download = false): string {
+    return `${this.BASE_URL}/${encodeURIComponent(id)}${download ? '?download' : ''}`;
+  }
+}
+
+// Live changes arriving this close together are rendered at once
+const LIVE_RENDER_DELAY = 100;
+
+class LiveUpdatesService {
+  private static readonly URL = '/api/live';
+
+  // The browser reconnects on its own, sending the last event ID it saw
+  static open(since: string | null): EventSource {
+    return new EventSource(since ? `${this.URL}?since=${encodeURIComponent(since)}` : this.URL);
+  }
+}
+
+class TicketsApiService {
+  private static readonly BASE_URL = '/api/tickets';
+
+  private static request<T>(path: string, init?: RequestInit): Promise<T> {
+    return requestJson<T>(`${this.BASE_URL}${path}`, init);
+  }
+
+  static fetchTicketPage(
+    params: { q?: string; sort?: string; cursor?: string; limit?: number } = {}
+  ): Promise<TicketPage> {
+    const search = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') search.set(key, String(value));
+    });
+    const query = search.toString();
+    return this.request<TicketPage>(query ? `?${query}` : '');
+  }
+
+  static fetchSummary(): Promise<TicketSummary> {
+    return this.request<TicketSummary>('/summary');
+  }
+
+  // Everything but the tickets, which each view loads as it needs them: a page, the board, the summary
+  static async fetchData(): Promise<TicketsData> {
+    const [directory, { slaPolicies }, { workflow }, { savedViews }] = await Promise.all([
+      DirectoryApiService.fetchDirectory(),
+      SlaApiService.fetchPolicies(),
+      WorkflowApiService.fetchWorkflow(),
+      SavedViewsApiService.fetchViews(),
+    ]);
+    return { tickets: [], ...directory, slaPolicies, workflow, savedViews };
+  }
+
+  static fetchBoard(swimlane: BoardSwimlane): Promise<TicketBoard> {
+    return this.request<TicketBoard>(`/board?swimlane=${swimlane}`);
+  }
+
+  static fetchTicket(id: string): Promise<Ticket> {
+    return this.request<Ticket>(`/${encodeURIComponent(id)}`);
+  }
+
+  static createTicket(ticket: TicketInput, attachmentIds: string[] = []): Promise<Ticket> {
+    return this.request<Ticket>('', { method: 'POST', body: JSON.stringify({ ...ticket, attachmentIds }) });
+  }
+
+  // With `version`, the update only applies if the ticket is still at that version
+  static async updateTicket(id: string, updates: Partial<TicketInput>, version?: number): Promise<Ticket> {
+    try {
+      return await this.request<Ticket>(`/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(version === undefined ? updates : { ...updates, version }),
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409 && isConflictBody(error.body)) {
+        throw new TicketConflictError(error.body.ticket);
+      }
+      throw error;
+    }
+  }
+
+  static deleteTicket(id: string): Promise<void> {
+    return this.request<void>(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  static applyBulkAction(target: BulkTarget, action: BulkAction): Promise<{ results: BulkResult[] }> {
+    return this.request<{ results: BulkResult[] }>('/bulk', {
+      method: 'POST',
+      body: JSON.stringify({ ...target, action }),
+    });
+  }
+
+  static addComment(ticketId: string, comment: CommentInput, attachmentIds: string[] = []): Promise<Ticket> {
+    return this.request<Ticket>(`/${encodeURIComponent(ticketId)}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ ...comment, attachmentIds }),
+    });
+  }
+
+  static addAttachments(ticketId: string, attachmentIds: string[]): Promise<Ticket> {
+    return this.request<Ticket>(`/${encodeURIComponent(ticketId)}/attachments`, {
+      method: 'POST',
+      body: JSON.stringify({ attachmentIds }),
+    });
+  }
+
+  static changeTicketStatus(ticketId: string, status: TicketStatus): Promise<Ticket> {
+    return this.request<Ticket>(`/${encodeURIComponent(ticketId)}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status }),
+    });
+  }
+}
+
+// ============================================================================
+// STORAGE SERVICE
+// ============================================================================
+
+class StorageService {
+  private static readonly STORAGE_KEYS = Object.freeze({
+    DARK_MODE: 'tickets_darkMode',
+    TIME_MODE: 'tickets_timeMode',
+    TICKETS_DATA: 'tickets_data',
+  });
+
+  static saveToStorage(key: string, value: any): void {
+    if (!isClient) return;
+    try {
+      sessionStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Error saving ${key} to storage:`, error);
+    }
+  }
+
+  static loadFromStorage<T>(key: string, defaultValue: T): T {
+    if (!isClient) return defaultValue;
+    try {
+      const saved = sessionStorage.getItem(key);
+      return saved ? JSON.parse(saved) : defaultValue;
+    } catch (error) {
+      console.error(`Error loading ${key} from storage:`, error);
+      return defaultValue;
+    }
+  }
+
+  static clearStorage(): void {
+    if (!isClient) return;
+    try {
+      sessionStorage.removeItem(this.STORAGE_KEYS.DARK_MODE);
+      sessionStorage.removeItem(this.STORAGE_KEYS.TIME_MODE);
+      sessionStorage.removeItem(this.STORAGE_KEYS.TICKETS_DATA);
+    } catch (error) {
+      console.error('Error clearing storage:', error);
+    }
+  }
+
+  static getKeys() {
+    return this.STORAGE_KEYS;
+  }
+}
+
+// ============================================================================
+// SCHEMA & MIGRATIONS
+// ============================================================================
+
+interface PersistedTicketsData extends TicketsData {
+  schemaVersion: number;
+}
+
+// A stored payload as read back, before it is known to have any particular shape
+type RawRecord = Record<string, unknown>;
+
+interface SchemaMigration {
+  version: number;
+  description: string;
+  migrate: (data: RawRecord) => RawRecord;
+}
+
+const isRawRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const rawRecords = (value: unknown, what: string): RawRecord[] => {
+  if (!Array.isArray(value) || !value.every(isRawRecord)) throw new Error(`${what} is not a list of objects`);
+  return value;
+};
+
+// Ordered list; each entry upgrades a payload from the previous version to `version`.
+// Payloads written before versioning existed are treated as version 0.
+const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = Object.freeze([
+  {
+    version: 1,
+    description: 'Stamp unversioned payloads and default missing comment lists',
+    migrate: data => ({
+      tickets: rawRecords(data.tickets ?? [], 'tickets').map(ticket => ({ ...ticket, comments: ticket.comments ?? [] })),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Add the audit event log, seeded with a creation event',
+    migrate: data => ({
+      tickets: rawRecords(data.tickets, 'tickets').map(ticket => ({
+        ...ticket,
+        events: ticket.events ?? [
+          {
+            id: `event_${String(ticket.id)}_created`,
+            ticketId: ticket.id,
+            type: 'created',
+            actor: ticket.author,
+            timestamp: ticket.createdAt,
+            changes: [],
+          },
+        ],
+      })),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Add the agent/team directory and set free-text assignees aside for mapping',
+    migrate: data => ({
+      agents: data.agents ?? [],
+      teams: data.teams ?? [],
+      tickets: rawRecords(data.tickets, 'tickets').map(({ assignedTo, ...ticket }) => ({
+        ...ticket,
+        ...(assignedTo ? { legacyAssignee: assignedTo } : {}),
+        events: rawRecords(ticket.events, 'events').map(event => ({
+          ...event,
+          changes: rawRecords(event.changes, 'changes').map(change =>
+            change.field === 'assignedTo' ? { ...change, field: 'assigneeId' } : change
+          ),
+        })),
+      })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Add SLA policies and backfill first-response times from public replies',
+    migrate: data => ({
+      ...data,
+      slaPolicies: data.slaPolicies ?? DEFAULT_SLA_POLICIES,
+      tickets: rawRecords(data.tickets, 'tickets').map(ticket => {
+        if (ticket.firstResponseAt) return ticket;
+        // isRequesterComment's rule, on data that isn't known to be a Ticket yet
+        const isReply = (comment: RawRecord) =>
+          !comment.isInternal &&
+          (comment.authorId && ticket.authorId ? comment.authorId !== ticket.authorId : comment.author !== ticket.author);
+        const replies = rawRecords(ticket.comments, 'comments').flatMap(comment =>
+          typeof comment.timestamp === 'number' && isReply(comment) ? [comment.timestamp] : []
+        );
+        return replies.length > 0 ? { ...ticket, firstResponseAt: Math.min(...replies) } : ticket;
+      }),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Store the status workflow as data, starting from the former built-in graph',
+    migrate: data => ({
+      ...data,
+      workflow: data.workflow ?? DEFAULT_WORKFLOW,
+    }),
+  },
+  {
+    version: 6,
+    description: 'Add saved ticket-list views',
+    migrate: data => ({
+      ...data,
+      savedViews: data.savedViews ?? [],
+    }),
+  },
+  {
+    version: 7,
+    description: 'Number ticket versions so stale edits can be detected',
+    migrate: data => ({
+      ...data,
+      tickets: rawRecords(data.tickets, 'tickets').map(ticket => ({ ...ticket, version: ticket.version ?? 1 })),
+    }),
+  },
+]);
+
+const SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+class SchemaMigrationError extends Error {
+  constructor(message: string, readonly fromVersion: number) {
+    super(message);
+    this.name = 'SchemaMigrationError';
+  }
+}
+
+// Checks the parts of a migrated payload the app can't do without; the rest is trusted
+const checkTicketsShape = (data: RawRecord): TicketsData => {
+  if (!Array.isArray(data.tickets)) throw new Error('tickets is not a list');
+  if (!Array.isArray(data.agents)) throw new Error('agents is not a list');
+  if (!Array.isArray(data.teams)) throw new Error('teams is not a list');
+  if (!Array.isArray(data.slaPolicies)) throw new Error('slaPolicies is not a list');
+  if (!isRawRecord(data.workflow) || !Array.isArray(data.workflow.statuses)) {
+    throw new Error('workflow has no status list');
+  }
+  if (!Array.isArray(data.savedViews)) throw new Error('savedViews is not a list');
+  data.tickets.forEach((ticket: unknown, index: number) => {
+    if (!isRawRecord(ticket) || typeof ticket.id !== 'string') throw new Error(`ticket #${index} has no id`);
+    if (!Array.isArray(ticket.comments)) throw new Error(`ticket ${ticket.id} has no comment list`);
+    if (!Array.isArray(ticket.events)) throw new Error(`ticket ${ticket.id} has no event log`);
+    if (!Number.isInteger(ticket.version)) throw new Error(`ticket ${ticket.id} has no version`);
+  });
+  return {
+    tickets: data.tickets,
+    agents: data.agents,
+    teams: data.teams,
+    slaPolicies: data.slaPolicies,
+    workflow: data.workflow as unknown as Workflow,
+    savedViews: data.savedViews,
+  };
+};
+
+const migrateTicketsData = (raw: unknown): TicketsData => {
+  if (!isRawRecord(raw)) {
+    throw new SchemaMigrationError('Payload is not an object', 0);
+  }
+
+  const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new SchemaMigrationError(
+      `Payload schema v${fromVersion} is newer than supported v${SCHEMA_VERSION}`,
+      fromVersion
+    );
+  }
+
+  let data = raw;
+  for (const migration of SCHEMA_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    try {
+      data = migration.migrate(data);
+    } catch (error) {
+      throw new SchemaMigrationError(
+        `Migration to v${migration.version} failed: ${(error as Error).message}`,
+        fromVersion
+      );
+    }
+  }
+
+  try {
+    return checkTicketsShape(data);
+  } catch (error) {
+    throw new SchemaMigrationError(`Invalid payload: ${(error as Error).message}`, fromVersion);
+  }
+};
+
+const toPersistedData = (data: TicketsData): PersistedTicketsData => ({
+  schemaVersion: SCHEMA_VERSION,
+  ...data,
+});
+
+// ============================================================================
+// TICKET STORES
+// ============================================================================
+
+type TicketStoreKind = 'session' | 'local' | 'indexeddb' | 'http' | 'memory';
+
+interface TicketStore {
+  /** Returns the raw persisted payload, which may predate the current schema */
+  load(): Promise<unknown>;
+  save(data: PersistedTicketsData): Promise<void>;
+  /** Moves an unreadable payload aside so it can be inspected instead of being overwritten */
+  quarantine(raw: unknown, reason: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+class WebStorageTicketStore implements TicketStore {
+  constructor(
+    private readonly getStorage: () => Storage,
+    private readonly key: string = StorageService.getKeys().TICKETS_DATA
+  ) {}
+
+  async load(): Promise<unknown> {
+    if (!isClient) return null;
+    let saved: string | null;
+    try {
+      saved = this.getStorage().getItem(this.key);
+    } catch (error) {
+      console.error(`Error loading ${this.key} from storage:`, error);
+      return null;
+    }
+    if (!saved) return null;
+    try {
+      return JSON.parse(saved);
+    } catch (error) {
+      // Set aside like any other unreadable payload, rather than overwritten by the next save
+      console.error(`Quarantining unparsable ${this.key}:`, error);
+      await this.quarantine(saved, (error as Error).message);
+      return null;
+    }
+  }
+
+  async save(data: PersistedTicketsData): Promise<void> {
+    if (!isClient) return;
+    try {
+      this.getStorage().setItem(this.key, JSON.stringify(data));
+    } catch (error) {
+      console.error(`Error saving ${this.key} to storage:`, error);
+    }
+  }
+
+  async quarantine(raw: unknown, reason: string): Promise<void> {
+    if (!isClient) return;
+    try {
+      this.getStorage().setItem(
+        `${this.key}_quarantine_${Date.now()}`,
+        JSON.stringify({ reason, quarantinedAt: Date.now(), payload: raw })
+      );
+      this.getStorage().removeItem(this.key);
+    } catch (error) {
+      console.error(`Error quarantining ${this.key}:`, error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    if (!isClient) return;
+    this.getStorage().removeItem(this.key);
+  }
+}
+
+class IndexedDbTicketStore implements TicketStore {
+  private static readonly DB_VERSION = 2;
+  private static readonly STORES = Object.freeze({
+    TICKETS: 'tickets',
+    META: 'meta',
+    QUARANTINE: 'quarantine',
+  });
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = 'helpdesk') {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, IndexedDbTicketStore.DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          const { TICKETS, META, QUARANTINE } = IndexedDbTicketStore.STORES;
+          if (!db.objectStoreNames.contains(TICKETS)) db.createObjectStore(TICKETS, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(META)) db.createObjectStore(META, { keyPath: 'key' });
+          if (!db.objectStoreNames.contains(QUARANTINE)) {
+            db.createObjectStore(QUARANTINE, { autoIncrement: true });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async transaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    run: (tx: IDBTransaction) => (() => T) | void
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(storeNames, mode);
+      const getResult = run(tx);
+      tx.oncomplete = () => resolve(getResult ? getResult() : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async load(): Promise<unknown> {
+    if (!isClient) return null;
+    const { TICKETS, META } = IndexedDbTicketStore.STORES;
+    try {
+      return await this.transaction([TICKETS, META], 'readonly', tx => {
+        const tickets = tx.objectStore(TICKETS).getAll();
+        const meta = tx.objectStore(META).getAll();
+        return () => {
+          if (tickets.result.length === 0 && meta.result.length === 0) return null;
+          // Everything besides tickets (schema version, directory, SLA policies, workflow) is a key/value record in meta
+          const payload: Record<string, unknown> = { tickets: tickets.result };
+          meta.result.forEach(({ key, value }) => {
+            payload[key] = value;
+          });
+          return payload;
+        };
+      });
+    } catch (error) {
+      console.error('Error loading tickets from IndexedDB:', error);
+      return null;
+    }
+  }
+
+  async save(data: PersistedTicketsData): Promise<void> {
+    if (!isClient) return;
+    const { TICKETS, META } = IndexedDbTicketStore.STORES;
+    try {
+      await this.transaction([TICKETS, META], 'readwrite', tx => {
+        const tickets = tx.objectStore(TICKETS);
+        tickets.clear();
+        data.tickets.forEach(ticket => tickets.put(ticket));
+        const meta = tx.objectStore(META);
+        const { tickets: _tickets, ...rest } = data;
+        Object.entries(rest).forEach(([key, value]) => meta.put({ key, value }));
+      });
+    } catch (error) {
+      console.error('Error saving tickets to IndexedDB:', error);
+    }
+  }
+
+  async quarantine(raw: unknown, reason: string): Promise<void> {
+    if (!isClient) return;
+    const { TICKETS, META, QUARANTINE } = IndexedDbTicketStore.STORES;
+    try {
+      await this.transaction([TICKETS, META, QUARANTINE], 'readwrite', tx => {
+        tx.objectStore(QUARANTINE).add({ reason, quarantinedAt: Date.now(), payload: raw });
+        tx.objectStore(TICKETS).clear();
+        tx.objectStore(META).clear();
+      });
+    } catch (error) {
+      console.error('Error quarantining tickets in IndexedDB:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    if (!isClient) return;
+    const { TICKETS, META } = IndexedDbTicketStore.STORES;
+    await this.transaction([TICKETS, META], 'readwrite', tx => {
+      tx.objectStore(TICKETS).clear();
+      tx.objectStore(META).clear();
+    });
+  }
+}
+
+class HttpTicketStore implements TicketStore {
+  // The server migrates its own store, so its payloads are always current.
+  // Tickets are left to the views, which page them in from the API
+  async load(): Promise<unknown> {
+    try {
+      return toPersistedData(await TicketsApiService.fetchData());
+    } catch (error) {
+      console.error('Error loading tickets from server:', error);
+      return null;
+    }
+  }
+
+  // The API persists every mutation as it happens, so there is nothing left to flush
+  async save(): Promise<void> {}
+
+  async quarantine(): Promise<void> {}
+
+  async clear(): Promise<void> {}
+}
+
+class MemoryTicketStore implements TicketStore {
+  private data: unknown;
+  readonly quarantined: { reason: string; payload: unknown }[] = [];
+
+  constructor(initialData: unknown = null) {
+    this.data = initialData ? structuredClone(initialData) : null;
+  }
+
+  async load(): Promise<unknown> {
+    return this.data ? structuredClone(this.data) : null;
+  }
+
+  async save(data: PersistedTicketsData): Promise<void> {
+    this.data = structuredClone(data);
+  }
+
+  async quarantine(raw: unknown, reason: string): Promise<void> {
+    this.quarantined.push({ reason, payload: raw });
+    this.data = null;
+  }
+
+  async clear(): Promise<void> {
+    this.data = null;
+  }
+}
+
+const createTicketStore = (kind: TicketStoreKind = 'session'): TicketStore => {
+  if (!isClient) return new MemoryTicketStore();
+  switch (kind) {
+    case 'local':
+      return new WebStorageTicketStore(() => localStorage);
+    case 'indexeddb':
+      return new IndexedDbTicketStore();
+    case 'http':
+      return new HttpTicketStore();
+    case 'memory':
+      return new MemoryTicketStore();
+    default:
+      return new WebStorageTicketStore(() => sessionStorage);
+  }
+};
+
+// ============================================================================
+// MODEL LAYER
+// ============================================================================
+
+class TicketsModel {
+  private tickets: Ticket[];
+  private agents: Agent[];
+  private teams: Team[];
+  private slaPolicies: SlaPolicy[];
+  private workflow: Workflow;
+  private savedViews: SavedView[];
+  // Built on the first search, then kept current ticket by ticket
+  private searchIndex: SearchIndex | null = null;
+  // Recent list rankings, so the pages after the first don't filter and sort every ticket again; cleared on any change
+  private rankings = new Map<string, RankedTicket[]>();
+
+  constructor(initialData?: TicketsData) {
+    this.tickets = initialData?.tickets || [...DEFAULT_TICKETS];
+    this.agents = initialData?.agents || [...DEFAULT_AGENTS];
+    this.teams = initialData?.teams || [...DEFAULT_TEAMS];
+    this.slaPolicies = initialData?.slaPolicies || [...DEFAULT_SLA_POLICIES];
+    this.workflow = initialData?.workflow || DEFAULT_WORKFLOW;
+    this.savedViews = initialData?.savedViews || [];
+  }
+
+  getAllTickets(): Ticket[] {
+    return [...this.tickets].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  getTicketById(id: string): Ticket | null {
+    return this.tickets.find(t => t.id === id) || null;
+  }
+
+  createTicket(ticket: TicketInput, actor: string = ticket.author): Ticket {
+    if (!getCreatableStatuses(this.workflow).includes(ticket.status)) {
+      throw new WorkflowTransitionError(null, ticket.status);
+    }
+    const id = `ticket_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const newTicket: Ticket = {
+      ...ticket,
+      id,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      comments: [],
+      events: [this.createEvent(id, 'created', actor, [])],
+      version: 1,
+    };
+    this.tickets.push(newTicket);
+    this.searchIndex?.indexTicket(newTicket);
+    this.rankings.clear();
+    return newTicket;
+  }
+
+  updateTicket(id: string, updates: Partial<TicketInput>, actor = 'Sistema'): Ticket | null {
+    const index = this.tickets.findIndex(t => t.id === id);
+    if (index === -1) return null;
+
+    const current = this.tickets[index];
+    // Every edit path goes through here, so the workflow is enforced in one place
+    if (updates.status !== undefined && !isTransitionAllowed(this.workflow, current.status, updates.status)) {
+      throw new WorkflowTransitionError(current.status, updates.status);
+    }
+    return this.applyUpdate(index, updates, actor);
+  }
+
+  // Writes `updates` with an audit event for whatever actually changed; an edit
+  // that changes nothing leaves the ticket, and its version, as they were
+  private applyUpdate(
+    index: number,
+    updates: Partial<TicketInput>,
+    actor: string,
+    type: TicketEvent['type'] = 'updated'
+  ): Ticket {
+    const id = this.tickets[index].id;
+    const current = this.tickets[index];
+    const changes = this.auditChanges(current, updates);
+    if (changes.length === 0 && (updates.author === undefined || updates.author === current.author)) return current;
+
+    this.tickets[index] = {
+      ...current,
+      ...updates,
+      updatedAt: Date.now(),
+      version: current.version + 1,
+      events: changes.length > 0
+        ? [...current.events, this.createEvent(id, type, actor, changes)]
+        : current.events,
+    };
+
+    if (
+      updates.status !== undefined &&
+      findWorkflowStatus(this.workflow, updates.status).kind === 'resolved' &&
+      !this.tickets[index].resolvedAt
+    ) {
+      this.tickets[index].resolvedAt = Date.now();
+    }
+
+    this.searchIndex?.indexTicket(this.tickets[index]);
+    this.rankings.clear();
+    return this.tickets[index];
+  }
+
+  private auditChanges(current: Ticket, updates: Partial<TicketInput>): TicketFieldChange[] {
+    const changes: TicketFieldChange[] = [];
+    AUDITED_FIELDS.forEach(({ field }) => {
+      if (updates[field] === undefined) return;
+      const from = current[field] || null;
+      const to = updates[field] || null;
+      if (from !== to) changes.push({ field, from, to });
+    });
+    return changes;
+  }
+
+  private createEvent(
+    ticketId: string,
+    type: TicketEvent['type'],
+    actor: string,
+    changes: TicketFieldChange[]
+  ): TicketEvent {
+    return {
+      id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ticketId,
+      type,
+      actor,
+      timestamp: Date.now(),
+      changes,
+    };
+  }
+
+  getTicketEvents(ticketId: string): TicketEvent[] {
+    const ticket = this.getTicketById(ticketId);
+    return ticket ? [...ticket.events].sort((a, b) => a.timestamp - b.timestamp) : [];
+  }
+
+  /**
+   * Loads one ticket from an import file under the same workflow rules as an
+   * edit: an existing ticket only follows the workflow's transitions, and a new
+   * ticket starts in a creatable status. Whole tickets from a JSON export are
+   * the one exception, created in whatever status their history led to. The
+   * history is only ever added to, with an `imported` event. Throws
+   * TicketImportError when the record is rejected.
+   */
+  importTicket(record: TicketImport, mode: ImportMode, actor: string): ImportedTicket {
+    const index = mode === 'upsert' && record.id ? this.tickets.findIndex(t => t.id === record.id) : -1;
+    const existing = index === -1 ? null : this.tickets[index];
+    const fields = pickTicketFields(record);
+    const input: Partial<TicketInput> = existing
+      ? fields
+      : { category: 'other', priority: 'medium', status: this.workflow.initialStatus, author: actor, ...fields };
+    const errors = validateTicketInput(input, this.workflow, !!existing);
+    if (fields.assigneeId && !this.getAssignee(fields.assigneeId)) errors.push('Responsável não encontrado');
+    if (
+      input.status !== undefined &&
+      (existing
+        ? !isTransitionAllowed(this.workflow, existing.status, input.status)
+        : !record.events && !getCreatableStatuses(this.workflow).includes(input.status))
+    ) {
+      errors.push(`${new WorkflowTransitionError(existing?.status ?? null, input.status).message}: "${input.status}"`);
+    }
+    record.comments?.forEach((comment, i) => {
+      validateCommentInput(comment).forEach(error => errors.push(`Comentário ${i + 1}: ${error}`));
+    });
+    if (errors.length > 0) throw new TicketImportError(errors);
+
+    // Whole tickets (JSON) are restored as they were; CSV rows edit the fields they name
+    if (existing && !record.comments) {
+      return { outcome: 'updated', ticket: this.applyUpdate(index, fields, actor, 'imported'), previous: existing };
+    }
+
+    const now = Date.now();
+    const id = existing?.id ?? (mode === 'upsert' && record.id
+      ? record.id
+      : `ticket_${now}_${Math.random().toString(36).substr(2, 9)}`);
+    // A created copy gets fresh child IDs so it never collides with the original,
+    // and leaves behind the original's attachments
+    const childId = (prefix: string, original: string) =>
+      mode === 'create' ? `${prefix}_${now}_${Math.random().toString(36).substr(2, 9)}` : original;
+    const comments = (record.comments ?? [])
+      .filter(comment => !existing?.comments.some(kept => kept.id === comment.id))
+      .map(({ attachments, ...comment }) => ({
+        ...comment,
+        ...(attachments && mode !== 'create' ? { attachments } : {}),
+        id: childId('comment', comment.id),
+        ticketId: id,
+      }));
+    const history =
+      existing?.events ?? (record.events ?? []).map(event => ({ ...event, id: childId('event', event.id), ticketId: id }));
+    const ticket: Ticket = {
+      ...(existing ?? {}),
+      ...(input as TicketInput),
+      id,
+      authorId: record.authorId ?? existing?.authorId,
+      createdAt: record.createdAt ?? existing?.createdAt ?? now,
+      updatedAt: record.updatedAt ?? now,
+      version: (existing?.version ?? 0) + 1,
+      resolvedAt: record.resolvedAt ?? existing?.resolvedAt,
+      firstResponseAt: record.firstResponseAt ?? existing?.firstResponseAt,
+      comments: [...(existing?.comments ?? []), ...comments],
+      events: [...history, this.createEvent(id, 'imported', actor, existing ? this.auditChanges(existing, input) : [])],
+    };
+    if (findWorkflowStatus(this.workflow, ticket.status).kind === 'resolved' && !ticket.resolvedAt) {
+      ticket.resolvedAt = now;
+    }
+    this.upsertTicket(ticket);
+    return { outcome: existing ? 'updated' : 'created', ticket, previous: existing };
+  }
+
+  // Responses and live events can arrive out of order; an older copy never
+  // replaces a newer one
+  upsertTicket(ticket: Ticket): void {
+    const index = this.tickets.findIndex(t => t.id === ticket.id);
+    if (index === -1) {
+      this.tickets.push(ticket);
+    } else if (ticket.version < this.tickets[index].version) {
+      return;
+    } else {
+      this.tickets[index] = ticket;
+    }
+    this.searchIndex?.indexTicket(ticket);
+    this.rankings.clear();
+  }
+
+  replaceDirectory(directory: Directory): void {
+    this.agents = [...directory.agents];
+    this.teams = [...directory.teams];
+    this.rankings.clear();
+  }
+
+  replaceAll(data: TicketsData): void {
+    this.tickets = [...data.tickets];
+    this.agents = [...data.agents];
+    this.teams = [...data.teams];
+    this.slaPolicies = [...data.slaPolicies];
+    this.workflow = data.workflow;
+    this.savedViews = [...data.savedViews];
+    this.searchIndex = null;
+    this.rankings.clear();
+  }
+
+  deleteTicket(id: string): boolean {
+    const initialLength = this.tickets.length;
+    this.tickets = this.tickets.filter(t => t.id !== id);
+    this.searchIndex?.removeTicket(id);
+    this.rankings.clear();
+    return this.tickets.length < initialLength;
+  }
+
+  private getSearchIndex(): SearchIndex {
+    if (!this.searchIndex) this.searchIndex = new SearchIndex(this.tickets);
+    return this.searchIndex;
+  }
+
+  // Most relevant first; requesters never match on internal notes
+  searchTickets(term: string, audience: Audience = 'agent'): Ticket[] {
+    const scores = this.getSearchIndex().search(term, audience);
+    if (!scores) return this.getAllTickets();
+    return this.tickets
+      .filter(t => scores.has(t.id))
+      .sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || b.updatedAt - a.updatedAt);
+  }
+
+  // Matching tickets in `sort` order, each with the tuple it sorts by. Throws QuerySyntaxError
+  private rankTickets(query: string, options: TicketQueryOptions): RankedTicket[] {
+    const { audience = 'agent', now = Date.now(), sort = DEFAULT_TICKET_SORT, visible } = options;
+    const parsed = parseTicketQuery(query);
+    const results = new Map(parsed.terms.map(term => [term.text, this.getSearchIndex().search(term.text, audience)]));
+    const matches = compileTicketQuery(parsed, {
+      workflow: this.workflow,
+      agents: this.agents,
+      teams: this.teams,
+      now,
+      getSla: ticket => this.getTicketSla(ticket, now),
+      search: text => results.get(text) ?? null,
+    });
+
+    const primary = (ticket: Ticket): number => {
+      switch (sort.key) {
+        case 'relevance':
+          return parsed.terms.reduce(
+            (sum, term) => sum + (term.negated ? 0 : results.get(term.text)?.get(ticket.id) ?? 0),
+            0
+          );
+        case 'updated':
+          return ticket.updatedAt;
+        case 'created':
+          return ticket.createdAt;
+        case 'priority':
+          return PRIORITIES.findIndex(p => p.value === ticket.priority);
+        case 'status': {
+          const index = this.workflow.statuses.findIndex(s => s.id === ticket.status);
+          return index === -1 ? this.workflow.statuses.length : index;
+        }
+        case 'sla': {
+          // Tickets with nothing left to meet sort as if due last
+          const sla = this.getTicketSla(ticket, now);
+          const target = sla ? sla[nextSlaTarget(sla)] : null;
+          return target && !target.completedAt ? target.dueAt : Number.MAX_SAFE_INTEGER;
+        }
+      }
+    };
+
+    return this.tickets
+      .filter(ticket => (!visible || visible(ticket)) && matches(ticket))
+      .map(ticket => {
+        const value = primary(ticket);
+        const key: TicketSortTuple = [sort.descending ? -value : value, -ticket.updatedAt, ticket.id];
+        return { ticket, key };
+      })
+      .sort((a, b) => compareSortTuples(a.key, b.key));
+  }
+
+  queryTickets(query: string, options: TicketQueryOptions = {}): Ticket[] {
+    return this.rankTickets(query, options).map(({ ticket }) => ticket);
+  }
+
+  /**
+   * Keyset pagination: the cursor is the sort tuple of the last ticket served, so pages stay stable as tickets change.
+   * With a `scope` naming who `visible` stands for, the first page's ranking is kept for the pages after it;
+   * a first page always ranks afresh, so relative dates and SLA states are current.
+   */
+  queryTicketPage(
+    query: string,
+    options: TicketQueryOptions & { cursor?: string; limit?: number; scope?: string } = {}
+  ): TicketPage {
+    const { cursor, scope } = options;
+    const limit = Math.max(1, Math.min(options.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE));
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) throw new InvalidCursorError();
+
+    const key =
+      scope === undefined
+        ? null
+        : JSON.stringify([query, options.audience ?? 'agent', options.sort ?? DEFAULT_TICKET_SORT, scope]);
+    const ranked = (after && key && this.rankings.get(key)) || this.rankTickets(query, options);
+    if (key) {
+      // Most recently used last, so the oldest is dropped first
+      this.rankings.delete(key);
+      this.rankings.set(key, ranked);
+      if (this.rankings.size > MAX_CACHED_RANKINGS) this.rankings.delete(this.rankings.keys().next().value!);
+    }
+    const found = after ? ranked.findIndex(({ key }) => compareSortTuples(key, after) > 0) : 0;
+    const start = found === -1 ? ranked.length : found;
+    const page = ranked.slice(start, start + limit);
+    return {
+      tickets: page.map(({ ticket }) => ticket),
+      total: ranked.length,
+      nextCursor: start + limit < ranked.length ? encodeCursor(page[page.length - 1].key) : null,
+    };
+  }
+
+  // Every cell's count, and its first `limit` tickets, most recently updated first
+  getBoard(
+    swimlane: BoardSwimlane,
+    options: { visible?: (ticket: Ticket) => boolean; limit?: number } = {}
+  ): TicketBoard {
+    const { visible, limit = BOARD_CELL_LIMIT } = options;
+    const cells = new Map<string, BoardCell>();
+    const tickets: Ticket[] = [];
+    this.getAllTickets()
+      .filter(ticket => !visible || visible(ticket))
+      .forEach(ticket => {
+        const lane = getBoardLane(swimlane, ticket);
+        const key = JSON.stringify([lane, ticket.status]);
+        const cell = cells.get(key) ?? { status: ticket.status, lane, total: 0 };
+        cells.set(key, cell);
+        if (cell.total++ < limit) tickets.push(ticket);
+      });
+    const lanes =
+      swimlane === 'priority'
+        ? [...PRIORITIES].reverse().map(p => p.value)
+        : swimlane === 'assignee'
+          ? [...new Set([...cells.values()].map(cell => cell.lane))]
+          : ['all'];
+    return { swimlane, lanes, cells: [...cells.values()], tickets };
+  }
+
+  filterByCategory(category: TicketCategory): Ticket[] {
+    return this.tickets.filter(t => t.category === category);
+  }
+
+  filterByPriority(priority: TicketPriority): Ticket[] {
+    return this.tickets.filter(t => t.priority === priority);
+  }
+
+  filterByStatus(status: TicketStatus): Ticket[] {
+    return this.tickets.filter(t => t.status === status);
+  }
+
+  addComment(ticketId: string, comment: CommentInput): Comment | null {
+    const ticket = this.getTicketById(ticketId);
+    if (!ticket) return null;
+
+    const newComment: Comment = {
+      ...comment,
+      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ticketId,
+      timestamp: Date.now(),
+    };
+
+    ticket.comments.push(newComment);
+    // Requesters see `updatedAt` and `version`, so an internal note must not move them
+    if (!newComment.isInternal) {
+      ticket.updatedAt = Date.now();
+      ticket.version++;
+    }
+    if (!ticket.firstResponseAt && !newComment.isInternal && !isRequesterComment(ticket, newComment)) {
+      ticket.firstResponseAt = newComment.timestamp;
+    }
+    this.searchIndex?.indexTicket(ticket);
+    this.rankings.clear();
+
+    return newComment;
+  }
+
+  addAttachments(ticketId: string, attachments: Attachment[]): Ticket | null {
+    const index = this.tickets.findIndex(t => t.id === ticketId);
+    if (index === -1) return null;
+
+    const current = this.tickets[index];
+    this.tickets[index] = {
+      ...current,
+      attachments: [...(current.attachments ?? []), ...attachments],
+      updatedAt: Date.now(),
+      version: current.version + 1,
+    };
+    this.rankings.clear();
+    return this.tickets[index];
+  }
+
+  getTeams(): Team[] {
+    return [...this.teams].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getAgents(): Agent[] {
+    return [...this.agents].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getAssignee(id: string): { kind: 'agent'; agent: Agent } | { kind: 'team'; team: Team } | null {
+    const agent = this.agents.find(a => a.id === id);
+    if (agent) return { kind: 'agent', agent };
+    const team = this.teams.find(t => t.id === id);
+    return team ? { kind: 'team', team } : null;
+  }
+
+  getAssigneeName(id: string): string | null {
+    const assignee = this.getAssignee(id);
+    if (!assignee) return null;
+    return assignee.kind === 'agent' ? assignee.agent.name : assignee.team.name;
+  }
+
+  createTeam(input: TeamInput): Team {
+    const team: Team = { ...input, id: `team_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` };
+    this.teams.push(team);
+    this.rankings.clear();
+    return team;
+  }
+
+  updateTeam(id: string, input: TeamInput): Team | null {
+    const index = this.teams.findIndex(t => t.id === id);
+    if (index === -1) return null;
+    this.teams[index] = { ...input, id };
+    this.rankings.clear();
+    return this.teams[index];
+  }
+
+  createAgent(input: AgentInput): Agent {
+    const agent: Agent = { ...input, id: `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` };
+    this.agents.push(agent);
+    this.rankings.clear();
+    return agent;
+  }
+
+  updateAgent(id: string, input: AgentInput): Agent | null {
+    const index = this.agents.findIndex(a => a.id === id);
+    if (index === -1) return null;
+    this.agents[index] = { ...input, id };
+    this.rankings.clear();
+    return this.agents[index];
+  }
+
+  countAssignedTickets(assigneeId: string): number {
+    return this.tickets.filter(t => t.assigneeId === assigneeId).length;
+  }
+
+  // Directory entries with tickets still assigned to them cannot be removed
+  deleteTeam(id: string): boolean {
+    if (this.countAssignedTickets(id) > 0) return false;
+    this.teams = this.teams.filter(t => t.id !== id);
+    this.agents = this.agents.map(a => ({ ...a, teamIds: a.teamIds.filter(teamId => teamId !== id) }));
+    this.rankings.clear();
+    return true;
+  }
+
+  deleteAgent(id: string): boolean {
+    if (this.countAssignedTickets(id) > 0) return false;
+    this.agents = this.agents.filter(a => a.id !== id);
+    this.rankings.clear();
+    return true;
+  }
+
+  // Free-text assignees grouped so "Suporte Técnico" and "suporte tecnico" map in one step
+  getLegacyAssignees(tickets = this.tickets): LegacyAssignee[] {
+    const groups = new Map<string, { name: string; variants: Set<string>; count: number }>();
+    tickets.forEach(ticket => {
+      if (!ticket.legacyAssignee) return;
+      const key = normalizeName(ticket.legacyAssignee);
+      const group = groups.get(key) ?? { name: ticket.legacyAssignee, variants: new Set(), count: 0 };
+      group.variants.add(ticket.legacyAssignee);
+      group.count++;
+      groups.set(key, group);
+    });
+    return [...groups.values()]
+      .map(group => ({ name: group.name, variants: [...group.variants], count: group.count }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  // The audit event names the free-text assignee it replaces, so every mapped ticket gets a new version
+  mapLegacyAssignee(name: string, assigneeId: string, actor = 'Sistema'): Ticket[] {
+    const key = normalizeName(name);
+    const mapped = this.tickets.flatMap((ticket, index) => {
+      if (!ticket.legacyAssignee || normalizeName(ticket.legacyAssignee) !== key) return [];
+      const { legacyAssignee, ...current } = ticket;
+      const change: TicketFieldChange = { field: 'assigneeId', from: current.assigneeId || legacyAssignee, to: assigneeId };
+      this.tickets[index] = {
+        ...current,
+        assigneeId,
+        updatedAt: Date.now(),
+        version: current.version + 1,
+        events: [...current.events, this.createEvent(ticket.id, 'updated', actor, [change])],
+      };
+      this.searchIndex?.indexTicket(this.tickets[index]);
+      return [this.tickets[index]];
+    });
+    if (mapped.length > 0) this.rankings.clear();
+    return mapped;
+  }
+
+  getSavedViews(): SavedView[] {
+    return [...this.savedViews].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getSavedView(id: string): SavedView | null {
+    return this.savedViews.find(v => v.id === id) || null;
+  }
+
+  createSavedView(input: SavedViewInput, owner: User): SavedView {
+    const view: SavedView = {
+      ...input,
+      name: input.name.trim(),
+      id: `view_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ownerId: owner.id,
+      ownerName: owner.name,
+      pinnedBy: [],
+      createdAt: Date.now(),
+    };
+    this.savedViews.push(view);
+    return view;
+  }
+
+  updateSavedView(id: string, input: SavedViewInput): SavedView | null {
+    const index = this.savedViews.findIndex(v => v.id === id);
+    if (index === -1) return null;
+    this.savedViews[index] = { ...this.savedViews[index], ...input, name: input.name.trim() };
+    return this.savedViews[index];
+  }
+
+  deleteSavedView(id: string): boolean {
+    const initialLength = this.savedViews.length;
+    this.savedViews = this.savedViews.filter(v => v.id !== id);
+    return this.savedViews.length < initialLength;
+  }
+
+  setSavedViewPinned(id: string, userId: string, pinned: boolean): SavedView | null {
+    const view = this.getSavedView(id);
+    if (!view) return null;
+    const others = view.pinnedBy.filter(pinnedId => pinnedId !== userId);
+    view.pinnedBy = pinned ? [...others, userId] : others;
+    return view;
+  }
+
+  replaceSavedViews(views: SavedView[]): void {
+    this.savedViews = [...views];
+  }
+
+  getSlaPolicies(): SlaPolicy[] {
+    const order = PRIORITIES.map(p => p.value).reverse();
+    return [...this.slaPolicies].sort(
+      (a, b) => order.indexOf(a.priority) - order.indexOf(b.priority) || (a.category ? 1 : 0) - (b.category ? 1 : 0)
+    );
+  }
+
+  replaceSlaPolicies(policies: SlaPolicy[]): void {
+    this.slaPolicies = [...policies];
+    this.rankings.clear();
+  }
+
+  getTicketSla(ticket: Ticket, now = Date.now()): TicketSla | null {
+    return computeTicketSla(ticket, this.slaPolicies, this.workflow, now);
+  }
+
+  getWorkflow(): Workflow {
+    return this.workflow;
+  }
+
+  getStatus(id: TicketStatus): WorkflowStatus {
+    return findWorkflowStatus(this.workflow, id);
+  }
+
+  getAllowedTransitions(id: TicketStatus): WorkflowStatus[] {
+    return this.getStatus(id)
+      .transitions.map(next => this.workflow.statuses.find(status => status.id === next))
+      .filter((status): status is WorkflowStatus => !!status);
+  }
+
+  replaceWorkflow(workflow: Workflow): void {
+    this.workflow = workflow;
+    this.rankings.clear();
+  }
+
+  countTicketsWithStatus(id: TicketStatus): number {
+    return this.tickets.filter(t => t.status === id).length;
+  }
+
+  // Pending SLA targets that are close to or past their deadline, most pressing first
+  getAtRiskTickets(now = Date.now(), tickets = this.tickets): Ticket[] {
+    return tickets
+      .map(ticket => ({ ticket, sla: this.getTicketSla(ticket, now) }))
+      .filter((entry): entry is { ticket: Ticket; sla: TicketSla } => {
+        if (!entry.sla) return false;
+        const target = entry.sla[nextSlaTarget(entry.sla)];
+        return target.completedAt === undefined && target.state !== 'on-track';
+      })
+      .sort((a, b) => a.sla[nextSlaTarget(a.sla)].dueAt - b.sla[nextSlaTarget(b.sla)].dueAt)
+      .map(({ ticket }) => ticket);
+  }
+
+  getTicketComments(ticketId: string): Comment[] {
+    const ticket = this.getTicketById(ticketId);
+    return ticket ? [...ticket.comments].sort((a, b) => a.timestamp - b.timestamp) : [];
+  }
+
+  // Tickets without a policy fall back to the default calendar
+  private getTicketCalendar(ticket: Ticket): BusinessCalendar {
+    return getBusinessCalendar(findSlaPolicy(this.slaPolicies, ticket)?.calendarId);
+  }
+
+  getStatistics(timeMode: TimeMode = 'business', tickets = this.tickets): TicketStatistics {
+    const total = tickets.length;
+    const byStatus: Record<TicketStatus, number> = {};
+    this.workflow.statuses.forEach(status => {
+      byStatus[status.id] = tickets.filter(t => t.status === status.id).length;
+    });
+
+    const byPriority: Record<TicketPriority, number> = {
+      low: tickets.filter(t => t.priority === 'low').length,
+      medium: tickets.filter(t => t.priority === 'medium').length,
+      high: tickets.filter(t => t.priority === 'high').length,
+      urgent: tickets.filter(t => t.priority === 'urgent').length,
+    };
+
+    const byCategory: Record<TicketCategory, number> = {
+      technical: tickets.filter(t => t.category === 'technical').length,
+      billing: tickets.filter(t => t.category === 'billing').length,
+      account: tickets.filter(t => t.category === 'account').length,
+      feature: tickets.filter(t => t.category === 'feature').length,
+      bug: tickets.filter(t => t.category === 'bug').length,
+      other: tickets.filter(t => t.category === 'other').length,
+    };
+
+    const averageElapsed = (tickets: Ticket[], endOf: (ticket: Ticket) => number) =>
+      tickets.length > 0
+        ? tickets.reduce(
+          (sum, t) => sum + elapsedTime(this.getTicketCalendar(t), t.createdAt, endOf(t), timeMode),
+          0
+        ) / tickets.length
+        : 0;
+
+    const averageResolutionTime = averageElapsed(tickets.filter(t => t.resolvedAt), t => t.resolvedAt!);
+    const averageFirstResponseTime = averageElapsed(
+      tickets.filter(t => t.firstResponseAt),
+      t => t.firstResponseAt!
+    );
+
+    // Workload counts only tickets still being worked on
+    const active = tickets.filter(t => !isStatusDone(this.workflow, t.status));
+    const byAssignee = [...this.teams, ...this.agents]
+      .map(entry => ({
+        id: entry.id,
+        name: entry.name,
+        open: active.filter(t => t.assigneeId === entry.id).length,
+      }))
+      .filter(entry => entry.open > 0)
+      .sort((a, b) => b.open - a.open);
+
+    return {
+      total,
+      byStatus,
+      byPriority,
+      byCategory,
+      averageResolutionTime,
+      averageFirstResponseTime,
+      byAssignee,
+    };
+  }
+
+  getUrgentTickets(tickets = this.tickets): Ticket[] {
+    return tickets
+      .filter(t => t.priority === 'urgent' && !isStatusDone(this.workflow, t.status))
+      .sort((a, b) => this.nextDueAt(a) - this.nextDueAt(b));
+  }
+
+  // Closest pending SLA deadline, falling back to creation order for tickets without a policy
+  private nextDueAt(ticket: Ticket): number {
+    const sla = this.getTicketSla(ticket);
+    return sla ? sla[nextSlaTarget(sla)].dueAt : ticket.createdAt;
+  }
+
+  getSummary(options: { visible?: (ticket: Ticket) => boolean; now?: number } = {}): TicketSummary {
+    const { visible, now = Date.now() } = options;
+    const tickets = visible ? this.tickets.filter(visible) : this.tickets;
+    const urgent = this.getUrgentTickets(tickets);
+    const atRisk = this.getAtRiskTickets(now, tickets);
+    const assigned: Record<string, number> = {};
+    tickets.forEach(ticket => {
+      if (ticket.assigneeId) assigned[ticket.assigneeId] = (assigned[ticket.assigneeId] ?? 0) + 1;
+    });
+    return {
+      statistics: { business: this.getStatistics('business', tickets), calendar: this.getStatistics('calendar', tickets) },
+      urgent: urgent.slice(0, SUMMARY_LIST_LIMIT),
+      urgentTotal: urgent.length,
+      atRisk: atRisk.slice(0, SUMMARY_LIST_LIMIT),
+      atRiskTotal: atRisk.length,
+      recent: [...tickets].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, RECENT_TICKETS_LIMIT),
+      assigned,
+      legacyAssignees: this.getLegacyAssignees(tickets),
+    };
+  }
+
+  changeTicketStatus(ticketId: string, newStatus: TicketStatus, actor?: string): boolean {
+    const ticket = this.getTicketById(ticketId);
+    if (!ticket) return false;
+
+    if (ticket.status === newStatus || !isTransitionAllowed(this.workflow, ticket.status, newStatus)) {
+      return false;
+    }
+
+    this.updateTicket(ticketId, { status: newStatus }, actor);
+    return true;
+  }
+
+  getData(): TicketsData {
+    return {
+      tickets: this.tickets,
+      agents: this.agents,
+      teams: this.teams,
+      slaPolicies: this.slaPolicies,
+      workflow: this.workflow,
+      savedViews: this.savedViews,
+    };
+  }
+
+  syncToStorage(store: TicketStore): Promise<void> {
+    return store.save(toPersistedData(this.getData()));
+  }
+
+  static async loadFromStorage(store: TicketStore): Promise<TicketsModel> {
+    const raw = await store.load();
+    if (!raw) return new TicketsModel();
+
+    try {
+      return new TicketsModel(migrateTicketsData(raw));
+    } catch (error) {
+      console.error('Quarantining unreadable tickets data:', error);
+      await store.quarantine(raw, (error as Error).message);
+      return new TicketsModel();
+    }
+  }
+}
+
+// ============================================================================
+// CONTROLLER LAYER
+// ============================================================================
+
+class TicketsController {
+  private model: TicketsModel;
+  private store: TicketStore;
+  private listeners: Set<() => void>;
+  private currentUser: User | null;
+  private audience: Audience;
+  private liveRender: ReturnType<typeof setTimeout> | null = null;
+  private ticketList: LoadedTicketList | null;
+  private ticketListRequest: string | null = null;
+  // Counts changes, so what was loaded before the latest one (the board, the summary) knows to load again
+  private changes = 0;
+  private board: (LoadedBoard & { changes: number }) | null;
+  private boardRequest: string | null = null;
+  private summary: (TicketSummary & { changes: number }) | null;
+  private summaryRequest: number | null = null;
+
+  constructor(
+    model: TicketsModel,
+    store: TicketStore,
+    currentUser: User | null = null,
+    loaded: { ticketList?: LoadedTicketList; board?: LoadedBoard; summary?: TicketSummary } = {}
+  ) {
+    this.model = model;
+    this.store = store;
+    this.currentUser = currentUser;
+    this.audience = audienceFor(currentUser);
+    this.listeners = new Set();
+    this.ticketList = loaded.ticketList ?? null;
+    this.board = loaded.board ? { ...loaded.board, changes: this.changes } : null;
+    this.summary = loaded.summary ? { ...loaded.summary, changes: this.changes } : null;
+  }
+
+  getCurrentUser = () => this.currentUser;
+  getAudience = () => this.audience;
+  hasPermission = (permission: Permission) => can(this.currentUser, permission);
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.changes++;
+    this.emit();
+  }
+
+  private emit(): void {
+    this.model.syncToStorage(this.store).catch(error => {
+      console.error('Error syncing tickets to store:', error);
+    });
+    this.listeners.forEach(listener => listener());
+  }
+
+  private redact = (ticket: Ticket) => redactTicket(ticket, this.audience);
+  private redactAll = (tickets: Ticket[]) =>
+    tickets.filter(ticket => canAccessTicket(this.currentUser, ticket)).map(this.redact);
+
+  getAllTickets = () => this.redactAll(this.model.getAllTickets());
+  getTicketById = (id: string) => {
+    const ticket = this.model.getTicketById(id);
+    return ticket && canAccessTicket(this.currentUser, ticket) ? this.redact(ticket) : null;
+  };
+  searchTickets = (term: string) => this.redactAll(this.model.searchTickets(term, this.audience));
+  queryTickets = (query: string, sort?: TicketSort) =>
+    this.redactAll(this.model.queryTickets(query, { audience: this.audience, sort }));
+  filterByCategory = (category: TicketCategory) => this.redactAll(this.model.filterByCategory(category));
+  filterByPriority = (priority: TicketPriority) => this.redactAll(this.model.filterByPriority(priority));
+  filterByStatus = (status: TicketStatus) => this.redactAll(this.model.filterByStatus(status));
+  getSlaPolicies = () => this.model.getSlaPolicies();
+  getTicketSla = (ticket: Ticket, now?: number) => this.model.getTicketSla(ticket, now);
+  getWorkflow = () => this.model.getWorkflow();
+  getStatus = (id: TicketStatus) => this.model.getStatus(id);
+  getAllowedTransitions = (id: TicketStatus) => this.model.getAllowedTransitions(id);
+  countTicketsWithStatus = (id: TicketStatus) => this.summary?.statistics.business.byStatus[id] ?? 0;
+
+  getSavedViews = () =>
+    this.currentUser
+      ? this.model
+          .getSavedViews()
+          .filter(view => canSeeSavedView(this.currentUser, view))
+          .map(view => redactSavedView(view, this.currentUser!))
+      : [];
+  getPinnedViews = () => this.getSavedViews().filter(view => view.pinnedBy.length > 0);
+  isViewOwner = (view: SavedView) => view.ownerId === this.currentUser?.id;
+
+  private applySavedViews({ savedViews }: { savedViews: SavedView[] }): void {
+    this.model.replaceSavedViews(savedViews);
+    this.notify();
+  }
+
+  async saveView(id: string | null, view: SavedViewInput): Promise<void> {
+    this.applySavedViews(await SavedViewsApiService.saveView(id, view));
+  }
+
+  async deleteView(id: string): Promise<void> {
+    this.applySavedViews(await SavedViewsApiService.deleteView(id));
+  }
+
+  async pinView(id: string, pinned: boolean): Promise<void> {
+    this.applySavedViews(await SavedViewsApiService.pinView(id, pinned));
+  }
+
+  async saveWorkflow(workflow: Workflow): Promise<void> {
+    const saved = await WorkflowApiService.saveWorkflow(workflow);
+    this.model.replaceWorkflow(saved.workflow);
+    this.notify();
+  }
+
+  async saveSlaPolicies(policies: (SlaPolicyInput & { id?: string })[]): Promise<void> {
+    const { slaPolicies } = await SlaApiService.savePolicies(policies);
+    this.model.replaceSlaPolicies(slaPolicies);
+    this.notify();
+  }
+
+  async restore(): Promise<void> {
+    this.model = await TicketsModel.loadFromStorage(this.store);
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Applies changes saved by anyone, in any tab, as the server pushes them.
+   * Bursts (a bulk action) are rendered once.
+   */
+  connectLive(since: string | null): () => void {
+    if (!isClient || typeof EventSource === 'undefined' || !this.currentUser) return () => {};
+    const render = () => {
+      this.liveRender ??= setTimeout(() => {
+        this.liveRender = null;
+        this.notify();
+      }, LIVE_RENDER_DELAY);
+    };
+    const source = LiveUpdatesService.open(since);
+    source.addEventListener('ticket', event => {
+      this.model.upsertTicket(JSON.parse(event.data).ticket);
+      render();
+    });
+    source.addEventListener('ticket-deleted', event => {
+      this.model.deleteTicket(JSON.parse(event.data).id);
+      render();
+    });
+    // The server can't replay what was missed (restart, long disconnect, import)
+    source.addEventListener('reset', () => this.refresh());
+    return () => {
+      source.close();
+      if (this.liveRender) clearTimeout(this.liveRender);
+      this.liveRender = null;
+    };
+  }
+
+  // The summary as last loaded, shown while a newer one loads; null before the first
+  getSummary = (): TicketSummary | null => this.summary;
+  isSummaryCurrent = () => this.summary?.changes === this.changes;
+
+  async loadSummary(): Promise<void> {
+    const { changes } = this;
+    this.summaryRequest = changes;
+    const summary = await TicketsApiService.fetchSummary();
+    if (this.summaryRequest !== changes) return;
+    this.summary = { ...summary, changes };
+    this.emit();
+  }
+
+  /**
+   * The list as last loaded, for whichever query and sort it was loaded;
+   * tickets deleted since are left out.
+   */
+  getTicketList = () => {
+    const list = this.ticketList;
+    if (!list) return null;
+    const tickets = this.redactAll(
+      list.ticketIds.map(id => this.model.getTicketById(id)).filter((ticket): ticket is Ticket => !!ticket)
+    );
+    return {
+      query: list.query,
+      sort: list.sort,
+      tickets,
+      total: list.total - (list.ticketIds.length - tickets.length),
+      nextCursor: list.nextCursor,
+    };
+  };
+
+  /**
+   * Loads the first page of a list query, or with `more` the page after those
+   * already loaded. Only the latest request is applied, so fast typing never
+   * shows an older query's results.
+   */
+  async loadTicketList({ query, sort }: TicketListState, more = false): Promise<void> {
+    const previous = more ? this.ticketList : null;
+    if (more && (!previous || previous.query !== query || previous.sort !== sort || !previous.nextCursor)) return;
+    const request = JSON.stringify([query, sort, previous?.nextCursor ?? null]);
+    this.ticketListRequest = request;
+    const page = await TicketsApiService.fetchTicketPage({ q: query, sort, cursor: previous?.nextCursor ?? undefined });
+    if (this.ticketListRequest !== request) return;
+    page.tickets.forEach(ticket => this.model.upsertTicket(ticket));
+    this.ticketList = {
+      query,
+      sort,
+      ticketIds: [...(previous?.ticketIds ?? []), ...page.tickets.map(ticket => ticket.id)],
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
+    this.notify();
+  }
+
+  /**
+   * The board as last loaded for `swimlane`, with its tickets as they are now
+   * (a card moved here shows in its new column right away). `current` turns
+   * false on any change, until the board is loaded again.
+   */
+  getBoard = (swimlane: BoardSwimlane) => {
+    const board = this.board;
+    if (!board || board.swimlane !== swimlane) return null;
+    const tickets = this.redactAll(
+      board.ticketIds.map(id => this.model.getTicketById(id)).filter((ticket): ticket is Ticket => !!ticket)
+    );
+    return { lanes: board.lanes, cells: board.cells, tickets, current: board.changes === this.changes };
+  };
+
+  async loadBoard(swimlane: BoardSwimlane): Promise<void> {
+    const { changes } = this;
+    const request = JSON.stringify([swimlane, changes]);
+    this.boardRequest = request;
+    const { tickets, ...board } = await TicketsApiService.fetchBoard(swimlane);
+    if (this.boardRequest !== request) return;
+    tickets.forEach(ticket => this.model.upsertTicket(ticket));
+    this.board = { ...board, ticketIds: tickets.map(ticket => ticket.id), changes };
+    this.emit();
+  }
+
+  // Tickets opened from a link may not be among those loaded yet
+  async loadTicket(id: string): Promise<void> {
+    this.model.upsertTicket(await TicketsApiService.fetchTicket(id));
+    this.notify();
+  }
+
+  // New and imported tickets only show up in the list once it is loaded again
+  private invalidateTicketList(): void {
+    this.ticketList = null;
+    this.ticketListRequest = null;
+  }
+
+  async refresh(): Promise<void> {
+    try {
+      this.model.replaceAll(await TicketsApiService.fetchData());
+      this.invalidateTicketList();
+      this.notify();
+    } catch (error) {
+      console.error('Error loading tickets from server:', error);
+    }
+  }
+
+  async createTicket(ticket: TicketInput, attachments: Attachment[] = []): Promise<Ticket> {
+    const created = await TicketsApiService.createTicket(ticket, attachments.map(attachment => attachment.id));
+    this.model.upsertTicket(created);
+    this.invalidateTicketList();
+    this.notify();
+    return this.redact(created);
+  }
+
+  async updateTicket(id: string, updates: Partial<TicketInput>, version?: number): Promise<Ticket> {
+    const current = this.model.getTicketById(id);
+    if (current && updates.status !== undefined && !isTransitionAllowed(this.getWorkflow(), current.status, updates.status)) {
+      throw new WorkflowTransitionError(current.status, updates.status);
+    }
+    let updated: Ticket;
+    try {
+      updated = await TicketsApiService.updateTicket(id, pickTicketFields(updates), version);
+    } catch (error) {
+      // Show the newer version right away; the caller decides what happens to the edit
+      if (error instanceof TicketConflictError) {
+        this.model.upsertTicket(error.current);
+        this.notify();
+      }
+      throw error;
+    }
+    this.model.upsertTicket(updated);
+    this.notify();
+    return this.redact(updated);
+  }
+
+  async deleteTicket(id: string): Promise<void> {
+    await TicketsApiService.deleteTicket(id);
+    this.model.deleteTicket(id);
+    this.notify();
+  }
+
+  // Skipped tickets come back with a reason instead of failing the whole batch
+  async applyBulkAction(target: BulkTarget, action: BulkAction): Promise<BulkResult[]> {
+    const { results } = await TicketsApiService.applyBulkAction(target, action);
+    results.forEach(result => {
+      if (!result.ok) return;
+      if (action.type === 'delete') this.model.deleteTicket(result.id);
+      else if (result.ticket) this.model.upsertTicket(result.ticket);
+    });
+    // A query reaches tickets on pages the list never loaded, so the loaded pages no longer add up
+    if ('query' in target) this.invalidateTicketList();
+    this.notify();
+    return results;
+  }
+
+  async changeTicketStatus(ticketId: string, newStatus: TicketStatus): Promise<boolean> {
+    try {
+      this.model.upsertTicket(await TicketsApiService.changeTicketStatus(ticketId, newStatus));
+      this.notify();
+      return true;
+    } catch (error) {
+      console.error(`Error changing status of ${ticketId}:`, error);
+      return false;
+    }
+  }
+
+  getExportUrl = (format: ExportFormat, query?: string, sort?: string) =>
+    TransferApiService.exportUrl(format, query, sort);
+  uploadImport = (file: File, format: ExportFormat) => TransferApiService.uploadImport(file, format);
+  previewImport = (id: string, options: ImportOptions) => TransferApiService.previewImport(id, options);
+  discardImport = (id: string) => TransferApiService.discardImport(id);
+
+  async importTickets(id: string, options: ImportOptions): Promise<ImportReport> {
+    const report = await TransferApiService.commitImport(id, options);
+    if (report.created + report.updated > 0) await this.refresh();
+    return report;
+  }
+
+  fetchNotificationSettings = () => NotificationsApiService.fetchSettings();
+  saveNotificationSettings = (settings: MailSettings) => NotificationsApiService.saveSettings(settings);
+
+  fetchWebhooks = () => WebhooksApiService.fetchWebhooks();
+  saveWebhook = (id: string | null, input: WebhookInput) => WebhooksApiService.saveWebhook(id, input);
+  deleteWebhook = (id: string) => WebhooksApiService.deleteWebhook(id);
+  rotateWebhookSecret = (id: string) => WebhooksApiService.rotateSecret(id);
+  fetchWebhookDeliveries = (id: string) => WebhooksApiService.fetchDeliveries(id);
+  redeliverWebhook = (id: string, deliveryId: string) => WebhooksApiService.redeliver(id, deliveryId);
+
+  async logout(): Promise<void> {
+    await AuthApiService.logout();
+    await this.store.clear();
+    this.currentUser = null;
+  }
+
+  async addComment(ticketId: string, comment: CommentInput, attachments: Attachment[] = []): Promise<void> {
+    if (comment.isInternal && !this.hasPermission('writeInternalNotes')) {
+      throw new Error('Somente agentes podem adicionar notas internas');
+    }
+    const ids = attachments.map(attachment => attachment.id);
+    this.model.upsertTicket(await TicketsApiService.addComment(ticketId, comment, ids));
+    this.notify();
+  }
+
+  async addAttachments(ticketId: string, attachments: Attachment[]): Promise<void> {
+    const ids = attachments.map(attachment => attachment.id);
+    this.model.upsertTicket(await TicketsApiService.addAttachments(ticketId, ids));
+    this.notify();
+  }
+
+  uploadAttachment = (file: File) => AttachmentsApiService.upload(file);
+  discardAttachment = (id: string) => AttachmentsApiService.discard(id);
+  getAttachmentUrl = (id: string, download = false) => AttachmentsApiService.url(id, download);
+
+  getTeams = () => this.model.getTeams();
+  getAgents = () => this.model.getAgents();
+  getAssigneeName = (id: string) => this.model.getAssigneeName(id);
+  getLegacyAssignees = () => this.summary?.legacyAssignees ?? [];
+  countAssignedTickets = (id: string) => this.summary?.assigned[id] ?? 0;
+
+  private applyDirectory(directory: Directory): void {
+    this.model.replaceDirectory(directory);
+    this.notify();
+  }
+
+  async saveTeam(id: string | null, team: TeamInput): Promise<void> {
+    this.applyDirectory(await DirectoryApiService.saveTeam(id, team));
+  }
+
+  async deleteTeam(id: string): Promise<void> {
+    this.applyDirectory(await DirectoryApiService.deleteTeam(id));
+  }
+
+  async saveAgent(id: string | null, agent: AgentInput): Promise<void> {
+    this.applyDirectory(await DirectoryApiService.saveAgent(id, agent));
+  }
+
+  async deleteAgent(id: string): Promise<void> {
+    this.applyDirectory(await DirectoryApiService.deleteAgent(id));
+  }
+
+  async mapLegacyAssignee(name: string, assigneeId: string): Promise<number> {
+    const { updated } = await DirectoryApiService.mapLegacyAssignee(name, assigneeId);
+    await this.refresh();
+    return updated;
+  }
+
+  getTicketComments = (ticketId: string) =>
+    this.model.getTicketComments(ticketId).filter(c => this.audience === 'agent' || !c.isInternal);
+  getTicketEvents = (ticketId: string) => this.model.getTicketEvents(ticketId);
+}
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+interface TicketsContextType {
+  controller: TicketsController;
+  currentUser: User | null;
+  forceUpdate: () => void;
+}
+
+const TicketsContext = createContext<TicketsContextType | null>(null);
+
+const useTickets = () => {
+  const context = useContext(TicketsContext);
+  if (!context) throw new Error('useTickets must be used within TicketsProvider');
+  return context;
+};
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+// What the ticket list shows, as carried in its URL: `q` and `sort`
+interface TicketListState {
+  query: string;
+  sort: string;
+}
+
+type Route =
+  | { view: 'login' }
+  | { view: 'dashboard' }
+  | ({ view: 'tickets' } & TicketListState)
+  | { view: 'board' }
+  | { view: 'import' }
+  | { view: 'new' }
+  | { view: 'detail'; ticketId: string }
+  | { view: 'edit'; ticketId: string }
+  | { view: 'directory' }
+  | { view: 'sla' }
+  | { view: 'workflow' }
+  | { view: 'notifications' }
+  | { view: 'webhooks' }
+  | { view: 'not-found' };
+
+const paths = Object.freeze({
+  login: (next?: string) => (next ? `/login?next=${encodeURIComponent(next)}` : '/login'),
+  dashboard: () => '/',
+  tickets: (query = '', sort = '') => {
+    const search = new URLSearchParams();
+    if (query) search.set('q', query);
+    if (sort) search.set('sort', sort);
+    const encoded = search.toString();
+    return encoded ? `/tickets?${encoded}` : '/tickets';
+  },
+  board: () => '/board',
+  importTickets: () => '/import',
+  newTicket: () => '/tickets/new',
+  ticket: (id: string) => `/tickets/${encodeURIComponent(id)}`,
+  editTicket: (id: string) => `/tickets/${encodeURIComponent(id)}/edit`,
+  directory: () => '/directory',
+  sla: () => '/sla',
+  workflow: () => '/workflow',
+  notifications: () => '/notifications',
+  webhooks: () => '/webhooks',
+});
+
+const parseRoute = (url: string): Route => {
+  const [pathname, search = ''] = url.split('#')[0].split('?');
+  const segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (segments.length === 0) return { view: 'dashboard' };
+  if (segments.length === 1 && segments[0] === 'login') return { view: 'login' };
+  if (segments.length === 1 && segments[0] === 'board') return { view: 'board' };
+  if (segments.length === 1 && segments[0] === 'import') return { view: 'import' };
+  if (segments.length === 1 && segments[0] === 'directory') return { view: 'directory' };
+  if (segments.length === 1 && segments[0] === 'sla') return { view: 'sla' };
+  if (segments.length === 1 && segments[0] === 'workflow') return { view: 'workflow' };
+  if (segments.length === 1 && segments[0] === 'notifications') return { view: 'notifications' };
+  if (segments.length === 1 && segments[0] === 'webhooks') return { view: 'webhooks' };
+  if (segments[0] !== 'tickets') return { view: 'not-found' };
+  if (segments.length === 1) {
+    const params = new URLSearchParams(search);
+    return { view: 'tickets', query: params.get('q') ?? '', sort: params.get('sort') ?? '' };
+  }
+  if (segments.length === 2) {
+    return segments[1] === 'new' ? { view: 'new' } : { view: 'detail', ticketId: segments[1] };
+  }
+  if (segments.length === 3 && segments[2] === 'edit') return { view: 'edit', ticketId: segments[1] };
+  return { view: 'not-found' };
+};
+
+const getRouteTicketId = (route: Route): string | null =>
+  route.view === 'detail' || route.view === 'edit' ? route.ticketId : null;
+
+// Views that sum up the whole queue, from the server's summary rather than from the tickets themselves
+const routeNeedsSummary = (route: Route): boolean =>
+  route.view === 'dashboard' || route.view === 'directory' || route.view === 'workflow';
+
+// ============================================================================
+// DEFAULT FORM DATA
+// ============================================================================
+
+const getDefaultFormData = (initialStatus: TicketStatus) => ({
+  title: '',
+  description: '',
+  category: 'technical' as TicketCategory,
+  priority: 'medium' as TicketPriority,
+  status: initialStatus,
+  author: '',
+  assigneeId: '',
+});
+
+// ============================================================================
+// VIEW COMPONENTS
+// ============================================================================
+
+// Re-renders on an interval so countdowns stay current
+const useNow = (intervalMs = 30000): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
+
+const SlaBadge: React.FC<{ kind: SlaTargetKind; target: SlaTarget; now: number }> = ({ kind, target, now }) => {
+  const label = SLA_TARGET_LABELS[kind];
+  let text: string;
+  if (target.completedAt !== undefined) {
+    text = `${label}: ${SLA_STATE_LABELS[target.state]}`;
+  } else if (target.state === 'breached') {
+    text = `${label}: vencido há ${formatDuration(now - target.dueAt)}`;
+  } else {
+    text = `${label}: ${formatDuration(target.dueAt - now)}`;
+  }
+
+  return (
+    <span
+      className={`badge-sla ${target.state}`}
+      title={`Prazo: ${new Date(target.dueAt).toLocaleString('pt-BR')}`}
+      suppressHydrationWarning
+    >
+      ⏱ {text}
+    </span>
+  );
+};
+
+const Header: React.FC<{
+  darkMode: boolean;
+  toggleTheme: () => void;
+  onNavigate: (path: string) => void;
+  onLogout: () => void;
+  currentView: Route['view'];
+  currentList: TicketListState | null;
+}> = ({ darkMode, toggleTheme, onNavigate, onLogout, currentView, currentList }) => {
+  const { controller, currentUser } = useTickets();
+  // As of the last summary loaded; pages without one have no count to show
+  const urgentCount = controller.getSummary()?.urgentTotal ?? 0;
+  const pinnedViews = controller.getPinnedViews();
+  const activeView = pinnedViews.find(
+    view => view.query === currentList?.query && (view.sort ?? '') === currentList.sort
+  );
+
+  return (
+    <header className="header">
+      <div className="header-content">
+        <div className="header-brand" onClick={() => onNavigate(paths.dashboard())}>
+          <svg className="header-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 5v2m0 4v2m0 4v2M5 5a2 2 0 00-2 2v3a2 2 0 110 4v3a2 2 0 002 2h14a2 2 0 002-2v-3a2 2 0 110-4V7a2 2 0 00-2-2H5z" />
+          </svg>
+          <h1>HelpDesk</h1>
+        </div>
+
+        <nav className="header-nav">
+          <button
+            onClick={() => onNavigate(paths.dashboard())}
+            className={currentView === 'dashboard' ? 'active' : ''}
+          >
+            Dashboard
+          </button>
+          <button
+            onClick={() => onNavigate(paths.tickets())}
+            className={['tickets', 'new', 'detail', 'edit'].includes(currentView) && !activeView ? 'active' : ''}
+          >
+            Tickets
+          </button>
+          {pinnedViews.map(view => (
+            <button
+              key={view.id}
+              onClick={() => onNavigate(paths.tickets(view.query, view.sort))}
+              className={`pinned-view ${activeView?.id === view.id ? 'active' : ''}`}
+              title={view.query}
+            >
+              📌 {view.name}
+            </button>
+          ))}
+          <button onClick={() => onNavigate(paths.board())} className={currentView === 'board' ? 'active' : ''}>
+            Quadro
+          </button>
+          {controller.hasPermission('manageDirectory') && (
+            <button
+              onClick={() => onNavigate(paths.directory())}
+              className={currentView === 'directory' ? 'active' : ''}
+            >
+              Equipe
+            </button>
+          )}
+          {controller.hasPermission('manageSla') && (
+            <button onClick={() => onNavigate(paths.sla())} className={currentView === 'sla' ? 'active' : ''}>
+              SLA
+            </button>
+          )}
+          {controller.hasPermission('manageWorkflow') && (
+            <button
+              onClick={() => onNavigate(paths.workflow())}
+              className={currentView === 'workflow' ? 'active' : ''}
+            >
+              Fluxo
+            </button>
+          )}
+          {controller.hasPermission('manageNotifications') && (
+            <button
+              onClick={() => onNavigate(paths.notifications())}
+              className={currentView === 'notifications' ? 'active' : ''}
+            >
+              E-mails
+            </button>
+          )}
+          {controller.hasPermission('manageWebhooks') && (
+            <button
+              onClick={() => onNavigate(paths.webhooks())}
+              className={currentView === 'webhooks' ? 'active' : ''}
+            >
+              Webhooks
+            </button>
+          )}
+        </nav>
+
+        <div className="header-actions">
+          {urgentCount > 0 && (
+            <div className="urgent-badge">
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              <span className="badge">{urgentCount}</span>
+            </div>
+          )}
+          {currentUser && (
+            <div className="header-user">
+              <div className="header-user-info">
+                <span className="header-user-name">{currentUser.name}</span>
+                <span className="header-user-role">{ROLE_LABELS[currentUser.role]}</span>
+              </div>
+              <button onClick={onLogout} className="btn-secondary">Sair</button>
+            </div>
+          )}
+          <button onClick={toggleTheme} className="theme-toggle">
+            {darkMode ? (
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
+              </svg>
+            ) : (
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+              </svg>
+            )}
+          </button>
+        </div>
+      </div>
+    </header>
+  );
+};
+
+const Highlighted: React.FC<{ segments: TextSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.match ? <mark key={index}>{segment.text}</mark> : <React.Fragment key={index}>{segment.text}</React.Fragment>
+    )}
+  </>
+);
+
+const TicketCard: React.FC<{
+  ticket: Ticket;
+  onClick: () => void;
+  highlight?: string;
+  /** Shows a selection checkbox when given; the flag says whether Shift was held */
+  onSelect?: (range: boolean) => void;
+  selected?: boolean;
+  /** Board layout: no description, tighter spacing */
+  compact?: boolean;
+}> = ({ ticket, onClick, highlight = '', onSelect, selected = false, compact = false }) => {
+  const { controller } = useTickets();
+  const now = useNow();
+  const sla = controller.getTicketSla(ticket, now);
+  const category = CATEGORIES.find(c => c.value === ticket.category);
+  const priority = PRIORITIES.find(p => p.value === ticket.priority);
+  const status = controller.getStatus(ticket.status);
+  // The ticket is already redacted, so only comments this user may read can surface here
+  const commentSnippet = highlight
+    ? ticket.comments.reduce<TextSegment[] | null>(
+        (found, comment) => found ?? getSearchSnippet(comment.content, highlight, 120),
+        null
+      )
+    : null;
+
+  const timeAgo = (timestamp: number) => {
+    const diff = Date.now() - timestamp;
+    const minutes = Math.floor(diff / 60000);
+    const hours = Math.floor(diff / 3600000);
+    const days = Math.floor(diff / 86400000);
+
+    if (minutes < 60) return `${minutes}m atrás`;
+    if (hours < 24) return `${hours}h atrás`;
+    return `${days}d atrás`;
+  };
+
+  return (
+    <div className={`ticket-card ${selected ? 'selected' : ''} ${compact ? 'compact' : ''}`} onClick={onClick}>
+      <div className="ticket-card-header">
+        <div className="ticket-id">
+          {onSelect && (
+            <input
+              type="checkbox"
+              className="ticket-select"
+              checked={selected}
+              aria-label={`Selecionar ${ticket.title}`}
+              onChange={() => {}}
+              onClick={e => {
+                e.stopPropagation();
+                onSelect(e.shiftKey);
+              }}
+            />
+          )}
+          #{ticket.id.slice(-8)}
+        </div>
+        <div className="ticket-badges">
+          <span className="badge-priority" style={{ backgroundColor: priority?.color }}>
+            {priority?.label}
+          </span>
+          <span className="badge-status" style={{ backgroundColor: status.color }}>
+            {status.icon} {status.label}
+          </span>
+        </div>
+      </div>
+
+      <h3 className="ticket-title">
+        <Highlighted segments={highlightText(ticket.title, highlight)} />
+      </h3>
+      {!compact && (
+        <p className="ticket-description">
+          <Highlighted
+            segments={getSearchSnippet(ticket.description, highlight) ?? [{ text: ticket.description, match: false }]}
+          />
+        </p>
+      )}
+      {commentSnippet && (
+        <p className="ticket-comment-snippet">
+          💬 <Highlighted segments={commentSnippet} />
+        </p>
+      )}
+
+      {sla && (
+        <div className="ticket-sla">
+          <SlaBadge kind={nextSlaTarget(sla)} target={sla[nextSlaTarget(sla)]} now={now} />
+        </div>
+      )}
+
+      <div className="ticket-footer">
+        <div className="ticket-meta">
+          <span className="ticket-category" style={{ color: category?.color }}>
+            {category?.icon} {category?.label}
+          </span>
+          <span className="ticket-author">👤 {ticket.author}</span>
+        </div>
+        <div className="ticket-time" suppressHydrationWarning>{timeAgo(ticket.updatedAt)}</div>
+      </div>
+
+      {ticket.comments.length > 0 && (
+        <div className="ticket-comments-count">
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+          </svg>
+          {ticket.comments.length}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Rendered once the summary has loaded
+const DashboardView: React.FC<{ onTicketClick: (id: string) => void; onNavigate: (path: string) => void }> = ({
+  onTicketClick,
+  onNavigate,
+}) => {
+  const { controller } = useTickets();
+  const [timeMode, setTimeMode] = useState<TimeMode>('business');
+  const summary = controller.getSummary()!;
+  const stats = summary.statistics[timeMode];
+  const urgentTickets = summary.urgent;
+  const now = useNow();
+  const atRiskTickets = summary.atRisk;
+  const recentTickets = summary.recent;
+
+  // Loaded after mount, like the theme, so hydration matches the server render
+  useEffect(() => {
+    setTimeMode(StorageService.loadFromStorage<TimeMode>(StorageService.getKeys().TIME_MODE, 'business'));
+  }, []);
+
+  const changeTimeMode = (mode: TimeMode) => {
+    setTimeMode(mode);
+    StorageService.saveToStorage(StorageService.getKeys().TIME_MODE, mode);
+  };
+
+  return (
+    <div className="dashboard-view">
+      <div className="dashboard-header">
+        <div>
+          <h2>Dashboard</h2>
+          <p className="dashboard-subtitle">Visão geral do sistema de tickets</p>
+        </div>
+        <div className="time-mode-toggle" role="group" aria-label="Contagem de tempo">
+          <button className={timeMode === 'business' ? 'active' : ''} onClick={() => changeTimeMode('business')}>
+            Horário comercial
+          </button>
+          <button className={timeMode === 'calendar' ? 'active' : ''} onClick={() => changeTimeMode('calendar')}>
+            Tempo corrido
+          </button>
+        </div>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stat-card total">
+          <div className="stat-icon">📊</div>
+          <div className="stat-content">
+            <div className="stat-value">{stats.total}</div>
+            <div className="stat-label">Total de Tickets</div>
+          </div>
+        </div>
+
+        {controller.getWorkflow().statuses.map(status => (
+          <div key={status.id} className="stat-card">
+            <div className="stat-icon">{status.icon}</div>
+            <div className="stat-content">
+              <div className="stat-value" style={{ color: status.color }}>{stats.byStatus[status.id]}</div>
+              <div className="stat-label">{status.label}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="stats-row">
+        <div className="stats-section">
+          <h3>Por Prioridade</h3>
+          <div className="priority-stats">
+            {PRIORITIES.map(p => (
+              <div key={p.value} className="priority-item">
+                <span className="priority-label" style={{ color: p.color }}>
+                  {p.label}
+                </span>
+                <span className="priority-count">{stats.byPriority[p.value]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="stats-section">
+          <h3>Tempo Médio de Resolução</h3>
+          <div className="resolution-time">
+            {stats.averageResolutionTime > 0 ? formatDuration(stats.averageResolutionTime, timeMode) : 'N/A'}
+          </div>
+          <p className="resolution-caption">
+            1ª resposta em média:{' '}
+            {stats.averageFirstResponseTime > 0 ? formatDuration(stats.averageFirstResponseTime, timeMode) : 'N/A'}
+            {timeMode === 'business' && ` · ${getBusinessCalendar().name}`}
+          </p>
+        </div>
+
+        {stats.byAssignee.length > 0 && (
+          <div className="stats-section">
+            <h3>Carga por Responsável</h3>
+            <div className="priority-stats">
+              {stats.byAssignee.map(entry => (
+                <div key={entry.id} className="priority-item">
+                  <span className="priority-label">{entry.name}</span>
+                  <span className="priority-count">{entry.open}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {atRiskTickets.length > 0 && (
+        <div className="urgent-section sla-section">
+          <h3>⏰ SLA em Risco</h3>
+          <div className="urgent-list">
+            {atRiskTickets.map(ticket => {
+              const sla = controller.getTicketSla(ticket, now)!;
+              const kind = nextSlaTarget(sla);
+              return (
+                <div key={ticket.id} className="urgent-item" onClick={() => onTicketClick(ticket.id)}>
+                  <div className="urgent-info">
+                    <h4>{ticket.title}</h4>
+                    <span className="urgent-author">{describeSlaPolicy(sla.policy)}</span>
+                  </div>
+                  <SlaBadge kind={kind} target={sla[kind]} now={now} />
+                </div>
+              );
+            })}
+          </div>
+          {summary.atRiskTotal > atRiskTickets.length && (
+            <button className="link-button" onClick={() => onNavigate(paths.tickets('sla:at-risk,breached', 'sla'))}>
+              + {summary.atRiskTotal - atRiskTickets.length} tickets
+            </button>
+          )}
+        </div>
+      )}
+
+      {urgentTickets.length > 0 && (
+        <div className="urgent-section">
+          <h3>⚠️ Tickets Urgentes</h3>
+          <div className="urgent-list">
+            {urgentTickets.map(ticket => (
+              <div
+                key={ticket.id}
+                className="urgent-item"
+                onClick={() => onTicketClick(ticket.id)}
+              >
+                <div className="urgent-info">
+                  <h4>{ticket.title}</h4>
+                  <span className="urgent-author">Por {ticket.author}</span>
+                </div>
+                <span className="urgent-category">{CATEGORIES.find(c => c.value === ticket.category)?.icon}</span>
+              </div>
+            ))}
+          </div>
+          {summary.urgentTotal > urgentTickets.length && (
+            <button className="link-button" onClick={() => onNavigate(paths.tickets('priority:urgent', 'sla'))}>
+              + {summary.urgentTotal - urgentTickets.length} tickets
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="recent-tickets">
+        <h3>Tickets Recentes</h3>
+        <div className="tickets-grid">
+          {recentTickets.map(ticket => (
+            <TicketCard key={ticket.id} ticket={ticket} onClick={() => onTicketClick(ticket.id)} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Must agree with the .tickets-grid-virtual rules in APP_STYLES
+// Typing settles this long before the list asks the server for the new query
+const LIST_QUERY_DELAY = 250;
+
+const CARD_MIN_WIDTH = 320;
+const CARD_GRID_GAP = 24;
+const CARD_ROW_HEIGHT = 268;
+const OVERSCAN_ROWS = 2;
+
+// Only the rows near the viewport are mounted; the container keeps the full height so the page scrolls normally
+const VirtualTicketGrid: React.FC<{
+  tickets: Ticket[];
+  highlight: string;
+  onTicketClick: (id: string) => void;
+  selectedIds: Set<string>;
+  onSelect: (id: string, range: boolean) => void;
+}> = ({ tickets, highlight, onTicketClick, selectedIds, onSelect }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The server has no viewport, so it renders the first few rows at three columns
+  const [layout, setLayout] = useState({ columns: 3, firstRow: 0, lastRow: 4 });
+
+  useEffect(() => {
+    const update = () => {
+      const container = containerRef.current;
+      if (!container) return;
+      const rect = container.getBoundingClientRect();
+      const columns = Math.max(1, Math.floor((rect.width + CARD_GRID_GAP) / (CARD_MIN_WIDTH + CARD_GRID_GAP)));
+      const firstRow = Math.max(0, Math.floor(-rect.top / CARD_ROW_HEIGHT) - OVERSCAN_ROWS);
+      const lastRow = Math.max(0, Math.ceil((window.innerHeight - rect.top) / CARD_ROW_HEIGHT) + OVERSCAN_ROWS);
+      setLayout(prev =>
+        prev.columns === columns && prev.firstRow === firstRow && prev.lastRow === lastRow
+          ? prev
+          : { columns, firstRow, lastRow }
+      );
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [tickets.length]);
+
+  const { columns } = layout;
+  const rows = Math.ceil(tickets.length / columns);
+  const firstRow = Math.min(layout.firstRow, rows);
+  const lastRow = Math.min(layout.lastRow, rows);
+
+  return (
+    <div ref={containerRef} className="tickets-grid-virtual" style={{ height: rows * CARD_ROW_HEIGHT - CARD_GRID_GAP }}>
+      <div
+        className="tickets-grid"
+        style={{
+          gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          transform: `translateY(${firstRow * CARD_ROW_HEIGHT}px)`,
+        }}
+      >
+        {tickets.slice(firstRow * columns, lastRow * columns).map(ticket => (
+          <TicketCard
+            key={ticket.id}
+            ticket={ticket}
+            highlight={highlight}
+            onClick={() => onTicketClick(ticket.id)}
+            selected={selectedIds.has(ticket.id)}
+            onSelect={range => onSelect(ticket.id, range)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SavedViewsBar: React.FC<{ list: TicketListState; onApply: (list: TicketListState) => void }> = ({
+  list,
+  onApply,
+}) => {
+  const { controller } = useTickets();
+  const views = controller.getSavedViews();
+  const canPublish = controller.hasPermission('publishViews');
+  const [form, setForm] = useState<SavedViewInput | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      alert((error as Error).message);
+      return false;
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form && (await run(() => controller.saveView(null, form)))) setForm(null);
+  };
+
+  const handleCopyLink = async () => {
+    await run(() => navigator.clipboard.writeText(window.location.href));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (confirm(`Excluir a visualização "${view.name}"?`)) run(() => controller.deleteView(view.id));
+  };
+
+  return (
+    <div className="saved-views">
+      <div className="saved-views-list">
+        <span className="filter-label">Visualizações:</span>
+        {views.length === 0 && <span className="saved-views-empty">Nenhuma visualização salva</span>}
+        {views.map(view => (
+          <div
+            key={view.id}
+            className={`saved-view ${view.query === list.query && (view.sort ?? '') === list.sort ? 'active' : ''}`}
+          >
+            <button
+              className="saved-view-name"
+              onClick={() => onApply({ query: view.query, sort: view.sort ?? '' })}
+              title={view.query}
+            >
+              {view.shared && <span title={`Publicada por ${view.ownerName}`}>🌐 </span>}
+              {view.name}
+            </button>
+            <button
+              className={`saved-view-action ${view.pinnedBy.length > 0 ? 'on' : ''}`}
+              onClick={() => run(() => controller.pinView(view.id, view.pinnedBy.length === 0))}
+              title={view.pinnedBy.length > 0 ? 'Desafixar do menu' : 'Fixar no menu'}
+            >
+              📌
+            </button>
+            {controller.isViewOwner(view) && canPublish && (
+              <button
+                className="saved-view-action"
+                onClick={() =>
+                  run(() =>
+                    controller.saveView(view.id, {
+                      name: view.name,
+                      query: view.query,
+                      sort: view.sort,
+                      shared: !view.shared,
+                    })
+                  )
+                }
+                title={view.shared ? 'Tornar privada' : 'Publicar para a equipe'}
+              >
+                {view.shared ? '🔒' : '🌐'}
+              </button>
+            )}
+            {controller.isViewOwner(view) && (
+              <button className="saved-view-action" onClick={() => handleDelete(view)} title="Excluir">
+                🗑️
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {form ? (
+        <form className="saved-view-form" onSubmit={handleSave}>
+          <input
+            type="text"
+            placeholder="Nome da visualização"
+            value={form.name}
+            maxLength={60}
+            autoFocus
+            onChange={e => setForm({ ...form, name: e.target.value })}
+          />
+          {canPublish && (
+            <label>
+              <input
+                type="checkbox"
+                checked={form.shared}
+                onChange={e => setForm({ ...form, shared: e.target.checked })}
+              />
+              Publicar para a equipe
+            </label>
+          )}
+          <button type="submit" className="btn-primary">Salvar</button>
+          <button type="button" className="btn-secondary" onClick={() => setForm(null)}>Cancelar</button>
+        </form>
+      ) : (
+        <div className="saved-views-actions">
+          <button
+            className="btn-secondary"
+            disabled={!list.query.trim() && !list.sort}
+            onClick={() => setForm({ name: '', query: list.query, sort: list.sort, shared: false })}
+          >
+            💾 Salvar visualização
+          </button>
+          <button className="btn-secondary" onClick={handleCopyLink}>
+            {copied ? '✓ Link copiado' : '🔗 Copiar link'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BULK_ACTION_LABELS: Record<BulkAction['type'], string> = {
+  status: 'Alterar status',
+  priority: 'Alterar prioridade',
+  category: 'Alterar categoria',
+  assignee: 'Alterar responsável',
+  comment: 'Adicionar comentário',
+  delete: 'Excluir',
+};
+
+interface BulkReport {
+  label: string;
+  results: BulkResult[];
+  titles: Record<string, string>;
+}
+
+/**
+ * Acts on the selected tickets, or with `allMatching` on every ticket the
+ * list's query matches, loaded or not; the server resolves the query.
+ */
+const BulkActionBar: React.FC<{
+  selected: Ticket[];
+  query: string;
+  matching: number;
+  allMatching: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDone: (report: BulkReport) => void;
+}> = ({ selected, query, matching, allMatching, onSelectAll, onClear, onDone }) => {
+  const { controller } = useTickets();
+  const [type, setType] = useState<BulkAction['type']>('status');
+  const [value, setValue] = useState('');
+  const [comment, setComment] = useState({ content: '', isInternal: false });
+  const [isApplying, setIsApplying] = useState(false);
+
+  const available = (Object.keys(BULK_ACTION_LABELS) as BulkAction['type'][]).filter(
+    action =>
+      (action !== 'status' || controller.hasPermission('changeStatus')) &&
+      (action !== 'assignee' || controller.hasPermission('assignTickets')) &&
+      (action !== 'delete' || controller.hasPermission('deleteTickets'))
+  );
+  const current = available.includes(type) ? type : available[0];
+
+  const buildAction = (): BulkAction | null => {
+    switch (current) {
+      case 'status':
+        return value ? { type: 'status', status: value } : null;
+      case 'priority':
+        return value ? { type: 'priority', priority: value as TicketPriority } : null;
+      case 'category':
+        return value ? { type: 'category', category: value as TicketCategory } : null;
+      case 'assignee':
+        return { type: 'assignee', assigneeId: value };
+      case 'comment':
+        return comment.content.trim() ? { type: 'comment', ...comment } : null;
+      case 'delete':
+        return { type: 'delete' };
+    }
+  };
+  const action = buildAction();
+  const count = allMatching ? matching : selected.length;
+
+  const handleApply = async () => {
+    if (!action) return;
+    if (action.type === 'delete' && !confirm(`Excluir ${count} ticket(s)? Esta ação não pode ser desfeita.`)) {
+      return;
+    }
+    setIsApplying(true);
+    try {
+      const target: BulkTarget = allMatching ? { query } : { ids: selected.map(ticket => ticket.id) };
+      const results = await controller.applyBulkAction(target, action);
+      // Tickets past the loaded pages are only known by what the server sent back
+      const titles = Object.fromEntries([
+        ...results.flatMap(result => (result.ticket ? [[result.id, result.ticket.title]] : [])),
+        ...selected.map(ticket => [ticket.id, ticket.title]),
+      ]);
+      onDone({ label: BULK_ACTION_LABELS[action.type], results, titles });
+      if (action.type === 'comment') setComment({ content: '', isInternal: false });
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="bulk-bar">
+      <div className="bulk-selection">
+        <strong>{count} selecionado(s)</strong>
+        {count < matching && (
+          <button className="link-button" onClick={onSelectAll}>Selecionar todos os {matching}</button>
+        )}
+        <button className="link-button" onClick={onClear}>Limpar seleção</button>
+      </div>
+
+      <div className="bulk-controls">
+        <select
+          value={current}
+          onChange={e => {
+            setType(e.target.value as BulkAction['type']);
+            setValue('');
+          }}
+        >
+          {available.map(option => (
+            <option key={option} value={option}>{BULK_ACTION_LABELS[option]}</option>
+          ))}
+        </select>
+
+        {current === 'status' && (
+          <select value={value} onChange={e => setValue(e.target.value)}>
+            <option value="">Escolha o status…</option>
+            {controller.getWorkflow().statuses.map(status => (
+              <option key={status.id} value={status.id}>{status.icon} {status.label}</option>
+            ))}
+          </select>
+        )}
+        {current === 'priority' && (
+          <select value={value} onChange={e => setValue(e.target.value)}>
+            <option value="">Escolha a prioridade…</option>
+            {PRIORITIES.map(p => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+        )}
+        {current === 'category' && (
+          <select value={value} onChange={e => setValue(e.target.value)}>
+            <option value="">Escolha a categoria…</option>
+            {CATEGORIES.map(c => (
+              <option key={c.value} value={c.value}>{c.icon} {c.label}</option>
+            ))}
+          </select>
+        )}
+        {current === 'assignee' && <AssigneePicker value={value} onChange={setValue} />}
+        {current === 'comment' && (
+          <>
+            <input
+              type="text"
+              placeholder="Comentário para todos os tickets selecionados"
+              value={comment.content}
+              onChange={e => setComment({ ...comment, content: e.target.value })}
+            />
+            {controller.hasPermission('writeInternalNotes') && (
+              <label className="bulk-internal">
+                <input
+                  type="checkbox"
+                  checked={comment.isInternal}
+                  onChange={e => setComment({ ...comment, isInternal: e.target.checked })}
+                />
+                Nota interna
+              </label>
+            )}
+          </>
+        )}
+
+        <button
+          className={current === 'delete' ? 'btn-danger' : 'btn-primary'}
+          disabled={!action || isApplying}
+          onClick={handleApply}
+        >
+          {isApplying ? 'Aplicando…' : `Aplicar a ${count}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const BulkReportPanel: React.FC<{ report: BulkReport; onClose: () => void }> = ({ report, onClose }) => {
+  const skipped = report.results.filter(result => !result.ok);
+  const succeeded = report.results.length - skipped.length;
+
+  return (
+    <div className={`bulk-report ${skipped.length > 0 ? 'has-skipped' : ''}`}>
+      <div className="bulk-report-header">
+        <span>
+          {report.label}: <strong>{succeeded}</strong> concluído(s)
+          {skipped.length > 0 && <>, <strong>{skipped.length}</strong> ignorado(s)</>}
+        </span>
+        <button className="link-button" onClick={onClose}>Fechar</button>
+      </div>
+      {skipped.length > 0 && (
+        <ul>
+          {skipped.map(result => (
+            <li key={result.id}>
+              <span className="ticket-id">#{result.id.slice(-8)}</span> {report.titles[result.id] ?? result.id} —{' '}
+              {result.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const TicketsListView: React.FC<{
+  list: TicketListState;
+  onListChange: (list: TicketListState) => void;
+  onTicketClick: (id: string) => void;
+  onNewTicket: () => void;
+  onImport: () => void;
+}> = ({ list, onListChange, onTicketClick, onNewTicket, onImport }) => {
+  const { controller } = useTickets();
+  const { query } = list;
+  const [cursor, setCursor] = useState(query.length);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  // The query whose every match is selected, including tickets on pages not loaded yet
+  const [allMatchingQuery, setAllMatchingQuery] = useState<string | null>(null);
+  const selectionAnchor = useRef<string | null>(null);
+  const [bulkReport, setBulkReport] = useState<BulkReport | null>(null);
+
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const workflow = controller.getWorkflow();
+  const sort = parseTicketSort(list.sort) ?? DEFAULT_TICKET_SORT;
+  const onQueryChange = (next: string) => onListChange({ ...list, query: next });
+  const handleSortChange = (next: TicketSort) => onListChange({ ...list, sort: formatTicketSort(next) });
+
+  // A query that does not parse leaves the list unfiltered and explains why
+  const effective = effectiveTicketList(list);
+  const { error } = effective;
+  const parsed = error ? null : parseTicketQuery(query);
+
+  // The server pages through the matches; the previous results stay up while the next query loads
+  const loaded = controller.getTicketList();
+  const isCurrent = loaded?.query === effective.query && loaded.sort === effective.sort;
+  const filteredTickets = loaded?.tickets ?? [];
+
+  useEffect(() => {
+    if (isCurrent) return;
+    const timer = setTimeout(() => {
+      setLoadError(null);
+      controller
+        .loadTicketList({ query: effective.query, sort: effective.sort })
+        .catch(err => setLoadError((err as Error).message));
+    }, LIST_QUERY_DELAY);
+    return () => clearTimeout(timer);
+  }, [controller, effective.query, effective.sort, isCurrent]);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    setLoadError(null);
+    try {
+      await controller.loadTicketList({ query: effective.query, sort: effective.sort }, true);
+    } catch (err) {
+      setLoadError((err as Error).message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const { from, to, suggestions } = getQuerySuggestions(query, cursor, {
+    workflow,
+    agents: controller.getAgents(),
+    teams: controller.getTeams(),
+  });
+  const suggestionsOpen = showSuggestions && suggestions.length > 0;
+
+  // The shortcut buttons reflect a plain single-value clause, e.g. "priority:high"
+  const activeValue = (field: QueryField): string | null => {
+    const clauses = parsed?.clauses.filter(c => c.field === field) ?? [];
+    const [clause] = clauses;
+    return clauses.length === 1 && !clause.negated && clause.comparator === '=' && clause.values.length === 1
+      ? clause.values[0]
+      : null;
+  };
+
+  const applySuggestion = (suggestion: QuerySuggestion) => {
+    const trailing = suggestion.insert.endsWith(':') ? '' : ' ';
+    const next = query.slice(0, from) + suggestion.insert + trailing + query.slice(to).replace(/^\S*/, '').trimStart();
+    const position = from + suggestion.insert.length + trailing.length;
+    onQueryChange(next);
+    setCursor(position);
+    setActiveSuggestion(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestionsOpen) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveSuggestion(prev => (prev + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(activeSuggestion, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  const handleFilter = (field: QueryField, value: string | null) => onQueryChange(setQueryField(query, field, value));
+
+  // Selection outlives filtering, but actions only reach the selected tickets that still match
+  const allMatching = !!loaded && isCurrent && allMatchingQuery === effective.query;
+  const selectedTickets = allMatching ? filteredTickets : filteredTickets.filter(ticket => selectedIds.has(ticket.id));
+
+  // Shift-click extends from the last plain click to this card, in list order.
+  // Any click narrows a select-all down to the loaded tickets picked by hand.
+  const handleSelect = (id: string, range: boolean) => {
+    const next = new Set(allMatching ? filteredTickets.map(ticket => ticket.id) : selectedIds);
+    setAllMatchingQuery(null);
+    const anchorIndex = filteredTickets.findIndex(ticket => ticket.id === selectionAnchor.current);
+    if (range && anchorIndex !== -1) {
+      const index = filteredTickets.findIndex(ticket => ticket.id === id);
+      const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      filteredTickets.slice(start, end + 1).forEach(ticket => next.add(ticket.id));
+    } else {
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      selectionAnchor.current = id;
+    }
+    setSelectedIds(next);
+  };
+
+  const handleBulkDone = (report: BulkReport) => {
+    setBulkReport(report);
+    setAllMatchingQuery(null);
+    // Skipped tickets stay selected so they can be retried or handled one by one
+    setSelectedIds(new Set(report.results.filter(result => !result.ok).map(result => result.id)));
+  };
+
+  const category = activeValue('category');
+  const priority = activeValue('priority');
+  const status = activeValue('status');
+  const highlight = parsed?.terms.filter(term => !term.negated).map(term => term.text).join(' ') ?? '';
+
+  return (
+    <div className="tickets-list-view">
+      <div className="list-header">
+        <h2>Todos os Tickets</h2>
+        <button onClick={onNewTicket} className="btn-primary">
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Novo Ticket
+        </button>
+      </div>
+
+      <SavedViewsBar list={list} onApply={onListChange} />
+
+      <div className="filters-section">
+        <div className="query-box">
+          <div className={`search-box ${error ? 'invalid' : ''}`}>
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <input
+              ref={inputRef}
+              type="text"
+              placeholder='Buscar tickets... ex.: status:open priority:>=high assignee:"Ana" updated:<7d'
+              value={query}
+              spellCheck={false}
+              aria-invalid={!!error}
+              onChange={e => {
+                onQueryChange(e.target.value);
+                setCursor(e.target.selectionStart ?? e.target.value.length);
+                setShowSuggestions(true);
+                setActiveSuggestion(0);
+              }}
+              onSelect={e => setCursor(e.currentTarget.selectionStart ?? query.length)}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              onKeyDown={handleKeyDown}
+            />
+          </div>
+          {suggestionsOpen && (
+            <ul className="query-suggestions" role="listbox">
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={`${suggestion.insert}-${index}`}
+                  role="option"
+                  aria-selected={index === activeSuggestion}
+                  className={index === activeSuggestion ? 'active' : ''}
+                  onMouseDown={e => {
+                    e.preventDefault();
+                    applySuggestion(suggestion);
+                  }}
+                >
+                  <span className="suggestion-label">{suggestion.label}</span>
+                  {suggestion.detail && <span className="suggestion-detail">{suggestion.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          {error && <p className="query-error">{error}</p>}
+          {loadError && <p className="query-error">{loadError}</p>}
+        </div>
+
+        <div className="filter-groups">
+          <div className="filter-group">
+            <span className="filter-label">Categoria:</span>
+            <button
+              onClick={() => handleFilter('category', null)}
+              className={`filter-btn ${!category ? 'active' : ''}`}
+            >
+              Todas
+            </button>
+            {CATEGORIES.map(cat => (
+              <button
+                key={cat.value}
+                onClick={() => handleFilter('category', cat.value)}
+                className={`filter-btn ${category === cat.value ? 'active' : ''}`}
+              >
+                {cat.icon} {cat.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="filter-group">
+            <span className="filter-label">Prioridade:</span>
+            <button
+              onClick={() => handleFilter('priority', null)}
+              className={`filter-btn ${!priority ? 'active' : ''}`}
+            >
+              Todas
+            </button>
+            {PRIORITIES.map(p => (
+              <button
+                key={p.value}
+                onClick={() => handleFilter('priority', p.value)}
+                className={`filter-btn ${priority === p.value ? 'active' : ''}`}
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="filter-group">
+            <span className="filter-label">Status:</span>
+            <button
+              onClick={() => handleFilter('status', null)}
+              className={`filter-btn ${!status ? 'active' : ''}`}
+            >
+              Todos
+            </button>
+            {workflow.statuses.map(s => (
+              <button
+                key={s.id}
+                onClick={() => handleFilter('status', s.id)}
+                className={`filter-btn ${status === s.id ? 'active' : ''}`}
+              >
+                {s.icon} {s.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="list-toolbar">
+        <div className="tickets-count">
+          {loaded ? (
+            <>
+              {loaded.total} {loaded.total === 1 ? 'ticket encontrado' : 'tickets encontrados'}
+              {loaded.tickets.length < loaded.total && ` (${loaded.tickets.length} carregados)`}
+            </>
+          ) : (
+            'Carregando tickets...'
+          )}
+        </div>
+        <div className="transfer-actions">
+          <details className="export-menu">
+            <summary className="btn-secondary">Exportar</summary>
+            <div className="export-options">
+              <a href={controller.getExportUrl('csv', effective.query, effective.sort)} download>CSV — lista atual</a>
+              <a href={controller.getExportUrl('json', effective.query, effective.sort)} download>JSON — lista atual</a>
+              <a href={controller.getExportUrl('csv')} download>CSV — todos os tickets</a>
+              <a href={controller.getExportUrl('json')} download>JSON — todos os tickets</a>
+            </div>
+          </details>
+          {controller.hasPermission('importTickets') && (
+            <button className="btn-secondary" onClick={onImport}>Importar</button>
+          )}
+        </div>
+        <div className="sort-control">
+          <label htmlFor="ticket-sort">Ordenar por</label>
+          <select
+            id="ticket-sort"
+            value={sort.key}
+            onChange={e => {
+              const key = TICKET_SORT_KEYS.find(k => k.value === e.target.value)!;
+              handleSortChange({ key: key.value, descending: key.descending });
+            }}
+          >
+            {TICKET_SORT_KEYS.map(key => (
+              <option key={key.value} value={key.value}>{key.label}</option>
+            ))}
+          </select>
+          <button
+            className="btn-secondary"
+            disabled={sort.key === 'relevance'}
+            onClick={() => handleSortChange({ ...sort, descending: !sort.descending })}
+            title={sort.descending ? 'Decrescente' : 'Crescente'}
+          >
+            {sort.descending ? '↓' : '↑'}
+          </button>
+        </div>
+      </div>
+
+      {bulkReport && <BulkReportPanel report={bulkReport} onClose={() => setBulkReport(null)} />}
+
+      {(selectedTickets.length > 0 || allMatching) && (
+        <BulkActionBar
+          selected={selectedTickets}
+          query={effective.query}
+          matching={loaded?.total ?? 0}
+          allMatching={allMatching}
+          onSelectAll={() => setAllMatchingQuery(effective.query)}
+          onClear={() => {
+            setSelectedIds(new Set());
+            setAllMatchingQuery(null);
+          }}
+          onDone={handleBulkDone}
+        />
+      )}
+
+      {!loaded ? null : filteredTickets.length === 0 ? (
+        <div className="empty-state">
+          <p>Nenhum ticket encontrado</p>
+          <button onClick={onNewTicket} className="btn-primary">Criar Primeiro Ticket</button>
+        </div>
+      ) : (
+        <VirtualTicketGrid
+          tickets={filteredTickets}
+          highlight={highlight}
+          onTicketClick={onTicketClick}
+          selectedIds={allMatching ? new Set(filteredTickets.map(ticket => ticket.id)) : selectedIds}
+          onSelect={handleSelect}
+        />
+      )}
+
+      {isCurrent && loaded.nextCursor && (
+        <div className="list-more">
+          <button className="btn-secondary" disabled={isLoadingMore} onClick={handleLoadMore}>
+            {isLoadingMore ? 'Carregando...' : 'Carregar mais'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface BoardLane {
+  id: string;
+  label: string | null;
+}
+
+const BoardView: React.FC<{ onTicketClick: (id: string) => void; onNavigate: (path: string) => void }> = ({
+  onTicketClick,
+  onNavigate,
+}) => {
+  const { controller } = useTickets();
+  const workflow = controller.getWorkflow();
+  const canMove = controller.hasPermission('changeStatus');
+  const [swimlane, setSwimlane] = useState<BoardSwimlane>('none');
+  const [dragged, setDragged] = useState<{ ticket: Ticket; laneId: string } | null>(null);
+  const [hovered, setHovered] = useState<TicketStatus | null>(null);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // The server counts every cell and sends its first cards; any change since reloads them
+  const board = controller.getBoard(swimlane);
+  const isCurrent = board?.current ?? false;
+  const tickets = board?.tickets ?? [];
+
+  useEffect(() => {
+    if (isCurrent) return;
+    setLoadError(null);
+    controller.loadBoard(swimlane).catch(err => setLoadError((err as Error).message));
+  }, [controller, swimlane, isCurrent]);
+
+  const cellTotal = (status: TicketStatus, lane: string) =>
+    board?.cells.find(cell => cell.status === status && cell.lane === lane)?.total ?? 0;
+  const counts = new Map(workflow.statuses.map(status => [status.id, 0]));
+  board?.cells.forEach(cell => counts.set(cell.status, (counts.get(cell.status) ?? 0) + cell.total));
+
+  const lanes: BoardLane[] = (() => {
+    const ids = board?.lanes ?? [];
+    switch (swimlane) {
+      case 'priority':
+        return ids.map(id => ({ id, label: PRIORITIES.find(p => p.value === id)?.label ?? id }));
+      case 'assignee':
+        return ids
+          .map(id => ({ id, label: id ? controller.getAssigneeName(id) ?? id : 'Não atribuído' }))
+          .sort((a, b) => (a.id ? 0 : 1) - (b.id ? 0 : 1) || a.label.localeCompare(b.label));
+      default:
+        return ids.map(id => ({ id, label: null }));
+    }
+  })();
+
+  // Decided while hovering, so an invalid drop is refused before the card is released
+  const checkDrop = (status: WorkflowStatus): { allowed: boolean; reason?: string } => {
+    if (!dragged || dragged.ticket.status === status.id) return { allowed: false };
+    if (!isTransitionAllowed(workflow, dragged.ticket.status, status.id)) {
+      return {
+        allowed: false,
+        reason: `Não é possível mover de "${controller.getStatus(dragged.ticket.status).label}" para "${status.label}"`,
+      };
+    }
+    if (status.wipLimit !== undefined && (counts.get(status.id) ?? 0) >= status.wipLimit) {
+      return { allowed: false, reason: `Limite WIP de ${status.wipLimit} atingido` };
+    }
+    return { allowed: true };
+  };
+
+  const handleDrop = async (status: WorkflowStatus) => {
+    if (!dragged || !checkDrop(status).allowed) return;
+    const { ticket } = dragged;
+    setDragged(null);
+    setHovered(null);
+    if (!(await controller.changeTicketStatus(ticket.id, status.id))) {
+      setMoveError(`Não foi possível mover "${ticket.title}" para "${status.label}"`);
+    }
+  };
+
+  return (
+    <div className="board-view">
+      <div className="list-header">
+        <h2>Quadro</h2>
+        <div className="sort-control">
+          <label htmlFor="board-swimlane">Raias</label>
+          <select
+            id="board-swimlane"
+            value={swimlane}
+            onChange={e => setSwimlane(e.target.value as BoardSwimlane)}
+          >
+            <option value="none">Nenhuma</option>
+            <option value="priority">Por prioridade</option>
+            <option value="assignee">Por responsável</option>
+          </select>
+        </div>
+      </div>
+
+      {loadError && <p className="query-error">{loadError}</p>}
+      {!board && !loadError && (
+        <div className="empty-state">
+          <p>Carregando tickets...</p>
+        </div>
+      )}
+
+      {moveError && (
+        <div className="bulk-report has-skipped">
+          <div className="bulk-report-header">
+            <span>{moveError}</span>
+            <button className="link-button" onClick={() => setMoveError(null)}>Fechar</button>
+          </div>
+        </div>
+      )}
+
+      <div className="board" style={{ gridTemplateColumns: `repeat(${workflow.statuses.length}, minmax(260px, 1fr))` }}>
+        {workflow.statuses.map(status => {
+          const count = counts.get(status.id) ?? 0;
+          const overLimit = status.wipLimit !== undefined && count > status.wipLimit;
+          return (
+            <div key={status.id} className="board-column-header" style={{ borderTopColor: status.color }}>
+              <span>{status.icon} {status.label}</span>
+              <span className={`board-count ${overLimit ? 'over-limit' : ''}`}>
+                {count}
+                {status.wipLimit !== undefined && ` / ${status.wipLimit}`}
+              </span>
+            </div>
+          );
+        })}
+
+        {lanes.map(lane => (
+          <React.Fragment key={lane.id}>
+            {lane.label !== null && (
+              <div className="board-lane-header" style={{ gridColumn: '1 / -1' }}>{lane.label}</div>
+            )}
+            {workflow.statuses.map(status => {
+              const cellTickets = tickets.filter(
+                ticket => ticket.status === status.id && getBoardLane(swimlane, ticket) === lane.id
+              );
+              const hidden = cellTotal(status.id, lane.id) - Math.min(cellTickets.length, BOARD_CELL_LIMIT);
+              // Only the dragged card's own lane takes drops; moving between lanes would change other fields
+              const isTargetLane = dragged?.laneId === lane.id;
+              const drop = isTargetLane ? checkDrop(status) : { allowed: false };
+              const state = !isTargetLane || dragged?.ticket.status === status.id
+                ? ''
+                : drop.allowed ? 'drop-allowed' : 'drop-denied';
+              return (
+                <div
+                  key={status.id}
+                  className={`board-cell ${state} ${hovered === status.id && isTargetLane ? 'hovered' : ''}`}
+                  onDragOver={e => {
+                    if (!isTargetLane) return;
+                    setHovered(status.id);
+                    if (drop.allowed) {
+                      e.preventDefault();
+                      e.dataTransfer.dropEffect = 'move';
+                    }
+                  }}
+                  onDragLeave={() => setHovered(current => (current === status.id ? null : current))}
+                  onDrop={e => {
+                    e.preventDefault();
+                    handleDrop(status);
+                  }}
+                >
+                  {state === 'drop-denied' && drop.reason && hovered === status.id && (
+                    <div className="board-drop-reason">{drop.reason}</div>
+                  )}
+                  {cellTickets.slice(0, BOARD_CELL_LIMIT).map(ticket => (
+                    <div
+                      key={ticket.id}
+                      className="board-card"
+                      draggable={canMove}
+                      onDragStart={e => {
+                        e.dataTransfer.setData('text/plain', ticket.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragged({ ticket, laneId: lane.id });
+                        setMoveError(null);
+                      }}
+                      onDragEnd={() => {
+                        setDragged(null);
+                        setHovered(null);
+                      }}
+                    >
+                      <TicketCard ticket={ticket} compact onClick={() => onTicketClick(ticket.id)} />
+                    </div>
+                  ))}
+                  {hidden > 0 && (
+                    <button
+                      className="link-button"
+                      onClick={() => onNavigate(paths.tickets(`status:${status.id}`))}
+                    >
+                      + {hidden} tickets
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ImportReportSummary: React.FC<{ title: string; report: ImportReport }> = ({ title, report }) => (
+  <section className="directory-section">
+    <h3>{title}</h3>
+    <p className="import-counts">
+      <span>{report.total} registro(s)</span>
+      <span>{report.created} novo(s)</span>
+      <span>{report.updated} atualizado(s)</span>
+      <span className={report.failed > 0 ? 'import-failed' : ''}>{report.failed} com erro</span>
+    </p>
+    {report.errors.length > 0 && (
+      <table className="sla-table import-errors">
+        <thead>
+          <tr>
+            <th>Linha</th>
+            <th>Problemas</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.errors.map(error => (
+            <tr key={error.row}>
+              <td>{error.row}</td>
+              <td>{error.messages.join('; ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+    {report.failed > report.errors.length && (
+      <p className="directory-detail">Mostrando os primeiros {report.errors.length} erros.</p>
+    )}
+  </section>
+);
+
+const ImportView: React.FC<{ onNavigate: (path: string) => void }> = ({ onNavigate }) => {
+  const { controller } = useTickets();
+  const [upload, setUpload] = useState<ImportUpload | null>(null);
+  const [options, setOptions] = useState<ImportOptions>({ mapping: {}, mode: 'upsert' });
+  const [preview, setPreview] = useState<ImportReport | null>(null);
+  const [result, setResult] = useState<ImportReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const optionErrors = upload ? validateImportOptions(options, upload.columns) : [];
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Any change invalidates the last preview
+  const updateOptions = (next: ImportOptions) => {
+    setOptions(next);
+    setPreview(null);
+  };
+
+  const handleFile = (file: File) =>
+    run(async () => {
+      if (upload) await controller.discardImport(upload.id);
+      const uploaded = await controller.uploadImport(file, file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+      setUpload(uploaded);
+      setOptions({ mapping: uploaded.mapping, mode: 'upsert' });
+      setPreview(null);
+      setResult(null);
+    });
+
+  const handleCancel = () =>
+    run(async () => {
+      if (upload) await controller.discardImport(upload.id);
+      setUpload(null);
+      setPreview(null);
+    });
+
+  const handleImport = () =>
+    run(async () => {
+      setResult(await controller.importTickets(upload!.id, options));
+      setUpload(null);
+      setPreview(null);
+    });
+
+  return (
+    <div className="directory-view">
+      <div className="list-header">
+        <h2>Importar Tickets</h2>
+      </div>
+
+      <section className="directory-section">
+        <p className="directory-detail">
+          Envie um CSV (primeira linha com os nomes das colunas) ou um JSON exportado por este sistema. Nada é gravado
+          antes da validação e da confirmação.
+        </p>
+        <p className="directory-detail">
+          Cada ticket importado envia as notificações por e-mail e dispara os webhooks da mesma alteração feita à mão.
+          Os status seguem as transições do fluxo; só tickets completos de um JSON exportado mantêm o status que tinham.
+        </p>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          disabled={isBusy}
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        {error && <p className="query-error">{error}</p>}
+      </section>
+
+      {upload && (
+        <section className="directory-section">
+          {upload.format === 'csv' ? (
+            <>
+              <h3>Colunas ({upload.rows} linha(s))</h3>
+              <table className="sla-table">
+                <thead>
+                  <tr>
+                    <th>Campo</th>
+                    <th>Coluna do arquivo</th>
+                    <th>Exemplo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {IMPORT_FIELDS.map(field => {
+                    const column = options.mapping[field.value];
+                    return (
+                      <tr key={field.value}>
+                        <td>{field.label}</td>
+                        <td>
+                          <select
+                            value={column ?? ''}
+                            onChange={e => {
+                              const { [field.value]: _, ...rest } = options.mapping;
+                              updateOptions({
+                                ...options,
+                                mapping: e.target.value ? { ...rest, [field.value]: e.target.value } : rest,
+                              });
+                            }}
+                          >
+                            <option value="">— não importar —</option>
+                            {upload.columns.map(name => (
+                              <option key={name} value={name}>{name}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="directory-detail">
+                          {column !== undefined ? upload.sample[0]?.[upload.columns.indexOf(column)] ?? '' : ''}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </>
+          ) : (
+            <h3>Arquivo JSON com {upload.rows} ticket(s)</h3>
+          )}
+
+          <div className="directory-checkboxes import-mode">
+            <label>
+              <input
+                type="radio"
+                name="import-mode"
+                checked={options.mode === 'upsert'}
+                onChange={() => updateOptions({ ...options, mode: 'upsert' })}
+              />
+              Atualizar tickets com o mesmo ID e criar os demais
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="import-mode"
+                checked={options.mode === 'create'}
+                onChange={() => updateOptions({ ...options, mode: 'create' })}
+              />
+              Criar todos como novos tickets
+            </label>
+          </div>
+
+          {optionErrors.length > 0 && (
+            <ul className="query-error">
+              {optionErrors.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          )}
+
+          <div className="directory-actions">
+            <button className="btn-secondary" disabled={isBusy} onClick={handleCancel}>Cancelar</button>
+            <button
+              className="btn-secondary"
+              disabled={isBusy || optionErrors.length > 0}
+              onClick={() => run(async () => setPreview(await controller.previewImport(upload.id, options)))}
+            >
+              Validar
+            </button>
+            <button
+              className="btn-primary"
+              disabled={isBusy || !preview || preview.created + preview.updated === 0}
+              onClick={handleImport}
+            >
+              Importar
+            </button>
+          </div>
+        </section>
+      )}
+
+      {preview && <ImportReportSummary title="Prévia" report={preview} />}
+
+      {result && (
+        <>
+          <ImportReportSummary title="Importação concluída" report={result} />
+          <button className="btn-primary" onClick={() => onNavigate(paths.tickets())}>Ver tickets</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const formatAuditValue = (
+  field: AuditedField,
+  value: string | null,
+  lookups: { assigneeName: (id: string) => string | null; status: (id: TicketStatus) => WorkflowStatus }
+): string => {
+  if (value === null) return '—';
+  switch (field) {
+    case 'assigneeId':
+      return lookups.assigneeName(value) ?? value;
+    case 'status':
+      return lookups.status(value).label;
+    case 'priority':
+      return PRIORITIES.find(p => p.value === value)?.label ?? value;
+    case 'category':
+      return CATEGORIES.find(c => c.value === value)?.label ?? value;
+    case 'description':
+      return value.length > 80 ? `${value.slice(0, 80)}…` : value;
+    default:
+      return value;
+  }
+};
+
+const EVENT_SUMMARIES: Record<TicketEvent['type'], string> = {
+  created: 'criou o ticket',
+  updated: 'atualizou o ticket',
+  imported: 'importou o ticket',
+};
+
+const TicketEventItem: React.FC<{ event: TicketEvent; formatDateTime: (timestamp: number) => string }> = ({
+  event,
+  formatDateTime,
+}) => {
+  const { controller } = useTickets();
+  const lookups = { assigneeName: controller.getAssigneeName, status: controller.getStatus };
+
+  return (
+    <div className="timeline-event">
+      <div className="comment-header">
+        <span className="timeline-event-summary">
+          <strong>{event.actor}</strong> {EVENT_SUMMARIES[event.type]}
+        </span>
+        <span className="comment-time" suppressHydrationWarning>{formatDateTime(event.timestamp)}</span>
+      </div>
+      {event.changes.length > 0 && (
+        <ul className="timeline-changes">
+          {event.changes.map(change => (
+            <li key={change.field}>
+              <span className="timeline-field">
+                {AUDITED_FIELDS.find(f => f.field === change.field)?.label ?? change.field}:
+              </span>{' '}
+              <span className="timeline-old">
+                {formatAuditValue(change.field, change.from, lookups)}
+              </span>
+              {' → '}
+              <span className="timeline-new">
+                {formatAuditValue(change.field, change.to, lookups)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Inline thumbnails for images, download links for everything else
+const AttachmentList: React.FC<{ attachments?: Attachment[] }> = ({ attachments }) => {
+  const { controller } = useTickets();
+  if (!attachments || attachments.length === 0) return null;
+
+  return (
+    <ul className="attachment-list">
+      {attachments.map(attachment => (
+        <li key={attachment.id} className="attachment-item">
+          {isImageAttachment(attachment) ? (
+            <a href={controller.getAttachmentUrl(attachment.id)} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+              <img src={controller.getAttachmentUrl(attachment.id)} alt={attachment.name} className="attachment-thumb" loading="lazy" />
+            </a>
+          ) : (
+            <a href={controller.getAttachmentUrl(attachment.id, true)} download={attachment.name} className="attachment-file">
+              {attachment.type === 'application/pdf' ? '📕' : '📄'} {attachment.name}
+            </a>
+          )}
+          <span className="attachment-size">{formatFileSize(attachment.size)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+// Files upload as soon as they are dropped or picked; the form then only sends their IDs
+const AttachmentDropzone: React.FC<{
+  attachments: Attachment[];
+  onChange: React.Dispatch<React.SetStateAction<Attachment[]>>;
+  onBusyChange: (busy: boolean) => void;
+}> = ({ attachments, onChange, onBusyChange }) => {
+  const { controller } = useTickets();
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploading, setUploading] = useState(0);
+  const [errors, setErrors] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => onBusyChange(uploading > 0), [uploading]);
+
+  const addFiles = async (files: File[]) => {
+    const problems: string[] = [];
+    const accepted = files.filter(file => {
+      const fileErrors = validateAttachmentFile(file.name, file.size);
+      problems.push(...fileErrors);
+      return fileErrors.length === 0;
+    });
+    const room = MAX_ATTACHMENTS - attachments.length - uploading;
+    if (accepted.length > room) problems.push(`No máximo ${MAX_ATTACHMENTS} anexos`);
+    setErrors(problems);
+
+    const queued = accepted.slice(0, Math.max(0, room));
+    setUploading(count => count + queued.length);
+    for (const file of queued) {
+      try {
+        const uploaded = await controller.uploadAttachment(file);
+        onChange(current => [...current, uploaded]);
+      } catch (error) {
+        setErrors(current => [...current, `${file.name}: ${(error as Error).message}`]);
+      } finally {
+        setUploading(count => count - 1);
+      }
+    }
+  };
+
+  const remove = (attachment: Attachment) => {
+    onChange(current => current.filter(other => other.id !== attachment.id));
+    controller.discardAttachment(attachment.id).catch(error => console.error('Error discarding upload:', error));
+  };
+
+  return (
+    <div className="attachment-upload">
+      <div
+        className={`attachment-dropzone ${isDragging ? 'dragging' : ''}`}
+        onClick={() => inputRef.current?.click()}
+        onDragOver={e => {
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'copy';
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setIsDragging(false);
+          addFiles([...e.dataTransfer.files]);
+        }}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          hidden
+          accept={ATTACHMENT_TYPES.flatMap(entry => entry.extensions.map(extension => `.${extension}`)).join(',')}
+          onChange={e => {
+            addFiles([...(e.target.files ?? [])]);
+            e.target.value = '';
+          }}
+        />
+        📎 Arraste arquivos aqui ou clique para anexar
+        <span className="form-hint">
+          Imagens, PDF, texto, planilhas, documentos e ZIP, até {formatFileSize(MAX_ATTACHMENT_BYTES)} cada
+        </span>
+      </div>
+      {uploading > 0 && <span className="form-hint">Enviando {uploading} arquivo(s)...</span>}
+      {errors.length > 0 && (
+        <ul className="query-error">
+          {errors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+      {attachments.length > 0 && (
+        <ul className="attachment-list">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="attachment-item">
+              <span className="attachment-file">📎 {attachment.name}</span>
+              <span className="attachment-size">{formatFileSize(attachment.size)}</span>
+              <button
+                type="button"
+                className="attachment-remove"
+                onClick={() => remove(attachment)}
+                aria-label={`Remover ${attachment.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const TicketDetailView: React.FC<{
+  ticketId: string;
+  onBack: () => void;
+  onEdit: () => void;
+}> = ({ ticketId, onBack, onEdit }) => {
+  const { controller } = useTickets();
+  const ticket = controller.getTicketById(ticketId);
+  const [newComment, setNewComment] = useState('');
+  const [isInternalNote, setIsInternalNote] = useState(false);
+  const [commentAttachments, setCommentAttachments] = useState<Attachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const currentUser = controller.getCurrentUser();
+  const canWriteInternal = controller.hasPermission('writeInternalNotes');
+  const now = useNow();
+  const [isLoading, setIsLoading] = useState(false);
+  const isMissing = !ticket;
+
+  useEffect(() => {
+    if (!isMissing) return;
+    setIsLoading(true);
+    controller
+      .loadTicket(ticketId)
+      .catch(() => {})
+      .finally(() => setIsLoading(false));
+  }, [controller, ticketId, isMissing]);
+
+  if (!ticket) {
+    return (
+      <div className="ticket-detail-view">
+        <div className="empty-state">
+          <p>{isLoading ? 'Carregando ticket...' : 'Ticket não encontrado'}</p>
+          <button onClick={onBack} className="btn-primary">Voltar</button>
+        </div>
+      </div>
+    );
+  }
+
+  const category = CATEGORIES.find(c => c.value === ticket.category);
+  const priority = PRIORITIES.find(p => p.value === ticket.priority);
+  const status = controller.getStatus(ticket.status);
+  const allowedTransitions = controller.getAllowedTransitions(ticket.status);
+  const sla = controller.getTicketSla(ticket, now);
+
+  const handleAddComment = async () => {
+    if (!newComment.trim()) return;
+
+    try {
+      await controller.addComment(ticketId, {
+        author: currentUser?.name ?? '',
+        content: newComment.trim(),
+        isInternal: canWriteInternal && isInternalNote,
+      }, commentAttachments);
+      setNewComment('');
+      setCommentAttachments([]);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const handleStatusChange = async (newStatus: TicketStatus) => {
+    const success = await controller.changeTicketStatus(ticketId, newStatus);
+    if (!success) {
+      alert('Não é possível mudar para este status diretamente');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (confirm('Deseja realmente excluir este ticket?')) {
+      try {
+        await controller.deleteTicket(ticketId);
+        onBack();
+      } catch (error) {
+        alert((error as Error).message);
+      }
+    }
+  };
+
+  const formatDateTime = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleString('pt-BR');
+  };
+
+  const timeline = [
+    ...ticket.comments.map(comment => ({ kind: 'comment' as const, timestamp: comment.timestamp, comment })),
+    ...ticket.events.map(event => ({ kind: 'event' as const, timestamp: event.timestamp, event })),
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  return (
+    <div className="ticket-detail-view">
+      <div className="detail-header">
+        <button onClick={onBack} className="btn-back">
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+          </svg>
+          Voltar
+        </button>
+        <div className="detail-actions">
+          <button onClick={onEdit} className="btn-secondary">Editar</button>
+          {controller.hasPermission('deleteTickets') && (
+            <button onClick={handleDelete} className="btn-danger">Excluir</button>
+          )}
+        </div>
+      </div>
+
+      <div className="detail-content">
+        <div className="detail-hero">
+          <div className="hero-header">
+            <div className="hero-title">
+              <h1>{ticket.title}</h1>
+              <span className="ticket-id-detail">#{ticket.id.slice(-8)}</span>
+            </div>
+            <div className="hero-badges">
+              <span className="badge-lg" style={{ backgroundColor: category?.color }}>
+                {category?.icon} {category?.label}
+              </span>
+              <span className="badge-lg" style={{ backgroundColor: priority?.color }}>
+                {priority?.label}
+              </span>
+            </div>
+          </div>
+
+          <p className="ticket-description-detail">{ticket.description}</p>
+          <AttachmentList attachments={ticket.attachments} />
+
+          <div className="ticket-meta-grid">
+            <div className="meta-item">
+              <span className="meta-label">Autor:</span>
+              <span className="meta-value">{ticket.author}</span>
+            </div>
+            <div className="meta-item">
+              <span className="meta-label">Criado em:</span>
+              <span className="meta-value" suppressHydrationWarning>{formatDateTime(ticket.createdAt)}</span>
+            </div>
+            {(ticket.assigneeId || ticket.legacyAssignee) && (
+              <div className="meta-item">
+                <span className="meta-label">Atribuído a:</span>
+                <span className="meta-value">
+                  {ticket.assigneeId
+                    ? controller.getAssigneeName(ticket.assigneeId) ?? 'Responsável removido'
+                    : `${ticket.legacyAssignee} (não mapeado)`}
+                </span>
+              </div>
+            )}
+            <div className="meta-item">
+              <span className="meta-label">Última atualização:</span>
+              <span className="meta-value" suppressHydrationWarning>{formatDateTime(ticket.updatedAt)}</span>
+            </div>
+            {sla && (
+              <div className="meta-item">
+                <span className="meta-label">SLA ({describeSlaPolicy(sla.policy)}):</span>
+                <span className="meta-value ticket-sla">
+                  <SlaBadge kind="firstResponse" target={sla.firstResponse} now={now} />
+                  <SlaBadge kind="resolution" target={sla.resolution} now={now} />
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="status-workflow">
+          <h3>Status do Ticket</h3>
+          {!controller.hasPermission('changeStatus') ? (
+            <span className="badge-lg" style={{ backgroundColor: status.color }}>
+              {status.icon} {status.label}
+            </span>
+          ) : (
+            <div className="status-buttons">
+              <span
+                className="status-btn active"
+                style={{ borderColor: status.color, backgroundColor: status.color, color: '#fff' }}
+              >
+                {status.icon} {status.label}
+              </span>
+              {allowedTransitions.length > 0 && <span className="status-arrow">→</span>}
+              {allowedTransitions.map(next => (
+                <button
+                  key={next.id}
+                  onClick={() => handleStatusChange(next.id)}
+                  className="status-btn"
+                  style={{ borderColor: next.color, backgroundColor: 'transparent', color: 'currentColor' }}
+                >
+                  {next.icon} {next.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="comments-section">
+          <h3>Histórico e Comentários ({timeline.length})</h3>
+
+          <div className="add-comment">
+            <div className="comment-form">
+              <div className="comment-author">Comentando como {currentUser?.name}</div>
+              {canWriteInternal && (
+                <div className="comment-visibility">
+                  <button
+                    type="button"
+                    onClick={() => setIsInternalNote(false)}
+                    className={`filter-btn ${!isInternalNote ? 'active' : ''}`}
+                  >
+                    💬 Resposta pública
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setIsInternalNote(true)}
+                    className={`filter-btn ${isInternalNote ? 'active' : ''}`}
+                  >
+                    🔒 Nota interna
+                  </button>
+                </div>
+              )}
+              <textarea
+                placeholder={isInternalNote ? 'Adicionar nota interna (visível só para agentes)...' : 'Adicionar comentário...'}
+                value={newComment}
+                onChange={e => setNewComment(e.target.value)}
+                className={isInternalNote ? 'internal' : ''}
+                rows={4}
+              />
+              <AttachmentDropzone
+                attachments={commentAttachments}
+                onChange={setCommentAttachments}
+                onBusyChange={setIsUploading}
+              />
+              <button onClick={handleAddComment} className="btn-primary" disabled={isUploading}>
+                {isInternalNote ? 'Salvar Nota Interna' : 'Enviar Comentário'}
+              </button>
+            </div>
+          </div>
+
+          <div className="comments-list">
+            {timeline.map(entry =>
+              entry.kind === 'event' ? (
+                <TicketEventItem key={entry.event.id} event={entry.event} formatDateTime={formatDateTime} />
+              ) : (
+                <div key={entry.comment.id} className={`comment-item ${entry.comment.isInternal ? 'internal' : ''}`}>
+                  <div className="comment-header">
+                    <span className="comment-author">
+                      {entry.comment.author}
+                      {entry.comment.isInternal && <span className="internal-badge">🔒 Nota interna</span>}
+                    </span>
+                    <span className="comment-time" suppressHydrationWarning>
+                      {formatDateTime(entry.comment.timestamp)}
+                    </span>
+                  </div>
+                  <p className="comment-content">{entry.comment.content}</p>
+                  <AttachmentList attachments={entry.comment.attachments} />
+                </div>
+              )
+            )}
+            {timeline.length === 0 && (
+              <p className="empty-message">Nenhum comentário ainda</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const AssigneePicker: React.FC<{ value: string; onChange: (assigneeId: string) => void }> = ({
+  value,
+  onChange,
+}) => {
+  const { controller } = useTickets();
+  const teams = controller.getTeams();
+
+  return (
+    <select value={value} onChange={e => onChange(e.target.value)}>
+      <option value="">Não atribuído</option>
+      <optgroup label="Equipes">
+        {teams.map(team => (
+          <option key={team.id} value={team.id}>👥 {team.name}</option>
+        ))}
+      </optgroup>
+      <optgroup label="Agentes">
+        {controller.getAgents().map(agent => (
+          <option key={agent.id} value={agent.id}>
+            👤 {agent.name}
+            {agent.teamIds.length > 0 &&
+              ` (${agent.teamIds.map(id => teams.find(t => t.id === id)?.name).filter(Boolean).join(', ')})`}
+          </option>
+        ))}
+      </optgroup>
+    </select>
+  );
+};
+
+// Shown when an edit was made against a version someone else has since changed
+const TicketConflictDialog: React.FC<{
+  base: Ticket;
+  changes: Partial<TicketInput>;
+  current: Ticket;
+  onMerge: (changes: Partial<TicketInput>) => void;
+  onRetry: (changes: Partial<TicketInput>) => void;
+  onDiscard: () => void;
+}> = ({ base, changes, current, onMerge, onRetry, onDiscard }) => {
+  const { controller } = useTickets();
+  const [keepTheirs, setKeepTheirs] = useState<Set<AuditedField>>(new Set());
+  const lookups = { assigneeName: controller.getAssigneeName, status: controller.getStatus };
+  const diffs = diffTicketVersions(base, changes, current);
+  const newComments = current.comments.length - base.comments.length;
+
+  const choose = (field: AuditedField, theirs: boolean) => {
+    const next = new Set(keepTheirs);
+    if (theirs) next.add(field);
+    else next.delete(field);
+    setKeepTheirs(next);
+  };
+
+  const renderValue = (diff: TicketFieldDiff, side: 'mine' | 'theirs') => {
+    const value = formatAuditValue(diff.field, diff[side], lookups);
+    if (!isConflictingDiff(diff)) return value;
+    return (
+      <label className="conflict-choice">
+        <input
+          type="radio"
+          name={`conflict-${diff.field}`}
+          checked={keepTheirs.has(diff.field) === (side === 'theirs')}
+          onChange={() => choose(diff.field, side === 'theirs')}
+        />
+        {value}
+      </label>
+    );
+  };
+
+  // Which side a field ends up with when the user doesn't get a say
+  const keptSide = (diff: TicketFieldDiff) =>
+    isConflictingDiff(diff) ? (keepTheirs.has(diff.field) ? 'theirs' : 'mine') : diff.mine !== diff.base ? 'mine' : 'theirs';
+
+  return (
+    <div className="modal-overlay" onClick={onDiscard}>
+      <div className="modal ticket-form-modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Conflito de edição</h2>
+          <button onClick={onDiscard} className="modal-close">×</button>
+        </div>
+
+        <p className="form-hint">
+          Este ticket foi alterado por outra pessoa enquanto você editava. Compare as versões e escolha o que manter
+          nos campos alterados pelos dois lados.
+        </p>
+
+        {diffs.length > 0 ? (
+          <table className="sla-table conflict-table">
+            <thead>
+              <tr>
+                <th>Campo</th>
+                <th>Sua versão</th>
+                <th>Versão atual</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diffs.map(diff => (
+                <tr key={diff.field} className={isConflictingDiff(diff) ? 'conflict-row' : undefined}>
+                  <td>{AUDITED_FIELDS.find(f => f.field === diff.field)?.label ?? diff.field}</td>
+                  <td className={keptSide(diff) === 'mine' ? 'conflict-kept' : undefined}>{renderValue(diff, 'mine')}</td>
+                  <td className={keptSide(diff) === 'theirs' ? 'conflict-kept' : undefined}>{renderValue(diff, 'theirs')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p>As alterações feitas por outra pessoa não afetam os campos que você editou.</p>
+        )}
+        {newComments > 0 && (
+          <p className="form-hint">
+            {newComments === 1 ? '1 novo comentário foi adicionado.' : `${newComments} novos comentários foram adicionados.`}
+          </p>
+        )}
+
+        <div className="modal-actions">
+          <button type="button" onClick={onDiscard} className="btn-secondary">
+            Descartar minhas alterações
+          </button>
+          <button type="button" onClick={() => onRetry(mergeTicketEdits(diffs, keepTheirs))} className="btn-secondary">
+            Voltar ao formulário
+          </button>
+          <button type="button" onClick={() => onMerge(mergeTicketEdits(diffs, keepTheirs))} className="btn-primary">
+            Mesclar e salvar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TicketFormModal: React.FC<{
+  isOpen: boolean;
+  ticketId: string | null;
+  onClose: () => void;
+}> = ({ isOpen, ticketId, onClose }) => {
+  const { controller } = useTickets();
+  // The ticket as it was when the form opened; edits are diffed against it, not against live updates
+  const [base, setBase] = useState<Ticket | null>(null);
+  const [formData, setFormData] = useState<any>(getDefaultFormData(controller.getWorkflow().initialStatus));
+  const [conflict, setConflict] = useState<Ticket | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      const existingTicket = ticketId ? controller.getTicketById(ticketId) : null;
+      setBase(existingTicket);
+      setFormData(existingTicket ?? getDefaultFormData(controller.getWorkflow().initialStatus));
+      setConflict(null);
+      setAttachments([]);
+    }
+  }, [isOpen, ticketId]);
+
+  if (!isOpen) return null;
+
+  // Only the current status and the moves the workflow allows from it
+  const statusOptions = base
+    ? [controller.getStatus(base.status), ...controller.getAllowedTransitions(base.status)]
+    : getCreatableStatuses(controller.getWorkflow()).map(controller.getStatus);
+
+  /** Sends `changes` unless the ticket moved on since `version`, in which case the conflict is shown */
+  const save = async (id: string, changes: Partial<TicketInput>, version: number) => {
+    try {
+      if (Object.keys(changes).length > 0) await controller.updateTicket(id, changes, version);
+      // New files only add to the ticket, so they never conflict and go after the checked update
+      if (attachments.length > 0) await controller.addAttachments(id, attachments);
+      onClose();
+    } catch (error) {
+      if (error instanceof TicketConflictError) setConflict(error.current);
+      else alert((error as Error).message);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (base) {
+      await save(base.id, diffTicketFields(base, formData), base.version);
+      return;
+    }
+    try {
+      await controller.createTicket(formData, attachments);
+      onClose();
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  if (base && conflict) {
+    return (
+      <TicketConflictDialog
+        base={base}
+        changes={diffTicketFields(base, formData)}
+        current={conflict}
+        onMerge={changes => save(conflict.id, changes, conflict.version)}
+        onRetry={changes => {
+          // Start over from the current version with the user's edits reapplied
+          setBase(conflict);
+          setFormData({ ...conflict, ...changes });
+          setConflict(null);
+        }}
+        onDiscard={onClose}
+      />
+    );
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal ticket-form-modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{ticketId ? 'Editar Ticket' : 'Novo Ticket'}</h2>
+          <button onClick={onClose} className="modal-close">×</button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="ticket-form">
+          <div className="form-group">
+            <label>Título *</label>
+            <input
+              type="text"
+              value={formData.title}
+              onChange={e => setFormData({ ...formData, title: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Descrição *</label>
+            <textarea
+              value={formData.description}
+              onChange={e => setFormData({ ...formData, description: e.target.value })}
+              rows={5}
+              required
+            />
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>Categoria</label>
+              <select
+                value={formData.category}
+                onChange={e => setFormData({ ...formData, category: e.target.value })}
+              >
+                {CATEGORIES.map(cat => (
+                  <option key={cat.value} value={cat.value}>
+                    {cat.icon} {cat.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>Prioridade</label>
+              <select
+                value={formData.priority}
+                onChange={e => setFormData({ ...formData, priority: e.target.value })}
+              >
+                {PRIORITIES.map(p => (
+                  <option key={p.value} value={p.value}>{p.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {controller.hasPermission('assignTickets') && (
+            <div className="form-group">
+              <label>Atribuir a (opcional)</label>
+              <AssigneePicker
+                value={formData.assigneeId ?? ''}
+                onChange={assigneeId => setFormData({ ...formData, assigneeId })}
+              />
+              {formData.legacyAssignee && !formData.assigneeId && (
+                <span className="form-hint">Responsável anterior (texto livre): {formData.legacyAssignee}</span>
+              )}
+            </div>
+          )}
+
+          {controller.hasPermission('changeStatus') && (
+            <div className="form-group">
+              <label>Status</label>
+              <select
+                value={formData.status}
+                onChange={e => setFormData({ ...formData, status: e.target.value })}
+              >
+                {statusOptions.map(status => (
+                  <option key={status.id} value={status.id}>
+                    {status.icon} {status.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Anexos</label>
+            <AttachmentList attachments={base?.attachments} />
+            <AttachmentDropzone attachments={attachments} onChange={setAttachments} onBusyChange={setIsUploading} />
+          </div>
+
+          <div className="modal-actions">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancelar
+            </button>
+            <button type="submit" className="btn-primary" disabled={isUploading}>
+              {ticketId ? 'Salvar' : 'Criar Ticket'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const LoginView: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await AuthApiService.login(email.trim(), password);
+      const next = new URLSearchParams(window.location.search).get('next');
+      // Full navigation so the server renders the app with the new session
+      window.location.assign(next && next.startsWith('/') && !next.startsWith('//') ? next : paths.dashboard());
+    } catch (err) {
+      setError((err as Error).message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-view">
+      <form onSubmit={handleSubmit} className="login-card">
+        <div className="header-brand">
+          <svg className="header-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 5v2m0 4v2m0 4v2M5 5a2 2 0 00-2 2v3a2 2 0 110 4v3a2 2 0 002 2h14a2 2 0 002-2v-3a2 2 0 110-4V7a2 2 0 00-2-2H5z" />
+          </svg>
+          <h1>HelpDesk</h1>
+        </div>
+
+        <div className="form-group">
+          <label>E-mail</label>
+          <input type="email" value={email} onChange={e => setEmail(e.target.value)} autoComplete="username" required />
+        </div>
+
+        <div className="form-group">
+          <label>Senha</label>
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </div>
+
+        {error && <p className="login-error">{error}</p>}
+
+        <button type="submit" className="btn-primary" disabled={isSubmitting}>
+          {isSubmitting ? 'Entrando...' : 'Entrar'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+const DirectoryView: React.FC = () => {
+  const { controller } = useTickets();
+  const teams = controller.getTeams();
+  const agents = controller.getAgents();
+  const legacyAssignees = controller.getLegacyAssignees();
+  const [teamForm, setTeamForm] = useState<{ id: string | null } & TeamInput>({ id: null, name: '', description: '' });
+  const [agentForm, setAgentForm] = useState<{ id: string | null } & AgentInput>({
+    id: null,
+    name: '',
+    email: '',
+    teamIds: [],
+  });
+  const [legacyTargets, setLegacyTargets] = useState<Record<string, string>>({});
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      alert((error as Error).message);
+      return false;
+    }
+  };
+
+  const handleTeamSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { id, ...input } = teamForm;
+    if (await run(() => controller.saveTeam(id, input))) {
+      setTeamForm({ id: null, name: '', description: '' });
+    }
+  };
+
+  const handleAgentSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { id, ...input } = agentForm;
+    if (await run(() => controller.saveAgent(id, input))) {
+      setAgentForm({ id: null, name: '', email: '', teamIds: [] });
+    }
+  };
+
+  const toggleAgentTeam = (teamId: string) =>
+    setAgentForm({
+      ...agentForm,
+      teamIds: agentForm.teamIds.includes(teamId)
+        ? agentForm.teamIds.filter(id => id !== teamId)
+        : [...agentForm.teamIds, teamId],
+    });
+
+  const handleMapLegacy = async (name: string) => {
+    const target = legacyTargets[name];
+    if (!target) return;
+    if (target === 'new-agent' || target === 'new-team') {
+      // Create the entry first so the legacy name becomes a real directory record
+      await run(async () => {
+        if (target === 'new-agent') await controller.saveAgent(null, { name, email: '', teamIds: [] });
+        else await controller.saveTeam(null, { name, description: '' });
+        const created = (target === 'new-agent' ? controller.getAgents() : controller.getTeams()).find(
+          entry => normalizeName(entry.name) === normalizeName(name)
+        );
+        if (created) await controller.mapLegacyAssignee(name, created.id);
+      });
+      return;
+    }
+    await run(() => controller.mapLegacyAssignee(name, target));
+  };
+
+  return (
+    <div className="directory-view">
+      <div className="list-header">
+        <h2>Equipes e Agentes</h2>
+      </div>
+
+      <div className="directory-grid">
+        <section className="directory-section">
+          <h3>Equipes ({teams.length})</h3>
+          <ul className="directory-list">
+            {teams.map(team => (
+              <li key={team.id} className="directory-item">
+                <div>
+                  <strong>{team.name}</strong>
+                  {team.description && <span className="directory-detail">{team.description}</span>}
+                  <span className="directory-detail">
+                    {controller.countAssignedTickets(team.id)} ticket(s) atribuído(s)
+                  </span>
+                </div>
+                <div className="directory-actions">
+                  <button
+                    className="btn-secondary"
+                    onClick={() => setTeamForm({ id: team.id, name: team.name, description: team.description })}
+                  >
+                    Editar
+                  </button>
+                  <button
+                    className="btn-danger"
+                    onClick={() => confirm(`Excluir a equipe "${team.name}"?`) && run(() => controller.deleteTeam(team.id))}
+                  >
+                    Excluir
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleTeamSubmit} className="directory-form">
+            <h4>{teamForm.id ? 'Editar equipe' : 'Nova equipe'}</h4>
+            <div className="form-group">
+              <label>Nome</label>
+              <input
+                type="text"
+                value={teamForm.name}
+                onChange={e => setTeamForm({ ...teamForm, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>Descrição</label>
+              <input
+                type="text"
+                value={teamForm.description}
+                onChange={e => setTeamForm({ ...teamForm, description: e.target.value })}
+              />
+            </div>
+            <div className="modal-actions">
+              {teamForm.id && (
+                <button type="button" className="btn-secondary" onClick={() => setTeamForm({ id: null, name: '', description: '' })}>
+                  Cancelar
+                </button>
+              )}
+              <button type="submit" className="btn-primary">{teamForm.id ? 'Salvar' : 'Adicionar'}</button>
+            </div>
+          </form>
+        </section>
+
+        <section className="directory-section">
+          <h3>Agentes ({agents.length})</h3>
+          <ul className="directory-list">
+            {agents.map(agent => (
+              <li key={agent.id} className="directory-item">
+                <div>
+                  <strong>{agent.name}</strong>
+                  {agent.email && <span className="directory-detail">{agent.email}</span>}
+                  <span className="directory-detail">
+                    {agent.teamIds.map(id => teams.find(t => t.id === id)?.name).filter(Boolean).join(', ') ||
+                      'Sem equipe'}
+                    {' · '}
+                    {controller.countAssignedTickets(agent.id)} ticket(s) atribuído(s)
+                  </span>
+                </div>
+                <div className="directory-actions">
+                  <button className="btn-secondary" onClick={() => setAgentForm({ ...agent })}>
+                    Editar
+                  </button>
+                  <button
+                    className="btn-danger"
+                    onClick={() => confirm(`Excluir o agente "${agent.name}"?`) && run(() => controller.deleteAgent(agent.id))}
+                  >
+                    Excluir
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleAgentSubmit} className="directory-form">
+            <h4>{agentForm.id ? 'Editar agente' : 'Novo agente'}</h4>
+            <div className="form-group">
+              <label>Nome</label>
+              <input
+                type="text"
+                value={agentForm.name}
+                onChange={e => setAgentForm({ ...agentForm, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>E-mail</label>
+              <input
+                type="email"
+                value={agentForm.email}
+                onChange={e => setAgentForm({ ...agentForm, email: e.target.value })}
+              />
+            </div>
+            <div className="form-group">
+              <label>Equipes</label>
+              <div className="directory-checkboxes">
+                {teams.map(team => (
+                  <label key={team.id}>
+                    <input
+                      type="checkbox"
+                      checked={agentForm.teamIds.includes(team.id)}
+                      onChange={() => toggleAgentTeam(team.id)}
+                    />
+                    {team.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="modal-actions">
+              {agentForm.id && (
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setAgentForm({ id: null, name: '', email: '', teamIds: [] })}
+                >
+                  Cancelar
+                </button>
+              )}
+              <button type="submit" className="btn-primary">{agentForm.id ? 'Salvar' : 'Adicionar'}</button>
+            </div>
+          </form>
+        </section>
+      </div>
+
+      {legacyAssignees.length > 0 && (
+        <section className="directory-section legacy-assignees">
+          <h3>Responsáveis não mapeados ({legacyAssignees.length})</h3>
+          <p className="directory-detail">
+            Tickets antigos tinham o responsável em texto livre. Associe cada nome a um agente ou equipe.
+          </p>
+          <ul className="directory-list">
+            {legacyAssignees.map(legacy => (
+              <li key={legacy.name} className="directory-item">
+                <div>
+                  <strong>{legacy.name}</strong>
+                  <span className="directory-detail">
+                    {legacy.count} ticket(s)
+                    {legacy.variants.length > 1 && ` · variações: ${legacy.variants.join(', ')}`}
+                  </span>
+                </div>
+                <div className="directory-actions">
+                  <select
+                    value={legacyTargets[legacy.name] ?? ''}
+                    onChange={e => setLegacyTargets({ ...legacyTargets, [legacy.name]: e.target.value })}
+                  >
+                    <option value="">Selecione...</option>
+                    <option value="new-agent">➕ Criar agente "{legacy.name}"</option>
+                    <option value="new-team">➕ Criar equipe "{legacy.name}"</option>
+                    <optgroup label="Equipes">
+                      {teams.map(team => (
+                        <option key={team.id} value={team.id}>{team.name}</option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Agentes">
+                      {agents.map(agent => (
+                        <option key={agent.id} value={agent.id}>{agent.name}</option>
+                      ))}
+                    </optgroup>
+                  </select>
+                  <button
+                    className="btn-primary"
+                    disabled={!legacyTargets[legacy.name]}
+                    onClick={() => handleMapLegacy(legacy.name)}
+                  >
+                    Mapear
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+const NotificationsView: React.FC = () => {
+  const { controller, currentUser } = useTickets();
+  const [queue, setQueue] = useState<MailQueueStatus | null>(null);
+  const [draft, setDraft] = useState<MailSettings | null>(null);
+  const [editing, setEditing] = useState<{ locale: MailLocale; event: NotificationEvent }>({
+    locale: 'pt-BR',
+    event: 'created',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = (state: NotificationsState) => {
+    setDraft(state.settings);
+    setQueue(state.queue);
+  };
+
+  useEffect(() => {
+    controller.fetchNotificationSettings().then(load, err => setError((err as Error).message));
+  }, [controller]);
+
+  if (!draft) {
+    return (
+      <div className="directory-view">
+        <div className="list-header">
+          <h2>Notificações por E-mail</h2>
+        </div>
+        {error ? <p className="query-error">{error}</p> : <p className="directory-detail">Carregando...</p>}
+      </div>
+    );
+  }
+
+  const template = draft.templates[editing.locale][editing.event];
+  const updateTemplate = (changes: Partial<MailTemplate>) =>
+    setDraft({
+      ...draft,
+      templates: {
+        ...draft.templates,
+        [editing.locale]: { ...draft.templates[editing.locale], [editing.event]: { ...template, ...changes } },
+      },
+    });
+
+  // Previewed against a real ticket when there is one, so the placeholders show real values
+  const sample = controller.getAllTickets()[0];
+  const workflow = controller.getWorkflow();
+  const values = sample
+    ? getNotificationValues(sample, workflow, {
+      recipient: sample.author,
+      actor: currentUser?.name ?? '',
+      url: `${isClient ? window.location.origin : ''}${paths.ticket(sample.id)}`,
+      previousStatus: workflow.initialStatus,
+      comment: 'Obrigado pelo retorno, já estamos verificando.',
+    })
+    : {};
+  const errors = validateMailSettings(draft);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      load(await controller.saveNotificationSettings(draft));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="directory-view">
+      <div className="list-header">
+        <h2>Notificações por E-mail</h2>
+      </div>
+
+      <section className="directory-section">
+        <p className="directory-detail">
+          O solicitante recebe um e-mail quando o ticket é aberto, quando alguém responde publicamente e quando o status
+          muda; quando é ele quem responde, avisamos o responsável. Notas internas nunca são enviadas.
+        </p>
+        <div className="form-group">
+          <label htmlFor="mail-locale">Idioma dos e-mails</label>
+          <select
+            id="mail-locale"
+            value={draft.locale}
+            onChange={e => setDraft({ ...draft, locale: e.target.value as MailLocale })}
+          >
+            {MAIL_LOCALES.map(locale => (
+              <option key={locale.value} value={locale.value}>{locale.label}</option>
+            ))}
+          </select>
+        </div>
+      </section>
+
+      <section className="directory-section">
+        <h3>Modelos</h3>
+        <div className="notification-tabs">
+          {MAIL_LOCALES.map(locale =>
+            NOTIFICATION_EVENTS.map(event => (
+              <button
+                key={`${locale.value}-${event.value}`}
+                className={
+                  editing.locale === locale.value && editing.event === event.value ? 'btn-primary' : 'btn-secondary'
+                }
+                onClick={() => setEditing({ locale: locale.value, event: event.value })}
+              >
+                {event.label} ({locale.label})
+              </button>
+            ))
+          )}
+        </div>
+        <div className="notification-editor">
+          <div>
+            <div className="form-group">
+              <label htmlFor="mail-subject">Assunto</label>
+              <input
+                id="mail-subject"
+                type="text"
+                value={template.subject}
+                onChange={e => updateTemplate({ subject: e.target.value })}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="mail-body">Mensagem</label>
+              <textarea
+                id="mail-body"
+                rows={10}
+                value={template.body}
+                onChange={e => updateTemplate({ body: e.target.value })}
+              />
+            </div>
+            <ul className="notification-placeholders">
+              {Object.entries(NOTIFICATION_PLACEHOLDERS).map(([name, label]) => (
+                <li key={name}>
+                  <code>{`{{${name}}}`}</code> {label}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="notification-preview">
+            <span className="directory-detail">
+              Pré-visualização{sample ? ` com ${sample.id}` : ''}
+            </span>
+            <strong>{renderMailTemplate(template.subject, values)}</strong>
+            <pre>{renderMailTemplate(template.body, values)}</pre>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="query-error">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        )}
+        {error && <p className="query-error">{error}</p>}
+        <div className="modal-actions">
+          <button className="btn-secondary" onClick={() => setDraft(structuredClone(DEFAULT_MAIL_SETTINGS))}>
+            Restaurar padrão
+          </button>
+          <button className="btn-primary" onClick={handleSave} disabled={isSaving || errors.length > 0}>
+            {isSaving ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </section>
+
+      {queue && (
+        <section className="directory-section">
+          <h3>Fila de envio</h3>
+          <p className="directory-detail">
+            {queue.pending} mensagem(ns) aguardando envio. Falhas são tentadas de novo com intervalos crescentes.
+          </p>
+          {queue.failed.length > 0 && (
+            <table className="sla-table">
+              <thead>
+                <tr>
+                  <th>Desistimos em</th>
+                  <th>Para</th>
+                  <th>Assunto</th>
+                  <th>Tentativas</th>
+                  <th>Erro</th>
+                </tr>
+              </thead>
+              <tbody>
+                {queue.failed.map(mail => (
+                  <tr key={mail.id}>
+                    <td>{new Date(mail.failedAt).toLocaleString('pt-BR')}</td>
+                    <td>{mail.to}</td>
+                    <td>{mail.subject}</td>
+                    <td>{mail.attempts}</td>
+                    <td className="query-error">{mail.error}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+const EMPTY_WEBHOOK_FORM: { id: string | null } & WebhookInput = {
+  id: null,
+  url: '',
+  description: '',
+  events: WEBHOOK_EVENTS.map(event => event.value),
+  active: true,
+};
+
+const WebhooksView: React.FC = () => {
+  const { controller } = useTickets();
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null);
+  const [form, setForm] = useState(EMPTY_WEBHOOK_FORM);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  };
+
+  const reload = () => run(async () => setWebhooks(await controller.fetchWebhooks()));
+  const loadDeliveries = (id: string) =>
+    run(async () => {
+      setSelectedId(id);
+      setDeliveries(await controller.fetchWebhookDeliveries(id));
+    });
+
+  useEffect(() => {
+    reload();
+  }, [controller]);
+
+  const selected = webhooks?.find(webhook => webhook.id === selectedId) ?? null;
+  const editing = webhooks?.find(webhook => webhook.id === form.id) ?? null;
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setForm({
+      ...form,
+      events: form.events.includes(event) ? form.events.filter(other => other !== event) : [...form.events, event],
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { id, ...input } = form;
+    if (await run(() => controller.saveWebhook(id, input))) {
+      setForm(EMPTY_WEBHOOK_FORM);
+      await reload();
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Excluir o webhook para ${webhook.url}? O histórico de entregas também será apagado.`)) return;
+    if (await run(() => controller.deleteWebhook(webhook.id))) {
+      if (selectedId === webhook.id) setSelectedId(null);
+      if (form.id === webhook.id) setForm(EMPTY_WEBHOOK_FORM);
+      await reload();
+    }
+  };
+
+  const handleRotate = async (webhook: Webhook) => {
+    if (!confirm('Gerar um novo segredo? O receptor precisa ser atualizado para validar as próximas entregas.')) return;
+    if (await run(() => controller.rotateWebhookSecret(webhook.id))) await reload();
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    if (await run(() => controller.redeliverWebhook(delivery.webhookId, delivery.id))) {
+      await loadDeliveries(delivery.webhookId);
+    }
+  };
+
+  const eventLabel = (event: WebhookEvent) => WEBHOOK_EVENTS.find(known => known.value === event)?.label ?? event;
+
+  return (
+    <div className="directory-view">
+      <div className="list-header">
+        <h2>Webhooks</h2>
+      </div>
+
+      <section className="directory-section">
+        <p className="directory-detail">
+          Cada evento escolhido é enviado por POST como JSON, assinado com HMAC-SHA256 no cabeçalho
+          X-HelpDesk-Signature. Entregas que falham são repetidas com intervalos crescentes.
+        </p>
+        {error && <p className="query-error">{error}</p>}
+        {!webhooks ? (
+          <p className="directory-detail">Carregando...</p>
+        ) : (
+          <ul className="directory-list">
+            {webhooks.length === 0 && <li className="directory-detail">Nenhum webhook cadastrado.</li>}
+            {webhooks.map(webhook => (
+              <li key={webhook.id} className="directory-item">
+                <div>
+                  <strong>{webhook.description || webhook.url}</strong>
+                  {webhook.description && <span className="directory-detail">{webhook.url}</span>}
+                  <span className="directory-detail">
+                    {webhook.active ? 'Ativo' : 'Pausado'} · {webhook.events.map(eventLabel).join(', ')}
+                  </span>
+                </div>
+                <div className="directory-actions">
+                  <button className="btn-secondary" onClick={() => loadDeliveries(webhook.id)}>
+                    Entregas
+                  </button>
+                  <button
+                    className="btn-secondary"
+                    onClick={() =>
+                      setForm({
+                        id: webhook.id,
+                        url: webhook.url,
+                        description: webhook.description,
+                        events: webhook.events,
+                        active: webhook.active,
+                      })
+                    }
+                  >
+                    Editar
+                  </button>
+                  <button className="btn-danger" onClick={() => handleDelete(webhook)}>
+                    Excluir
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="directory-form">
+          <h4>{form.id ? 'Editar webhook' : 'Novo webhook'}</h4>
+          <div className="form-group">
+            <label>URL</label>
+            <input
+              type="url"
+              placeholder="https://exemplo.interno/helpdesk"
+              value={form.url}
+              onChange={e => setForm({ ...form, url: e.target.value })}
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label>Descrição</label>
+            <input
+              type="text"
+              value={form.description}
+              onChange={e => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label>Eventos</label>
+            <div className="directory-checkboxes">
+              {WEBHOOK_EVENTS.map(event => (
+                <label key={event.value}>
+                  <input
+                    type="checkbox"
+                    checked={form.events.includes(event.value)}
+                    onChange={() => toggleEvent(event.value)}
+                  />
+                  {event.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="form-group directory-checkboxes">
+            <label>
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={e => setForm({ ...form, active: e.target.checked })}
+              />
+              Ativo
+            </label>
+          </div>
+          {editing && (
+            <div className="form-group">
+              <label>Segredo</label>
+              <div className="directory-actions">
+                <code className="webhook-secret">{editing.secret}</code>
+                <button type="button" className="btn-secondary" onClick={() => handleRotate(editing)}>
+                  Gerar novo
+                </button>
+              </div>
+            </div>
+          )}
+          <div className="modal-actions">
+            {form.id && (
+              <button type="button" className="btn-secondary" onClick={() => setForm(EMPTY_WEBHOOK_FORM)}>
+                Cancelar
+              </button>
+            )}
+            <button type="submit" className="btn-primary">{form.id ? 'Salvar' : 'Adicionar'}</button>
+          </div>
+        </form>
+      </section>
+
+      {selected && (
+        <section className="directory-section">
+          <div className="directory-item">
+            <h3>Entregas — {selected.description || selected.url}</h3>
+            <button className="btn-secondary" onClick={() => loadDeliveries(selected.id)}>
+              Atualizar
+            </button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="directory-detail">Nenhuma entrega ainda.</p>
+          ) : (
+            <table className="sla-table webhook-deliveries">
+              <thead>
+                <tr>
+                  <th>Criada em</th>
+                  <th>Evento</th>
+                  <th>Situação</th>
+                  <th>Tentativas</th>
+                  <th>Resposta</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id}>
+                    <td>{new Date(delivery.createdAt).toLocaleString('pt-BR')}</td>
+                    <td>
+                      {eventLabel(delivery.event)}
+                      {delivery.redeliveryOf && <span className="directory-detail">Reenvio</span>}
+                    </td>
+                    <td className={`webhook-status-${delivery.status}`}>
+                      {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}
+                      {delivery.status === 'pending' && delivery.attempts > 0 && (
+                        <span className="directory-detail">
+                          Nova tentativa às {new Date(delivery.nextAttemptAt).toLocaleTimeString('pt-BR')}
+                        </span>
+                      )}
+                    </td>
+                    <td>{delivery.attempts}</td>
+                    <td>
+                      <details>
+                        <summary>{delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—')}</summary>
+                        <pre>{delivery.payload}</pre>
+                        {delivery.responseBody && <pre>{delivery.responseBody}</pre>}
+                      </details>
+                    </td>
+                    <td>
+                      <button
+                        className="btn-secondary"
+                        disabled={delivery.status === 'pending'}
+                        onClick={() => handleRedeliver(delivery)}
+                      >
+                        Reenviar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+const WorkflowView: React.FC = () => {
+  const { controller } = useTickets();
+  const [draft, setDraft] = useState<Workflow>(() => structuredClone(controller.getWorkflow()));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateStatus = (id: TicketStatus, changes: Partial<WorkflowStatus>) =>
+    setDraft({
+      ...draft,
+      statuses: draft.statuses.map(status => (status.id === id ? { ...status, ...changes } : status)),
+    });
+
+  const toggleTransition = (from: WorkflowStatus, to: TicketStatus) =>
+    updateStatus(from.id, {
+      transitions: from.transitions.includes(to)
+        ? from.transitions.filter(id => id !== to)
+        : [...from.transitions, to],
+    });
+
+  const addStatus = () => {
+    const label = prompt('Nome do novo status');
+    if (!label?.trim()) return;
+    const id = normalizeName(label).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    if (!id || draft.statuses.some(status => status.id === id)) {
+      alert('Já existe um status com este nome');
+      return;
+    }
+    setDraft({
+      ...draft,
+      statuses: [...draft.statuses, { id, label: label.trim(), color: '#64748b', icon: '📌', kind: 'active', transitions: [] }],
+    });
+  };
+
+  const removeStatus = (id: TicketStatus) =>
+    setDraft({
+      ...draft,
+      statuses: draft.statuses
+        .filter(status => status.id !== id)
+        .map(status => ({ ...status, transitions: status.transitions.filter(next => next !== id) })),
+    });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await controller.saveWorkflow(draft);
+      setDraft(structuredClone(controller.getWorkflow()));
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="directory-view">
+      <div className="list-header">
+        <h2>Fluxo de Status</h2>
+      </div>
+
+      <section className="directory-section">
+        <p className="directory-detail">
+          Defina os status, para onde cada um pode seguir e o que ele significa: status do tipo "resolvido" ou
+          "fechado" encerram os prazos de SLA e saem da carga de trabalho.
+        </p>
+        <table className="sla-table workflow-table">
+          <thead>
+            <tr>
+              <th>Inicial</th>
+              <th>Ícone</th>
+              <th>Nome</th>
+              <th>Cor</th>
+              <th>Tipo</th>
+              <th>Limite WIP</th>
+              <th>Pode seguir para</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {draft.statuses.map(status => {
+              const inUse = controller.countTicketsWithStatus(status.id);
+              return (
+                <tr key={status.id}>
+                  <td>
+                    <input
+                      type="radio"
+                      name="initial-status"
+                      checked={draft.initialStatus === status.id}
+                      onChange={() => setDraft({ ...draft, initialStatus: status.id })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="workflow-icon"
+                      value={status.icon}
+                      onChange={e => updateStatus(status.id, { icon: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={status.label}
+                      onChange={e => updateStatus(status.id, { label: e.target.value })}
+                    />
+                    <span className="directory-detail">{status.id}</span>
+                  </td>
+                  <td>
+                    <input
+                      type="color"
+                      value={status.color}
+                      onChange={e => updateStatus(status.id, { color: e.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      value={status.kind}
+                      onChange={e => updateStatus(status.id, { kind: e.target.value as StatusKind })}
+                    >
+                      {Object.entries(STATUS_KIND_LABELS).map(([kind, label]) => (
+                        <option key={kind} value={kind}>{label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={1}
+                      className="workflow-wip"
+                      placeholder="—"
+                      value={status.wipLimit ?? ''}
+                      onChange={e =>
+                        updateStatus(status.id, { wipLimit: e.target.value ? Number(e.target.value) : undefined })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <div className="directory-checkboxes">
+                      {draft.statuses
+                        .filter(other => other.id !== status.id)
+                        .map(other => (
+                          <label key={other.id}>
+                            <input
+                              type="checkbox"
+                              checked={status.transitions.includes(other.id)}
+                              onChange={() => toggleTransition(status, other.id)}
+                            />
+                            {other.label}
+                          </label>
+                        ))}
+                    </div>
+                  </td>
+                  <td>
+                    <button
+                      className="btn-danger"
+                      disabled={inUse > 0 || draft.initialStatus === status.id}
+                      title={inUse > 0 ? `${inUse} ticket(s) neste status` : undefined}
+                      onClick={() => removeStatus(status.id)}
+                    >
+                      Remover
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="modal-actions">
+          <button className="btn-secondary" onClick={addStatus}>Adicionar status</button>
+          <button className="btn-primary" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+type SlaPolicyDraft = SlaPolicyInput & { id?: string };
+
+const SlaPoliciesView: React.FC = () => {
+  const { controller } = useTickets();
+  const [drafts, setDrafts] = useState<SlaPolicyDraft[]>(() => controller.getSlaPolicies());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateDraft = (index: number, changes: Partial<SlaPolicyDraft>) =>
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+
+  // Targets are edited in hours but stored in minutes
+  const toHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+  const toMinutes = (hours: string) => Math.round(Number(hours) * 60);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await controller.saveSlaPolicies(drafts);
+      setDrafts(controller.getSlaPolicies());
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="directory-view">
+      <div className="list-header">
+        <h2>Políticas de SLA</h2>
+      </div>
+
+      <section className="directory-section">
+        <p className="directory-detail">
+          Prazos contados a partir da abertura do ticket, apenas nas horas abertas do calendário escolhido. Uma
+          política com categoria tem prioridade sobre a política geral da mesma prioridade.
+        </p>
+        <table className="sla-table">
+          <thead>
+            <tr>
+              <th>Prioridade</th>
+              <th>Categoria</th>
+              <th>Calendário</th>
+              <th>1ª resposta (h)</th>
+              <th>Resolução (h)</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map((draft, index) => (
+              <tr key={draft.id ?? `new_${index}`}>
+                <td>
+                  <select
+                    value={draft.priority}
+                    onChange={e => updateDraft(index, { priority: e.target.value as TicketPriority })}
+                  >
+                    {PRIORITIES.map(p => (
+                      <option key={p.value} value={p.value}>{p.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <select
+                    value={draft.category ?? ''}
+                    onChange={e =>
+                      updateDraft(index, { category: (e.target.value || undefined) as TicketCategory | undefined })
+                    }
+                  >
+                    <option value="">Todas</option>
+                    {CATEGORIES.map(c => (
+                      <option key={c.value} value={c.value}>{c.icon} {c.label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <select
+                    value={draft.calendarId ?? DEFAULT_CALENDAR_ID}
+                    onChange={e => updateDraft(index, { calendarId: e.target.value })}
+                  >
+                    {Object.values(BUSINESS_CALENDARS).map(calendar => (
+                      <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min="0.25"
+                    step="0.25"
+                    value={toHours(draft.firstResponseMinutes)}
+                    onChange={e => updateDraft(index, { firstResponseMinutes: toMinutes(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    min="0.25"
+                    step="0.25"
+                    value={toHours(draft.resolutionMinutes)}
+                    onChange={e => updateDraft(index, { resolutionMinutes: toMinutes(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <button className="btn-danger" onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}>
+                    Remover
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="modal-actions">
+          <button
+            className="btn-secondary"
+            onClick={() =>
+              setDrafts([...drafts, { priority: 'medium', firstResponseMinutes: 8 * 60, resolutionMinutes: 72 * 60 }])
+            }
+          >
+            Adicionar política
+          </button>
+          <button className="btn-primary" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Salvando...' : 'Salvar'}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+const NotFoundView: React.FC<{ onNavigate: (path: string) => void }> = ({ onNavigate }) => (
+  <div className="empty-state">
+    <p>Página não encontrada</p>
+    <button onClick={() => onNavigate(paths.dashboard())} className="btn-primary">Ir para o Dashboard</button>
+  </div>
+);
+
+// ============================================================================
+// MAIN APP COMPONENT
+// ============================================================================
+
+const App: React.FC<{
+  url?: string;
+  initialState?: InitialState;
+  store?: TicketStore;
+}> = ({ url, initialState, store }) => {
+  // Starts in light mode on both sides so hydration matches; the saved theme is applied after mount
+  const [darkMode, setDarkMode] = useState(false);
+
+  const [controller] = useState(() => {
+    return new TicketsController(
+      new TicketsModel(initialState?.data),
+      store ?? createTicketStore(import.meta.env.VITE_TICKET_STORE),
+      initialState?.currentUser ?? null,
+      { ticketList: initialState?.ticketList, board: initialState?.board, summary: initialState?.summary }
+    );
+  });
+
+  const [, setUpdateCount] = useState(0);
+  const forceUpdate = () => setUpdateCount(prev => prev + 1);
+
+  const [route, setRoute] = useState<Route>(() =>
+    parseRoute(url ?? (isClient ? window.location.pathname + window.location.search : '/'))
+  );
+  const selectedTicketId = getRouteTicketId(route);
+  const needsSummary = routeNeedsSummary(route);
+  // The previous summary stays up while a newer one loads after a change
+  const isLoadingSummary = needsSummary && !controller.getSummary();
+  const isSummaryOutdated = needsSummary && !controller.isSummaryCurrent();
+  // Remembered so leaving a ticket returns to the same filtered list
+  const lastListRef = useRef<TicketListState>({ query: '', sort: '' });
+  if (route.view === 'tickets') lastListRef.current = { query: route.query, sort: route.sort };
+
+  useEffect(() => {
+    const unsubscribe = controller.subscribe(() => {
+      forceUpdate();
+    });
+    return unsubscribe;
+  }, [controller]);
+
+  useEffect(() => {
+    if (!initialState) controller.restore().then(() => controller.refresh());
+  }, [controller]);
+
+  useEffect(() => controller.connectLive(initialState?.liveEventId ?? null), [controller]);
+
+  useEffect(() => {
+    if (!isSummaryOutdated) return;
+    controller.loadSummary().catch(error => console.error('Error loading ticket summary from server:', error));
+  }, [controller, isSummaryOutdated]);
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(parseRoute(window.location.pathname + window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    setDarkMode(StorageService.loadFromStorage(StorageService.getKeys().DARK_MODE, false));
+  }, []);
+
+  useEffect(() => {
+    if (isClient) {
+      document.documentElement.setAttribute('data-theme', darkMode ? 'dark' : 'light');
+      StorageService.saveToStorage(StorageService.getKeys().DARK_MODE, darkMode);
+    }
+  }, [darkMode]);
+
+  const toggleTheme = () => setDarkMode(!darkMode);
+
+  const navigate = (path: string, replace = false) => {
+    if (isClient && window.location.pathname + window.location.search !== path) {
+      window.history[replace ? 'replaceState' : 'pushState'](null, '', path);
+      window.scrollTo(0, 0);
+    }
+    setRoute(parseRoute(path));
+  };
+
+  // Typing a query updates the URL in place rather than piling up history entries
+  const handleListChange = ({ query, sort }: TicketListState) => {
+    if (isClient) window.history.replaceState(null, '', paths.tickets(query, sort));
+    setRoute({ view: 'tickets', query, sort });
+  };
+
+  const handleTicketClick = (id: string) => navigate(paths.ticket(id));
+
+  const handleNewTicket = () => navigate(paths.newTicket());
+
+  const handleEditTicket = () => {
+    if (selectedTicketId) navigate(paths.editTicket(selectedTicketId));
+  };
+
+  const handleBackFromDetail = () => navigate(paths.tickets(lastListRef.current.query, lastListRef.current.sort));
+
+  const handleLogout = async () => {
+    try {
+      await controller.logout();
+    } finally {
+      window.location.assign(paths.login());
+    }
+  };
+
+  const handleCloseForm = () => {
+    const { query, sort } = lastListRef.current;
+    navigate(route.view === 'edit' ? paths.ticket(route.ticketId) : paths.tickets(query, sort), true);
+  };
+
+  return (
+    <TicketsContext.Provider value={{ controller, currentUser: controller.getCurrentUser(), forceUpdate }}>
+      <div className="app">
+        {route.view !== 'login' && (
+          <Header
+            darkMode={darkMode}
+            toggleTheme={toggleTheme}
+            onNavigate={navigate}
+            onLogout={handleLogout}
+            currentView={route.view}
+            currentList={route.view === 'tickets' ? route : null}
+          />
+        )}
+
+        <main className="main-content">
+          {route.view === 'login' && <LoginView />}
+
+          {isLoadingSummary && (
+            <div className="empty-state">
+              <p>Carregando tickets...</p>
+            </div>
+          )}
+
+          {route.view === 'dashboard' && !isLoadingSummary && (
+            <DashboardView onTicketClick={handleTicketClick} onNavigate={navigate} />
+          )}
+
+          {route.view === 'board' && (
+            <BoardView onTicketClick={handleTicketClick} onNavigate={navigate} />
+          )}
+
+          {(route.view === 'tickets' || route.view === 'new') && (
+            <TicketsListView
+              list={route.view === 'tickets' ? route : lastListRef.current}
+              onListChange={handleListChange}
+              onTicketClick={handleTicketClick}
+              onNewTicket={handleNewTicket}
+              onImport={() => navigate(paths.importTickets())}
+            />
+          )}
+
+          {selectedTicketId && (
+            <TicketDetailView
+              ticketId={selectedTicketId}
+              onBack={handleBackFromDetail}
+              onEdit={handleEditTicket}
+            />
+          )}
+
+          {route.view === 'import' &&
+            (controller.hasPermission('importTickets') ? (
+              <ImportView onNavigate={navigate} />
+            ) : (
+              <NotFoundView onNavigate={navigate} />
+            ))}
+
+          {route.view === 'workflow' &&
+            !isLoadingSummary &&
+            (controller.hasPermission('manageWorkflow') ? <WorkflowView /> : <NotFoundView onNavigate={navigate} />)}
+
+          {route.view === 'notifications' &&
+            (controller.hasPermission('manageNotifications') ? (
+              <NotificationsView />
+            ) : (
+              <NotFoundView onNavigate={navigate} />
+            ))}
+
+          {route.view === 'webhooks' &&
+            (controller.hasPermission('manageWebhooks') ? <WebhooksView /> : <NotFoundView onNavigate={navigate} />)}
+
+          {route.view === 'sla' &&
+            (controller.hasPermission('manageSla') ? <SlaPoliciesView /> : <NotFoundView onNavigate={navigate} />)}
+
+          {route.view === 'directory' &&
+            !isLoadingSummary &&
+            (controller.hasPermission('manageDirectory') ? <DirectoryView /> : <NotFoundView onNavigate={navigate} />)}
+
+          {route.view === 'not-found' && <NotFoundView onNavigate={navigate} />}
+        </main>
+
+        <TicketFormModal
+          isOpen={route.view === 'new' || (route.view === 'edit' && !!controller.getTicketById(route.ticketId))}
+          ticketId={route.view === 'edit' ? route.ticketId : null}
+          onClose={handleCloseForm}
+        />
+      </div>
+    </TicketsContext.Provider>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const APP_STYLES = `
+:root {
+  --primary: #3b82f6;
+  --primary-dark: #2563eb;
+  --success: #10b981;
+  --danger: #ef4444;
+  --warning: #f59e0b;
+  --info: #06b6d4;
+  
+  --bg: #f8fafc;
+  --surface: #ffffff;
+  --card-bg: #ffffff;
+  --text: #0f172a;
+  --text-secondary: #64748b;
+  --border: #e2e8f0;
+  --shadow: rgba(0, 0, 0, 0.1);
+  --shadow-lg: rgba(0, 0, 0, 0.15);
+  
+  --header-bg: #ffffff;
+  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
+}
+
+[data-theme="dark"] {
+  --bg: #0f172a;
+  --surface: #1e293b;
+  --card-bg: #1e293b;
+  --text: #f1f5f9;
+  --text-secondary: #94a3b8;
+  --border: #334155;
+  --shadow: rgba(0, 0, 0, 0.3);
+  --shadow-lg: rgba(0, 0, 0, 0.5);
+  
+  --header-bg: #1e293b;
+  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.3);
+}
+
+* {
+  margin: 0;
+  padding: 0;
+  box-sizing: border-box;
+}
+
+body {
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', sans-serif;
+  background: var(--bg);
+  color: var(--text);
+  transition: background-color 0.3s ease, color 0.3s ease;
+}
+
+.app {
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+}
+
+.header {
+  background: var(--header-bg);
+  box-shadow: var(--header-shadow);
+  position: sticky;
+  top: 0;
+  z-index: 100;
+}
+
+.header-content {
+  max-width: 1400px;
+  margin: 0 auto;
+  padding: 1rem 2rem;
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 2rem;
+}
+
+.header-brand {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  cursor: pointer;
+}
+
+.header-icon {
+  width: 32px;
+  height: 32px;
+  color: var(--primary);
+}
+
+.header h1 {
+  font-size: 1.5rem;
+  font-weight: 700;
+}
+
+.header-nav {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.header-nav button {
+  padding: 0.5rem 1rem;
+  border: none;
+  border-radius: 8px;
+  background: transparent;
+  color: var(--text);
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.header-nav button:hover {
+  background: var(--surface);
+}
+
+.header-nav button.active {
+  background: var(--primary);
+  color: white;
+}
+
+.header-actions {
+  display: flex;
+  align-items: center;
+  gap: 1rem;
+}
+
+.urgent-badge {
+  position: relative;
+  width: 40px;
+  height: 40px;
+  border-radius: 50%;
+  background: var(--danger);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  box-shadow: 0 2px 8px rgba(239, 68, 68, 0.4);
+}
+
+.urgent-badge svg {
+  width: 20px;
+  height: 20px;
+  color: white;
+}
+
+.theme-toggle {
+  width: 40px;
+  height: 40px;
+  border-radius: 50%;
+  border: none;
+  background: var(--surface);
+  cursor: pointer;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  transition: all 0.2s ease;
+  box-shadow: 0 2px 4px var(--shadow);
+}
+
+.theme-toggle:hover {
+  transform: scale(1.05);
+  background: var(--primary);
+  color: white;
+}
+
+.theme-toggle svg {
+  width: 20px;
+  height: 20px;
+}
+
+.header-user {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+}
+
+.header-user-info {
+  display: flex;
+  flex-direction: column;
+  align-items: flex-end;
+  line-height: 1.2;
+}
+
+.header-user-name {
+  font-weight: 600;
+  font-size: 0.875rem;
+}
+
+.header-user-role {
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+}
+
+.login-view {
+  display: flex;
+  justify-content: center;
+  padding-top: 4rem;
+}
+
+.login-card {
+  width: 100%;
+  max-width: 400px;
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 2rem;
+  display: flex;
+  flex-direction: column;
+  box-shadow: 0 4px 12px var(--shadow);
+}
+
+.login-card .header-brand {
+  justify-content: center;
+  margin-bottom: 1.5rem;
+  cursor: default;
+}
+
+.login-card h1 {
+  font-size: 1.5rem;
+  font-weight: 700;
+}
+
+.login-card .btn-primary {
+  justify-content: center;
+}
+
+.login-error {
+  color: var(--danger);
+  font-size: 0.875rem;
+  margin-bottom: 1rem;
+  white-space: pre-line;
+}
+
+.badge {
+  position: absolute;
+  top: -4px;
+  right: -4px;
+  background: white;
+  color: var(--danger);
+  border-radius: 10px;
+  padding: 0.125rem 0.375rem;
+  font-size: 0.75rem;
+  font-weight: 700;
+  min-width: 20px;
+  text-align: center;
+}
+
+.main-content {
+  flex: 1;
+  max-width: 1400px;
+  width: 100%;
+  margin: 0 auto;
+  padding: 2rem;
+}
+
+.dashboard-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: 1rem;
+  flex-wrap: wrap;
+  margin-bottom: 2rem;
+}
+
+.time-mode-toggle {
+  display: flex;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  overflow: hidden;
+}
+
+.time-mode-toggle button {
+  padding: 0.5rem 0.875rem;
+  border: none;
+  background: var(--card-bg);
+  color: var(--text-secondary);
+  font-size: 0.8125rem;
+  font-weight: 600;
+  cursor: pointer;
+}
+
+.time-mode-toggle button.active {
+  background: var(--primary);
+  color: white;
+}
+
+.dashboard-header h2 {
+  font-size: 1.75rem;
+  font-weight: 700;
+  margin-bottom: 0.25rem;
+}
+
+.dashboard-subtitle {
+  color: var(--text-secondary);
+}
+
+.stats-grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+  gap: 1.5rem;
+  margin-bottom: 2rem;
+}
+
+.stat-card {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 1.5rem;
+  display: flex;
+  align-items: center;
+  gap: 1rem;
+  transition: all 0.2s ease;
+}
+
+.stat-card:hover {
+  transform: translateY(-2px);
+  box-shadow: 0 4px 12px var(--shadow-lg);
+}
+
+.stat-icon {
+  font-size: 2.5rem;
+}
+
+.stat-content {
+  flex: 1;
+}
+
+.stat-value {
+  font-size: 2rem;
+  font-weight: 700;
+  color: var(--primary);
+}
+
+.stat-label {
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+}
+
+.stats-row {
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 2rem;
+  margin-bottom: 2rem;
+}
+
+.stats-section {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 1.5rem;
+}
+
+.stats-section h3 {
+  font-size: 1.125rem;
+  font-weight: 600;
+  margin-bottom: 1rem;
+}
+
+.priority-stats {
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+}
+
+.priority-item {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 0.75rem;
+  background: var(--surface);
+  border-radius: 8px;
+}
+
+.priority-label {
+  font-weight: 500;
+}
+
+.priority-count {
+  font-weight: 700;
+  font-size: 1.125rem;
+}
+
+.resolution-time {
+  font-size: 3rem;
+  font-weight: 700;
+  color: var(--primary);
+  text-align: center;
+  padding: 2rem;
+}
+
+.resolution-caption {
+  text-align: center;
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+}
+
+.urgent-section {
+  background: var(--card-bg);
+  border: 2px solid var(--danger);
+  border-radius: 12px;
+  padding: 1.5rem;
+  margin-bottom: 2rem;
+}
+
+.urgent-section h3 {
+  font-size: 1.125rem;
+  font-weight: 600;
+  margin-bottom: 1rem;
+  color: var(--danger);
+}
+
+.urgent-list {
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+}
+
+.urgent-item {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: 1rem;
+  background: var(--surface);
+  border-radius: 8px;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.urgent-item:hover {
+  transform: translateX(4px);
+  box-shadow: 0 2px 8px var(--shadow);
+}
 
-  const [, setUpdateCount] = useState(0);
-  const forceUpdate = () => setUpdateCount(prev => prev + 1);
+.urgent-info h4 {
+  font-size: 0.9375rem;
+  font-weight: 600;
+  margin-bottom: 0.25rem;
+}
 
-  const [currentView, setCurrentView] = useState<string>('dashboard');
-  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
-  const [showTicketForm, setShowTicketForm] = useState(false);
-  const [editingTicketId, setEditingTicketId] = useState<string | null>(null);
+.urgent-author {
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+}
 
-  useEffect(() => {
-    const unsubscribe = controller.subscribe(() => {
-      forceUpdate();
-    });
-    return unsubscribe;
-  }, [controller]);
+.urgent-category {
+  font-size: 1.5rem;
+}
 
-  useEffect(() => {
-    if (isClient) {
-      document.documentElement.setAttribute('data-theme', darkMode ? 'dark' : 'light');
-      StorageService.saveToStorage(StorageService.getKeys().DARK_MODE, darkMode);
-    }
-  }, [darkMode]);
+.recent-tickets h3,
+.list-header h2 {
+  font-size: 1.25rem;
+  font-weight: 700;
+  margin-bottom: 1.5rem;
+}
 
-  const toggleTheme = () => setDarkMode(!darkMode);
+.tickets-grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(320px, 1fr));
+  gap: 1.5rem;
+}
 
-  const handleTicketClick = (id: string) => {
-    setSelectedTicketId(id);
-    setCurrentView('detail');
-  };
+.ticket-card {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 1.5rem;
+  cursor: pointer;
+  transition: all 0.2s ease;
+  position: relative;
+}
 
-  const handleNewTicket = () => {
-    setEditingTicketId(null);
-    setShowTicketForm(true);
-  };
+.ticket-card:hover {
+  transform: translateY(-4px);
+  box-shadow: 0 8px 16px var(--shadow-lg);
+}
 
-  const handleEditTicket = () => {
-    setEditingTicketId(selectedTicketId);
-    setShowTicketForm(true);
-  };
+.ticket-card-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 1rem;
+}
 
-  const handleBackFromDetail = () => {
-    setSelectedTicketId(null);
-    setCurrentView('tickets');
-  };
+.ticket-id {
+  font-size: 0.875rem;
+  font-weight: 600;
+  color: var(--text-secondary);
+}
 
-  const handleCloseForm = () => {
-    setShowTicketForm(false);
-    setEditingTicketId(null);
-  };
+.ticket-badges {
+  display: flex;
+  gap: 0.5rem;
+}
 
-  return (
-    <TicketsContext.Provider value={{ controller, forceUpdate }}>
-      <div className="app">
-        <Header
-          darkMode={darkMode}
-          toggleTheme={toggleTheme}
-          onNavigate={setCurrentView}
-          currentView={currentView}
-        />
+.badge-priority,
+.badge-status {
+  padding: 0.25rem 0.75rem;
+  border-radius: 6px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: white;
+}
 
-        <main className="main-content">
-          {currentView === 'dashboard' && <DashboardView onTicketClick={handleTicketClick} />}
+.ticket-title {
+  font-size: 1.125rem;
+  font-weight: 700;
+  margin-bottom: 0.5rem;
+}
 
-          {currentView === 'tickets' && (
-            <TicketsListView onTicketClick={handleTicketClick} onNewTicket={handleNewTicket} />
-          )}
+.ticket-card mark {
+  background: rgba(250, 204, 21, 0.45);
+  color: inherit;
+  border-radius: 2px;
+  padding: 0 1px;
+}
 
-          {currentView === 'detail' && selectedTicketId && (
-            <TicketDetailView
-              ticketId={selectedTicketId}
-              onBack={handleBackFromDetail}
-              onEdit={handleEditTicket}
-            />
-          )}
-        </main>
+.ticket-comment-snippet {
+  margin: -0.5rem 0 1rem;
+  color: var(--text-secondary);
+  font-size: 0.8rem;
+  font-style: italic;
+}
 
-        <TicketFormModal
-          isOpen={showTicketForm}
-          ticketId={editingTicketId}
-          onClose={handleCloseForm}
-        />
-      </div>
-    </TicketsContext.Provider>
-  );
-};
+.ticket-description {
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+  margin-bottom: 1rem;
+  line-height: 1.5;
+  display: -webkit-box;
+  -webkit-line-clamp: 2;
+  -webkit-box-orient: vertical;
+  overflow: hidden;
+}
 
-// ============================================================================
-// STYLES
-// ============================================================================
+.ticket-footer {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding-top: 1rem;
+  border-top: 1px solid var(--border);
+}
 
-const APP_STYLES = `
-:root {
-  --primary: #3b82f6;
-  --primary-dark: #2563eb;
-  --success: #10b981;
-  --danger: #ef4444;
-  --warning: #f59e0b;
-  --info: #06b6d4;
-  
-  --bg: #f8fafc;
-  --surface: #ffffff;
-  --card-bg: #ffffff;
-  --text: #0f172a;
-  --text-secondary: #64748b;
-  --border: #e2e8f0;
-  --shadow: rgba(0, 0, 0, 0.1);
-  --shadow-lg: rgba(0, 0, 0, 0.15);
-  
-  --header-bg: #ffffff;
-  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
+.ticket-meta {
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
 }
 
-[data-theme="dark"] {
-  --bg: #0f172a;
-  --surface: #1e293b;
-  --card-bg: #1e293b;
-  --text: #f1f5f9;
-  --text-secondary: #94a3b8;
-  --border: #334155;
-  --shadow: rgba(0, 0, 0, 0.3);
-  --shadow-lg: rgba(0, 0, 0, 0.5);
-  
-  --header-bg: #1e293b;
-  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.3);
+.ticket-category,
+.ticket-author {
+  font-size: 0.875rem;
+  font-weight: 500;
 }
 
-* {
-  margin: 0;
-  padding: 0;
-  box-sizing: border-box;
+.ticket-author {
+  color: var(--text-secondary);
 }
 
-body {
-  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', sans-serif;
-  background: var(--bg);
-  color: var(--text);
-  transition: background-color 0.3s ease, color 0.3s ease;
+.ticket-time {
+  font-size: 0.875rem;
+  color: var(--text-secondary);
 }
 
-.app {
-  min-height: 100vh;
+.ticket-comments-count {
+  position: absolute;
+  bottom: 1rem;
+  right: 1rem;
   display: flex;
-  flex-direction: column;
+  align-items: center;
+  gap: 0.25rem;
+  font-size: 0.875rem;
+  color: var(--text-secondary);
 }
 
-.header {
-  background: var(--header-bg);
-  box-shadow: var(--header-shadow);
-  position: sticky;
-  top: 0;
-  z-index: 100;
+.ticket-comments-count svg {
+  width: 16px;
+  height: 16px;
 }
 
-.header-content {
-  max-width: 1400px;
-  margin: 0 auto;
-  padding: 1rem 2rem;
+.list-header {
   display: flex;
   justify-content: space-between;
   align-items: center;
-  gap: 2rem;
+  margin-bottom: 1.5rem;
 }
 
-.header-brand {
-  display: flex;
-  align-items: center;
-  gap: 0.75rem;
-  cursor: pointer;
+.filters-section {
+  margin-bottom: 1.5rem;
+}
+
+.query-box {
+  position: relative;
+  margin-bottom: 1rem;
+}
+
+.search-box {
+  position: relative;
+}
+
+.search-box svg {
+  position: absolute;
+  left: 1rem;
+  top: 50%;
+  transform: translateY(-50%);
+  width: 20px;
+  height: 20px;
+  color: var(--text-secondary);
+}
+
+.search-box input {
+  width: 100%;
+  padding: 0.75rem 1rem 0.75rem 3rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
 }
 
-.header-icon {
-  width: 32px;
-  height: 32px;
-  color: var(--primary);
+.search-box.invalid input {
+  border-color: var(--danger);
 }
 
-.header h1 {
-  font-size: 1.5rem;
-  font-weight: 700;
+.query-suggestions {
+  position: absolute;
+  top: calc(100% + 4px);
+  left: 0;
+  right: 0;
+  z-index: 20;
+  max-height: 280px;
+  overflow-y: auto;
+  margin: 0;
+  padding: 0.25rem 0;
+  list-style: none;
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  box-shadow: var(--shadow-lg);
 }
 
-.header-nav {
+.query-suggestions li {
   display: flex;
-  gap: 0.5rem;
-}
-
-.header-nav button {
+  justify-content: space-between;
+  gap: 1rem;
   padding: 0.5rem 1rem;
-  border: none;
-  border-radius: 8px;
-  background: transparent;
-  color: var(--text);
-  font-weight: 500;
   cursor: pointer;
-  transition: all 0.2s ease;
 }
 
-.header-nav button:hover {
+.query-suggestions li.active,
+.query-suggestions li:hover {
   background: var(--surface);
 }
 
-.header-nav button.active {
-  background: var(--primary);
-  color: white;
+.suggestion-label {
+  color: var(--text);
+  font-family: monospace;
 }
 
-.header-actions {
+.suggestion-detail {
+  color: var(--text-secondary);
+  font-size: 0.8rem;
+  text-align: right;
+}
+
+.query-error {
+  margin: 0.5rem 0 0;
+  color: var(--danger);
+  font-size: 0.875rem;
+}
+
+.filter-groups {
   display: flex;
-  align-items: center;
+  flex-direction: column;
   gap: 1rem;
 }
 
-.urgent-badge {
-  position: relative;
-  width: 40px;
-  height: 40px;
-  border-radius: 50%;
-  background: var(--danger);
+.filter-group {
   display: flex;
   align-items: center;
-  justify-content: center;
-  box-shadow: 0 2px 8px rgba(239, 68, 68, 0.4);
+  gap: 0.5rem;
+  flex-wrap: wrap;
 }
 
-.urgent-badge svg {
-  width: 20px;
-  height: 20px;
-  color: white;
+.filter-label {
+  font-size: 0.875rem;
+  font-weight: 600;
+  color: var(--text-secondary);
 }
 
-.theme-toggle {
-  width: 40px;
-  height: 40px;
-  border-radius: 50%;
-  border: none;
+.filter-btn {
+  padding: 0.5rem 1rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
   background: var(--surface);
+  color: var(--text);
+  font-size: 0.875rem;
   cursor: pointer;
-  display: flex;
-  align-items: center;
-  justify-content: center;
   transition: all 0.2s ease;
-  box-shadow: 0 2px 4px var(--shadow);
-}
-
-.theme-toggle:hover {
-  transform: scale(1.05);
-  background: var(--primary);
-  color: white;
-}
-
-.theme-toggle svg {
-  width: 20px;
-  height: 20px;
-}
-
-.badge {
-  position: absolute;
-  top: -4px;
-  right: -4px;
-  background: white;
-  color: var(--danger);
-  border-radius: 10px;
-  padding: 0.125rem 0.375rem;
-  font-size: 0.75rem;
-  font-weight: 700;
-  min-width: 20px;
-  text-align: center;
-}
-
-.main-content {
-  flex: 1;
-  max-width: 1400px;
-  width: 100%;
-  margin: 0 auto;
-  padding: 2rem;
 }
 
-.dashboard-header {
-  margin-bottom: 2rem;
-}
-
-.dashboard-header h2 {
-  font-size: 1.75rem;
-  font-weight: 700;
-  margin-bottom: 0.25rem;
-}
-
-.dashboard-subtitle {
-  color: var(--text-secondary);
+.filter-btn:hover {
+  background: var(--border);
 }
 
-.stats-grid {
-  display: grid;
-  grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
-  gap: 1.5rem;
-  margin-bottom: 2rem;
+.filter-btn.active {
+  background: var(--primary);
+  color: white;
+  border-color: var(--primary);
 }
 
-.stat-card {
-  background: var(--card-bg);
-  border: 1px solid var(--border);
-  border-radius: 12px;
-  padding: 1.5rem;
+.saved-views {
   display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
   align-items: center;
   gap: 1rem;
-  transition: all 0.2s ease;
+  margin-bottom: 1.5rem;
 }
 
-.stat-card:hover {
-  transform: translateY(-2px);
-  box-shadow: 0 4px 12px var(--shadow-lg);
+.saved-views-list {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0.5rem;
 }
 
-.stat-icon {
-  font-size: 2.5rem;
+.saved-views-empty {
+  color: var(--text-secondary);
+  font-size: 0.875rem;
 }
 
-.stat-content {
-  flex: 1;
+.saved-view {
+  display: flex;
+  align-items: center;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  overflow: hidden;
 }
 
-.stat-value {
-  font-size: 2rem;
-  font-weight: 700;
-  color: var(--primary);
+.saved-view.active {
+  border-color: var(--primary);
 }
 
-.stat-label {
+.saved-view button {
+  border: none;
+  background: transparent;
+  color: var(--text);
+  cursor: pointer;
   font-size: 0.875rem;
-  color: var(--text-secondary);
 }
 
-.stat-card.open .stat-value {
-  color: var(--primary);
+.saved-view-name {
+  padding: 0.4rem 0.75rem;
 }
 
-.stat-card.progress .stat-value {
-  color: var(--warning);
+.saved-view.active .saved-view-name {
+  background: var(--primary);
+  color: white;
 }
 
-.stat-card.resolved .stat-value {
-  color: var(--success);
+.saved-view-action {
+  padding: 0.4rem 0.4rem;
+  opacity: 0.45;
 }
 
-.stats-row {
-  display: grid;
-  grid-template-columns: 1fr 1fr;
-  gap: 2rem;
-  margin-bottom: 2rem;
+.saved-view-action:hover,
+.saved-view-action.on {
+  opacity: 1;
 }
 
-.stats-section {
-  background: var(--card-bg);
-  border: 1px solid var(--border);
-  border-radius: 12px;
-  padding: 1.5rem;
+.saved-views-actions,
+.saved-view-form {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0.5rem;
 }
 
-.stats-section h3 {
-  font-size: 1.125rem;
-  font-weight: 600;
-  margin-bottom: 1rem;
+.saved-view-form input[type='text'] {
+  padding: 0.5rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
 }
 
-.priority-stats {
+.saved-view-form label {
   display: flex;
-  flex-direction: column;
-  gap: 0.75rem;
+  align-items: center;
+  gap: 0.35rem;
+  font-size: 0.875rem;
+  color: var(--text-secondary);
 }
 
-.priority-item {
+.list-toolbar {
   display: flex;
+  flex-wrap: wrap;
   justify-content: space-between;
   align-items: center;
-  padding: 0.75rem;
-  background: var(--surface);
-  border-radius: 8px;
-}
-
-.priority-label {
-  font-weight: 500;
+  gap: 1rem;
+  margin-bottom: 1rem;
 }
 
-.priority-count {
-  font-weight: 700;
-  font-size: 1.125rem;
+.tickets-count {
+  color: var(--text-secondary);
 }
 
-.resolution-time {
-  font-size: 3rem;
-  font-weight: 700;
-  color: var(--primary);
-  text-align: center;
-  padding: 2rem;
+.list-more {
+  display: flex;
+  justify-content: center;
+  margin-top: 1.5rem;
 }
 
-.urgent-section {
-  background: var(--card-bg);
-  border: 2px solid var(--danger);
-  border-radius: 12px;
-  padding: 1.5rem;
-  margin-bottom: 2rem;
+.sort-control {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  font-size: 0.875rem;
+  color: var(--text-secondary);
 }
 
-.urgent-section h3 {
-  font-size: 1.125rem;
-  font-weight: 600;
-  margin-bottom: 1rem;
-  color: var(--danger);
+.sort-control select {
+  padding: 0.4rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
 }
-
-.urgent-list {
-  display: flex;
-  flex-direction: column;
-  gap: 0.75rem;
+
+.sort-control .btn-secondary {
+  padding: 0.4rem 0.75rem;
 }
 
-.urgent-item {
+.transfer-actions {
   display: flex;
   align-items: center;
-  justify-content: space-between;
-  padding: 1rem;
-  background: var(--surface);
-  border-radius: 8px;
-  cursor: pointer;
-  transition: all 0.2s ease;
+  gap: 0.5rem;
+  margin-left: auto;
 }
 
-.urgent-item:hover {
-  transform: translateX(4px);
-  box-shadow: 0 2px 8px var(--shadow);
+.export-menu {
+  position: relative;
 }
 
-.urgent-info h4 {
-  font-size: 0.9375rem;
-  font-weight: 600;
-  margin-bottom: 0.25rem;
+.export-menu summary {
+  list-style: none;
+  padding: 0.4rem 0.75rem;
+  cursor: pointer;
 }
 
-.urgent-author {
-  font-size: 0.875rem;
-  color: var(--text-secondary);
+.export-menu summary::-webkit-details-marker {
+  display: none;
 }
 
-.urgent-category {
-  font-size: 1.5rem;
+.export-options {
+  position: absolute;
+  right: 0;
+  z-index: 20;
+  display: flex;
+  flex-direction: column;
+  min-width: 220px;
+  margin-top: 0.25rem;
+  padding: 0.25rem 0;
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  box-shadow: 0 10px 15px -3px var(--shadow-lg);
 }
 
-.recent-tickets h3,
-.list-header h2 {
-  font-size: 1.25rem;
-  font-weight: 700;
-  margin-bottom: 1.5rem;
+.export-options a {
+  padding: 0.5rem 1rem;
+  color: var(--text);
+  font-size: 0.875rem;
+  text-decoration: none;
 }
 
-.tickets-grid {
-  display: grid;
-  grid-template-columns: repeat(auto-fill, minmax(320px, 1fr));
+.export-options a:hover {
+  background: var(--bg);
+}
+
+.import-counts {
+  display: flex;
+  flex-wrap: wrap;
   gap: 1.5rem;
+  font-weight: 600;
 }
 
-.ticket-card {
-  background: var(--card-bg);
-  border: 1px solid var(--border);
-  border-radius: 12px;
-  padding: 1.5rem;
-  cursor: pointer;
-  transition: all 0.2s ease;
-  position: relative;
+.import-counts .import-failed {
+  color: var(--danger);
 }
 
-.ticket-card:hover {
-  transform: translateY(-4px);
-  box-shadow: 0 8px 16px var(--shadow-lg);
+.import-mode {
+  flex-direction: column;
+  margin: 1rem 0;
 }
 
-.ticket-card-header {
+.notification-tabs {
   display: flex;
-  justify-content: space-between;
-  align-items: center;
+  flex-wrap: wrap;
+  gap: 0.5rem;
   margin-bottom: 1rem;
 }
 
-.ticket-id {
-  font-size: 0.875rem;
-  font-weight: 600;
+.notification-editor {
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 1.5rem;
+}
+
+.notification-placeholders {
+  margin: 0;
+  padding-left: 1.25rem;
+  font-size: 0.8125rem;
   color: var(--text-secondary);
 }
 
-.ticket-badges {
+.notification-preview {
   display: flex;
+  flex-direction: column;
   gap: 0.5rem;
+  padding: 1rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--bg);
 }
 
-.badge-priority,
-.badge-status {
-  padding: 0.25rem 0.75rem;
-  border-radius: 6px;
-  font-size: 0.75rem;
-  font-weight: 600;
-  color: white;
+.notification-preview pre {
+  margin: 0;
+  white-space: pre-wrap;
+  font-family: inherit;
 }
 
-.ticket-title {
-  font-size: 1.125rem;
-  font-weight: 700;
-  margin-bottom: 0.5rem;
+.webhook-secret {
+  padding: 0.5rem;
+  border-radius: 8px;
+  background: var(--bg);
+  font-size: 0.8125rem;
+  word-break: break-all;
 }
 
-.ticket-description {
-  font-size: 0.875rem;
-  color: var(--text-secondary);
-  margin-bottom: 1rem;
-  line-height: 1.5;
-  display: -webkit-box;
-  -webkit-line-clamp: 2;
-  -webkit-box-orient: vertical;
-  overflow: hidden;
+.webhook-deliveries pre {
+  max-width: 480px;
+  max-height: 240px;
+  margin-top: 0.5rem;
+  overflow: auto;
+  font-size: 0.75rem;
+  white-space: pre-wrap;
+  word-break: break-all;
 }
 
-.ticket-footer {
-  display: flex;
-  justify-content: space-between;
-  align-items: center;
-  padding-top: 1rem;
-  border-top: 1px solid var(--border);
+.webhook-status-succeeded {
+  color: var(--success);
 }
 
-.ticket-meta {
-  display: flex;
-  flex-direction: column;
-  gap: 0.25rem;
+.webhook-status-failed {
+  color: var(--danger);
 }
 
-.ticket-category,
-.ticket-author {
-  font-size: 0.875rem;
-  font-weight: 500;
+.tickets-grid-virtual {
+  position: relative;
 }
 
-.ticket-author {
-  color: var(--text-secondary);
+.ticket-select {
+  margin-right: 0.5rem;
+  vertical-align: middle;
+  cursor: pointer;
 }
 
-.ticket-time {
-  font-size: 0.875rem;
-  color: var(--text-secondary);
+.ticket-card.selected {
+  border-color: var(--primary);
+  box-shadow: 0 0 0 2px var(--primary);
 }
 
-.ticket-comments-count {
-  position: absolute;
-  bottom: 1rem;
-  right: 1rem;
-  display: flex;
-  align-items: center;
-  gap: 0.25rem;
+.link-button {
+  border: none;
+  background: none;
+  padding: 0;
+  color: var(--primary);
   font-size: 0.875rem;
-  color: var(--text-secondary);
-}
-
-.ticket-comments-count svg {
-  width: 16px;
-  height: 16px;
+  cursor: pointer;
+  text-decoration: underline;
 }
 
-.list-header {
+.bulk-bar {
+  position: sticky;
+  top: 80px;
+  z-index: 10;
   display: flex;
+  flex-wrap: wrap;
   justify-content: space-between;
   align-items: center;
-  margin-bottom: 1.5rem;
-}
-
-.filters-section {
-  margin-bottom: 1.5rem;
-}
-
-.search-box {
-  position: relative;
+  gap: 1rem;
   margin-bottom: 1rem;
+  padding: 0.75rem 1rem;
+  background: var(--card-bg);
+  border: 1px solid var(--primary);
+  border-radius: 12px;
+  box-shadow: 0 4px 12px var(--shadow);
 }
 
-.search-box svg {
-  position: absolute;
-  left: 1rem;
-  top: 50%;
-  transform: translateY(-50%);
-  width: 20px;
-  height: 20px;
-  color: var(--text-secondary);
+.bulk-selection,
+.bulk-controls {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0.75rem;
 }
 
-.search-box input {
-  width: 100%;
-  padding: 0.75rem 1rem 0.75rem 3rem;
+.bulk-controls select,
+.bulk-controls input[type='text'] {
+  padding: 0.5rem 0.75rem;
   border: 1px solid var(--border);
   border-radius: 8px;
   background: var(--surface);
   color: var(--text);
 }
 
-.filter-groups {
-  display: flex;
-  flex-direction: column;
-  gap: 1rem;
+.bulk-controls input[type='text'] {
+  min-width: 280px;
 }
 
-.filter-group {
+.bulk-internal {
   display: flex;
   align-items: center;
-  gap: 0.5rem;
-  flex-wrap: wrap;
-}
-
-.filter-label {
+  gap: 0.35rem;
   font-size: 0.875rem;
-  font-weight: 600;
   color: var(--text-secondary);
 }
 
-.filter-btn {
-  padding: 0.5rem 1rem;
+.bulk-report {
+  margin-bottom: 1rem;
+  padding: 0.75rem 1rem;
   border: 1px solid var(--border);
+  border-left: 4px solid #10b981;
   border-radius: 8px;
   background: var(--surface);
-  color: var(--text);
   font-size: 0.875rem;
-  cursor: pointer;
-  transition: all 0.2s ease;
 }
 
-.filter-btn:hover {
-  background: var(--border);
+.bulk-report.has-skipped {
+  border-left-color: var(--warning);
 }
 
-.filter-btn.active {
-  background: var(--primary);
-  color: white;
-  border-color: var(--primary);
+.bulk-report-header {
+  display: flex;
+  justify-content: space-between;
+  gap: 1rem;
 }
 
-.tickets-count {
-  margin-bottom: 1rem;
+.bulk-report ul {
+  margin: 0.5rem 0 0;
+  padding-left: 1.25rem;
   color: var(--text-secondary);
 }
 
+.tickets-grid-virtual .ticket-card {
+  height: 244px;
+  overflow: hidden;
+  animation: none;
+}
+
 .detail-header {
   display: flex;
   justify-content: space-between;
@@ -1966,22 +9357,92 @@ body {
   gap: 1rem;
 }
 
-.comment-author-input {
-  padding: 0.75rem;
+.comment-author-input {
+  padding: 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+}
+
+.comment-form textarea {
+  padding: 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+  font-family: inherit;
+  resize: vertical;
+}
+
+.attachment-upload {
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+}
+
+.attachment-dropzone {
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  padding: 1rem;
+  border: 2px dashed var(--border);
+  border-radius: 8px;
+  color: var(--text-secondary);
+  font-size: 0.875rem;
+  text-align: center;
+  cursor: pointer;
+}
+
+.attachment-dropzone.dragging {
+  border-color: var(--primary);
+  background: var(--bg);
+}
+
+.attachment-list {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.75rem;
+  margin: 0.75rem 0 0;
+  padding: 0;
+  list-style: none;
+}
+
+.attachment-item {
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  max-width: 160px;
+  font-size: 0.8125rem;
+}
+
+.attachment-thumb {
+  display: block;
+  width: 160px;
+  height: 120px;
+  object-fit: cover;
   border: 1px solid var(--border);
   border-radius: 8px;
-  background: var(--surface);
-  color: var(--text);
 }
 
-.comment-form textarea {
-  padding: 0.75rem;
+.attachment-file {
+  color: var(--primary);
+  word-break: break-all;
+}
+
+.attachment-size {
+  color: var(--text-secondary);
+  font-size: 0.75rem;
+}
+
+.attachment-remove {
+  align-self: flex-start;
+  padding: 0 0.375rem;
   border: 1px solid var(--border);
-  border-radius: 8px;
-  background: var(--surface);
-  color: var(--text);
-  font-family: inherit;
-  resize: vertical;
+  border-radius: 4px;
+  background: transparent;
+  color: var(--text-secondary);
+  cursor: pointer;
 }
 
 .comments-list {
@@ -2016,6 +9477,70 @@ body {
   line-height: 1.6;
 }
 
+.comment-visibility {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.comment-form textarea.internal {
+  border-color: var(--warning);
+  background: rgba(245, 158, 11, 0.08);
+}
+
+.comment-item.internal {
+  background: rgba(245, 158, 11, 0.1);
+  border-left: 3px solid var(--warning);
+}
+
+.internal-badge {
+  margin-left: 0.5rem;
+  padding: 0.125rem 0.5rem;
+  border-radius: 6px;
+  background: var(--warning);
+  color: white;
+  font-size: 0.75rem;
+  font-weight: 600;
+}
+
+.timeline-event {
+  padding: 0.75rem 1rem;
+  border-left: 3px solid var(--border);
+  font-size: 0.9375rem;
+}
+
+.timeline-event .comment-header {
+  margin-bottom: 0.25rem;
+}
+
+.timeline-event-summary {
+  color: var(--text-secondary);
+}
+
+.timeline-event-summary strong {
+  color: var(--text);
+}
+
+.timeline-changes {
+  list-style: none;
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  color: var(--text-secondary);
+}
+
+.timeline-field {
+  text-transform: capitalize;
+}
+
+.timeline-old {
+  text-decoration: line-through;
+}
+
+.timeline-new {
+  color: var(--text);
+  font-weight: 500;
+}
+
 .empty-message {
   text-align: center;
   color: var(--text-secondary);
@@ -2103,6 +9628,313 @@ body {
   gap: 1rem;
 }
 
+.form-hint {
+  display: block;
+  margin-top: 0.375rem;
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+}
+
+.directory-grid {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(360px, 1fr));
+  gap: 1.5rem;
+}
+
+.directory-section {
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 1.5rem;
+}
+
+.directory-section h3 {
+  font-size: 1.125rem;
+  font-weight: 700;
+  margin-bottom: 1rem;
+}
+
+.legacy-assignees {
+  margin-top: 1.5rem;
+}
+
+.directory-list {
+  list-style: none;
+  margin-bottom: 1.5rem;
+}
+
+.directory-item {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 1rem;
+  padding: 0.75rem 0;
+  border-bottom: 1px solid var(--border);
+}
+
+.directory-detail {
+  display: block;
+  font-size: 0.8125rem;
+  color: var(--text-secondary);
+}
+
+.directory-actions {
+  display: flex;
+  gap: 0.5rem;
+  align-items: center;
+}
+
+.directory-actions button {
+  padding: 0.5rem 0.75rem;
+  font-size: 0.8125rem;
+}
+
+.directory-actions select {
+  padding: 0.5rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--card-bg);
+  color: var(--text);
+}
+
+.directory-form h4 {
+  margin-bottom: 0.75rem;
+}
+
+.directory-checkboxes {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.75rem;
+}
+
+.directory-checkboxes label {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+  font-weight: 400;
+}
+
+.directory-checkboxes input {
+  width: auto;
+}
+
+.sla-table {
+  width: 100%;
+  border-collapse: collapse;
+  margin: 1rem 0;
+}
+
+.sla-table th {
+  text-align: left;
+  font-size: 0.8125rem;
+  color: var(--text-secondary);
+  padding: 0.5rem;
+}
+
+.sla-table td {
+  padding: 0.5rem;
+  border-top: 1px solid var(--border);
+}
+
+.sla-table select,
+.sla-table input {
+  width: 100%;
+  padding: 0.5rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--card-bg);
+  color: var(--text);
+}
+
+.sla-table button {
+  padding: 0.5rem 0.75rem;
+  font-size: 0.8125rem;
+}
+
+.workflow-table td {
+  vertical-align: top;
+}
+
+.conflict-table td {
+  vertical-align: top;
+  word-break: break-word;
+}
+
+.conflict-row td:first-child {
+  color: var(--warning);
+  font-weight: 600;
+}
+
+.conflict-kept {
+  background: var(--bg);
+  font-weight: 600;
+}
+
+.conflict-choice {
+  display: flex;
+  gap: 0.5rem;
+  align-items: flex-start;
+  cursor: pointer;
+}
+
+.conflict-choice input {
+  width: auto;
+  margin-top: 0.2rem;
+}
+
+.workflow-table .workflow-icon {
+  width: 3rem;
+  text-align: center;
+}
+
+.workflow-table .workflow-wip {
+  width: 4.5rem;
+}
+
+.board {
+  display: grid;
+  gap: 0.75rem;
+  overflow-x: auto;
+  padding-bottom: 1rem;
+}
+
+.board-column-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 0.75rem 1rem;
+  background: var(--card-bg);
+  border: 1px solid var(--border);
+  border-top: 4px solid;
+  border-radius: 8px;
+  font-weight: 600;
+}
+
+.board-count {
+  padding: 0.1rem 0.5rem;
+  border-radius: 999px;
+  background: var(--bg);
+  color: var(--text-secondary);
+  font-size: 0.8rem;
+}
+
+.board-count.over-limit {
+  background: var(--danger);
+  color: white;
+}
+
+.board-lane-header {
+  margin-top: 0.5rem;
+  padding: 0.25rem 0;
+  border-bottom: 1px solid var(--border);
+  color: var(--text-secondary);
+  font-weight: 600;
+}
+
+.board-cell {
+  position: relative;
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+  min-height: 120px;
+  padding: 0.5rem;
+  border: 2px dashed transparent;
+  border-radius: 8px;
+  background: var(--border);
+  transition: border-color 0.15s ease, background 0.15s ease;
+}
+
+.board-cell.drop-allowed {
+  border-color: var(--success);
+}
+
+.board-cell.drop-allowed.hovered {
+  background: rgba(16, 185, 129, 0.12);
+}
+
+.board-cell.drop-denied {
+  border-color: var(--danger);
+  opacity: 0.6;
+  cursor: not-allowed;
+}
+
+.board-drop-reason {
+  padding: 0.4rem 0.6rem;
+  border-radius: 6px;
+  background: var(--danger);
+  color: white;
+  font-size: 0.8rem;
+}
+
+.board-card[draggable='true'] {
+  cursor: grab;
+}
+
+.ticket-card.compact {
+  padding: 0.9rem;
+}
+
+.ticket-card.compact .ticket-title {
+  font-size: 0.95rem;
+  margin-bottom: 0.5rem;
+}
+
+.ticket-card.compact .ticket-footer {
+  flex-wrap: wrap;
+  gap: 0.25rem;
+}
+
+.workflow-table input[type='color'] {
+  width: 3rem;
+  height: 2.25rem;
+  padding: 0.125rem;
+}
+
+.workflow-table input[type='radio'] {
+  width: auto;
+}
+
+.status-arrow {
+  align-self: center;
+  color: var(--text-secondary);
+  font-weight: 700;
+}
+
+.ticket-sla {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  margin-bottom: 1rem;
+}
+
+.badge-sla {
+  display: inline-block;
+  padding: 0.25rem 0.625rem;
+  border-radius: 999px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  white-space: nowrap;
+  border: 1px solid currentColor;
+}
+
+.badge-sla.on-track {
+  color: #10b981;
+}
+
+.badge-sla.at-risk {
+  color: #f59e0b;
+  background: rgba(245, 158, 11, 0.1);
+}
+
+.badge-sla.breached {
+  color: var(--danger);
+  background: rgba(239, 68, 68, 0.1);
+}
+
+.badge-sla.met {
+  color: var(--text-secondary);
+}
+
 .modal-actions {
   display: flex;
   gap: 0.75rem;
@@ -2190,6 +10022,10 @@ body {
   .form-row {
     grid-template-columns: 1fr;
   }
+
+  .notification-editor {
+    grid-template-columns: 1fr;
+  }
 }
 
 @keyframes fadeIn {
@@ -2232,4 +10068,131 @@ if (isClient) {
   }
 }
 
+export {
+  TicketsModel,
+  parseRoute,
+  getRouteTicketId,
+  routeNeedsSummary,
+  pickTicketFields,
+  validateTicketInput,
+  validateCommentInput,
+  validateTeamInput,
+  validateAgentInput,
+  validateSlaPolicyInput,
+  validateWorkflow,
+  validateSavedViewInput,
+  WorkflowTransitionError,
+  TicketConflictError,
+  diffTicketFields,
+  diffTicketVersions,
+  mergeTicketEdits,
+  parseTicketQuery,
+  compileTicketQuery,
+  QuerySyntaxError,
+  parseTicketSort,
+  formatTicketSort,
+  effectiveTicketList,
+  InvalidCursorError,
+  BOARD_SWIMLANES,
+  CSV_EXPORT_COLUMNS,
+  MAX_IMPORT_ERRORS,
+  TicketImportError,
+  CsvParser,
+  formatCsvRow,
+  ticketToCsvRow,
+  suggestImportMapping,
+  validateImportOptions,
+  parseImportRow,
+  parseTicketsExport,
+  NOTIFICATION_EVENTS,
+  MAIL_LOCALES,
+  DEFAULT_MAIL_SETTINGS,
+  renderMailTemplate,
+  validateMailSettings,
+  getNotificationValues,
+  isRequesterComment,
+  validateWebhookInput,
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS,
+  attachmentTypeFor,
+  formatFileSize,
+  validateAttachmentFile,
+  can,
+  audienceFor,
+  canAccessTicket,
+  redactTicket,
+  redactTicketSummary,
+  redactAgent,
+  canSeeSavedView,
+  redactSavedView,
+  SCHEMA_VERSION,
+  SchemaMigrationError,
+  migrateTicketsData,
+  toPersistedData,
+  createTicketStore,
+  WebStorageTicketStore,
+  IndexedDbTicketStore,
+  HttpTicketStore,
+  MemoryTicketStore,
+};
+export type {
+  Ticket,
+  Attachment,
+  TicketInput,
+  TicketStatus,
+  TicketsData,
+  TicketEvent,
+  TicketFieldDiff,
+  Audience,
+  InitialState,
+  User,
+  UserRole,
+  Permission,
+  PersistedTicketsData,
+  TicketStore,
+  TicketStoreKind,
+  Comment,
+  CommentInput,
+  Agent,
+  Team,
+  AgentInput,
+  TeamInput,
+  SlaPolicy,
+  SlaPolicyInput,
+  Workflow,
+  WorkflowStatus,
+  ParsedQuery,
+  QueryField,
+  SavedView,
+  SavedViewInput,
+  TicketSort,
+  TicketPage,
+  LoadedTicketList,
+  BoardSwimlane,
+  TicketBoard,
+  LoadedBoard,
+  TicketStatistics,
+  TicketSummary,
+  BulkAction,
+  BulkResult,
+  ExportFormat,
+  ImportMode,
+  ImportMapping,
+  ImportOptions,
+  ImportUpload,
+  ImportReport,
+  ImportedTicket,
+  TicketImport,
+  NotificationEvent,
+  MailLocale,
+  MailTemplate,
+  MailSettings,
+  MailQueueStatus,
+  WebhookEvent,
+  Webhook,
+  WebhookInput,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+};
 export default App;
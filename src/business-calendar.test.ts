@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { TicketsModel } from './App';
+import type { Ticket } from './App';
+
+const HOUR = 60 * 60 * 1000;
+
+// Wall-clock time in São Paulo, which has been UTC-3 all year since 2019
+const saoPaulo = (local: string) => Date.parse(`${local}-03:00`);
+
+const openedAt = (createdAt: number): Ticket => ({
+  id: 'ticket_1',
+  title: 'Sem acesso',
+  description: '',
+  category: 'account',
+  priority: 'high',
+  status: 'open',
+  author: 'João',
+  createdAt,
+  updatedAt: createdAt,
+  comments: [],
+  events: [],
+  version: 1,
+});
+
+// The first-response target of a ticket opened at `createdAt`, under a single
+// policy giving it `hours` counted in the calendar `calendarId`
+const firstResponse = (calendarId: string, hours: number, createdAt: number, now = createdAt) => {
+  const model = new TicketsModel({
+    ...new TicketsModel().getData(),
+    tickets: [],
+    slaPolicies: [{ id: 'sla_test', priority: 'high', calendarId, firstResponseMinutes: hours * 60, resolutionMinutes: 100 * 60 }],
+  });
+  return model.getTicketSla(openedAt(createdAt), now)!.firstResponse;
+};
+
+const dueAt = (calendarId: string, hours: number, createdAt: number) => firstResponse(calendarId, hours, createdAt).dueAt;
+
+describe('SLA deadlines on the commercial calendar', () => {
+  it('stay within the same day when they fit', () => {
+    expect(dueAt('comercial-br', 2, saoPaulo('2024-03-05T10:00'))).toBe(saoPaulo('2024-03-05T12:00'));
+  });
+
+  it('end exactly at closing time rather than on the next day', () => {
+    expect(dueAt('comercial-br', 9, saoPaulo('2024-03-05T09:00'))).toBe(saoPaulo('2024-03-05T18:00'));
+  });
+
+  it('start counting at opening time', () => {
+    expect(dueAt('comercial-br', 1, saoPaulo('2024-03-05T06:30'))).toBe(saoPaulo('2024-03-05T10:00'));
+  });
+
+  it('carry over closing time and the weekend', () => {
+    expect(dueAt('comercial-br', 2, saoPaulo('2024-03-08T17:00'))).toBe(saoPaulo('2024-03-11T10:00'));
+    expect(dueAt('comercial-br', 1, saoPaulo('2024-03-08T18:00'))).toBe(saoPaulo('2024-03-11T10:00'));
+    expect(dueAt('comercial-br', 1, saoPaulo('2024-03-09T12:00'))).toBe(saoPaulo('2024-03-11T10:00'));
+  });
+
+  it('skip fixed and Easter-based holidays', () => {
+    // Friday, November 15: Proclamação da República
+    expect(dueAt('comercial-br', 2, saoPaulo('2024-11-14T17:00'))).toBe(saoPaulo('2024-11-18T10:00'));
+    // Friday, March 29: Good Friday, two days before Easter
+    expect(dueAt('comercial-br', 2, saoPaulo('2024-03-28T17:00'))).toBe(saoPaulo('2024-04-01T10:00'));
+    // Easter 2025 is on April 20: Good Friday is April 18, and Monday the 21st is Tiradentes
+    expect(dueAt('comercial-br', 2, saoPaulo('2025-04-17T17:00'))).toBe(saoPaulo('2025-04-22T10:00'));
+  });
+
+  it('fall back to the commercial calendar for unknown or inherited calendar ids', () => {
+    const createdAt = saoPaulo('2024-03-08T17:00');
+    expect(dueAt('nope', 2, createdAt)).toBe(saoPaulo('2024-03-11T10:00'));
+    expect(dueAt('constructor', 2, createdAt)).toBe(saoPaulo('2024-03-11T10:00'));
+  });
+
+  it('count only open hours toward the at-risk margin', () => {
+    // 3.5 hours on Friday and half an hour on Monday morning
+    const createdAt = saoPaulo('2024-03-08T14:30');
+    expect(firstResponse('comercial-br', 4, createdAt).dueAt).toBe(saoPaulo('2024-03-11T09:30'));
+    expect(firstResponse('comercial-br', 4, createdAt, saoPaulo('2024-03-08T17:30')).state).toBe('on-track');
+    expect(firstResponse('comercial-br', 4, createdAt, saoPaulo('2024-03-08T17:31')).state).toBe('at-risk');
+    expect(firstResponse('comercial-br', 4, createdAt, saoPaulo('2024-03-09T12:00')).state).toBe('at-risk');
+  });
+});
+
+describe('SLA deadlines on the always-open calendar', () => {
+  it('add plain time through nights and weekends', () => {
+    const createdAt = saoPaulo('2024-03-09T23:30');
+    expect(dueAt('24x7', 2, createdAt)).toBe(createdAt + 2 * HOUR);
+    expect(firstResponse('24x7', 4, createdAt, createdAt + 3 * HOUR).state).toBe('on-track');
+    expect(firstResponse('24x7', 4, createdAt, createdAt + 3 * HOUR + 1).state).toBe('at-risk');
+  });
+});
+
+describe('SLA deadlines across daylight saving time', () => {
+  it('follow the offset change when São Paulo summer time ended', () => {
+    // At midnight on Sunday, February 17, 2019, clocks went from UTC-2 to UTC-3
+    const friday = Date.parse('2019-02-15T17:00:00-02:00');
+    expect(dueAt('comercial-br', 2, friday)).toBe(Date.parse('2019-02-18T10:00:00-03:00'));
+    // One hour on Friday and three on Monday; the last of them is within the margin
+    expect(firstResponse('comercial-br', 4, friday, Date.parse('2019-02-18T11:00:00-03:00')).state).toBe('on-track');
+    expect(firstResponse('comercial-br', 4, friday, Date.parse('2019-02-18T11:01:00-03:00')).state).toBe('at-risk');
+  });
+
+  it('follow the offset change when São Paulo summer time started', () => {
+    // At midnight on Sunday, November 4, 2018, clocks went from UTC-3 to UTC-2; Friday the 2nd is Finados
+    const thursday = Date.parse('2018-11-01T17:00:00-03:00');
+    expect(dueAt('comercial-br', 2, thursday)).toBe(Date.parse('2018-11-05T10:00:00-02:00'));
+    expect(firstResponse('comercial-br', 4, thursday, Date.parse('2018-11-05T11:00:00-02:00')).state).toBe('on-track');
+    expect(firstResponse('comercial-br', 4, thursday, Date.parse('2018-11-05T11:01:00-02:00')).state).toBe('at-risk');
+  });
+});
+
+describe('TicketsModel.getTicketSla', () => {
+  // The high-priority policy gives four business hours for the first response
+  const ticket = openedAt(saoPaulo('2024-03-08T16:00'));
+  const model = new TicketsModel();
+
+  it('sets the deadline in business hours', () => {
+    expect(model.getTicketSla(ticket, saoPaulo('2024-03-09T12:00'))?.firstResponse).toEqual({
+      dueAt: saoPaulo('2024-03-11T11:00'),
+      state: 'on-track',
+    });
+  });
+
+  it('is at risk once less than a quarter of the window remains', () => {
+    expect(model.getTicketSla(ticket, saoPaulo('2024-03-11T10:00'))?.firstResponse.state).toBe('on-track');
+    expect(model.getTicketSla(ticket, saoPaulo('2024-03-11T10:01'))?.firstResponse.state).toBe('at-risk');
+    expect(model.getTicketSla(ticket, saoPaulo('2024-03-11T11:01'))?.firstResponse.state).toBe('breached');
+  });
+
+  it('is met by a reply up to the deadline', () => {
+    const now = saoPaulo('2024-03-12T12:00');
+    const onTime = { ...ticket, firstResponseAt: saoPaulo('2024-03-11T11:00') };
+    const late = { ...ticket, firstResponseAt: saoPaulo('2024-03-11T11:01') };
+    expect(model.getTicketSla(onTime, now)?.firstResponse.state).toBe('met');
+    expect(model.getTicketSla(late, now)?.firstResponse.state).toBe('breached');
+  });
+});
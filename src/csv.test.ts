@@ -0,0 +1,267 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CsvParser,
+  TicketImportError,
+  TicketsModel,
+  formatCsvRow,
+  parseImportRow,
+  parseTicketsExport,
+  suggestImportMapping,
+  validateImportOptions,
+} from './App';
+import { thrownBy } from './test-helpers';
+import type { ImportOptions } from './App';
+
+const parseCsv = (...chunks: string[]): string[][] => {
+  const parser = new CsvParser();
+  return [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.end()];
+};
+
+describe('CsvParser', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('title,priority\nSem acesso,alta\nLento,baixa')).toEqual([
+      ['title', 'priority'],
+      ['Sem acesso', 'alta'],
+      ['Lento', 'baixa'],
+    ]);
+  });
+
+  it('keeps commas, line breaks and escaped quotes inside quoted fields', () => {
+    expect(parseCsv('"Erro, urgente","linha 1\r\nlinha 2","diz ""olá"""\n')).toEqual([
+      ['Erro, urgente', 'linha 1\r\nlinha 2', 'diz "olá"'],
+    ]);
+  });
+
+  it('reads empty and empty-quoted fields', () => {
+    expect(parseCsv('a,,""\n,\n')).toEqual([
+      ['a', '', ''],
+      ['', ''],
+    ]);
+  });
+
+  it('handles CRLF line endings, a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFid,title\r\n\r\n1,Teste\r\n\r\n')).toEqual([
+      ['id', 'title'],
+      ['1', 'Teste'],
+    ]);
+  });
+
+  it('only drops the byte order mark at the very start', () => {
+    expect(parseCsv('a\n', '\uFEFFb\n')).toEqual([['a'], ['\uFEFFb']]);
+  });
+
+  it('gives the same rows however the input is chunked', () => {
+    const text = 'id,title\r\n1,"Diz ""oi"", depois\nsai"\r\n2,"""citado"""\r\n';
+    expect(parseCsv(...text.split(''))).toEqual(parseCsv(text));
+    expect(parseCsv('1,"a"', '"b"\n')).toEqual([['1', 'a"b']]);
+  });
+
+  it('rejects a quote left open at the end of the file', () => {
+    expect(thrownBy(TicketImportError, () => parseCsv('id,title\n1,"sem fim\n')).messages).toEqual([
+      'Aspas não fechadas no fim do arquivo',
+    ]);
+  });
+
+  it('reads back what formatCsvRow writes', () => {
+    const values = ['simples', 'com, vírgula', 'com "aspas"', 'duas\nlinhas', ' espaço ', ''];
+    expect(parseCsv(formatCsvRow(values))).toEqual([values]);
+    expect(formatCsvRow(['a', 'b c', ' d'])).toBe('a,b c," d"\r\n');
+  });
+});
+
+describe('suggestImportMapping', () => {
+  it('recognizes headers by alias and label, ignoring case and accents', () => {
+    expect(suggestImportMapping(['Título', 'DESCRIÇÃO', 'prioridade', 'Responsável', 'Criado em', 'Outro'])).toEqual({
+      title: 'Título',
+      description: 'DESCRIÇÃO',
+      priority: 'prioridade',
+      assignee: 'Responsável',
+      createdAt: 'Criado em',
+    });
+  });
+});
+
+describe('validateImportOptions', () => {
+  const columns = ['Título', 'Descrição'];
+
+  it('requires a title and description column to create tickets from CSV', () => {
+    expect(validateImportOptions({ mode: 'create', mapping: { title: 'Título' } }, columns)).toEqual([
+      'Escolha a coluna da descrição',
+    ]);
+    expect(validateImportOptions({ mode: 'upsert', mapping: {} }, columns)).toEqual([]);
+    expect(validateImportOptions({ mode: 'create', mapping: {} }, [])).toEqual([]);
+  });
+
+  it('rejects unknown modes, fields and columns', () => {
+    const options = { mode: 'merge', mapping: { title: 'Assunto', color: 'Título' } } as unknown as ImportOptions;
+    expect(validateImportOptions(options, columns)).toEqual([
+      'Modo de importação inválido',
+      'Coluna não encontrada: Assunto',
+      'Campo desconhecido: color',
+    ]);
+  });
+});
+
+describe('parseImportRow', () => {
+  const model = new TicketsModel();
+  const context = { workflow: model.getWorkflow(), agents: model.getAgents(), teams: model.getTeams() };
+  const columns = ['Assunto', 'Texto', 'Categoria', 'Prioridade', 'Status', 'Responsável', 'Data', 'Extra'];
+  const mapping = {
+    title: 'Assunto',
+    description: 'Texto',
+    category: 'Categoria',
+    priority: 'Prioridade',
+    status: 'Status',
+    assignee: 'Responsável',
+    createdAt: 'Data',
+  };
+
+  it('maps columns to fields, accepting labels in any case and without accents', () => {
+    const row = ['  Sem acesso ', 'Não consigo entrar', 'conta', 'MEDIA', 'em andamento', 'ana@helpdesk.local', '2024-03-05T10:00:00Z', 'x'];
+    expect(parseImportRow(row, columns, mapping, context)).toEqual({
+      title: 'Sem acesso',
+      description: 'Não consigo entrar',
+      category: 'account',
+      priority: 'medium',
+      status: 'in-progress',
+      assigneeId: 'agent_ana',
+      createdAt: Date.parse('2024-03-05T10:00:00Z'),
+    });
+  });
+
+  it('finds assignees by id, agent name or team name', () => {
+    const assignee = (value: string) =>
+      parseImportRow([value], ['Responsável'], { assignee: 'Responsável' }, context).assigneeId;
+    expect(assignee('agent_carlos')).toBe('agent_carlos');
+    expect(assignee('beatriz rocha')).toBe('agent_beatriz');
+    expect(assignee('Suporte Tecnico')).toBe('team_support');
+  });
+
+  it('leaves blank cells, short rows and unmapped fields out', () => {
+    expect(parseImportRow(['Sem acesso', '  '], columns, mapping, context)).toEqual({ title: 'Sem acesso' });
+  });
+
+  it('reports every invalid value in the row at once', () => {
+    const row = ['Título', 'Texto', 'hardware', 'altíssima', 'arquivado', 'Fulano', 'ontem'];
+    expect(thrownBy(TicketImportError, () => parseImportRow(row, columns, mapping, context)).messages).toEqual([
+      'Categoria desconhecida: "hardware"',
+      'Prioridade desconhecida: "altíssima"',
+      'Status desconhecido: "arquivado"',
+      'Responsável desconhecido: "Fulano"',
+      'Data de criação inválida: "ontem"',
+    ]);
+  });
+});
+
+describe('parseTicketsExport', () => {
+  const exported = {
+    id: 'ticket_1',
+    title: 'Sem acesso',
+    description: 'Não consigo entrar',
+    category: 'account',
+    priority: 'high',
+    status: 'open',
+    author: 'João',
+    createdAt: 1000,
+    updatedAt: 2000,
+    comments: [],
+    events: [],
+    version: 3,
+  };
+
+  it('accepts a full export or a bare list of tickets', () => {
+    expect(parseTicketsExport({ schemaVersion: 7, tickets: [exported] })).toEqual([exported]);
+    expect(parseTicketsExport([exported])).toEqual([exported]);
+  });
+
+  it('upgrades exports from older schema versions', () => {
+    const [ticket] = parseTicketsExport({ schemaVersion: 0, tickets: [{ ...exported, comments: undefined, events: undefined }] });
+    expect(ticket.comments).toEqual([]);
+    expect(ticket.events).toHaveLength(1);
+  });
+
+  it('rejects files without a ticket list or with broken tickets', () => {
+    expect(thrownBy(TicketImportError, () => parseTicketsExport({ items: [] })).messages).toEqual([
+      'O arquivo não contém uma lista de tickets',
+    ]);
+    expect(thrownBy(TicketImportError, () => parseTicketsExport([{ ...exported, id: 42 }])).messages).toEqual([
+      'Invalid payload: ticket #0 has no id',
+    ]);
+  });
+});
+
+describe('TicketsModel.importTicket', () => {
+  const createModel = () => {
+    const model = new TicketsModel({ ...new TicketsModel().getData(), tickets: [] });
+    const ticket = model.createTicket({
+      title: 'Sem acesso',
+      description: 'Não consigo entrar',
+      category: 'account',
+      priority: 'high',
+      status: 'open',
+      author: 'João',
+    });
+    model.addComment(ticket.id, { author: 'Ana', content: 'Verificando', isInternal: false });
+    return { model, ticket: model.getTicketById(ticket.id)! };
+  };
+
+  it('adds an imported event after the history already there', () => {
+    const { model, ticket } = createModel();
+    const exported = { ...ticket, priority: 'low' as const, comments: [], events: [] };
+
+    const { outcome, previous } = model.importTicket(exported, 'upsert', 'Admin');
+    const imported = model.getTicketById(ticket.id)!;
+
+    expect(outcome).toBe('updated');
+    expect(previous).toEqual(ticket);
+    expect(imported.comments).toEqual(ticket.comments);
+    expect(imported.events.map(event => event.type)).toEqual(['created', 'imported']);
+    expect(imported.events[1]).toMatchObject({ actor: 'Admin', changes: [{ field: 'priority', from: 'high', to: 'low' }] });
+  });
+
+  it('moves existing tickets only along the workflow transitions', () => {
+    const { model, ticket } = createModel();
+
+    const skipped = () => model.importTicket({ id: ticket.id, status: 'resolved' }, 'upsert', 'Admin');
+    expect(thrownBy(TicketImportError, skipped).messages).toEqual([
+      'Não é possível mudar para este status diretamente: "resolved"',
+    ]);
+    expect(model.importTicket({ id: ticket.id, status: 'in-progress' }, 'upsert', 'Admin').ticket.events.at(-1)).toMatchObject({
+      type: 'imported',
+      changes: [{ field: 'status', from: 'open', to: 'in-progress' }],
+    });
+  });
+
+  it('creates tickets from CSV rows only in a status new tickets can start in', () => {
+    const { model } = createModel();
+    const row = { title: 'Lento', description: 'Demora para abrir' };
+
+    const waiting = () => model.importTicket({ ...row, status: 'waiting' }, 'create', 'Admin');
+    expect(thrownBy(TicketImportError, waiting).messages).toEqual([
+      'Não é possível mudar para este status diretamente: "waiting"',
+    ]);
+    expect(model.importTicket({ ...row, status: 'closed' }, 'create', 'Admin').outcome).toBe('created');
+  });
+
+  it('creates whole exported tickets in the status their history led to', () => {
+    const { model, ticket } = createModel();
+    const exported = { ...ticket, id: 'ticket_elsewhere', status: 'resolved' as const };
+
+    const { outcome, ticket: created } = model.importTicket(exported, 'upsert', 'Admin');
+
+    expect(outcome).toBe('created');
+    expect(created.status).toBe('resolved');
+    expect(created.events.map(event => event.type)).toEqual(['created', 'imported']);
+  });
+
+  it('leaves the original attachments behind on a copy', () => {
+    const { model, ticket } = createModel();
+    const attachment = { id: 'attachment_1', name: 'log.txt', type: 'text/plain', size: 10, checksum: '', uploadedAt: 1000, uploaderId: 'user_ana' };
+    const comments = ticket.comments.map(comment => ({ ...comment, attachments: [attachment] }));
+
+    const { ticket: copy } = model.importTicket({ ...ticket, comments }, 'create', 'Admin');
+
+    expect(copy.id).not.toBe(ticket.id);
+    expect(copy.comments).toEqual([expect.not.objectContaining({ attachments: expect.anything() })]);
+  });
+});
@@ -1,11 +1,16 @@
 import './index.css'
 import { StrictMode } from 'react'
 import { hydrateRoot } from 'react-dom/client'
-import App from './App'
+import App, { type InitialState } from './App'
+
+const stateElement = document.getElementById('app-state')
+const initialState: InitialState | undefined = stateElement?.textContent
+  ? JSON.parse(stateElement.textContent)
+  : undefined
 
 hydrateRoot(
   document.getElementById('root') as HTMLElement,
   <StrictMode>
-    <App />
+    <App initialState={initialState} />
   </StrictMode>,
 )
@@ -3,12 +3,71 @@ import {
   type RenderToPipeableStreamOptions,
   renderToPipeableStream,
 } from 'react-dom/server'
-import App from './App'
+import App, { type InitialState } from './App'
 
-export function render(_url: string, options?: RenderToPipeableStreamOptions) {
+export {
+  TicketsModel,
+  parseRoute,
+  getRouteTicketId,
+  routeNeedsSummary,
+  pickTicketFields,
+  validateTicketInput,
+  validateCommentInput,
+  validateTeamInput,
+  validateAgentInput,
+  validateSlaPolicyInput,
+  validateWorkflow,
+  validateSavedViewInput,
+  WorkflowTransitionError,
+  QuerySyntaxError,
+  parseTicketSort,
+  effectiveTicketList,
+  InvalidCursorError,
+  BOARD_SWIMLANES,
+  CSV_EXPORT_COLUMNS,
+  MAX_IMPORT_ERRORS,
+  TicketImportError,
+  CsvParser,
+  formatCsvRow,
+  ticketToCsvRow,
+  suggestImportMapping,
+  validateImportOptions,
+  parseImportRow,
+  parseTicketsExport,
+  NOTIFICATION_EVENTS,
+  MAIL_LOCALES,
+  DEFAULT_MAIL_SETTINGS,
+  renderMailTemplate,
+  validateMailSettings,
+  getNotificationValues,
+  isRequesterComment,
+  validateWebhookInput,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS,
+  attachmentTypeFor,
+  formatFileSize,
+  validateAttachmentFile,
+  can,
+  audienceFor,
+  canAccessTicket,
+  redactTicket,
+  redactTicketSummary,
+  redactAgent,
+  canSeeSavedView,
+  redactSavedView,
+  SCHEMA_VERSION,
+  migrateTicketsData,
+  toPersistedData,
+} from './App'
+
+export function render(
+  url: string,
+  initialState: InitialState,
+  options?: RenderToPipeableStreamOptions,
+) {
   return renderToPipeableStream(
     <StrictMode>
-      <App />
+      <App url={url} initialState={initialState} />
     </StrictMode>,
     options,
   )
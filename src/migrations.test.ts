@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION, SchemaMigrationError, TicketsModel, migrateTicketsData, toPersistedData } from './App';
+import { thrownBy } from './test-helpers';
+
+const legacyTicket = {
+  id: 'ticket_1',
+  title: 'Impressora parada',
+  description: 'Não imprime',
+  category: 'technical',
+  priority: 'high',
+  status: 'open',
+  author: 'João',
+  assignedTo: 'Ana',
+  createdAt: 1000,
+  updatedAt: 2000,
+};
+
+describe('migrateTicketsData', () => {
+  it('upgrades an unversioned payload through every migration', () => {
+    const data = migrateTicketsData({ tickets: [legacyTicket] });
+    const [ticket] = data.tickets;
+
+    expect(ticket.comments).toEqual([]);
+    expect(ticket.events).toEqual([
+      { id: 'event_ticket_1_created', ticketId: 'ticket_1', type: 'created', actor: 'João', timestamp: 1000, changes: [] },
+    ]);
+    expect(ticket).not.toHaveProperty('assignedTo');
+    expect(ticket).toHaveProperty('legacyAssignee', 'Ana');
+    expect(ticket.version).toBe(1);
+    expect(data.agents).toEqual([]);
+    expect(data.teams).toEqual([]);
+    expect(data.slaPolicies.length).toBeGreaterThan(0);
+    expect(data.workflow.statuses.map(status => status.id)).toContain('open');
+    expect(data.savedViews).toEqual([]);
+  });
+
+  it('treats a payload without tickets as an empty queue', () => {
+    expect(migrateTicketsData({}).tickets).toEqual([]);
+  });
+
+  it('renames assignee changes in the audit log (v3)', () => {
+    const events = [
+      {
+        id: 'event_1',
+        ticketId: 'ticket_1',
+        type: 'updated',
+        actor: 'Ana',
+        timestamp: 1500,
+        changes: [
+          { field: 'assignedTo', from: '', to: 'Ana' },
+          { field: 'priority', from: 'low', to: 'high' },
+        ],
+      },
+    ];
+    const data = migrateTicketsData({ schemaVersion: 2, tickets: [{ ...legacyTicket, comments: [], events }] });
+
+    expect(data.tickets[0].events[0].changes.map(change => change.field)).toEqual(['assigneeId', 'priority']);
+  });
+
+  it('backfills the first response from the earliest public reply (v4)', () => {
+    const comments = [
+      { id: 'c1', author: 'João', content: 'Alguma novidade?', timestamp: 1100, isInternal: false },
+      { id: 'c2', author: 'Ana', content: 'Nota interna', timestamp: 1200, isInternal: true },
+      { id: 'c3', author: 'Ana', content: 'Verificando', timestamp: 1400, isInternal: false },
+      { id: 'c4', author: 'Bruno', content: 'Resolvido', timestamp: 1300, isInternal: false },
+    ];
+    const data = migrateTicketsData({
+      schemaVersion: 3,
+      agents: [],
+      teams: [],
+      tickets: [
+        { ...legacyTicket, comments, events: [] },
+        { ...legacyTicket, id: 'ticket_2', comments: comments.slice(0, 2), events: [] },
+        { ...legacyTicket, id: 'ticket_3', comments, events: [], firstResponseAt: 1050 },
+      ],
+    });
+
+    expect(data.tickets.map(ticket => ticket.firstResponseAt)).toEqual([1300, undefined, 1050]);
+  });
+
+  it('matches replies by account before name (v4)', () => {
+    const data = migrateTicketsData({
+      schemaVersion: 3,
+      agents: [],
+      teams: [],
+      tickets: [
+        {
+          ...legacyTicket,
+          authorId: 'user_joao',
+          events: [],
+          // Same name as the requester, but another account
+          comments: [{ id: 'c1', author: 'João', authorId: 'user_agent', content: 'Oi', timestamp: 1100 }],
+        },
+      ],
+    });
+
+    expect(data.tickets[0].firstResponseAt).toBe(1100);
+  });
+
+  it('keeps what a later payload already has', () => {
+    const current = migrateTicketsData({ tickets: [legacyTicket] });
+    const workflow = { ...current.workflow, initialStatus: 'in-progress' };
+    const data = migrateTicketsData({
+      schemaVersion: 4,
+      ...current,
+      workflow,
+      tickets: current.tickets.map(ticket => ({ ...ticket, version: 5 })),
+    });
+
+    expect(data.workflow).toEqual(workflow);
+    expect(data.tickets[0].version).toBe(5);
+  });
+
+  it('leaves a current payload as it was saved', () => {
+    const data = migrateTicketsData({ tickets: [legacyTicket] });
+    const persisted = toPersistedData(data);
+
+    expect(persisted.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(migrateTicketsData(JSON.parse(JSON.stringify(persisted)))).toEqual(data);
+  });
+
+  it('rejects payloads that are not objects', () => {
+    [null, 'tickets', [legacyTicket]].forEach(raw => {
+      expect(thrownBy(SchemaMigrationError, () => migrateTicketsData(raw))).toMatchObject({
+        fromVersion: 0,
+        message: 'Payload is not an object',
+      });
+    });
+  });
+
+  it('rejects payloads from a newer release', () => {
+    const raw = { schemaVersion: SCHEMA_VERSION + 1, tickets: [] };
+    expect(thrownBy(SchemaMigrationError, () => migrateTicketsData(raw))).toMatchObject({
+      fromVersion: SCHEMA_VERSION + 1,
+      message: `Payload schema v${SCHEMA_VERSION + 1} is newer than supported v${SCHEMA_VERSION}`,
+    });
+  });
+
+  it('names the migration that failed', () => {
+    const badEvents = { schemaVersion: 2, tickets: [{ ...legacyTicket, comments: [], events: 'none' }] };
+    expect(thrownBy(SchemaMigrationError, () => migrateTicketsData(badEvents))).toMatchObject({
+      fromVersion: 2,
+      message: 'Migration to v3 failed: events is not a list of objects',
+    });
+    expect(thrownBy(SchemaMigrationError, () => migrateTicketsData({ tickets: 'none' }))).toMatchObject({
+      fromVersion: 0,
+      message: 'Migration to v1 failed: tickets is not a list of objects',
+    });
+  });
+
+  it('rejects migrated payloads missing what the app needs', () => {
+    const persisted = toPersistedData(migrateTicketsData({ tickets: [legacyTicket] }));
+    const { version: _version, ...unversioned } = persisted.tickets[0];
+
+    expect(thrownBy(SchemaMigrationError, () => migrateTicketsData({ ...persisted, tickets: [unversioned] }))).toMatchObject({
+      fromVersion: SCHEMA_VERSION,
+      message: 'Invalid payload: ticket ticket_1 has no version',
+    });
+    const noStatuses = { ...persisted, workflow: { initialStatus: 'open' } };
+    expect(thrownBy(SchemaMigrationError, () => migrateTicketsData(noStatuses))).toMatchObject({
+      message: 'Invalid payload: workflow has no status list',
+    });
+  });
+});
+
+describe('TicketsModel.mapLegacyAssignee', () => {
+  it('assigns the matching tickets with a new version and an audit event', () => {
+    const data = migrateTicketsData({ tickets: [legacyTicket, { ...legacyTicket, id: 'ticket_2', assignedTo: 'Bruno' }] });
+    const model = new TicketsModel(data);
+
+    const mapped = model.mapLegacyAssignee('ana', 'agent_ana', 'Admin');
+
+    expect(mapped).toEqual([model.getTicketById('ticket_1')]);
+    expect(mapped[0]).not.toHaveProperty('legacyAssignee');
+    expect(mapped[0]).toMatchObject({ assigneeId: 'agent_ana', version: 2 });
+    expect(mapped[0].events.at(-1)).toMatchObject({
+      type: 'updated',
+      actor: 'Admin',
+      changes: [{ field: 'assigneeId', from: 'Ana', to: 'agent_ana' }],
+    });
+    expect(model.getTicketById('ticket_2')).toMatchObject({ legacyAssignee: 'Bruno', version: 1 });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { QuerySyntaxError, TicketsModel, parseTicketQuery } from './App';
+import { thrownBy } from './test-helpers';
+import type { Ticket } from './App';
+
+const NOW = Date.parse('2024-03-15T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const makeTicket = (id: string, fields: Partial<Ticket>): Ticket => ({
+  id,
+  title: `Ticket ${id}`,
+  description: '',
+  category: 'technical',
+  priority: 'medium',
+  status: 'open',
+  author: 'João Silva',
+  createdAt: NOW - HOUR,
+  updatedAt: NOW - HOUR,
+  comments: [],
+  events: [],
+  version: 1,
+  ...fields,
+});
+
+const parsing = (query: string) => () => parseTicketQuery(query);
+
+describe('parseTicketQuery', () => {
+  it('reads clauses, comparators and free text', () => {
+    expect(parseTicketQuery('status:open,waiting priority:>=high impressora')).toEqual({
+      clauses: [
+        { field: 'status', negated: false, comparator: '=', values: ['open', 'waiting'] },
+        { field: 'priority', negated: false, comparator: '>=', values: ['high'] },
+      ],
+      terms: [{ text: 'impressora', negated: false }],
+    });
+  });
+
+  it('negates clauses and terms with a leading dash', () => {
+    expect(parseTicketQuery('-author:bot -spam - solto')).toEqual({
+      clauses: [{ field: 'author', negated: true, comparator: '=', values: ['bot'] }],
+      terms: [
+        { text: 'spam', negated: true },
+        { text: '-', negated: false },
+        { text: 'solto', negated: false },
+      ],
+    });
+  });
+
+  it('keeps spaces and commas inside quoted values', () => {
+    expect(parseTicketQuery('assignee:"Ana Souza","Financeiro, Cobrança" "nota fiscal"')).toEqual({
+      clauses: [{ field: 'assignee', negated: false, comparator: '=', values: ['Ana Souza', 'Financeiro, Cobrança'] }],
+      terms: [{ text: 'nota fiscal', negated: false }],
+    });
+  });
+
+  it('accepts field names in any case and an explicit "="', () => {
+    expect(parseTicketQuery('Status:=open').clauses).toEqual([
+      { field: 'status', negated: false, comparator: '=', values: ['open'] },
+    ]);
+  });
+
+  it('treats an empty or blank query as matching everything', () => {
+    expect(parseTicketQuery('')).toEqual({ clauses: [], terms: [] });
+    expect(parseTicketQuery('   \t ')).toEqual({ clauses: [], terms: [] });
+  });
+
+  it('rejects unknown fields, including inherited property names', () => {
+    expect(thrownBy(QuerySyntaxError, parsing('foo:bar'))).toMatchObject({
+      position: 0,
+      message: expect.stringContaining('Campo desconhecido "foo"'),
+    });
+    expect(thrownBy(QuerySyntaxError, parsing('aberto constructor:x')).position).toBe(7);
+    expect(thrownBy(QuerySyntaxError, parsing('toString:x')).message).toContain('Campo desconhecido');
+  });
+
+  it('rejects unclosed quotes with their position', () => {
+    expect(thrownBy(QuerySyntaxError, parsing('assignee:"Ana'))).toMatchObject({
+      position: 9,
+      message: 'Aspas não fechadas na posição 10',
+    });
+  });
+
+  it('rejects empty values', () => {
+    expect(thrownBy(QuerySyntaxError, parsing('status:')).message).toBe('Valor vazio para "status" na posição 1');
+    expect(thrownBy(QuerySyntaxError, parsing('status:open,')).message).toBe('Valor vazio para "status" na posição 1');
+    expect(thrownBy(QuerySyntaxError, parsing('assignee:""')).message).toBe('Valor vazio para "assignee" na posição 1');
+  });
+
+  it('only allows comparisons on comparable fields, with one value', () => {
+    expect(thrownBy(QuerySyntaxError, parsing('status:>open')).message).toBe('O operador ">" não vale para "status"');
+    expect(thrownBy(QuerySyntaxError, parsing('priority:>low,medium')).message).toBe('Use apenas um valor com ">" em "priority"');
+  });
+});
+
+describe('TicketsModel.queryTickets', () => {
+  // The default directory and workflow, without the demo tickets
+  const model = new TicketsModel({ ...new TicketsModel().getData(), tickets: [] });
+  [
+    makeTicket('t1', { priority: 'urgent', status: 'open', assigneeId: 'agent_ana', title: 'Impressora parada' }),
+    makeTicket('t2', { priority: 'low', status: 'waiting', category: 'billing', assigneeId: 'team_billing' }),
+    makeTicket('t3', { priority: 'high', status: 'closed', author: 'Bot de monitoramento', updatedAt: NOW - 10 * 24 * HOUR }),
+    // 23:30 on March 9 in São Paulo, 02:30 on March 10 in UTC
+    makeTicket('t4', { priority: 'medium', createdAt: Date.parse('2024-03-10T02:30:00Z') }),
+  ].forEach(ticket => model.upsertTicket(ticket));
+
+  const ids = (query: string) =>
+    model
+      .queryTickets(query, { now: NOW })
+      .map(ticket => ticket.id)
+      .sort();
+
+  it('ORs values within a clause and ANDs clauses', () => {
+    expect(ids('status:open,waiting')).toEqual(['t1', 't2', 't4']);
+    expect(ids('status:open,waiting category:billing')).toEqual(['t2']);
+  });
+
+  it('compares priorities by rank and accepts labels', () => {
+    expect(ids('priority:>=high')).toEqual(['t1', 't3']);
+    expect(ids('priority:<medium')).toEqual(['t2']);
+    expect(ids('priority:urgente')).toEqual(['t1']);
+  });
+
+  it('matches assignees by name, team and "none"', () => {
+    expect(ids('assignee:ana')).toEqual(['t1']);
+    expect(ids('assignee:financeiro')).toEqual(['t2']);
+    expect(ids('assignee:none')).toEqual(['t3', 't4']);
+    expect(ids('-assignee:none')).toEqual(['t1', 't2']);
+  });
+
+  it('reads relative dates as age', () => {
+    expect(ids('updated:<7d')).toEqual(['t1', 't2', 't4']);
+    expect(ids('updated:>7d')).toEqual(['t3']);
+  });
+
+  it('reads dates as whole days in the business time zone', () => {
+    expect(ids('created:2024-03-09')).toEqual(['t4']);
+    expect(ids('created:2024-03-10')).toEqual([]);
+    expect(ids('created:<2024-03-10')).toEqual(['t4']);
+  });
+
+  it('rejects values that name nothing', () => {
+    expect(() => ids('status:archived')).toThrow(QuerySyntaxError);
+    expect(() => ids('assignee:ninguém')).toThrow('Nenhum agente ou equipe corresponde a "ninguém"');
+    expect(() => ids('created:2024-02-30')).toThrow('Data inválida "2024-02-30"');
+  });
+});
+
+describe('TicketsModel.queryTicketPage', () => {
+  const createModel = () => {
+    const model = new TicketsModel({ ...new TicketsModel().getData(), tickets: [] });
+    [0, 1, 2, 3, 4].forEach(i => model.upsertTicket(makeTicket(`t${i}`, { updatedAt: NOW - i * HOUR })));
+    return model;
+  };
+  const options = { now: NOW, sort: { key: 'updated', descending: true }, limit: 2, scope: 'user_admin' } as const;
+  const pageIds = (page: { tickets: Ticket[] }) => page.tickets.map(ticket => ticket.id);
+
+  it('serves every match once across the pages', () => {
+    const model = createModel();
+    const served: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = model.queryTicketPage('status:open', { ...options, cursor });
+      served.push(...pageIds(page));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(served).toEqual(['t0', 't1', 't2', 't3', 't4']);
+  });
+
+  it('ranks again when a ticket changes between pages', () => {
+    const model = createModel();
+    const first = model.queryTicketPage('status:open', options);
+    model.upsertTicket({ ...model.getTicketById('t3')!, status: 'closed', version: 2 });
+
+    const second = model.queryTicketPage('status:open', { ...options, cursor: first.nextCursor! });
+
+    expect(pageIds(second)).toEqual(['t2', 't4']);
+    expect(second.total).toBe(4);
+  });
+});
@@ -0,0 +1,10 @@
+// The error `run` throws, failing the test unless it is an `ErrorClass`
+export const thrownBy = <E extends Error>(ErrorClass: abstract new (...args: never[]) => E, run: () => unknown): E => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof ErrorClass) return error;
+    throw error;
+  }
+  throw new Error(`Expected ${ErrorClass.name} to be thrown`);
+};
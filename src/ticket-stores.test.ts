@@ -0,0 +1,217 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  HttpTicketStore,
+  IndexedDbTicketStore,
+  MemoryTicketStore,
+  SCHEMA_VERSION,
+  TicketsModel,
+  WebStorageTicketStore,
+  toPersistedData,
+} from './App';
+import type { PersistedTicketsData, TicketStore } from './App';
+
+// Written before versioning existed: no schema version, comments or audit log
+const legacyPayload = {
+  tickets: [
+    {
+      id: 'ticket_legacy',
+      title: 'Impressora parada',
+      description: 'Não imprime',
+      category: 'technical',
+      priority: 'high',
+      status: 'open',
+      author: 'João',
+      createdAt: 1000,
+      updatedAt: 2000,
+    },
+  ],
+};
+const futurePayload = { schemaVersion: SCHEMA_VERSION + 1, tickets: [] };
+
+// Stores write whatever they are given, so old or broken payloads can be planted through `save`
+const plant = (store: TicketStore, payload: unknown) => store.save(payload as PersistedTicketsData);
+
+const readIndexedDbQuarantine = (dbName: string): Promise<unknown[]> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const all = request.result.transaction('quarantine').objectStore('quarantine').getAll();
+      all.onsuccess = () => {
+        request.result.close();
+        resolve(all.result);
+      };
+      all.onerror = () => reject(all.error);
+    };
+  });
+
+const readWebStorageQuarantine = (storage: Storage): unknown[] =>
+  Object.keys(storage)
+    .filter(key => key.startsWith('tickets_data_quarantine_'))
+    .map(key => JSON.parse(storage.getItem(key) ?? 'null'));
+
+let nextDb = 0;
+
+const adapters: {
+  name: string;
+  create: () => { store: TicketStore; quarantined: () => Promise<unknown[]> };
+}[] = [
+  {
+    name: 'sessionStorage',
+    create: () => ({
+      store: new WebStorageTicketStore(() => sessionStorage),
+      quarantined: async () => readWebStorageQuarantine(sessionStorage),
+    }),
+  },
+  {
+    name: 'localStorage',
+    create: () => ({
+      store: new WebStorageTicketStore(() => localStorage),
+      quarantined: async () => readWebStorageQuarantine(localStorage),
+    }),
+  },
+  {
+    name: 'IndexedDB',
+    create: () => {
+      const dbName = `helpdesk-test-${nextDb++}`;
+      return { store: new IndexedDbTicketStore(dbName), quarantined: () => readIndexedDbQuarantine(dbName) };
+    },
+  },
+  {
+    name: 'memory',
+    create: () => {
+      const store = new MemoryTicketStore();
+      return { store, quarantined: async () => store.quarantined };
+    },
+  },
+];
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  sessionStorage.clear();
+  localStorage.clear();
+});
+
+describe.each(adapters)('$name ticket store', ({ create }) => {
+  it('starts with the demo tickets when nothing is stored', async () => {
+    const { store } = create();
+    const model = await TicketsModel.loadFromStorage(store);
+
+    expect(model.getAllTickets().map(ticket => ticket.id)).toEqual(new TicketsModel().getAllTickets().map(ticket => ticket.id));
+  });
+
+  it('reads back what the model saved, at the current schema version', async () => {
+    const { store } = create();
+    const model = new TicketsModel();
+    model.createTicket({
+      title: 'Novo',
+      description: 'Criado no navegador',
+      category: 'other',
+      priority: 'low',
+      status: 'open',
+      author: 'Ana',
+    });
+    await model.syncToStorage(store);
+
+    expect(await store.load()).toMatchObject({ schemaVersion: SCHEMA_VERSION });
+    // IndexedDB hands tickets back in key order; the model sorts every list it returns
+    expect((await TicketsModel.loadFromStorage(store)).getAllTickets()).toEqual(model.getAllTickets());
+  });
+
+  it('migrates a payload saved by an older release', async () => {
+    const { store, quarantined } = create();
+    await plant(store, legacyPayload);
+
+    const model = await TicketsModel.loadFromStorage(store);
+
+    expect(model.getAllTickets()).toEqual([
+      expect.objectContaining({ id: 'ticket_legacy', comments: [], version: 1, events: [expect.objectContaining({ type: 'created' })] }),
+    ]);
+    expect(await quarantined()).toEqual([]);
+  });
+
+  it('quarantines a payload it cannot migrate and starts over', async () => {
+    const { store, quarantined } = create();
+    await plant(store, futurePayload);
+
+    const model = await TicketsModel.loadFromStorage(store);
+
+    expect(model.getAllTickets().length).toBeGreaterThan(0);
+    expect(await store.load()).toBeNull();
+    expect(await quarantined()).toEqual([
+      expect.objectContaining({
+        reason: `Payload schema v${SCHEMA_VERSION + 1} is newer than supported v${SCHEMA_VERSION}`,
+        payload: expect.objectContaining({ schemaVersion: SCHEMA_VERSION + 1 }),
+      }),
+    ]);
+  });
+});
+
+describe('sessionStorage ticket store', () => {
+  it('quarantines a payload that is not JSON', async () => {
+    sessionStorage.setItem('tickets_data', '{"tickets": [');
+    const store = new WebStorageTicketStore(() => sessionStorage);
+
+    await TicketsModel.loadFromStorage(store);
+
+    expect(sessionStorage.getItem('tickets_data')).toBeNull();
+    expect(readWebStorageQuarantine(sessionStorage)).toEqual([
+      expect.objectContaining({ payload: '{"tickets": [', reason: expect.stringContaining('JSON') }),
+    ]);
+  });
+});
+
+describe('HTTP ticket store', () => {
+  const serve = (overrides: Record<string, unknown> = {}) => {
+    const { agents, teams, slaPolicies, workflow } = new TicketsModel().getData();
+    const routes: Record<string, unknown> = {
+      '/api/directory': { agents, teams },
+      '/api/sla-policies': { slaPolicies },
+      '/api/workflow': { workflow },
+      '/api/views': { savedViews: [] },
+      ...overrides,
+    };
+    const fetch = vi.fn(async (url: string) => {
+      const body = routes[url.split('?')[0]];
+      return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  };
+
+  it('loads everything but the tickets through the migrations, leaving those to the views', async () => {
+    const fetch = serve();
+
+    const model = await TicketsModel.loadFromStorage(new HttpTicketStore());
+
+    expect(model.getAllTickets()).toEqual([]);
+    expect(model.getWorkflow()).toEqual(new TicketsModel().getWorkflow());
+    expect(fetch).not.toHaveBeenCalledWith(expect.stringMatching(/^\/api\/tickets/));
+  });
+
+  it('leaves quarantining to the server and starts over on a payload it cannot read', async () => {
+    serve({ '/api/workflow': { workflow: { initialStatus: 'open' } } });
+    const store = new HttpTicketStore();
+    const quarantine = vi.spyOn(store, 'quarantine');
+
+    const model = await TicketsModel.loadFromStorage(store);
+
+    expect(quarantine).toHaveBeenCalledWith(expect.anything(), 'Invalid payload: workflow has no status list');
+    expect(model.getAllTickets().length).toBeGreaterThan(0);
+  });
+
+  it('saves nothing, since the API persists each change', async () => {
+    const fetch = serve();
+    const store: TicketStore = new HttpTicketStore();
+    await store.save(toPersistedData(new TicketsModel().getData()));
+
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
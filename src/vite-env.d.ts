@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Client-side ticket persistence: 'session' (default), 'local', 'indexeddb', 'http' or 'memory' */
+  readonly VITE_TICKET_STORE?: import('./App').TicketStoreKind
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}